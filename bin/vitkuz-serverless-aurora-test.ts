@@ -1,10 +1,14 @@
 #!/usr/bin/env node
 import * as cdk from 'aws-cdk-lib';
+import { getStageConfig } from '../lib/config';
 import { VitkuzServerlessAuroraTestStack } from '../lib/vitkuz-serverless-aurora-test-stack';
 
 const app = new cdk.App();
-new VitkuzServerlessAuroraTestStack(app, 'VitkuzServerlessAuroraTestStack', {
 
-  env: { account: '582347504313', region: 'us-east-1' },
+// Select the stage with `cdk deploy -c stage=prod`; see lib/config/stages.ts
+const config = getStageConfig(app);
 
-});
\ No newline at end of file
+new VitkuzServerlessAuroraTestStack(app, config.stackName, {
+  env: config.env,
+  config,
+});
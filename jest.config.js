@@ -2,6 +2,11 @@ module.exports = {
   testEnvironment: 'node',
   roots: ['<rootDir>/test'],
   testMatch: ['**/*.test.ts'],
+  // Need PostgreSQL; run with npm run test:integration
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/test/integration/'],
+  moduleNameMapper: {
+    '^@utils/(.*)$': '<rootDir>/src/utils/$1'
+  },
   transform: {
     '^.+\\.tsx?$': 'ts-jest'
   }
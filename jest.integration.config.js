@@ -0,0 +1,11 @@
+const base = require('./jest.config');
+
+// Runs the tests in test/integration against a disposable PostgreSQL; see test/integration/support/global-setup.ts
+module.exports = {
+  ...base,
+  roots: ['<rootDir>/test/integration'],
+  testPathIgnorePatterns: ['/node_modules/'],
+  globalSetup: '<rootDir>/test/integration/support/global-setup.ts',
+  globalTeardown: '<rootDir>/test/integration/support/global-teardown.ts',
+  testTimeout: 30000
+};
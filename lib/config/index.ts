@@ -0,0 +1,71 @@
+import { Construct } from 'constructs';
+import { stages } from './stages';
+import { StageConfig, StageName } from './types';
+
+export * from './types';
+export { stages } from './stages';
+
+const isStageName = (stage: string): stage is StageName => Object.keys(stages).includes(stage);
+
+/**
+ * Rejects combinations that cannot work, such as functions outside the VPC of a private cluster.
+ */
+export const validateStageConfig = (config: StageConfig): StageConfig => {
+  const { stage, vpc, publicAccess, database, lambdaInVpc, monitoring, changeEvents } = config;
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid configuration for stage ${stage}: ${reason}`);
+  };
+
+  if (!lambdaInVpc && !publicAccess && !database.dataApi) {
+    fail('functions outside the VPC need the Data API or a publicly accessible cluster');
+  }
+  if (!publicAccess && vpc.type === 'default') {
+    fail('a private cluster needs the isolated subnets of a dedicated VPC');
+  }
+  if (lambdaInVpc && vpc.type === 'default') {
+    fail('functions in the VPC need the private isolated subnets of a dedicated VPC');
+  }
+  if (database.proxy && !lambdaInVpc) {
+    fail('the RDS Proxy is only reachable from functions in the VPC');
+  }
+  if (database.rotationDays !== undefined && vpc.type === 'default') {
+    fail('password rotation runs in the isolated subnets of a dedicated VPC');
+  }
+  if (database.minCapacity < 0 || database.maxCapacity < database.minCapacity) {
+    fail('ACU range must satisfy 0 <= minCapacity <= maxCapacity');
+  }
+  if (!Number.isInteger(database.readers) || database.readers < 0) {
+    fail('readers must be a non-negative integer');
+  }
+  if (database.backupRetentionDays < 1 || database.backupRetentionDays > 35) {
+    fail('backupRetentionDays must be between 1 and 35');
+  }
+  if (!Number.isInteger(monitoring.healthCheckMinutes) || monitoring.healthCheckMinutes < 1) {
+    fail('monitoring.healthCheckMinutes must be a positive integer');
+  }
+  if (!Number.isInteger(changeEvents.relayIntervalMinutes) || changeEvents.relayIntervalMinutes < 1) {
+    fail('changeEvents.relayIntervalMinutes must be a positive integer');
+  }
+
+  return config;
+};
+
+/**
+ * Resolves the stage selected with `-c stage=<name>` (dev by default). The `account` and `region`
+ * context values override the stage's environment.
+ */
+export const getStageConfig = (scope: Construct): StageConfig => {
+  const stage = scope.node.tryGetContext('stage') ?? 'dev';
+  if (!isStageName(stage)) {
+    throw new Error(`Unknown stage "${stage}", expected one of: ${Object.keys(stages).join(', ')}`);
+  }
+
+  const config = stages[stage];
+  return validateStageConfig({
+    ...config,
+    env: {
+      account: scope.node.tryGetContext('account') ?? config.env.account ?? process.env.CDK_DEFAULT_ACCOUNT,
+      region: scope.node.tryGetContext('region') ?? config.env.region ?? process.env.CDK_DEFAULT_REGION,
+    },
+  });
+};
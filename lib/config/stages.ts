@@ -0,0 +1,68 @@
+import * as cdk from 'aws-cdk-lib';
+import { StageConfig, StageName } from './types';
+
+export const stages: Record<StageName, StageConfig> = {
+  dev: {
+    stage: 'dev',
+    stackName: 'VitkuzServerlessAuroraTestStack',
+    env: { account: '582347504313', region: 'us-east-1' },
+    vpc: { type: 'default' },
+    publicAccess: true,
+    database: {
+      minCapacity: 0.5,
+      maxCapacity: 2,
+      readers: 0,
+      backupRetentionDays: 1,
+      deletionProtection: false,
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      dataApi: false,
+      proxy: false,
+    },
+    lambdaInVpc: false,
+    monitoring: { healthCheckMinutes: 15 },
+    changeEvents: { relayIntervalMinutes: 5 },
+  },
+  staging: {
+    stage: 'staging',
+    stackName: 'VitkuzServerlessAuroraTestStack-staging',
+    env: {},
+    vpc: { type: 'dedicated', maxAzs: 2 },
+    publicAccess: false,
+    database: {
+      minCapacity: 0.5,
+      maxCapacity: 4,
+      readers: 0,
+      backupRetentionDays: 7,
+      deletionProtection: false,
+      removalPolicy: cdk.RemovalPolicy.SNAPSHOT,
+      rotationDays: 30,
+      dataApi: true,
+      proxy: false,
+    },
+    // Functions query through the Data API, so they need no VPC access
+    lambdaInVpc: false,
+    monitoring: { healthCheckMinutes: 5 },
+    changeEvents: { relayIntervalMinutes: 1 },
+  },
+  prod: {
+    stage: 'prod',
+    stackName: 'VitkuzServerlessAuroraTestStack-prod',
+    env: {},
+    vpc: { type: 'dedicated', maxAzs: 3 },
+    publicAccess: false,
+    database: {
+      minCapacity: 0.5,
+      maxCapacity: 16,
+      readers: 1,
+      backupRetentionDays: 30,
+      deletionProtection: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+      rotationDays: 30,
+      dataApi: false,
+      proxy: true,
+    },
+    lambdaInVpc: true,
+    monitoring: { healthCheckMinutes: 1 },
+    changeEvents: { relayIntervalMinutes: 1 },
+  },
+};
@@ -0,0 +1,57 @@
+import * as cdk from 'aws-cdk-lib';
+
+export type StageName = 'dev' | 'staging' | 'prod';
+
+export interface VpcConfig {
+  // 'default' looks up the account's default VPC; 'dedicated' creates a VPC with private isolated subnets
+  type: 'default' | 'dedicated';
+  // Availability zones of a dedicated VPC
+  maxAzs?: number;
+}
+
+export interface DatabaseConfig {
+  // Aurora Capacity Units of each Serverless v2 instance
+  minCapacity: number;
+  maxCapacity: number;
+  readers: number;
+  backupRetentionDays: number;
+  deletionProtection: boolean;
+  removalPolicy: cdk.RemovalPolicy;
+  // Rotates the password every `rotationDays` when set
+  rotationDays?: number;
+  // Enables the RDS Data API; functions outside the VPC then query over HTTPS instead of port 5432
+  dataApi: boolean;
+  // Functions connect through an RDS Proxy, which requires them to run in the VPC
+  proxy: boolean;
+}
+
+export interface MonitoringConfig {
+  // Interval of the scheduled database diagnostics the alarms and dashboard are built on
+  healthCheckMinutes: number;
+  // Receives the database alarms when set
+  alarmEmail?: string;
+}
+
+export interface ChangeEventsConfig {
+  // Interval of the relay publishing the outbox to the event bus
+  relayIntervalMinutes: number;
+}
+
+/**
+ * Everything that differs between deployments of the stack.
+ */
+export interface StageConfig {
+  stage: StageName;
+  stackName: string;
+  // Unset values fall back to the CLI's default account and region
+  env: cdk.Environment;
+  vpc: VpcConfig;
+  // Places the cluster in public subnets and accepts PostgreSQL connections from anywhere
+  publicAccess: boolean;
+  database: DatabaseConfig;
+  // Runs the functions in the VPC's isolated subnets; otherwise they use the Data API when enabled,
+  // or the cluster's public endpoint
+  lambdaInVpc: boolean;
+  monitoring: MonitoringConfig;
+  changeEvents: ChangeEventsConfig;
+}
@@ -0,0 +1,223 @@
+import * as cdk from 'aws-cdk-lib';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as rds from 'aws-cdk-lib/aws-rds';
+import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import { Construct } from 'constructs';
+
+// Characters that break connection strings or the secret's JSON
+const EXCLUDED_PASSWORD_CHARACTERS = '/@"\'\\';
+
+// Read by `connectionOptionsFromEnv` in src/db/connection.ts as DB_BACKEND
+export type DatabaseBackend = 'pg' | 'data-api';
+
+export interface AuroraServerlessDatabaseProps {
+  vpc: ec2.IVpc;
+  // Subnets of the cluster; public subnets when publicly accessible, private isolated ones otherwise
+  vpcSubnets?: ec2.SubnetSelection;
+  // Accepts PostgreSQL connections from anywhere on instances with public addresses
+  publiclyAccessible?: boolean;
+  engineVersion?: rds.AuroraPostgresEngineVersion;
+  defaultDatabaseName?: string;
+  username?: string;
+  // Aurora Capacity Units of each Serverless v2 instance
+  minCapacity?: number;
+  maxCapacity?: number;
+  readers?: number;
+  backupRetention?: cdk.Duration;
+  deletionProtection?: boolean;
+  removalPolicy?: cdk.RemovalPolicy;
+  // Rotates the password on this schedule; the rotation function runs in `clientSubnets`
+  rotation?: cdk.Duration;
+  enableDataApi?: boolean;
+  // Puts an RDS Proxy in front of the cluster; functions then connect through it from the VPC
+  enableProxy?: boolean;
+  // Subnets functions are placed in by `lambdaNetworking`, default private isolated
+  clientSubnets?: ec2.SubnetSelection;
+  // Adds a Secrets Manager interface endpoint for clients without internet access
+  secretsManagerEndpoint?: boolean;
+}
+
+/**
+ * An Aurora Serverless v2 PostgreSQL cluster with its generated credentials secret, optional password
+ * rotation, Data API and RDS Proxy, and the wiring Lambda functions need to connect to it.
+ *
+ * Functions that connect over TCP from the VPC should be created with `lambdaNetworking`,
+ * then passed to `grantConnect`. With the Data API enabled, functions outside the VPC use it instead of TCP.
+ */
+export class AuroraServerlessDatabase extends Construct {
+  public readonly cluster: rds.DatabaseCluster;
+  public readonly secret: secretsmanager.ISecret;
+  public readonly securityGroup: ec2.SecurityGroup;
+  // Shared by every function placed with `lambdaNetworking`
+  public readonly clientSecurityGroup: ec2.SecurityGroup;
+  public readonly proxy?: rds.DatabaseProxy;
+  public readonly dataApiEnabled: boolean;
+
+  private readonly vpc: ec2.IVpc;
+  private readonly clientSubnets: ec2.SubnetSelection;
+  private readonly publiclyAccessible: boolean;
+  private readonly databaseName: string;
+
+  constructor(scope: Construct, id: string, props: AuroraServerlessDatabaseProps) {
+    super(scope, id);
+
+    this.vpc = props.vpc;
+    this.publiclyAccessible = props.publiclyAccessible ?? false;
+    this.dataApiEnabled = props.enableDataApi ?? false;
+    this.databaseName = props.defaultDatabaseName ?? 'postgres';
+    this.clientSubnets = props.clientSubnets ?? { subnetType: ec2.SubnetType.PRIVATE_ISOLATED };
+
+    this.securityGroup = new ec2.SecurityGroup(this, 'SecurityGroup', {
+      vpc: props.vpc,
+      description: this.publiclyAccessible ? 'Allow public access to PostgreSQL' : 'Aurora PostgreSQL cluster',
+      allowAllOutbound: true,
+    });
+    if (this.publiclyAccessible) {
+      this.securityGroup.addIngressRule(ec2.Peer.anyIpv4(), ec2.Port.tcp(5432), 'Allow public access to PostgreSQL');
+    }
+
+    this.clientSecurityGroup = new ec2.SecurityGroup(this, 'ClientSecurityGroup', {
+      vpc: props.vpc,
+      description: 'Functions connecting to the Aurora PostgreSQL cluster',
+      allowAllOutbound: true,
+    });
+
+    const secret = new secretsmanager.Secret(this, 'Secret', {
+      generateSecretString: {
+        secretStringTemplate: JSON.stringify({ username: props.username ?? 'postgres' }),
+        generateStringKey: 'password',
+        excludeCharacters: EXCLUDED_PASSWORD_CHARACTERS,
+      },
+    });
+
+    const readers = props.readers ?? 0;
+    this.cluster = new rds.DatabaseCluster(this, 'Cluster', {
+      engine: rds.DatabaseClusterEngine.auroraPostgres({
+        version: props.engineVersion ?? rds.AuroraPostgresEngineVersion.VER_16_2,
+      }),
+      vpc: props.vpc,
+      vpcSubnets: props.vpcSubnets ?? {
+        subnetType: this.publiclyAccessible ? ec2.SubnetType.PUBLIC : ec2.SubnetType.PRIVATE_ISOLATED,
+      },
+      securityGroups: [this.securityGroup],
+      writer: rds.ClusterInstance.serverlessV2('WriterInstance', {
+        publiclyAccessible: this.publiclyAccessible,
+      }),
+      // The first reader scales with the writer so it can take over after a failover
+      readers: Array.from({ length: readers }, (_, index) =>
+        rds.ClusterInstance.serverlessV2(`ReaderInstance${index + 1}`, {
+          publiclyAccessible: this.publiclyAccessible,
+          scaleWithWriter: index === 0,
+        }),
+      ),
+      serverlessV2MinCapacity: props.minCapacity ?? 0.5,
+      serverlessV2MaxCapacity: props.maxCapacity ?? 2,
+      backup: props.backupRetention ? { retention: props.backupRetention } : undefined,
+      deletionProtection: props.deletionProtection,
+      enableDataApi: this.dataApiEnabled,
+      credentials: rds.Credentials.fromSecret(secret),
+      defaultDatabaseName: this.databaseName,
+      removalPolicy: props.removalPolicy ?? cdk.RemovalPolicy.SNAPSHOT,
+    });
+    // The attached secret also carries the cluster's host, port and database name
+    this.secret = this.cluster.secret ?? secret;
+
+    const endpoint = props.secretsManagerEndpoint
+      ? props.vpc.addInterfaceEndpoint('SecretsManagerEndpoint', {
+          service: ec2.InterfaceVpcEndpointAwsService.SECRETS_MANAGER,
+          subnets: this.clientSubnets,
+        })
+      : undefined;
+
+    if (props.rotation) {
+      this.cluster.addRotationSingleUser({
+        automaticallyAfter: props.rotation,
+        excludeCharacters: EXCLUDED_PASSWORD_CHARACTERS,
+        vpcSubnets: this.clientSubnets,
+        securityGroup: this.clientSecurityGroup,
+        endpoint,
+      });
+    }
+
+    if (props.enableProxy) {
+      this.proxy = this.cluster.addProxy('Proxy', {
+        secrets: [this.secret],
+        vpc: props.vpc,
+        vpcSubnets: this.clientSubnets,
+        requireTLS: true,
+      });
+      this.cluster.connections.allowDefaultPortFrom(this.proxy, 'Allow PostgreSQL from the RDS Proxy');
+    }
+  }
+
+  /**
+   * Host functions connect to: the proxy when there is one, the cluster's writer otherwise.
+   */
+  public get endpoint(): string {
+    return this.proxy ? this.proxy.endpoint : this.cluster.clusterEndpoint.hostname;
+  }
+
+  /**
+   * VPC placement for functions that connect from inside the VPC; spread into the function's props.
+   */
+  public get lambdaNetworking(): Pick<lambda.FunctionOptions, 'vpc' | 'vpcSubnets' | 'securityGroups'> {
+    return { vpc: this.vpc, vpcSubnets: this.clientSubnets, securityGroups: [this.clientSecurityGroup] };
+  }
+
+  /**
+   * Backend a function uses: TCP from the VPC or to a public cluster, the Data API from outside the VPC.
+   */
+  public backendFor(fn: lambda.Function): DatabaseBackend {
+    return !fn.isBoundToVpc && this.dataApiEnabled ? 'data-api' : 'pg';
+  }
+
+  /**
+   * Environment read by `connectionOptionsFromEnv` in src/db/connection.ts.
+   */
+  public connectionEnvironment(backend: DatabaseBackend = 'pg'): Record<string, string> {
+    const common = {
+      DB_BACKEND: backend,
+      DB_SECRET_ARN: this.secret.secretArn,
+      DB_NAME: this.databaseName,
+    };
+    if (backend === 'data-api') {
+      return { ...common, DB_CLUSTER_ARN: this.cluster.clusterArn };
+    }
+
+    return {
+      ...common,
+      DB_HOST: this.endpoint,
+      // Verified against the RDS CA bundled with the Lambda runtime; the proxy presents an ACM certificate
+      // trusted by the default store instead
+      DB_SSL_MODE: 'verify-full',
+      ...(this.proxy ? { DB_SSL_CA_PATH: '' } : {}),
+    };
+  }
+
+  /**
+   * Lets `fn` connect: sets the connection environment and grants reading the secret. Functions using the
+   * Data API are granted access to it; functions in the VPC get the cluster or proxy port opened to them.
+   */
+  public grantConnect(fn: lambda.Function): void {
+    const inVpc = fn.isBoundToVpc;
+    if (this.proxy && !inVpc) {
+      throw new Error(`${fn.node.path} must run in the VPC to connect through the RDS Proxy`);
+    }
+    if (!inVpc && !this.publiclyAccessible && !this.dataApiEnabled) {
+      throw new Error(`${fn.node.path} runs outside the VPC and cannot reach a private cluster without the Data API`);
+    }
+
+    const backend = this.backendFor(fn);
+    Object.entries(this.connectionEnvironment(backend)).forEach(([key, value]) => fn.addEnvironment(key, value));
+    this.secret.grantRead(fn);
+
+    if (backend === 'data-api') {
+      this.cluster.grantDataApiAccess(fn);
+    } else if (inVpc && this.proxy) {
+      this.proxy.connections.allowFrom(fn, ec2.Port.tcp(5432), 'Allow PostgreSQL from the functions');
+    } else if (inVpc) {
+      this.cluster.connections.allowDefaultPortFrom(fn, 'Allow PostgreSQL from the functions');
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cloudwatchActions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import { Construct } from 'constructs';
+
+export interface ChangeEventsProps {
+  // Runs src/functions/outbox-relay, which publishes the outbox to the bus
+  relayFunction: lambda.Function;
+  // How often the relay runs, i.e. the longest delay of an event on a quiet database
+  relayInterval?: cdk.Duration;
+  // Source of the published events, default `<stack name>.metadata`
+  source?: string;
+  // Namespace of the relay's embedded metrics, default `<stack name>/ChangeEvents`
+  metricsNamespace?: string;
+  // Notified when events are stuck in the outbox
+  alarmTopic?: sns.ITopic;
+  // Age of the oldest pending event that raises the backlog alarm, default 15 minutes
+  backlogAgeThreshold?: cdk.Duration;
+  // A relay in isolated subnets reaches EventBridge through an endpoint in these subnets
+  vpcEndpoint?: { vpc: ec2.IVpc; subnets?: ec2.SubnetSelection };
+}
+
+/**
+ * The event bus metadata change events are published to, and the scheduled relay that moves them there from the
+ * database's outbox. Consumers subscribe with rules on the bus, matching the event type in `detail-type`.
+ */
+export class ChangeEvents extends Construct {
+  public readonly eventBus: events.EventBus;
+  public readonly source: string;
+  public readonly alarms: cloudwatch.Alarm[];
+
+  constructor(scope: Construct, id: string, props: ChangeEventsProps) {
+    super(scope, id);
+
+    const { relayFunction: fn } = props;
+    const stackName = cdk.Stack.of(this).stackName;
+    const namespace = props.metricsNamespace ?? `${stackName}/ChangeEvents`;
+    const period = props.relayInterval ?? cdk.Duration.minutes(1);
+    this.source = props.source ?? `${stackName}.metadata`;
+
+    this.eventBus = new events.EventBus(this, 'EventBus', { eventBusName: `${stackName}-changes` });
+    this.eventBus.grantPutEventsTo(fn);
+    fn.addEnvironment('EVENT_BUS_NAME', this.eventBus.eventBusName);
+    fn.addEnvironment('EVENT_SOURCE', this.source);
+    fn.addEnvironment('METRICS_NAMESPACE', namespace);
+
+    if (props.vpcEndpoint) {
+      props.vpcEndpoint.vpc.addInterfaceEndpoint('EventBridgeEndpoint', {
+        service: ec2.InterfaceVpcEndpointAwsService.EVENTBRIDGE,
+        subnets: props.vpcEndpoint.subnets,
+      });
+    }
+
+    new events.Rule(this, 'RelaySchedule', {
+      description: 'Publishes pending change events',
+      schedule: events.Schedule.rate(period),
+      targets: [new targets.LambdaFunction(fn)],
+    });
+
+    const metric = (metricName: string, label: string) =>
+      new cloudwatch.Metric({ namespace, metricName, label, period, statistic: cloudwatch.Stats.MAXIMUM });
+
+    this.alarms = [
+      metric('OldestPendingSeconds', 'Oldest pending event (s)').createAlarm(this, 'BacklogAgeAlarm', {
+        alarmDescription: 'Change events are not being published',
+        threshold: (props.backlogAgeThreshold ?? cdk.Duration.minutes(15)).toSeconds(),
+        evaluationPeriods: 3,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.BREACHING,
+      }),
+      metric('Abandoned', 'Abandoned events').createAlarm(this, 'AbandonedEventsAlarm', {
+        alarmDescription: 'Change events failed too often and are no longer retried',
+        threshold: 1,
+        evaluationPeriods: 1,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      }),
+    ];
+
+    if (props.alarmTopic) {
+      for (const alarm of this.alarms) {
+        alarm.addAlarmAction(new cloudwatchActions.SnsAction(props.alarmTopic));
+        alarm.addOkAction(new cloudwatchActions.SnsAction(props.alarmTopic));
+      }
+    }
+  }
+}
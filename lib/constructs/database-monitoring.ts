@@ -0,0 +1,183 @@
+import * as cdk from 'aws-cdk-lib';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cloudwatchActions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as targets from 'aws-cdk-lib/aws-events-targets';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as subscriptions from 'aws-cdk-lib/aws-sns-subscriptions';
+import { Construct } from 'constructs';
+import { AuroraServerlessDatabase } from './aurora-serverless-database';
+
+export interface DatabaseMonitoringProps {
+  database: AuroraServerlessDatabase;
+  // Runs src/functions/diagnostics, which logs its report with embedded metrics
+  diagnosticsFunction: lambda.Function;
+  // Namespace of the embedded metrics, default `<stack name>/Database`
+  metricsNamespace?: string;
+  // How often the diagnostics run; the alarms evaluate one report per interval
+  healthCheckInterval?: cdk.Duration;
+  // Subscribed to the alarm topic when set
+  alarmEmail?: string;
+  connectLatencyThreshold?: cdk.Duration;
+  // Percent of max_connections
+  connectionUsageThreshold?: number;
+  // Percent of the cluster's CPU and of its maximum capacity
+  cpuThreshold?: number;
+  capacityThreshold?: number;
+}
+
+/**
+ * Runs the diagnostics function on a schedule and turns its metrics, with the cluster's own, into alarms that
+ * notify an SNS topic and a dashboard showing the database's health at a glance.
+ */
+export class DatabaseMonitoring extends Construct {
+  public readonly alarmTopic: sns.Topic;
+  public readonly alarms: cloudwatch.Alarm[];
+  public readonly dashboard: cloudwatch.Dashboard;
+
+  constructor(scope: Construct, id: string, props: DatabaseMonitoringProps) {
+    super(scope, id);
+
+    const { database, diagnosticsFunction: fn } = props;
+    const stackName = cdk.Stack.of(this).stackName;
+    const namespace = props.metricsNamespace ?? `${stackName}/Database`;
+    const period = props.healthCheckInterval ?? cdk.Duration.minutes(5);
+
+    fn.addEnvironment('METRICS_NAMESPACE', namespace);
+    new events.Rule(this, 'HealthCheckSchedule', {
+      description: 'Runs the database diagnostics',
+      schedule: events.Schedule.rate(period),
+      targets: [new targets.LambdaFunction(fn)],
+    });
+
+    this.alarmTopic = new sns.Topic(this, 'AlarmTopic', { displayName: `${stackName} database alarms` });
+    if (props.alarmEmail) {
+      this.alarmTopic.addSubscription(new subscriptions.EmailSubscription(props.alarmEmail));
+    }
+
+    // One data point per health check, so the maximum is the reported value
+    const metric = (metricName: string, label: string) =>
+      new cloudwatch.Metric({ namespace, metricName, label, period, statistic: cloudwatch.Stats.MAXIMUM });
+    const clusterMetric = (metricName: string, label: string) =>
+      database.cluster.metric(metricName, { label, period, statistic: cloudwatch.Stats.MAXIMUM });
+
+    const healthCheckFailed = metric('HealthCheckFailed', 'Failed checks');
+    const connectMs = metric('ConnectMs', 'Connect (ms)');
+    const latencyMs = metric('LatencyMs', 'Round trip (ms)');
+    const resumeMs = metric('ResumeMs', 'Resume (ms)');
+    const migrationIssues = metric('MigrationIssues', 'Migration issues');
+    const connections = metric('Connections', 'Connections');
+    const connectionUsage = metric('ConnectionUsage', 'Connection usage (%)');
+    const cacheHitRatio = metric('CacheHitRatio', 'Cache hit ratio (%)');
+    const deadlocks = metric('Deadlocks', 'Deadlocks');
+    const cpu = clusterMetric('CPUUtilization', 'CPU (%)');
+    const capacity = clusterMetric('ServerlessDatabaseCapacity', 'Capacity (ACU)');
+    const capacityUsage = clusterMetric('ACUUtilization', 'Capacity usage (%)');
+
+    const alarm = (
+      alarmId: string,
+      description: string,
+      metricToWatch: cloudwatch.Metric,
+      threshold: number,
+      options: Partial<cloudwatch.CreateAlarmOptions> = {},
+    ) => {
+      const created = metricToWatch.createAlarm(this, alarmId, {
+        alarmDescription: description,
+        threshold,
+        evaluationPeriods: 3,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+        ...options,
+      });
+      created.addAlarmAction(new cloudwatchActions.SnsAction(this.alarmTopic));
+      created.addOkAction(new cloudwatchActions.SnsAction(this.alarmTopic));
+
+      return created;
+    };
+
+    this.alarms = [
+      // A missing report means the check itself could not run
+      alarm(
+        'HealthCheckFailedAlarm',
+        'The database is unreachable or the health check did not run',
+        healthCheckFailed,
+        1,
+        {
+          evaluationPeriods: 2,
+          treatMissingData: cloudwatch.TreatMissingData.BREACHING,
+        },
+      ),
+      alarm(
+        'ConnectLatencyAlarm',
+        'Connecting to the database is slow',
+        connectMs,
+        (props.connectLatencyThreshold ?? cdk.Duration.seconds(5)).toMilliseconds(),
+      ),
+      alarm(
+        'MigrationIssuesAlarm',
+        'Migrations are pending, changed or unknown to the deployed code',
+        migrationIssues,
+        1,
+      ),
+      alarm(
+        'ConnectionUsageAlarm',
+        'Connections are close to max_connections',
+        connectionUsage,
+        props.connectionUsageThreshold ?? 80,
+      ),
+      alarm('CpuAlarm', 'The cluster CPU is saturated', cpu, props.cpuThreshold ?? 80),
+      alarm(
+        'CapacityAlarm',
+        'The cluster runs close to its maximum capacity',
+        capacityUsage,
+        props.capacityThreshold ?? 90,
+      ),
+      alarm('DiagnosticsErrorsAlarm', 'The diagnostics function crashed or timed out', fn.metricErrors({ period }), 1, {
+        evaluationPeriods: 1,
+      }),
+    ];
+
+    this.dashboard = new cloudwatch.Dashboard(this, 'Dashboard', {
+      dashboardName: `${stackName}-Database`,
+      defaultInterval: cdk.Duration.hours(6),
+    });
+    this.dashboard.addWidgets(
+      new cloudwatch.AlarmStatusWidget({ title: 'Alarms', alarms: this.alarms, width: 12, height: 6 }),
+      new cloudwatch.SingleValueWidget({
+        title: 'Latest check',
+        metrics: [connectMs, latencyMs, connectionUsage, migrationIssues],
+        width: 12,
+        height: 6,
+      }),
+    );
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({ title: 'Latency', left: [connectMs, latencyMs, resumeMs], width: 8 }),
+      new cloudwatch.GraphWidget({
+        title: 'Connections',
+        left: [connections],
+        right: [connectionUsage],
+        width: 8,
+      }),
+      new cloudwatch.GraphWidget({ title: 'Cache and locks', left: [cacheHitRatio], right: [deadlocks], width: 8 }),
+    );
+    this.dashboard.addWidgets(
+      new cloudwatch.GraphWidget({ title: 'Capacity', left: [capacity], right: [capacityUsage], width: 12 }),
+      new cloudwatch.GraphWidget({ title: 'CPU', left: [cpu], width: 12 }),
+    );
+    this.dashboard.addWidgets(
+      new cloudwatch.LogQueryWidget({
+        title: 'Recent reports',
+        // fn.logGroup would add a log retention custom resource to functions configured with logRetention
+        logGroupNames: [`/aws/lambda/${fn.functionName}`],
+        queryLines: [
+          'fields @timestamp, report.status, report.issues.0, report.connectivity.connectMs, error.message',
+          "filter message like 'Database diagnostics'",
+          'sort @timestamp desc',
+          'limit 20',
+        ],
+        width: 24,
+      }),
+    );
+  }
+}
@@ -0,0 +1,3 @@
+export * from './aurora-serverless-database';
+export * from './database-monitoring';
+export * from './change-events';
@@ -1,100 +1,267 @@
 import * as cdk from 'aws-cdk-lib';
-import * as rds from 'aws-cdk-lib/aws-rds';
 import * as ec2 from 'aws-cdk-lib/aws-ec2';
-import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
+import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as cognito from 'aws-cdk-lib/aws-cognito';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
+import * as nodejs from 'aws-cdk-lib/aws-lambda-nodejs';
 import { Construct } from 'constructs';
+import { StageConfig } from './config';
+import { AuroraServerlessDatabase, ChangeEvents, DatabaseMonitoring } from './constructs';
+
+export interface VitkuzServerlessAuroraTestStackProps extends cdk.StackProps {
+  config: StageConfig;
+}
 
 export class VitkuzServerlessAuroraTestStack extends cdk.Stack {
-  constructor(scope: Construct, id: string, props?: cdk.StackProps) {
+  constructor(scope: Construct, id: string, props: VitkuzServerlessAuroraTestStackProps) {
     super(scope, id, props);
 
-    // Create Lambda layer
-    const layer = new lambda.LayerVersion(this, 'ReplicateLayer', {
-      code: lambda.Code.fromAsset('./scripts/lambda-layer.zip'),
-      compatibleRuntimes: [lambda.Runtime.NODEJS_20_X],
-      description: 'Dependencies',
-    });
+    const { config } = props;
 
-    // Retrieve the default VPC
-    const vpc = ec2.Vpc.fromLookup(this, 'DefaultVPC', { isDefault: true });
+    // Either the account's default VPC or a dedicated one without internet access
+    const vpc =
+      config.vpc.type === 'default'
+        ? ec2.Vpc.fromLookup(this, 'DefaultVPC', { isDefault: true })
+        : new ec2.Vpc(this, 'Vpc', {
+            maxAzs: config.vpc.maxAzs,
+            natGateways: 0,
+            subnetConfiguration: [
+              { name: 'Isolated', subnetType: ec2.SubnetType.PRIVATE_ISOLATED, cidrMask: 24 },
+              ...(config.publicAccess ? [{ name: 'Public', subnetType: ec2.SubnetType.PUBLIC, cidrMask: 24 }] : []),
+            ],
+          });
 
-    // Create a Security Group allowing public access on port 5432
-    const securityGroup = new ec2.SecurityGroup(this, 'PublicSG', {
+    // Cluster, credentials and the networking functions need to reach them
+    const database = new AuroraServerlessDatabase(this, 'Database', {
       vpc,
-      description: 'Allow public access to PostgreSQL',
-      allowAllOutbound: true,
+      publiclyAccessible: config.publicAccess,
+      defaultDatabaseName: 'devdb',
+      minCapacity: config.database.minCapacity,
+      maxCapacity: config.database.maxCapacity,
+      readers: config.database.readers,
+      backupRetention: cdk.Duration.days(config.database.backupRetentionDays),
+      deletionProtection: config.database.deletionProtection,
+      removalPolicy: config.database.removalPolicy,
+      rotation: config.database.rotationDays ? cdk.Duration.days(config.database.rotationDays) : undefined,
+      enableDataApi: config.database.dataApi,
+      enableProxy: config.database.proxy,
+      // Functions and the rotation function in isolated subnets reach Secrets Manager through an endpoint
+      secretsManagerEndpoint: config.lambdaInVpc || config.database.rotationDays !== undefined,
     });
 
-    securityGroup.addIngressRule(
-        ec2.Peer.anyIpv4(),
-        ec2.Port.tcp(5432),
-        'Allow public access to PostgreSQL'
-    );
+    const lambdaNetworking = config.lambdaInVpc ? database.lambdaNetworking : {};
+
+    const bundling: nodejs.BundlingOptions = {
+      externalModules: ['@aws-sdk/*', 'pg-native'],
+    };
 
-    // Store database credentials securely in Secrets Manager
-    const dbSecret = new secretsmanager.Secret(this, 'DBSecret', {
-      generateSecretString: {
-        secretStringTemplate: JSON.stringify({ username: 'postgres' }),
-        generateStringKey: 'password',
-        excludeCharacters: '/@"\'\\',
+    // Database diagnostics, bundled with its dependencies and the shared src/ modules
+    const dbLambda = new nodejs.NodejsFunction(this, 'DBLambdaFunction', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: 'src/functions/diagnostics/index.ts',
+      handler: 'handler',
+      bundling,
+      ...lambdaNetworking,
+      timeout: cdk.Duration.seconds(900),
+      environment: {
+        DEPLOY_TIME: `${Date.now()}`,
       },
     });
 
-    // Create Aurora Serverless v2 PostgreSQL cluster
-    const cluster = new rds.DatabaseCluster(this, 'AuroraCluster', {
-      engine: rds.DatabaseClusterEngine.auroraPostgres({
-        version: rds.AuroraPostgresEngineVersion.VER_16_2,
-      }),
-      vpc,
-      vpcSubnets: { subnetType: ec2.SubnetType.PUBLIC }, // ✅ Allow public subnets (DEV ONLY)
-      securityGroups: [securityGroup], // Assign security group at the cluster level
-      writer: rds.ClusterInstance.serverlessV2('WriterInstance', {
-        publiclyAccessible: true,
-      }),
-      credentials: rds.Credentials.fromSecret(dbSecret),
-      defaultDatabaseName: 'devdb',
-      removalPolicy: cdk.RemovalPolicy.DESTROY, // Auto delete for development
+    // Connection environment, secret access and cluster ingress or Data API access
+    database.grantConnect(dbLambda);
+
+    // Scheduled diagnostics feeding the alarms and the dashboard
+    const monitoring = new DatabaseMonitoring(this, 'DatabaseMonitoring', {
+      database,
+      diagnosticsFunction: dbLambda,
+      healthCheckInterval: cdk.Duration.minutes(config.monitoring.healthCheckMinutes),
+      alarmEmail: config.monitoring.alarmEmail,
     });
 
-    // Create a Security Group for the Lambda Function
-    const lambdaSecurityGroup = new ec2.SecurityGroup(this, 'LambdaSecurityGroup', {
-      vpc,
-      description: 'Security group for Lambda function',
-      allowAllOutbound: true,
+    // Relay of the change events the metadata tables write to the outbox
+    const outboxRelayFunction = new nodejs.NodejsFunction(this, 'OutboxRelayFunction', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      entry: 'src/functions/outbox-relay/index.ts',
+      handler: 'handler',
+      bundling,
+      ...lambdaNetworking,
+      timeout: cdk.Duration.seconds(60),
+    });
+    database.grantConnect(outboxRelayFunction);
+
+    const changeEvents = new ChangeEvents(this, 'ChangeEvents', {
+      relayFunction: outboxRelayFunction,
+      relayInterval: cdk.Duration.minutes(config.changeEvents.relayIntervalMinutes),
+      alarmTopic: monitoring.alarmTopic,
+      vpcEndpoint: config.lambdaInVpc ? { vpc, subnets: database.lambdaNetworking.vpcSubnets } : undefined,
     });
 
-    // Define the Lambda function
-    const dbLambda = new lambda.Function(this, 'DBLambdaFunction', {
+    // Metadata CRUD API: one function per resource, each routing to its APIGatewayBaseHandler subclasses
+    const createApiFunction = (id: string, entry: string) => {
+      const fn = new nodejs.NodejsFunction(this, id, {
+        runtime: lambda.Runtime.NODEJS_20_X,
+        entry,
+        handler: 'handler',
+        bundling,
+        ...lambdaNetworking,
+        timeout: cdk.Duration.seconds(29), // API Gateway integration timeout
+      });
+      database.grantConnect(fn);
+
+      return new apigateway.LambdaIntegration(fn);
+    };
+
+    const categoriesIntegration = createApiFunction('CategoriesFunction', 'src/functions/categories/index.ts');
+    const fieldsIntegration = createApiFunction('FieldsFunction', 'src/functions/fields/index.ts');
+    const domainValuesIntegration = createApiFunction('DomainValuesFunction', 'src/functions/domain-values/index.ts');
+    const conditionsIntegration = createApiFunction('ConditionsFunction', 'src/functions/conditions/index.ts');
+    const tabularGroupsIntegration = createApiFunction('TabularGroupsFunction', 'src/functions/tabular-groups/index.ts');
+    const modelsIntegration = createApiFunction('ModelsFunction', 'src/functions/models/index.ts');
+    const searchIntegration = createApiFunction('SearchFunction', 'src/functions/search/index.ts');
+    const metadataIntegration = createApiFunction('MetadataFunction', 'src/functions/metadata/index.ts');
+
+    // Cognito triggers: sign-up validation, user and tenant rows, and role claims in the ID token
+    const authTriggersFunction = new nodejs.NodejsFunction(this, 'AuthTriggersFunction', {
       runtime: lambda.Runtime.NODEJS_20_X,
-      code: lambda.Code.fromAsset('lambda'), // Ensure your Lambda code is located in the 'lambda' directory
-      handler: 'index.handler',
-      layers: [layer],
-      // vpc,
-      // allowPublicSubnet: true, // ✅ Allow Lambda to access public subnets (DEV ONLY)
-      timeout: cdk.Duration.seconds(900),
-      // securityGroups: [lambdaSecurityGroup],
+      entry: 'src/functions/auth/index.ts',
+      handler: 'handler',
+      bundling,
+      ...lambdaNetworking,
+      timeout: cdk.Duration.seconds(5), // Cognito gives up on a trigger after 5 seconds
       environment: {
-        DB_SECRET_ARN: dbSecret.secretArn,
-        DB_HOST: cluster.clusterEndpoint.hostname,
-        DEPLOY_TIME: `${Date.now()}`,
+        // Two connection attempts with the backoff between them take at most 3.5 seconds
+        DB_CONNECT_TIMEOUT_MS: '1500',
+        DB_CONNECT_RETRIES: '1',
       },
     });
+    database.grantConnect(authTriggersFunction);
 
-    // Grant the Lambda function permissions to read the secret
-    dbSecret.grantRead(dbLambda);
+    const userPool = new cognito.UserPool(this, 'UserPool', {
+      selfSignUpEnabled: true,
+      signInAliases: { email: true },
+      autoVerify: { email: true },
+      customAttributes: {
+        // Name of the tenant created for the user
+        organization: new cognito.StringAttribute({ minLen: 1, maxLen: 100, mutable: false }),
+      },
+      lambdaTriggers: {
+        preSignUp: authTriggersFunction,
+        postConfirmation: authTriggersFunction,
+        preTokenGeneration: authTriggersFunction,
+      },
+      // Users outlive the stack unless the database is destroyed with it
+      removalPolicy:
+        config.database.removalPolicy === cdk.RemovalPolicy.DESTROY
+          ? cdk.RemovalPolicy.DESTROY
+          : cdk.RemovalPolicy.RETAIN,
+    });
+    const userPoolClient = userPool.addClient('ApiClient', {
+      authFlows: { userSrp: true, userPassword: true },
+    });
+
+    // Every method requires a Cognito ID token; handlers then check the role claims
+    const api = new apigateway.RestApi(this, 'MetadataApi', {
+      description: 'Category metadata CRUD API',
+      defaultMethodOptions: {
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+        authorizer: new apigateway.CognitoUserPoolsAuthorizer(this, 'ApiAuthorizer', {
+          cognitoUserPools: [userPool],
+        }),
+      },
+    });
+
+    const addMethods = (resource: apigateway.IResource, methods: string[], integration: apigateway.Integration) =>
+      methods.forEach((method) => resource.addMethod(method, integration));
+
+    const categories = api.root.addResource('categories');
+    addMethods(categories, ['GET', 'POST'], categoriesIntegration);
+    const category = categories.addResource('{categoryId}');
+    addMethods(category, ['GET', 'PATCH', 'DELETE'], categoriesIntegration);
+    addMethods(category.addResource('validate'), ['POST'], categoriesIntegration);
+    addMethods(category.addResource('evaluate'), ['POST'], categoriesIntegration);
+    addMethods(category.addResource('history'), ['GET'], categoriesIntegration);
+    addMethods(category.addResource('restore'), ['POST'], categoriesIntegration);
+    const categoryVersions = category.addResource('versions');
+    addMethods(categoryVersions, ['GET', 'POST'], categoriesIntegration);
+    addMethods(categoryVersions.addResource('{version}'), ['GET'], categoriesIntegration);
+    addMethods(category.addResource('diff'), ['GET'], categoriesIntegration);
+    addMethods(category.addResource('fields').addResource('{fieldId}'), ['PUT', 'DELETE'], categoriesIntegration);
+    addMethods(category.addResource('conditions').addResource('{conditionId}'), ['PUT', 'DELETE'], categoriesIntegration);
+    addMethods(
+      category.addResource('tabular-groups').addResource('{tabularGroupId}'),
+      ['PUT', 'DELETE'],
+      categoriesIntegration
+    );
+
+    const fields = api.root.addResource('fields');
+    addMethods(fields, ['GET', 'POST'], fieldsIntegration);
+    const field = fields.addResource('{fieldId}');
+    addMethods(field, ['GET', 'PATCH', 'DELETE'], fieldsIntegration);
+    addMethods(field.addResource('domain-values'), ['GET', 'POST'], fieldsIntegration);
+    addMethods(field.addResource('history'), ['GET'], fieldsIntegration);
+
+    const domainValue = api.root.addResource('domain-values').addResource('{domainValueId}');
+    addMethods(domainValue, ['GET', 'PATCH', 'DELETE'], domainValuesIntegration);
+    addMethods(domainValue.addResource('deprecation'), ['PUT', 'DELETE'], domainValuesIntegration);
+    addMethods(domainValue.addResource('replace'), ['POST'], domainValuesIntegration);
+
+    const conditions = api.root.addResource('conditions');
+    addMethods(conditions, ['GET', 'POST'], conditionsIntegration);
+    addMethods(conditions.addResource('{conditionId}'), ['GET', 'PUT', 'DELETE'], conditionsIntegration);
+
+    const tabularGroups = api.root.addResource('tabular-groups');
+    addMethods(tabularGroups, ['GET', 'POST'], tabularGroupsIntegration);
+    addMethods(tabularGroups.addResource('{tabularGroupId}'), ['GET', 'PUT', 'DELETE'], tabularGroupsIntegration);
+
+    const models = api.root.addResource('models');
+    addMethods(models, ['GET', 'POST'], modelsIntegration);
+    const model = models.addResource('{modelId}');
+    addMethods(model, ['GET', 'PATCH', 'DELETE'], modelsIntegration);
+    addMethods(model.addResource('categories').addResource('{categoryId}'), ['PUT', 'DELETE'], modelsIntegration);
+
+    addMethods(api.root.addResource('search'), ['POST'], searchIntegration);
+
+    // Import and export of the whole metadata graph
+    const metadata = api.root.addResource('metadata');
+    const metadataExport = metadata.addResource('export');
+    addMethods(metadataExport, ['GET'], metadataIntegration);
+    addMethods(metadataExport.addResource('domain-values'), ['GET'], metadataIntegration);
+    const metadataImport = metadata.addResource('import');
+    addMethods(metadataImport, ['POST'], metadataIntegration);
+    addMethods(metadataImport.addResource('domain-values'), ['POST'], metadataIntegration);
 
     // Output database endpoint & credentials
     new cdk.CfnOutput(this, 'DBEndpoint', {
-      value: cluster.clusterEndpoint.hostname,
+      value: database.endpoint,
     });
 
     new cdk.CfnOutput(this, 'DBSecretArn', {
-      value: dbSecret.secretArn,
+      value: database.secret.secretArn,
     });
 
     new cdk.CfnOutput(this, 'FunctionName', {
       value: dbLambda.functionName,
     });
+
+    new cdk.CfnOutput(this, 'AlarmTopicArn', {
+      value: monitoring.alarmTopic.topicArn,
+    });
+
+    new cdk.CfnOutput(this, 'EventBusName', {
+      value: changeEvents.eventBus.eventBusName,
+    });
+
+    new cdk.CfnOutput(this, 'ApiUrl', {
+      value: api.url,
+    });
+
+    new cdk.CfnOutput(this, 'UserPoolId', {
+      value: userPool.userPoolId,
+    });
+
+    new cdk.CfnOutput(this, 'UserPoolClientId', {
+      value: userPoolClient.userPoolClientId,
+    });
   }
 }
@@ -0,0 +1,102 @@
+import "dotenv/config";
+import { readFile, writeFile } from 'fs/promises';
+import { closePool, connect } from '../src/db/connection';
+import { withTenant } from '../src/db/database';
+import type { ImportResult } from '../src/services/transfer';
+import {
+    exportMetadata,
+    importDomainValues,
+    importMetadata,
+    metadataDocumentSchema,
+    parseDomainValuesCsv,
+    toDomainValuesCsv,
+} from '../src/services/transfer';
+
+const USAGE = `Usage: npm run metadata -- <command> [file] [--dry-run]
+
+Commands:
+  export [file]        Write the metadata graph as JSON to <file> (default: stdout)
+  export-csv [file]    Write the domain values of every field as CSV to <file> (default: stdout)
+  import <file>        Import a JSON document, or domain values from a .csv file
+                       --dry-run lists the changes without applying them
+
+The tenant is read from TENANT_ID.`;
+
+/**
+ * Writes `content` to `file`, or to stdout without one so the output can be piped.
+ */
+const output = async (content: string, file?: string) => {
+    if (!file) {
+        process.stdout.write(content);
+        return;
+    }
+
+    await writeFile(file, content);
+    console.log(`💾 Wrote ${file}`);
+};
+
+const printResult = ({ dryRun, changes, unchanged }: ImportResult) => {
+    if (changes.length) {
+        console.table(changes.map((change) => ({ ...change, changed: change.changed?.join(', ') ?? '' })));
+    }
+    const summary = `${changes.length} change(s), ${unchanged} record(s) unchanged`;
+    console.log(dryRun ? `🔍 Dry run: ${summary}, nothing was written.` : `✅ Imported: ${summary}.`);
+};
+
+/**
+ * Runs an import/export command against the tenant's metadata.
+ */
+export const transferMetadata = async (command: string, file: string | undefined, dryRun: boolean) => {
+    const tenantId = process.env.TENANT_ID;
+    if (!tenantId) {
+        throw new Error(`TENANT_ID is not set\n\n${USAGE}`);
+    }
+    if (command === 'import' && !file) {
+        throw new Error(`Missing file to import\n\n${USAGE}`);
+    }
+
+    const client = await connect();
+    // stdout may carry the export itself
+    console.error("✅ Connected to database!");
+
+    try {
+        await withTenant(client, { tenantId, requestId: `metadata-${command}` }, async (tx) => {
+            switch (command) {
+                case 'export':
+                    await output(`${JSON.stringify(await exportMetadata(tx), null, 2)}\n`, file);
+                    break;
+                case 'export-csv':
+                    await output(toDomainValuesCsv(await exportMetadata(tx)), file);
+                    break;
+                case 'import': {
+                    const content = await readFile(file as string, 'utf8');
+                    const result = file?.toLowerCase().endsWith('.csv')
+                        ? await importDomainValues(tx, parseDomainValuesCsv(content), { dryRun })
+                        : await importMetadata(tx, metadataDocumentSchema.parse(JSON.parse(content)), { dryRun });
+                    printResult(result);
+                    break;
+                }
+                default:
+                    throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+            }
+        });
+    } finally {
+        client.release();
+        await closePool();
+        console.error("🔌 Database connection closed.");
+    }
+};
+
+// Execute when running the script directly
+if (require.main === module) {
+    const args = process.argv.slice(2);
+    const [command = 'export', file] = args.filter((arg) => arg !== '--dry-run');
+
+    transferMetadata(command, file, args.includes('--dry-run')).catch((error) => {
+        console.error("❌ Metadata transfer failed:", error.message);
+        if (error.details) {
+            console.error(error.details);
+        }
+        process.exitCode = 1;
+    });
+}
@@ -0,0 +1,88 @@
+import "dotenv/config";
+import { closePool, connect } from '../src/db/connection';
+import { Migrator } from '../src/db/migrator';
+
+const USAGE = `Usage: npm run migrate -- <command> [arg]
+
+Commands:
+  status              List migrations and whether they are applied
+  up [version]        Apply pending migrations, optionally only up to <version>
+  down [steps]        Revert the last <steps> applied migrations (default 1)
+  baseline [version]  Mark migrations up to <version> (default 1) as applied without running them`;
+
+const parseNumberArg = (value: string | undefined, name: string): number | undefined => {
+    if (value === undefined) {
+        return undefined;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new Error(`Invalid ${name}: ${value}`);
+    }
+
+    return parsed;
+};
+
+/**
+ * Prints the state of every known and applied migration.
+ */
+const printStatus = async (migrator: Migrator) => {
+    const statuses = await migrator.status();
+
+    console.table(statuses.map((status) => ({
+        version: status.version,
+        name: status.name,
+        state: status.state,
+        appliedAt: status.appliedAt?.toISOString() ?? '',
+    })));
+};
+
+/**
+ * Runs a migration command against the database.
+ */
+export const migrate = async (command: string, arg?: string) => {
+    const client = await connect();
+    console.log("✅ Connected to database!");
+    const migrator = new Migrator(client);
+
+    try {
+        switch (command) {
+            case 'status':
+                await printStatus(migrator);
+                break;
+            case 'up': {
+                const applied = await migrator.up(parseNumberArg(arg, 'version'));
+                applied.forEach((m) => console.log(`⬆️ Applied ${m.version}_${m.name}`));
+                console.log(applied.length ? `✅ Applied ${applied.length} migration(s).` : "✅ Database is up to date.");
+                break;
+            }
+            case 'down': {
+                const reverted = await migrator.down(parseNumberArg(arg, 'steps') ?? 1);
+                reverted.forEach((m) => console.log(`⬇️ Reverted ${m.version}_${m.name}`));
+                console.log(`✅ Reverted ${reverted.length} migration(s).`);
+                break;
+            }
+            case 'baseline': {
+                const recorded = await migrator.baseline(parseNumberArg(arg, 'version') ?? 1);
+                recorded.forEach((m) => console.log(`📌 Marked ${m.version}_${m.name} as applied`));
+                break;
+            }
+            default:
+                throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+        }
+    } finally {
+        client.release();
+        await closePool();
+        console.log("🔌 Database connection closed.");
+    }
+};
+
+// Execute when running the script directly
+if (require.main === module) {
+    const [command = 'status', arg] = process.argv.slice(2);
+
+    migrate(command, arg).catch((error) => {
+        console.error("❌ Migration failed:", error.message);
+        process.exitCode = 1;
+    });
+}
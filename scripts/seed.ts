@@ -0,0 +1,113 @@
+import "dotenv/config";
+import { closePool, connect } from '../src/db/connection';
+import { withTenant } from '../src/db/database';
+import type { GeneratorOptions, SeedResult, SeedSet } from '../src/services/seed';
+import { findFixtureSet, fixtureSets, generateSeedSet, seedDatabase } from '../src/services/seed';
+
+const USAGE = `Usage: npm run seed -- <command> [options] [--dry-run]
+
+Commands:
+  list                 List the fixture sets
+  apply <name>         Seed the named fixture set
+  generate [options]   Seed generated data; the same options always generate the same data
+                         --seed=<n>                            (default: 1)
+                         --categories=<n>                      (default: 5)
+                         --fields-per-category=<n>             (default: 8)
+                         --domain-values-per-field=<n>         (default: 6)
+                         --conditions-per-category=<n>         (default: 1)
+                         --tabular-groups-per-category=<n>     (default: 1)
+                         --models-per-category=<n>             (default: 10)
+
+--dry-run lists the changes without applying them. Seeding is idempotent: records are matched by key
+and existing models are skipped. The tenant is read from TENANT_ID, the connection from the DB_* variables.`;
+
+const GENERATOR_FLAGS: Record<string, keyof GeneratorOptions> = {
+    seed: 'seed',
+    categories: 'categories',
+    'fields-per-category': 'fieldsPerCategory',
+    'domain-values-per-field': 'domainValuesPerField',
+    'conditions-per-category': 'conditionsPerCategory',
+    'tabular-groups-per-category': 'tabularGroupsPerCategory',
+    'models-per-category': 'modelsPerCategory',
+};
+
+/**
+ * Reads `--name=<n>` flags into generator options.
+ */
+const parseGeneratorOptions = (flags: string[]): GeneratorOptions =>
+    flags.reduce<GeneratorOptions>((options, flag) => {
+        const [, name, value] = flag.match(/^--([a-z-]+)=(\d+)$/) ?? [];
+        const option = GENERATOR_FLAGS[name];
+        if (!option) {
+            throw new Error(`Unknown option "${flag}"\n\n${USAGE}`);
+        }
+        return { ...options, [option]: Number(value) };
+    }, {});
+
+const printResult = ({ dryRun, metadata, models }: SeedResult) => {
+    const summary =
+        `${metadata.changes.length} metadata change(s), ${metadata.unchanged} record(s) unchanged, ` +
+        `${models.created} model(s) to create, ${models.existing} existing`;
+    console.log(dryRun ? `🔍 Dry run: ${summary}, nothing was written.` : `✅ Seeded: ${summary}.`);
+};
+
+const resolveSeedSet = (command: string, args: string[]): SeedSet => {
+    switch (command) {
+        case 'apply': {
+            const set = args[0] && findFixtureSet(args[0]);
+            if (!set) {
+                throw new Error(`Unknown fixture set "${args[0] ?? ''}"\n\n${USAGE}`);
+            }
+            return set;
+        }
+        case 'generate':
+            return generateSeedSet(parseGeneratorOptions(args));
+        default:
+            throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+    }
+};
+
+/**
+ * Runs a seed command against the tenant's data.
+ */
+export const seed = async (command: string, args: string[], dryRun: boolean) => {
+    if (command === 'list') {
+        console.table(fixtureSets.map(({ name, description }) => ({ name, description })));
+        return;
+    }
+
+    const tenantId = process.env.TENANT_ID;
+    if (!tenantId) {
+        throw new Error(`TENANT_ID is not set\n\n${USAGE}`);
+    }
+    const set = resolveSeedSet(command, args);
+
+    const client = await connect();
+    console.log("✅ Connected to database!");
+
+    try {
+        console.log(`🌱 Seeding ${set.document.categories.length} categories and ${set.models.length} models...`);
+        const result = await withTenant(client, { tenantId, requestId: `seed-${command}` }, (tx) =>
+            seedDatabase(tx, set, { dryRun }),
+        );
+        printResult(result);
+    } finally {
+        client.release();
+        await closePool();
+        console.log("🔌 Database connection closed.");
+    }
+};
+
+// Execute when running the script directly
+if (require.main === module) {
+    const args = process.argv.slice(2);
+    const [command = 'list', ...rest] = args.filter((arg) => arg !== '--dry-run');
+
+    seed(command, rest, args.includes('--dry-run')).catch((error) => {
+        console.error("❌ Seeding failed:", error.message);
+        if (error.details) {
+            console.error(error.details);
+        }
+        process.exitCode = 1;
+    });
+}
@@ -0,0 +1,284 @@
+import { existsSync, readFileSync } from 'fs'
+import { GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager'
+import { Pool } from 'pg'
+import type { PoolClient, PoolConfig } from 'pg'
+import { registerSecret } from '../utils/logger'
+import { DataApiClient } from './data-api'
+import type { Database, SessionContext } from './database'
+import { withTenant } from './database'
+import { withRetry } from './retry'
+import type { RetryOptions } from './retry'
+
+// Structure of the secret generated for the Aurora cluster
+export interface DbSecret {
+  username: string
+  password: string
+  engine?: string
+  host?: string
+  port?: number
+  dbname?: string
+}
+
+/**
+ * - `disable`: plain TCP
+ * - `no-verify`: TLS without certificate verification (development only)
+ * - `verify-full`: TLS verified against `sslCaPath`, or the system trust store when unset
+ */
+export type SslMode = 'disable' | 'no-verify' | 'verify-full'
+
+/**
+ * - `pg`: PostgreSQL protocol over TCP, which needs network access to port 5432
+ * - `data-api`: the RDS Data API over HTTPS, which needs `clusterArn`
+ */
+export type DatabaseBackend = 'pg' | 'data-api'
+
+export interface ConnectionOptions {
+  backend: DatabaseBackend
+  secretArn: string
+  clusterArn?: string
+  host?: string
+  database?: string
+  sslMode: SslMode
+  sslCaPath?: string
+  secretTtlMs: number
+  maxConnections: number
+  connectTimeoutMs: number
+  retries: number
+  // Called before each retry while the cluster is unreachable, e.g. while it resumes
+  onRetry?: RetryOptions['onRetry']
+}
+
+// RDS certificate bundle shipped with the Lambda Node.js runtime
+const LAMBDA_RDS_CA_PATH = '/var/runtime/ca-cert.pem'
+
+// Aurora Serverless v2 resuming from zero capacity rejects or times out connections for a few seconds
+const TRANSIENT_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  '57P03', // cannot_connect_now
+  '53300', // too_many_connections
+  '08001', // sqlclient_unable_to_establish_sqlconnection
+  '08006' // connection_failure
+])
+
+const AUTH_ERROR_CODES = new Set(['28P01', '28000'])
+
+const secretsClient = new SecretsManagerClient({
+  region: process.env.AWS_REGION
+})
+
+let cachedSecret: { value: DbSecret; expiresAt: number } | undefined
+let cachedPool: Promise<Pool> | undefined
+
+const errorCode = (error: unknown): string | undefined =>
+  typeof error === 'object' && error !== null && 'code' in error ? String(error.code) : undefined
+
+export const isAuthError = (error: unknown): boolean => AUTH_ERROR_CODES.has(errorCode(error) ?? '')
+
+export const isTransientError = (error: unknown): boolean => {
+  const code = errorCode(error)
+  if (code) {
+    return TRANSIENT_ERROR_CODES.has(code)
+  }
+
+  return error instanceof Error && /timeout|Connection terminated/i.test(error.message)
+}
+
+export const connectionOptionsFromEnv = (env: NodeJS.ProcessEnv = process.env): ConnectionOptions => {
+  if (!env.DB_SECRET_ARN) {
+    throw new Error('Missing DB_SECRET_ARN environment variable.')
+  }
+
+  const backend = (env.DB_BACKEND ?? 'pg') as DatabaseBackend
+  if (!['pg', 'data-api'].includes(backend)) {
+    throw new Error(`Invalid DB_BACKEND: ${backend}`)
+  }
+  if (backend === 'data-api' && !env.DB_CLUSTER_ARN) {
+    throw new Error('Missing DB_CLUSTER_ARN environment variable required by the data-api backend.')
+  }
+
+  const sslMode = (env.DB_SSL_MODE ?? 'verify-full') as SslMode
+  if (!['disable', 'no-verify', 'verify-full'].includes(sslMode)) {
+    throw new Error(`Invalid DB_SSL_MODE: ${sslMode}`)
+  }
+
+  return {
+    backend,
+    secretArn: env.DB_SECRET_ARN,
+    clusterArn: env.DB_CLUSTER_ARN,
+    host: env.DB_HOST,
+    database: env.DB_NAME,
+    sslMode,
+    sslCaPath: env.DB_SSL_CA_PATH ?? (existsSync(LAMBDA_RDS_CA_PATH) ? LAMBDA_RDS_CA_PATH : undefined),
+    secretTtlMs: Number(env.DB_SECRET_TTL_SECONDS ?? 300) * 1000,
+    maxConnections: Number(env.DB_POOL_MAX ?? 2),
+    connectTimeoutMs: Number(env.DB_CONNECT_TIMEOUT_MS ?? 10000),
+    retries: Number(env.DB_CONNECT_RETRIES ?? 6)
+  }
+}
+
+export const sslConfig = (sslMode: SslMode, sslCaPath?: string): PoolConfig['ssl'] => {
+  switch (sslMode) {
+    case 'disable':
+      return false
+    case 'no-verify':
+      return { rejectUnauthorized: false }
+    case 'verify-full':
+      return { rejectUnauthorized: true, ca: sslCaPath ? readFileSync(sslCaPath, 'utf8') : undefined }
+  }
+}
+
+/**
+ * Returns the database secret, fetching it from Secrets Manager when the cached copy
+ * is missing, older than `secretTtlMs` or explicitly refreshed after a rotation.
+ */
+export const getDbSecret = async (options: ConnectionOptions, forceRefresh = false): Promise<DbSecret> => {
+  if (!forceRefresh && cachedSecret && cachedSecret.expiresAt > Date.now()) {
+    return cachedSecret.value
+  }
+
+  const secretData = await secretsClient.send(new GetSecretValueCommand({ SecretId: options.secretArn }))
+  if (!secretData.SecretString) {
+    throw new Error('SecretString is empty.')
+  }
+
+  const value: DbSecret = JSON.parse(secretData.SecretString)
+  // Never logged, even as part of an error message
+  registerSecret(value.password)
+  cachedSecret = { value, expiresAt: Date.now() + options.secretTtlMs }
+
+  return value
+}
+
+const createPool = async (options: ConnectionOptions, refreshSecret: boolean): Promise<Pool> => {
+  const secret = await getDbSecret(options, refreshSecret)
+
+  const pool = new Pool({
+    host: options.host ?? secret.host,
+    database: options.database ?? secret.dbname ?? 'devdb',
+    user: secret.username,
+    password: secret.password,
+    port: secret.port || 5432,
+    ssl: sslConfig(options.sslMode, options.sslCaPath),
+    max: options.maxConnections,
+    connectionTimeoutMillis: options.connectTimeoutMs,
+    idleTimeoutMillis: 60000
+  })
+
+  // Idle clients can be dropped while the cluster pauses; the pool replaces them on demand
+  pool.on('error', () => undefined)
+
+  return pool
+}
+
+const initPool = (options: ConnectionOptions, refreshSecret: boolean): Promise<Pool> => {
+  cachedPool = createPool(options, refreshSecret).catch((error) => {
+    cachedPool = undefined
+    throw error
+  })
+
+  return cachedPool
+}
+
+/**
+ * Returns the pool shared by all invocations of a warm Lambda container.
+ */
+export const getPool = (options: ConnectionOptions = connectionOptionsFromEnv()): Promise<Pool> =>
+  cachedPool ?? initPool(options, false)
+
+/**
+ * Ends the shared pool. The next `getPool` call creates a new one.
+ */
+export const closePool = async (): Promise<void> => {
+  const pool = cachedPool
+  cachedPool = undefined
+
+  if (pool) {
+    await (await pool.catch(() => undefined))?.end()
+  }
+}
+
+/**
+ * Checks out a client from the shared pool, retrying with backoff while the cluster resumes.
+ * When authentication fails the pool is rebuilt once with a freshly fetched secret,
+ * which picks up a rotated password.
+ */
+export const connect = async (options: ConnectionOptions = connectionOptionsFromEnv()): Promise<PoolClient> => {
+  let secretRefreshed = false
+  let retryAfterRefresh = false
+
+  return withRetry(
+    async () => {
+      const pool = await getPool(options)
+      try {
+        return await pool.connect()
+      } catch (error) {
+        if (isAuthError(error) && !secretRefreshed) {
+          secretRefreshed = true
+          retryAfterRefresh = true
+          await closePool()
+          // Failures surface on the next getPool call
+          initPool(options, true).catch(() => undefined)
+        }
+        throw error
+      }
+    },
+    {
+      retries: options.retries,
+      baseDelayMs: 500,
+      maxDelayMs: 8000,
+      onRetry: options.onRetry,
+      shouldRetry: (error) => {
+        if (retryAfterRefresh) {
+          retryAfterRefresh = false
+          return true
+        }
+        return isTransientError(error)
+      }
+    }
+  )
+}
+
+/**
+ * Runs `fn` with a client of the configured backend: a pooled `pg` client, always returned to the pool,
+ * or a Data API client of its own.
+ */
+export const withConnection = async <TResult>(
+  fn: (client: Database) => Promise<TResult>,
+  options: ConnectionOptions = connectionOptionsFromEnv()
+): Promise<TResult> => {
+  if (options.backend === 'data-api') {
+    return fn(
+      new DataApiClient({
+        resourceArn: options.clusterArn as string,
+        secretArn: options.secretArn,
+        database: options.database,
+        retries: options.retries,
+        onRetry: options.onRetry
+      })
+    )
+  }
+
+  const client = await connect(options)
+  try {
+    const result = await fn(client)
+    client.release()
+
+    return result
+  } catch (error) {
+    // Discard the client if the failure may have left the connection unusable
+    client.release(isTransientError(error) ? (error as Error) : undefined)
+    throw error
+  }
+}
+
+/**
+ * Like `withConnection`, but runs `fn` in a transaction scoped to the session's tenant; see `withTenant`.
+ */
+export const withTenantConnection = <TResult>(
+  session: SessionContext,
+  fn: (client: Database) => Promise<TResult>,
+  options: ConnectionOptions = connectionOptionsFromEnv()
+): Promise<TResult> => withConnection((client) => withTenant(client, session, fn), options)
@@ -0,0 +1,332 @@
+import {
+  BeginTransactionCommand,
+  CommitTransactionCommand,
+  ExecuteStatementCommand,
+  RDSDataClient,
+  RollbackTransactionCommand
+} from '@aws-sdk/client-rds-data'
+import type { ArrayValue, ColumnMetadata, Field, SqlParameter } from '@aws-sdk/client-rds-data'
+import type { FieldDef, QueryResult, QueryResultRow } from 'pg'
+import { withRetry } from './retry'
+import type { RetryOptions } from './retry'
+
+export interface DataApiOptions {
+  resourceArn: string
+  secretArn: string
+  database?: string
+  retries: number
+  onRetry?: RetryOptions['onRetry']
+}
+
+/**
+ * A failed Data API call. `code` carries the SQLSTATE of statement errors, as on errors thrown by `pg`.
+ */
+export class DataApiError extends Error {
+  readonly code?: string
+
+  constructor(message: string, code?: string) {
+    super(message)
+    this.name = new.target.name
+    this.code = code
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Raised before the statement runs, e.g. while Aurora Serverless v2 resumes, so the call is safe to repeat
+const TRANSIENT_ERROR_NAMES = new Set([
+  'DatabaseResumingException',
+  'DatabaseUnavailableException',
+  'ThrottlingException'
+])
+
+const TRANSACTION_STATEMENTS: Record<string, 'begin' | 'commit' | 'rollback'> = {
+  BEGIN: 'begin',
+  'START TRANSACTION': 'begin',
+  COMMIT: 'commit',
+  END: 'commit',
+  ROLLBACK: 'rollback'
+}
+
+const sharedClient = new RDSDataClient({
+  region: process.env.AWS_REGION
+})
+
+const errorName = (error: unknown): string | undefined => (error instanceof Error ? error.name : undefined)
+
+export const isTransientDataApiError = (error: unknown): boolean => TRANSIENT_ERROR_NAMES.has(errorName(error) ?? '')
+
+const toDataApiError = (error: unknown): unknown => {
+  if (!(error instanceof Error) || TRANSIENT_ERROR_NAMES.has(error.name)) {
+    return error
+  }
+
+  // Statement errors end with "; SQLState: 23505"
+  const code = /SQLState: (\w{5})/.exec(error.message)?.[1]
+  return new DataApiError(error.message, code)
+}
+
+/**
+ * Serializes an array the way `pg` does, as a PostgreSQL array literal. The statement casts it to the
+ * element type, e.g. `$1::uuid[]`, since the Data API has no array parameters.
+ */
+export const toArrayLiteral = (values: unknown[]): string =>
+  `{${values
+    .map((value) => {
+      if (value === null || value === undefined) {
+        return 'NULL'
+      }
+      if (Array.isArray(value)) {
+        return toArrayLiteral(value)
+      }
+
+      const text =
+        value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value)
+      return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+    })
+    .join(',')}}`
+
+/**
+ * Maps a positional `pg` parameter to a named Data API parameter. Strings shaped like UUIDs are sent as `uuid`
+ * and objects as `json`; statements comparing such a string with text must cast it, e.g. `$1::text`.
+ */
+export const toSqlParameter = (name: string, value: unknown): SqlParameter => {
+  if (value === null || value === undefined) {
+    return { name, value: { isNull: true } }
+  }
+  if (typeof value === 'boolean') {
+    return { name, value: { booleanValue: value } }
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { name, value: { longValue: value } } : { name, value: { doubleValue: value } }
+  }
+  if (typeof value === 'bigint') {
+    return { name, value: { stringValue: value.toString() }, typeHint: 'DECIMAL' }
+  }
+  if (typeof value === 'string') {
+    return UUID_PATTERN.test(value)
+      ? { name, value: { stringValue: value }, typeHint: 'UUID' }
+      : { name, value: { stringValue: value } }
+  }
+  if (value instanceof Date) {
+    return {
+      name,
+      value: { stringValue: value.toISOString().replace('T', ' ').replace('Z', '') },
+      typeHint: 'TIMESTAMP'
+    }
+  }
+  if (Buffer.isBuffer(value)) {
+    return { name, value: { blobValue: value } }
+  }
+  if (Array.isArray(value)) {
+    return { name, value: { stringValue: toArrayLiteral(value) } }
+  }
+
+  return { name, value: { stringValue: JSON.stringify(value) }, typeHint: 'JSON' }
+}
+
+/**
+ * Rewrites `$1`-style placeholders to the Data API's `:p1`, leaving string literals, quoted identifiers
+ * and dollar-quoted bodies untouched.
+ */
+export const toNamedPlaceholders = (text: string): string =>
+  text.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|(\$\w*\$)[\s\S]*?\1|\$(\d+)/g, (match, _tag, index?: string) =>
+    index ? `:p${index}` : match
+  )
+
+const decodeScalar = (typeName: string, value: string | number | boolean): unknown => {
+  if (typeof value !== 'string') {
+    // Like pg, int8 is returned as a string so large values keep their precision
+    return typeName === 'int8' ? String(value) : value
+  }
+
+  switch (typeName) {
+    case 'json':
+    case 'jsonb':
+      return JSON.parse(value)
+    case 'timestamptz':
+    case 'timestamp':
+      // Returned in UTC without an offset
+      return new Date(`${value.replace(' ', 'T')}Z`)
+    case 'date':
+      return new Date(`${value}T00:00:00Z`)
+    default:
+      return value
+  }
+}
+
+const decodeArray = (typeName: string, value: ArrayValue): unknown[] => {
+  if (value.arrayValues) {
+    return value.arrayValues.map((nested) => (nested ? decodeArray(typeName, nested) : null))
+  }
+
+  const elements = value.stringValues ?? value.longValues ?? value.doubleValues ?? value.booleanValues ?? []
+  return elements.map((element) => (element === null ? null : decodeScalar(typeName, element)))
+}
+
+/**
+ * Decodes a Data API field, using the column's PostgreSQL type to restore the values `pg` would return.
+ */
+export const decodeField = (column: ColumnMetadata, field: Field): unknown => {
+  const typeName = column.typeName ?? ''
+
+  if (field.isNull) {
+    return null
+  }
+  if (field.arrayValue) {
+    // Array type names carry a leading underscore, e.g. _uuid
+    return decodeArray(typeName.replace(/^_/, ''), field.arrayValue)
+  }
+  if (field.blobValue) {
+    return Buffer.from(field.blobValue)
+  }
+
+  const value = field.stringValue ?? field.longValue ?? field.doubleValue ?? field.booleanValue
+  return value === undefined ? null : decodeScalar(typeName, value)
+}
+
+const toFieldDef = (column: ColumnMetadata): FieldDef => ({
+  name: column.label || column.name || '',
+  tableID: 0,
+  columnID: 0,
+  dataTypeID: column.type ?? 0,
+  dataTypeSize: -1,
+  dataTypeModifier: -1,
+  format: 'text'
+})
+
+/**
+ * A client that runs statements through the RDS Data API over HTTPS, so functions need neither VPC access
+ * nor an open PostgreSQL port. It accepts the same queries and returns the same result shape as a `pg`
+ * client; `BEGIN`, `COMMIT` and `ROLLBACK` map to Data API transactions, which makes `withTransaction` work
+ * unchanged. Each instance holds at most one transaction, so concurrent work needs separate instances.
+ *
+ * Statements are sent one at a time: multi-statement scripts such as migrations still need `pg`.
+ */
+export class DataApiClient {
+  private readonly options: DataApiOptions
+  private readonly client: RDSDataClient
+  private transactionId: string | undefined
+
+  constructor(options: DataApiOptions, client: RDSDataClient = sharedClient) {
+    this.options = options
+    this.client = client
+  }
+
+  public get inTransaction(): boolean {
+    return this.transactionId !== undefined
+  }
+
+  public async begin(): Promise<void> {
+    if (this.transactionId) {
+      throw new DataApiError('A transaction is already in progress')
+    }
+
+    const { transactionId } = await this.send(() =>
+      this.client.send(
+        new BeginTransactionCommand({
+          resourceArn: this.options.resourceArn,
+          secretArn: this.options.secretArn,
+          database: this.options.database
+        })
+      )
+    )
+    this.transactionId = transactionId
+  }
+
+  public async commit(): Promise<void> {
+    const transactionId = this.takeTransactionId()
+    await this.send(() =>
+      this.client.send(
+        new CommitTransactionCommand({
+          resourceArn: this.options.resourceArn,
+          secretArn: this.options.secretArn,
+          transactionId
+        })
+      )
+    )
+  }
+
+  public async rollback(): Promise<void> {
+    const transactionId = this.takeTransactionId()
+    await this.send(() =>
+      this.client.send(
+        new RollbackTransactionCommand({
+          resourceArn: this.options.resourceArn,
+          secretArn: this.options.secretArn,
+          transactionId
+        })
+      )
+    )
+  }
+
+  public async query<TRow extends QueryResultRow = QueryResultRow>(
+    text: string,
+    values: unknown[] = []
+  ): Promise<QueryResult<TRow>> {
+    const statement = text.trim().replace(/;$/, '').replace(/\s+/g, ' ').toUpperCase()
+    const transactionCommand = TRANSACTION_STATEMENTS[statement]
+    if (transactionCommand) {
+      await this[transactionCommand]()
+      return { command: statement.split(' ')[0], rowCount: null, oid: 0, rows: [], fields: [] }
+    }
+
+    const response = await this.send(() =>
+      this.client.send(
+        new ExecuteStatementCommand({
+          resourceArn: this.options.resourceArn,
+          secretArn: this.options.secretArn,
+          database: this.options.database,
+          transactionId: this.transactionId,
+          sql: toNamedPlaceholders(text),
+          parameters: values.map((value, index) => toSqlParameter(`p${index + 1}`, value)),
+          includeResultMetadata: true,
+          resultSetOptions: { decimalReturnType: 'STRING', longReturnType: 'LONG' }
+        })
+      )
+    )
+
+    const columns = response.columnMetadata ?? []
+    const fields = columns.map(toFieldDef)
+    const rows = (response.records ?? []).map(
+      (record) =>
+        Object.fromEntries(
+          record.map((field, index) => [fields[index].name, decodeField(columns[index], field)])
+        ) as TRow
+    )
+    const command = /^\s*(\w+)/.exec(text)?.[1].toUpperCase() ?? ''
+
+    return {
+      command,
+      // Statements returning rows report them instead of an update count
+      rowCount: response.numberOfRecordsUpdated || rows.length,
+      oid: 0,
+      rows,
+      fields
+    }
+  }
+
+  private takeTransactionId(): string {
+    const { transactionId } = this
+    if (!transactionId) {
+      throw new DataApiError('No transaction in progress')
+    }
+
+    this.transactionId = undefined
+    return transactionId
+  }
+
+  private async send<TOutput>(call: () => Promise<TOutput>): Promise<TOutput> {
+    try {
+      return await withRetry(call, {
+        retries: this.options.retries,
+        baseDelayMs: 500,
+        maxDelayMs: 8000,
+        shouldRetry: isTransientDataApiError,
+        onRetry: this.options.onRetry
+      })
+    } catch (error) {
+      throw toDataApiError(error)
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { Pool } from 'pg'
+import type { QueryResult, QueryResultRow } from 'pg'
+
+/**
+ * Anything that can run a parameterized query: a pool, a pooled client, a plain client or a Data API client.
+ */
+export interface Queryable {
+  query<TRow extends QueryResultRow = QueryResultRow>(text: string, values?: unknown[]): Promise<QueryResult<TRow>>
+}
+
+export type Database = Queryable
+
+// Clients currently inside a transaction opened by withTransaction
+const activeTransactions = new WeakSet<Database>()
+
+/**
+ * Runs `fn` inside a transaction, committing on success and rolling back on error.
+ * Calls nested on the same client join the outer transaction.
+ */
+export const withTransaction = async <TResult>(
+  db: Database,
+  fn: (tx: Database) => Promise<TResult>
+): Promise<TResult> => {
+  if (db instanceof Pool) {
+    const client = await db.connect()
+    try {
+      return await withTransaction(client, fn)
+    } finally {
+      client.release()
+    }
+  }
+
+  if (activeTransactions.has(db)) {
+    return fn(db)
+  }
+
+  await db.query('BEGIN')
+  activeTransactions.add(db)
+  try {
+    const result = await fn(db)
+    await db.query('COMMIT')
+
+    return result
+  } catch (error) {
+    await db.query('ROLLBACK')
+    throw error
+  } finally {
+    activeTransactions.delete(db)
+  }
+}
+
+/**
+ * Whom the statements of a transaction run for: the tenant they are scoped to and, for the audit log,
+ * the acting user and request.
+ */
+export interface SessionContext {
+  tenantId: string
+  userId?: string
+  requestId?: string
+}
+
+/**
+ * Runs `fn` in a transaction scoped to `session.tenantId`: row level security then limits every statement,
+ * including the `metadata_view` triggers, to the tenant's rows, and the audit triggers record the user and
+ * request. The settings are transaction-local, so they never outlive the transaction on a pooled connection,
+ * and are set through `set_config` so RDS Proxy does not pin the session.
+ */
+export const withTenant = <TResult>(
+  db: Database,
+  session: SessionContext,
+  fn: (tx: Database) => Promise<TResult>
+): Promise<TResult> =>
+  withTransaction(db, async (tx) => {
+    // The casts keep the Data API's uuid type hint from selecting a set_config(text, uuid) overload
+    await tx.query(
+      `SELECT set_config('app.tenant_id', $1::text, true), set_config('app.user_id', $2::text, true),
+         set_config('app.request_id', $3::text, true)`,
+      [session.tenantId, session.userId ?? '', session.requestId ?? '']
+    )
+
+    return fn(tx)
+  })
+
+/**
+ * Runs `fn` in a transaction that sees and updates the outbox events of every tenant, as the change event relay
+ * does. Tenant tables stay hidden, as no tenant is set.
+ */
+export const withOutboxRelay = <TResult>(db: Database, fn: (tx: Database) => Promise<TResult>): Promise<TResult> =>
+  withTransaction(db, async (tx) => {
+    await tx.query(`SELECT set_config('app.outbox_relay', 'on', true)`)
+
+    return fn(tx)
+  })
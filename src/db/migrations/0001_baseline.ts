@@ -0,0 +1,163 @@
+import type { Migration } from '../migrator'
+
+/**
+ * Baseline schema: the category/field/condition model and the `metadata_view`
+ * projection with its INSTEAD OF triggers, as previously created by `reset-database.ts`.
+ */
+export const baseline: Migration = {
+  version: 1,
+  name: 'baseline',
+  up: `
+    CREATE TABLE category (
+      id UUID PRIMARY KEY,
+      metadata JSONB
+    );
+
+    CREATE TABLE model_category (
+      model_id UUID,
+      category_id UUID REFERENCES category(id),
+      PRIMARY KEY (model_id, category_id)
+    );
+
+    CREATE TABLE condition (
+      id UUID PRIMARY KEY
+    );
+
+    CREATE TABLE category_condition (
+      category_id UUID REFERENCES category(id),
+      condition_id UUID REFERENCES condition(id),
+      PRIMARY KEY (category_id, condition_id)
+    );
+
+    CREATE TABLE field (
+      id UUID PRIMARY KEY,
+      datatype TEXT,
+      metadata JSONB,
+      validation JSONB,
+      search JSONB
+    );
+
+    CREATE TABLE category_field (
+      category_id UUID REFERENCES category(id),
+      field_id UUID REFERENCES field(id),
+      is_required BOOLEAN,
+      PRIMARY KEY (category_id, field_id)
+    );
+
+    CREATE TABLE domain_value (
+      id UUID PRIMARY KEY,
+      field_id UUID REFERENCES field(id),
+      name TEXT
+    );
+
+    CREATE TABLE condition_domain_value (
+      condition_id UUID REFERENCES condition(id),
+      condition_group_id UUID,
+      domain_value_id UUID REFERENCES domain_value(id),
+      field_id UUID REFERENCES field(id),
+      PRIMARY KEY (condition_id, domain_value_id)
+    );
+
+    CREATE TABLE tabular_group (
+      id UUID PRIMARY KEY
+    );
+
+    CREATE TABLE category_tabular_group (
+      category_id UUID REFERENCES category(id),
+      tabular_id UUID REFERENCES tabular_group(id),
+      validation JSONB,
+      PRIMARY KEY (category_id, tabular_id)
+    );
+
+    CREATE TABLE tabular_group_field (
+      tabular_group_id UUID REFERENCES tabular_group(id),
+      field_id UUID REFERENCES field(id),
+      field_order INTEGER,
+      PRIMARY KEY (tabular_group_id, field_id)
+    );
+
+    CREATE VIEW metadata_view AS
+    SELECT
+      c.id AS category_id,
+      c.metadata AS category_metadata,
+      jsonb_agg(DISTINCT m.model_id) FILTER (WHERE m.model_id IS NOT NULL) AS model_ids,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'fieldId', f.id,
+          'datatype', f.datatype,
+          'metadata', f.metadata,
+          'validation', f.validation,
+          'search', f.search,
+          'isRequired', cf.is_required
+        )
+      ) FILTER (WHERE f.id IS NOT NULL) AS fields,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'conditionId', cond.id,
+          'domainValues', (
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'domainValueId', cdv.domain_value_id,
+                'conditionGroupId', cdv.condition_group_id,
+                'fieldId', cdv.field_id
+              )
+            ) FROM condition_domain_value cdv WHERE cdv.condition_id = cond.id
+          )
+        )
+      ) FILTER (WHERE cond.id IS NOT NULL) AS conditions,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'tabularGroupId', tg.id,
+          'validation', ctg.validation
+        )
+      ) FILTER (WHERE tg.id IS NOT NULL) AS tabularGroups
+    FROM category c
+    LEFT JOIN model_category m ON c.id = m.category_id
+    LEFT JOIN category_field cf ON c.id = cf.category_id
+    LEFT JOIN field f ON cf.field_id = f.id
+    LEFT JOIN category_condition cc ON c.id = cc.category_id
+    LEFT JOIN condition cond ON cc.condition_id = cond.id
+    LEFT JOIN category_tabular_group ctg ON c.id = ctg.category_id
+    LEFT JOIN tabular_group tg ON ctg.tabular_id = tg.id
+    GROUP BY c.id, c.metadata;
+
+    CREATE OR REPLACE FUNCTION metadata_view_insert_trigger() RETURNS TRIGGER AS $$
+    BEGIN
+      INSERT INTO category (id, metadata) VALUES (gen_random_uuid(), NEW.category_metadata);
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+    CREATE TRIGGER metadata_view_insert INSTEAD OF INSERT ON metadata_view FOR EACH ROW EXECUTE FUNCTION metadata_view_insert_trigger();
+
+    CREATE OR REPLACE FUNCTION metadata_view_update_trigger() RETURNS TRIGGER AS $$
+    BEGIN
+      UPDATE category SET metadata = NEW.category_metadata WHERE id = NEW.category_id;
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+    CREATE TRIGGER metadata_view_update INSTEAD OF UPDATE ON metadata_view FOR EACH ROW EXECUTE FUNCTION metadata_view_update_trigger();
+
+    CREATE OR REPLACE FUNCTION metadata_view_delete_trigger() RETURNS TRIGGER AS $$
+    BEGIN
+      DELETE FROM category WHERE id = OLD.category_id;
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+    CREATE TRIGGER metadata_view_delete INSTEAD OF DELETE ON metadata_view FOR EACH ROW EXECUTE FUNCTION metadata_view_delete_trigger();
+  `,
+  down: `
+    DROP VIEW IF EXISTS metadata_view CASCADE;
+    DROP FUNCTION IF EXISTS metadata_view_insert_trigger();
+    DROP FUNCTION IF EXISTS metadata_view_update_trigger();
+    DROP FUNCTION IF EXISTS metadata_view_delete_trigger();
+
+    DROP TABLE IF EXISTS tabular_group_field;
+    DROP TABLE IF EXISTS category_tabular_group;
+    DROP TABLE IF EXISTS tabular_group;
+    DROP TABLE IF EXISTS condition_domain_value;
+    DROP TABLE IF EXISTS domain_value;
+    DROP TABLE IF EXISTS category_field;
+    DROP TABLE IF EXISTS field;
+    DROP TABLE IF EXISTS category_condition;
+    DROP TABLE IF EXISTS condition;
+    DROP TABLE IF EXISTS model_category;
+    DROP TABLE IF EXISTS category;
+  `
+}
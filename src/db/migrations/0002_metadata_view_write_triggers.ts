@@ -0,0 +1,304 @@
+import type { Migration } from '../migrator'
+
+/**
+ * Turns `metadata_view` into a write API for the whole category aggregate: the INSTEAD OF
+ * triggers decompose `model_ids`, `fields`, `conditions` and `tabularGroups` into their
+ * tables with upsert semantics. The view also exposes the ordered fields of each tabular group.
+ */
+export const metadataViewWriteTriggers: Migration = {
+  version: 2,
+  name: 'metadata_view_write_triggers',
+  up: `
+    CREATE OR REPLACE VIEW metadata_view AS
+    SELECT
+      c.id AS category_id,
+      c.metadata AS category_metadata,
+      jsonb_agg(DISTINCT m.model_id) FILTER (WHERE m.model_id IS NOT NULL) AS model_ids,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'fieldId', f.id,
+          'datatype', f.datatype,
+          'metadata', f.metadata,
+          'validation', f.validation,
+          'search', f.search,
+          'isRequired', cf.is_required
+        )
+      ) FILTER (WHERE f.id IS NOT NULL) AS fields,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'conditionId', cond.id,
+          'domainValues', (
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'domainValueId', cdv.domain_value_id,
+                'conditionGroupId', cdv.condition_group_id,
+                'fieldId', cdv.field_id
+              )
+            ) FROM condition_domain_value cdv WHERE cdv.condition_id = cond.id
+          )
+        )
+      ) FILTER (WHERE cond.id IS NOT NULL) AS conditions,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'tabularGroupId', tg.id,
+          'validation', ctg.validation,
+          'fields', (
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'fieldId', tgf.field_id,
+                'fieldOrder', tgf.field_order
+              ) ORDER BY tgf.field_order
+            ) FROM tabular_group_field tgf WHERE tgf.tabular_group_id = tg.id
+          )
+        )
+      ) FILTER (WHERE tg.id IS NOT NULL) AS tabularGroups
+    FROM category c
+    LEFT JOIN model_category m ON c.id = m.category_id
+    LEFT JOIN category_field cf ON c.id = cf.category_id
+    LEFT JOIN field f ON cf.field_id = f.id
+    LEFT JOIN category_condition cc ON c.id = cc.category_id
+    LEFT JOIN condition cond ON cc.condition_id = cond.id
+    LEFT JOIN category_tabular_group ctg ON c.id = ctg.category_id
+    LEFT JOIN tabular_group tg ON ctg.tabular_id = tg.id
+    GROUP BY c.id, c.metadata;
+
+    -- Upserts the parts of a category aggregate that are present (non-NULL).
+    -- With p_replace, links of the category that are absent from a present array are removed;
+    -- shared rows (field, condition, tabular_group) are never deleted.
+    CREATE OR REPLACE FUNCTION metadata_view_apply(
+      p_category_id UUID,
+      p_model_ids JSONB,
+      p_fields JSONB,
+      p_conditions JSONB,
+      p_tabular_groups JSONB,
+      p_replace BOOLEAN
+    ) RETURNS VOID AS $$
+    DECLARE
+      item JSONB;
+      entry JSONB;
+      entry_order BIGINT;
+      item_id UUID;
+      item_ids UUID[];
+      entry_ids UUID[];
+    BEGIN
+      IF p_model_ids IS NOT NULL THEN
+        INSERT INTO model_category (model_id, category_id)
+        SELECT value::uuid, p_category_id FROM jsonb_array_elements_text(p_model_ids)
+        ON CONFLICT DO NOTHING;
+
+        IF p_replace THEN
+          DELETE FROM model_category
+          WHERE category_id = p_category_id
+            AND model_id <> ALL (ARRAY(SELECT value::uuid FROM jsonb_array_elements_text(p_model_ids)));
+        END IF;
+      END IF;
+
+      IF p_fields IS NOT NULL THEN
+        item_ids := '{}';
+        FOR item IN SELECT value FROM jsonb_array_elements(p_fields) LOOP
+          item_id := COALESCE((item->>'fieldId')::uuid, gen_random_uuid());
+          item_ids := item_ids || item_id;
+
+          INSERT INTO field (id, datatype, metadata, validation, search)
+          VALUES (item_id, item->>'datatype', item->'metadata', item->'validation', item->'search')
+          ON CONFLICT (id) DO UPDATE SET
+            datatype = CASE WHEN item ? 'datatype' THEN EXCLUDED.datatype ELSE field.datatype END,
+            metadata = CASE WHEN item ? 'metadata' THEN EXCLUDED.metadata ELSE field.metadata END,
+            validation = CASE WHEN item ? 'validation' THEN EXCLUDED.validation ELSE field.validation END,
+            search = CASE WHEN item ? 'search' THEN EXCLUDED.search ELSE field.search END;
+
+          INSERT INTO category_field (category_id, field_id, is_required)
+          VALUES (p_category_id, item_id, COALESCE((item->>'isRequired')::boolean, FALSE))
+          ON CONFLICT (category_id, field_id) DO UPDATE SET
+            is_required = CASE WHEN item ? 'isRequired' THEN EXCLUDED.is_required ELSE category_field.is_required END;
+        END LOOP;
+
+        IF p_replace THEN
+          DELETE FROM category_field WHERE category_id = p_category_id AND field_id <> ALL (item_ids);
+        END IF;
+      END IF;
+
+      IF p_conditions IS NOT NULL THEN
+        item_ids := '{}';
+        FOR item IN SELECT value FROM jsonb_array_elements(p_conditions) LOOP
+          item_id := COALESCE((item->>'conditionId')::uuid, gen_random_uuid());
+          item_ids := item_ids || item_id;
+
+          INSERT INTO condition (id) VALUES (item_id) ON CONFLICT DO NOTHING;
+          INSERT INTO category_condition (category_id, condition_id) VALUES (p_category_id, item_id)
+          ON CONFLICT DO NOTHING;
+
+          -- domainValues define the condition itself, so a present list always replaces it
+          IF item ? 'domainValues' THEN
+            entry_ids := '{}';
+            FOR entry IN SELECT value FROM jsonb_array_elements(COALESCE(NULLIF(item->'domainValues', 'null'), '[]')) LOOP
+              entry_ids := entry_ids || (entry->>'domainValueId')::uuid;
+
+              INSERT INTO condition_domain_value (condition_id, condition_group_id, domain_value_id, field_id)
+              VALUES (
+                item_id,
+                (entry->>'conditionGroupId')::uuid,
+                (entry->>'domainValueId')::uuid,
+                COALESCE(
+                  (entry->>'fieldId')::uuid,
+                  (SELECT dv.field_id FROM domain_value dv WHERE dv.id = (entry->>'domainValueId')::uuid)
+                )
+              )
+              ON CONFLICT (condition_id, domain_value_id) DO UPDATE SET
+                condition_group_id = EXCLUDED.condition_group_id,
+                field_id = EXCLUDED.field_id;
+            END LOOP;
+
+            DELETE FROM condition_domain_value WHERE condition_id = item_id AND domain_value_id <> ALL (entry_ids);
+          END IF;
+        END LOOP;
+
+        IF p_replace THEN
+          DELETE FROM category_condition WHERE category_id = p_category_id AND condition_id <> ALL (item_ids);
+        END IF;
+      END IF;
+
+      IF p_tabular_groups IS NOT NULL THEN
+        item_ids := '{}';
+        FOR item IN SELECT value FROM jsonb_array_elements(p_tabular_groups) LOOP
+          item_id := COALESCE((item->>'tabularGroupId')::uuid, gen_random_uuid());
+          item_ids := item_ids || item_id;
+
+          INSERT INTO tabular_group (id) VALUES (item_id) ON CONFLICT DO NOTHING;
+          INSERT INTO category_tabular_group (category_id, tabular_id, validation)
+          VALUES (p_category_id, item_id, item->'validation')
+          ON CONFLICT (category_id, tabular_id) DO UPDATE SET
+            validation = CASE WHEN item ? 'validation' THEN EXCLUDED.validation ELSE category_tabular_group.validation END;
+
+          -- Likewise, a present fields list defines the group's columns and their order
+          IF item ? 'fields' THEN
+            entry_ids := '{}';
+            FOR entry, entry_order IN
+              SELECT value, ordinality FROM jsonb_array_elements(COALESCE(NULLIF(item->'fields', 'null'), '[]')) WITH ORDINALITY
+            LOOP
+              entry_ids := entry_ids || (entry->>'fieldId')::uuid;
+
+              INSERT INTO tabular_group_field (tabular_group_id, field_id, field_order)
+              VALUES (item_id, (entry->>'fieldId')::uuid, COALESCE((entry->>'fieldOrder')::integer, entry_order::integer))
+              ON CONFLICT (tabular_group_id, field_id) DO UPDATE SET field_order = EXCLUDED.field_order;
+            END LOOP;
+
+            DELETE FROM tabular_group_field WHERE tabular_group_id = item_id AND field_id <> ALL (entry_ids);
+          END IF;
+        END LOOP;
+
+        IF p_replace THEN
+          DELETE FROM category_tabular_group WHERE category_id = p_category_id AND tabular_id <> ALL (item_ids);
+        END IF;
+      END IF;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE OR REPLACE FUNCTION metadata_view_insert_trigger() RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.category_id := COALESCE(NEW.category_id, gen_random_uuid());
+
+      INSERT INTO category (id, metadata) VALUES (NEW.category_id, NEW.category_metadata)
+      ON CONFLICT (id) DO UPDATE SET metadata = COALESCE(EXCLUDED.metadata, category.metadata);
+
+      PERFORM metadata_view_apply(NEW.category_id, NEW.model_ids, NEW.fields, NEW.conditions, NEW.tabulargroups, FALSE);
+      RETURN NEW;
+    END $$ LANGUAGE plpgsql;
+
+    -- Only the arrays that the UPDATE actually changed are synchronised, and they replace the existing links
+    CREATE OR REPLACE FUNCTION metadata_view_update_trigger() RETURNS TRIGGER AS $$
+    BEGIN
+      IF NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+        RAISE EXCEPTION 'category_id of metadata_view cannot be changed';
+      END IF;
+
+      UPDATE category SET metadata = NEW.category_metadata WHERE id = OLD.category_id;
+
+      PERFORM metadata_view_apply(
+        OLD.category_id,
+        CASE WHEN NEW.model_ids IS DISTINCT FROM OLD.model_ids THEN COALESCE(NEW.model_ids, '[]') END,
+        CASE WHEN NEW.fields IS DISTINCT FROM OLD.fields THEN COALESCE(NEW.fields, '[]') END,
+        CASE WHEN NEW.conditions IS DISTINCT FROM OLD.conditions THEN COALESCE(NEW.conditions, '[]') END,
+        CASE WHEN NEW.tabulargroups IS DISTINCT FROM OLD.tabulargroups THEN COALESCE(NEW.tabulargroups, '[]') END,
+        TRUE
+      );
+      RETURN NEW;
+    END $$ LANGUAGE plpgsql;
+
+    -- Links now exist, so they must go before the category itself
+    CREATE OR REPLACE FUNCTION metadata_view_delete_trigger() RETURNS TRIGGER AS $$
+    BEGIN
+      DELETE FROM model_category WHERE category_id = OLD.category_id;
+      DELETE FROM category_field WHERE category_id = OLD.category_id;
+      DELETE FROM category_condition WHERE category_id = OLD.category_id;
+      DELETE FROM category_tabular_group WHERE category_id = OLD.category_id;
+      DELETE FROM category WHERE id = OLD.category_id;
+      RETURN OLD;
+    END $$ LANGUAGE plpgsql;
+  `,
+  down: `
+    CREATE OR REPLACE VIEW metadata_view AS
+    SELECT
+      c.id AS category_id,
+      c.metadata AS category_metadata,
+      jsonb_agg(DISTINCT m.model_id) FILTER (WHERE m.model_id IS NOT NULL) AS model_ids,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'fieldId', f.id,
+          'datatype', f.datatype,
+          'metadata', f.metadata,
+          'validation', f.validation,
+          'search', f.search,
+          'isRequired', cf.is_required
+        )
+      ) FILTER (WHERE f.id IS NOT NULL) AS fields,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'conditionId', cond.id,
+          'domainValues', (
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'domainValueId', cdv.domain_value_id,
+                'conditionGroupId', cdv.condition_group_id,
+                'fieldId', cdv.field_id
+              )
+            ) FROM condition_domain_value cdv WHERE cdv.condition_id = cond.id
+          )
+        )
+      ) FILTER (WHERE cond.id IS NOT NULL) AS conditions,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'tabularGroupId', tg.id,
+          'validation', ctg.validation
+        )
+      ) FILTER (WHERE tg.id IS NOT NULL) AS tabularGroups
+    FROM category c
+    LEFT JOIN model_category m ON c.id = m.category_id
+    LEFT JOIN category_field cf ON c.id = cf.category_id
+    LEFT JOIN field f ON cf.field_id = f.id
+    LEFT JOIN category_condition cc ON c.id = cc.category_id
+    LEFT JOIN condition cond ON cc.condition_id = cond.id
+    LEFT JOIN category_tabular_group ctg ON c.id = ctg.category_id
+    LEFT JOIN tabular_group tg ON ctg.tabular_id = tg.id
+    GROUP BY c.id, c.metadata;
+
+    CREATE OR REPLACE FUNCTION metadata_view_insert_trigger() RETURNS TRIGGER AS $$
+    BEGIN
+      INSERT INTO category (id, metadata) VALUES (gen_random_uuid(), NEW.category_metadata);
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE OR REPLACE FUNCTION metadata_view_update_trigger() RETURNS TRIGGER AS $$
+    BEGIN
+      UPDATE category SET metadata = NEW.category_metadata WHERE id = NEW.category_id;
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE OR REPLACE FUNCTION metadata_view_delete_trigger() RETURNS TRIGGER AS $$
+    BEGIN
+      DELETE FROM category WHERE id = OLD.category_id;
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+
+    DROP FUNCTION IF EXISTS metadata_view_apply(UUID, JSONB, JSONB, JSONB, JSONB, BOOLEAN);
+  `
+}
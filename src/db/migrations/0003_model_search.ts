@@ -0,0 +1,44 @@
+import type { Migration } from '../migrator'
+
+/**
+ * Stores model attribute values as one JSONB value per (model, category, field) and adds the
+ * indexes the search query builder relies on. The index expressions must stay identical to the
+ * ones in `src/services/search/query-builder.ts` for the planner to use them.
+ */
+export const modelSearch: Migration = {
+  version: 3,
+  name: 'model_search',
+  up: `
+    CREATE TABLE model_field_value (
+      model_id UUID NOT NULL,
+      category_id UUID NOT NULL,
+      field_id UUID NOT NULL REFERENCES field(id) ON DELETE CASCADE,
+      value JSONB NOT NULL,
+      PRIMARY KEY (model_id, category_id, field_id),
+      FOREIGN KEY (model_id, category_id) REFERENCES model_category(model_id, category_id) ON DELETE CASCADE
+    );
+
+    -- model_category is keyed by model first; searches start from a category
+    CREATE INDEX model_category_category_idx ON model_category (category_id, model_id);
+
+    -- Equality, range and sorting on text, date and domain values
+    CREATE INDEX model_field_value_text_idx ON model_field_value (field_id, (value #>> '{}'));
+
+    -- Range and sorting on numbers
+    CREATE INDEX model_field_value_numeric_idx ON model_field_value (
+      field_id,
+      (CASE WHEN jsonb_typeof(value) = 'number' THEN (value #>> '{}')::numeric END)
+    );
+
+    -- Containment (@>) for equality filters and domain value facets, including multi-valued fields
+    CREATE INDEX model_field_value_value_idx ON model_field_value USING GIN (value jsonb_path_ops);
+
+    -- Full-text search over searchable fields
+    CREATE INDEX model_field_value_fulltext_idx ON model_field_value
+      USING GIN (to_tsvector('simple', value #>> '{}'));
+  `,
+  down: `
+    DROP TABLE IF EXISTS model_field_value;
+    DROP INDEX IF EXISTS model_category_category_idx;
+  `
+}
@@ -0,0 +1,41 @@
+import type { Migration } from '../migrator'
+
+/**
+ * Stores the models themselves and their tabular group rows. `model_category` stays keyed by an
+ * opaque model id, so links written through `metadata_view` need no `model` row; attribute values
+ * and rows hang off the link and disappear with it.
+ */
+export const models: Migration = {
+  version: 4,
+  name: 'models',
+  up: `
+    CREATE TABLE model (
+      id UUID PRIMARY KEY,
+      metadata JSONB,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
+    CREATE TABLE model_tabular_row (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      model_id UUID NOT NULL,
+      category_id UUID NOT NULL,
+      tabular_group_id UUID NOT NULL REFERENCES tabular_group(id) ON DELETE CASCADE,
+      row_order INTEGER NOT NULL,
+      UNIQUE (model_id, category_id, tabular_group_id, row_order),
+      FOREIGN KEY (model_id, category_id) REFERENCES model_category(model_id, category_id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE model_tabular_value (
+      row_id UUID NOT NULL REFERENCES model_tabular_row(id) ON DELETE CASCADE,
+      field_id UUID NOT NULL REFERENCES field(id) ON DELETE CASCADE,
+      value JSONB NOT NULL,
+      PRIMARY KEY (row_id, field_id)
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS model_tabular_value;
+    DROP TABLE IF EXISTS model_tabular_row;
+    DROP TABLE IF EXISTS model;
+  `
+}
@@ -0,0 +1,33 @@
+import type { Migration } from '../migrator'
+
+/**
+ * Tenants and the users signed up through the Cognito user pool. A user's id is their Cognito `sub`;
+ * `roles` are injected into their tokens as the `custom:roles` claim.
+ */
+export const users: Migration = {
+  version: 5,
+  name: 'users',
+  up: `
+    CREATE TABLE tenant (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      name TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
+    CREATE TABLE app_user (
+      id UUID PRIMARY KEY,
+      tenant_id UUID NOT NULL REFERENCES tenant(id) ON DELETE CASCADE,
+      email TEXT NOT NULL,
+      roles TEXT[] NOT NULL DEFAULT '{viewer}' CHECK (roles <@ ARRAY['admin', 'editor', 'viewer']),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
+    CREATE UNIQUE INDEX app_user_email_idx ON app_user (lower(email));
+    CREATE INDEX app_user_tenant_idx ON app_user (tenant_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS app_user;
+    DROP TABLE IF EXISTS tenant;
+  `
+}
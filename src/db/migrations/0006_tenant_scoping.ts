@@ -0,0 +1,381 @@
+import type { Migration } from '../migrator'
+
+/**
+ * Scopes the category model to tenants. The root tables (category, field, condition,
+ * tabular_group and model) get a `tenant_id`; row level security limits every table to the tenant
+ * in the `app.tenant_id` setting, the link and value tables through their parents. Tables are
+ * FORCEd so the policies also bind the owner, which is the role the functions connect as.
+ *
+ * Existing rows are moved to a new "Default" tenant. `metadata_view` runs as the invoker, so its
+ * rows and its triggers see exactly what the caller's tenant sees.
+ */
+export const tenantScoping: Migration = {
+  version: 6,
+  name: 'tenant_scoping',
+  up: `
+    -- NULL while unset, so the policies then match nothing
+    CREATE OR REPLACE FUNCTION current_tenant_id() RETURNS UUID AS $$
+      SELECT NULLIF(current_setting('app.tenant_id', TRUE), '')::uuid
+    $$ LANGUAGE sql STABLE;
+
+    CREATE OR REPLACE FUNCTION require_tenant_id() RETURNS UUID AS $$
+    BEGIN
+      IF current_tenant_id() IS NULL THEN
+        RAISE EXCEPTION 'app.tenant_id is not set' USING ERRCODE = 'insufficient_privilege';
+      END IF;
+      RETURN current_tenant_id();
+    END $$ LANGUAGE plpgsql STABLE;
+
+    ALTER TABLE category ADD COLUMN tenant_id UUID REFERENCES tenant(id);
+    ALTER TABLE field ADD COLUMN tenant_id UUID REFERENCES tenant(id);
+    ALTER TABLE condition ADD COLUMN tenant_id UUID REFERENCES tenant(id);
+    ALTER TABLE tabular_group ADD COLUMN tenant_id UUID REFERENCES tenant(id);
+    ALTER TABLE model ADD COLUMN tenant_id UUID REFERENCES tenant(id);
+
+    DO $$
+    DECLARE
+      default_tenant_id UUID;
+    BEGIN
+      IF EXISTS (SELECT 1 FROM category) OR EXISTS (SELECT 1 FROM field) OR EXISTS (SELECT 1 FROM condition)
+        OR EXISTS (SELECT 1 FROM tabular_group) OR EXISTS (SELECT 1 FROM model) THEN
+        INSERT INTO tenant (name) VALUES ('Default') RETURNING id INTO default_tenant_id;
+
+        UPDATE category SET tenant_id = default_tenant_id;
+        UPDATE field SET tenant_id = default_tenant_id;
+        UPDATE condition SET tenant_id = default_tenant_id;
+        UPDATE tabular_group SET tenant_id = default_tenant_id;
+        UPDATE model SET tenant_id = default_tenant_id;
+      END IF;
+    END $$;
+
+    ALTER TABLE category ALTER COLUMN tenant_id SET NOT NULL, ALTER COLUMN tenant_id SET DEFAULT require_tenant_id();
+    ALTER TABLE field ALTER COLUMN tenant_id SET NOT NULL, ALTER COLUMN tenant_id SET DEFAULT require_tenant_id();
+    ALTER TABLE condition ALTER COLUMN tenant_id SET NOT NULL, ALTER COLUMN tenant_id SET DEFAULT require_tenant_id();
+    ALTER TABLE tabular_group ALTER COLUMN tenant_id SET NOT NULL, ALTER COLUMN tenant_id SET DEFAULT require_tenant_id();
+    ALTER TABLE model ALTER COLUMN tenant_id SET NOT NULL, ALTER COLUMN tenant_id SET DEFAULT require_tenant_id();
+
+    CREATE INDEX category_tenant_idx ON category (tenant_id);
+    CREATE INDEX field_tenant_idx ON field (tenant_id);
+    CREATE INDEX condition_tenant_idx ON condition (tenant_id);
+    CREATE INDEX tabular_group_tenant_idx ON tabular_group (tenant_id);
+    CREATE INDEX model_tenant_idx ON model (tenant_id);
+
+    ALTER TABLE category ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE field ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE condition ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE tabular_group ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE model ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE domain_value ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE model_category ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE category_field ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE category_condition ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE category_tabular_group ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE condition_domain_value ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE tabular_group_field ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE model_field_value ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE model_tabular_row ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    ALTER TABLE model_tabular_value ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+
+    CREATE POLICY tenant_isolation ON category USING (tenant_id = current_tenant_id());
+    CREATE POLICY tenant_isolation ON field USING (tenant_id = current_tenant_id());
+    CREATE POLICY tenant_isolation ON condition USING (tenant_id = current_tenant_id());
+    CREATE POLICY tenant_isolation ON tabular_group USING (tenant_id = current_tenant_id());
+    CREATE POLICY tenant_isolation ON model USING (tenant_id = current_tenant_id());
+
+    -- The parent subqueries are themselves filtered by the policies above. Reading needs one visible
+    -- parent; writing checks every parent, so a link can never join rows of two tenants.
+    CREATE POLICY tenant_isolation ON domain_value
+      USING (EXISTS (SELECT 1 FROM field f WHERE f.id = domain_value.field_id));
+
+    CREATE POLICY tenant_isolation ON model_category
+      USING (EXISTS (SELECT 1 FROM category c WHERE c.id = model_category.category_id));
+
+    CREATE POLICY tenant_isolation ON category_field
+      USING (EXISTS (SELECT 1 FROM category c WHERE c.id = category_field.category_id))
+      WITH CHECK (
+        EXISTS (SELECT 1 FROM category c WHERE c.id = category_field.category_id)
+        AND EXISTS (SELECT 1 FROM field f WHERE f.id = category_field.field_id)
+      );
+
+    CREATE POLICY tenant_isolation ON category_condition
+      USING (EXISTS (SELECT 1 FROM category c WHERE c.id = category_condition.category_id))
+      WITH CHECK (
+        EXISTS (SELECT 1 FROM category c WHERE c.id = category_condition.category_id)
+        AND EXISTS (SELECT 1 FROM condition cond WHERE cond.id = category_condition.condition_id)
+      );
+
+    CREATE POLICY tenant_isolation ON category_tabular_group
+      USING (EXISTS (SELECT 1 FROM category c WHERE c.id = category_tabular_group.category_id))
+      WITH CHECK (
+        EXISTS (SELECT 1 FROM category c WHERE c.id = category_tabular_group.category_id)
+        AND EXISTS (SELECT 1 FROM tabular_group tg WHERE tg.id = category_tabular_group.tabular_id)
+      );
+
+    CREATE POLICY tenant_isolation ON condition_domain_value
+      USING (EXISTS (SELECT 1 FROM condition cond WHERE cond.id = condition_domain_value.condition_id))
+      WITH CHECK (
+        EXISTS (SELECT 1 FROM condition cond WHERE cond.id = condition_domain_value.condition_id)
+        AND EXISTS (SELECT 1 FROM domain_value dv WHERE dv.id = condition_domain_value.domain_value_id)
+        AND (
+          condition_domain_value.field_id IS NULL
+          OR EXISTS (SELECT 1 FROM field f WHERE f.id = condition_domain_value.field_id)
+        )
+      );
+
+    CREATE POLICY tenant_isolation ON tabular_group_field
+      USING (EXISTS (SELECT 1 FROM tabular_group tg WHERE tg.id = tabular_group_field.tabular_group_id))
+      WITH CHECK (
+        EXISTS (SELECT 1 FROM tabular_group tg WHERE tg.id = tabular_group_field.tabular_group_id)
+        AND EXISTS (SELECT 1 FROM field f WHERE f.id = tabular_group_field.field_id)
+      );
+
+    CREATE POLICY tenant_isolation ON model_field_value
+      USING (EXISTS (SELECT 1 FROM category c WHERE c.id = model_field_value.category_id))
+      WITH CHECK (
+        EXISTS (SELECT 1 FROM category c WHERE c.id = model_field_value.category_id)
+        AND EXISTS (SELECT 1 FROM field f WHERE f.id = model_field_value.field_id)
+      );
+
+    CREATE POLICY tenant_isolation ON model_tabular_row
+      USING (EXISTS (SELECT 1 FROM category c WHERE c.id = model_tabular_row.category_id))
+      WITH CHECK (
+        EXISTS (SELECT 1 FROM category c WHERE c.id = model_tabular_row.category_id)
+        AND EXISTS (SELECT 1 FROM tabular_group tg WHERE tg.id = model_tabular_row.tabular_group_id)
+      );
+
+    CREATE POLICY tenant_isolation ON model_tabular_value
+      USING (EXISTS (SELECT 1 FROM model_tabular_row r WHERE r.id = model_tabular_value.row_id))
+      WITH CHECK (
+        EXISTS (SELECT 1 FROM model_tabular_row r WHERE r.id = model_tabular_value.row_id)
+        AND EXISTS (SELECT 1 FROM field f WHERE f.id = model_tabular_value.field_id)
+      );
+
+    -- As the invoker, the view is filtered by the caller's policies rather than by its owner's privileges
+    CREATE OR REPLACE VIEW metadata_view WITH (security_invoker = true) AS
+    SELECT
+      c.id AS category_id,
+      c.metadata AS category_metadata,
+      jsonb_agg(DISTINCT m.model_id) FILTER (WHERE m.model_id IS NOT NULL) AS model_ids,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'fieldId', f.id,
+          'datatype', f.datatype,
+          'metadata', f.metadata,
+          'validation', f.validation,
+          'search', f.search,
+          'isRequired', cf.is_required
+        )
+      ) FILTER (WHERE f.id IS NOT NULL) AS fields,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'conditionId', cond.id,
+          'domainValues', (
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'domainValueId', cdv.domain_value_id,
+                'conditionGroupId', cdv.condition_group_id,
+                'fieldId', cdv.field_id
+              )
+            ) FROM condition_domain_value cdv WHERE cdv.condition_id = cond.id
+          )
+        )
+      ) FILTER (WHERE cond.id IS NOT NULL) AS conditions,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'tabularGroupId', tg.id,
+          'validation', ctg.validation,
+          'fields', (
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'fieldId', tgf.field_id,
+                'fieldOrder', tgf.field_order
+              ) ORDER BY tgf.field_order
+            ) FROM tabular_group_field tgf WHERE tgf.tabular_group_id = tg.id
+          )
+        )
+      ) FILTER (WHERE tg.id IS NOT NULL) AS tabularGroups,
+      c.tenant_id
+    FROM category c
+    LEFT JOIN model_category m ON c.id = m.category_id
+    LEFT JOIN category_field cf ON c.id = cf.category_id
+    LEFT JOIN field f ON cf.field_id = f.id
+    LEFT JOIN category_condition cc ON c.id = cc.category_id
+    LEFT JOIN condition cond ON cc.condition_id = cond.id
+    LEFT JOIN category_tabular_group ctg ON c.id = ctg.category_id
+    LEFT JOIN tabular_group tg ON ctg.tabular_id = tg.id
+    GROUP BY c.id, c.metadata, c.tenant_id;
+
+    -- Rows created by metadata_view_apply take the session's tenant from the column defaults,
+    -- so the category must belong to that tenant as well
+    CREATE OR REPLACE FUNCTION metadata_view_insert_trigger() RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.category_id := COALESCE(NEW.category_id, gen_random_uuid());
+      NEW.tenant_id := COALESCE(NEW.tenant_id, require_tenant_id());
+
+      IF NEW.tenant_id IS DISTINCT FROM current_tenant_id() THEN
+        RAISE EXCEPTION 'metadata_view rows can only be written for the tenant in app.tenant_id'
+          USING ERRCODE = 'insufficient_privilege';
+      END IF;
+
+      INSERT INTO category (id, tenant_id, metadata) VALUES (NEW.category_id, NEW.tenant_id, NEW.category_metadata)
+      ON CONFLICT (id) DO UPDATE SET metadata = COALESCE(EXCLUDED.metadata, category.metadata);
+
+      PERFORM metadata_view_apply(NEW.category_id, NEW.model_ids, NEW.fields, NEW.conditions, NEW.tabulargroups, FALSE);
+      RETURN NEW;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE OR REPLACE FUNCTION metadata_view_update_trigger() RETURNS TRIGGER AS $$
+    BEGIN
+      IF NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+        RAISE EXCEPTION 'category_id of metadata_view cannot be changed';
+      END IF;
+      IF NEW.tenant_id IS DISTINCT FROM OLD.tenant_id THEN
+        RAISE EXCEPTION 'tenant_id of metadata_view cannot be changed';
+      END IF;
+
+      UPDATE category SET metadata = NEW.category_metadata WHERE id = OLD.category_id;
+
+      PERFORM metadata_view_apply(
+        OLD.category_id,
+        CASE WHEN NEW.model_ids IS DISTINCT FROM OLD.model_ids THEN COALESCE(NEW.model_ids, '[]') END,
+        CASE WHEN NEW.fields IS DISTINCT FROM OLD.fields THEN COALESCE(NEW.fields, '[]') END,
+        CASE WHEN NEW.conditions IS DISTINCT FROM OLD.conditions THEN COALESCE(NEW.conditions, '[]') END,
+        CASE WHEN NEW.tabulargroups IS DISTINCT FROM OLD.tabulargroups THEN COALESCE(NEW.tabulargroups, '[]') END,
+        TRUE
+      );
+      RETURN NEW;
+    END $$ LANGUAGE plpgsql;
+  `,
+  down: `
+    -- CREATE OR REPLACE cannot drop the tenant_id column, so the view and its triggers are recreated
+    DROP VIEW metadata_view;
+
+    CREATE VIEW metadata_view AS
+    SELECT
+      c.id AS category_id,
+      c.metadata AS category_metadata,
+      jsonb_agg(DISTINCT m.model_id) FILTER (WHERE m.model_id IS NOT NULL) AS model_ids,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'fieldId', f.id,
+          'datatype', f.datatype,
+          'metadata', f.metadata,
+          'validation', f.validation,
+          'search', f.search,
+          'isRequired', cf.is_required
+        )
+      ) FILTER (WHERE f.id IS NOT NULL) AS fields,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'conditionId', cond.id,
+          'domainValues', (
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'domainValueId', cdv.domain_value_id,
+                'conditionGroupId', cdv.condition_group_id,
+                'fieldId', cdv.field_id
+              )
+            ) FROM condition_domain_value cdv WHERE cdv.condition_id = cond.id
+          )
+        )
+      ) FILTER (WHERE cond.id IS NOT NULL) AS conditions,
+      jsonb_agg(
+        DISTINCT jsonb_build_object(
+          'tabularGroupId', tg.id,
+          'validation', ctg.validation,
+          'fields', (
+            SELECT jsonb_agg(
+              jsonb_build_object(
+                'fieldId', tgf.field_id,
+                'fieldOrder', tgf.field_order
+              ) ORDER BY tgf.field_order
+            ) FROM tabular_group_field tgf WHERE tgf.tabular_group_id = tg.id
+          )
+        )
+      ) FILTER (WHERE tg.id IS NOT NULL) AS tabularGroups
+    FROM category c
+    LEFT JOIN model_category m ON c.id = m.category_id
+    LEFT JOIN category_field cf ON c.id = cf.category_id
+    LEFT JOIN field f ON cf.field_id = f.id
+    LEFT JOIN category_condition cc ON c.id = cc.category_id
+    LEFT JOIN condition cond ON cc.condition_id = cond.id
+    LEFT JOIN category_tabular_group ctg ON c.id = ctg.category_id
+    LEFT JOIN tabular_group tg ON ctg.tabular_id = tg.id
+    GROUP BY c.id, c.metadata;
+
+    CREATE OR REPLACE FUNCTION metadata_view_insert_trigger() RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.category_id := COALESCE(NEW.category_id, gen_random_uuid());
+
+      INSERT INTO category (id, metadata) VALUES (NEW.category_id, NEW.category_metadata)
+      ON CONFLICT (id) DO UPDATE SET metadata = COALESCE(EXCLUDED.metadata, category.metadata);
+
+      PERFORM metadata_view_apply(NEW.category_id, NEW.model_ids, NEW.fields, NEW.conditions, NEW.tabulargroups, FALSE);
+      RETURN NEW;
+    END $$ LANGUAGE plpgsql;
+    CREATE TRIGGER metadata_view_insert INSTEAD OF INSERT ON metadata_view FOR EACH ROW EXECUTE FUNCTION metadata_view_insert_trigger();
+
+    CREATE OR REPLACE FUNCTION metadata_view_update_trigger() RETURNS TRIGGER AS $$
+    BEGIN
+      IF NEW.category_id IS DISTINCT FROM OLD.category_id THEN
+        RAISE EXCEPTION 'category_id of metadata_view cannot be changed';
+      END IF;
+
+      UPDATE category SET metadata = NEW.category_metadata WHERE id = OLD.category_id;
+
+      PERFORM metadata_view_apply(
+        OLD.category_id,
+        CASE WHEN NEW.model_ids IS DISTINCT FROM OLD.model_ids THEN COALESCE(NEW.model_ids, '[]') END,
+        CASE WHEN NEW.fields IS DISTINCT FROM OLD.fields THEN COALESCE(NEW.fields, '[]') END,
+        CASE WHEN NEW.conditions IS DISTINCT FROM OLD.conditions THEN COALESCE(NEW.conditions, '[]') END,
+        CASE WHEN NEW.tabulargroups IS DISTINCT FROM OLD.tabulargroups THEN COALESCE(NEW.tabulargroups, '[]') END,
+        TRUE
+      );
+      RETURN NEW;
+    END $$ LANGUAGE plpgsql;
+    CREATE TRIGGER metadata_view_update INSTEAD OF UPDATE ON metadata_view FOR EACH ROW EXECUTE FUNCTION metadata_view_update_trigger();
+
+    CREATE TRIGGER metadata_view_delete INSTEAD OF DELETE ON metadata_view FOR EACH ROW EXECUTE FUNCTION metadata_view_delete_trigger();
+
+    DROP POLICY IF EXISTS tenant_isolation ON model_tabular_value;
+    DROP POLICY IF EXISTS tenant_isolation ON model_tabular_row;
+    DROP POLICY IF EXISTS tenant_isolation ON model_field_value;
+    DROP POLICY IF EXISTS tenant_isolation ON tabular_group_field;
+    DROP POLICY IF EXISTS tenant_isolation ON condition_domain_value;
+    DROP POLICY IF EXISTS tenant_isolation ON category_tabular_group;
+    DROP POLICY IF EXISTS tenant_isolation ON category_condition;
+    DROP POLICY IF EXISTS tenant_isolation ON category_field;
+    DROP POLICY IF EXISTS tenant_isolation ON model_category;
+    DROP POLICY IF EXISTS tenant_isolation ON domain_value;
+    DROP POLICY IF EXISTS tenant_isolation ON model;
+    DROP POLICY IF EXISTS tenant_isolation ON tabular_group;
+    DROP POLICY IF EXISTS tenant_isolation ON condition;
+    DROP POLICY IF EXISTS tenant_isolation ON field;
+    DROP POLICY IF EXISTS tenant_isolation ON category;
+
+    ALTER TABLE model_tabular_value NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE model_tabular_row NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE model_field_value NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE tabular_group_field NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE condition_domain_value NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE category_tabular_group NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE category_condition NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE category_field NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE model_category NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE domain_value NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE model NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE tabular_group NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE condition NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE field NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+    ALTER TABLE category NO FORCE ROW LEVEL SECURITY, DISABLE ROW LEVEL SECURITY;
+
+    ALTER TABLE model DROP COLUMN IF EXISTS tenant_id;
+    ALTER TABLE tabular_group DROP COLUMN IF EXISTS tenant_id;
+    ALTER TABLE condition DROP COLUMN IF EXISTS tenant_id;
+    ALTER TABLE field DROP COLUMN IF EXISTS tenant_id;
+    ALTER TABLE category DROP COLUMN IF EXISTS tenant_id;
+
+    DROP FUNCTION IF EXISTS require_tenant_id();
+    DROP FUNCTION IF EXISTS current_tenant_id();
+  `
+}
@@ -0,0 +1,97 @@
+import type { Migration } from '../migrator'
+
+/**
+ * Records every change to the category, field, condition and tabular group tables, including their link
+ * and value tables, in `audit_log`: the row before and after the change, the acting user and the request,
+ * taken from the `app.user_id` and `app.request_id` settings. Each entry is filed under the record that
+ * owns the row, e.g. a `category_field` link under its category and a `domain_value` under its field.
+ *
+ * The log is append-only: its policies allow tenants to read and insert their own entries, nothing else.
+ */
+export const auditLog: Migration = {
+  version: 7,
+  name: 'audit_log',
+  up: `
+    CREATE TABLE audit_log (
+      id BIGSERIAL PRIMARY KEY,
+      tenant_id UUID REFERENCES tenant(id),
+      record_type TEXT NOT NULL CHECK (record_type IN ('category', 'field', 'condition', 'tabular_group')),
+      record_id UUID NOT NULL,
+      table_name TEXT NOT NULL,
+      operation TEXT NOT NULL CHECK (operation IN ('INSERT', 'UPDATE', 'DELETE')),
+      before JSONB,
+      after JSONB,
+      actor_id TEXT,
+      request_id TEXT,
+      changed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
+    CREATE INDEX audit_log_record_idx ON audit_log (record_type, record_id, id);
+
+    -- TG_ARGV: the record type and the column of the row holding the record's id
+    CREATE OR REPLACE FUNCTION audit_row_change() RETURNS TRIGGER AS $$
+    DECLARE
+      before_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+      after_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+      changed_row JSONB := COALESCE(after_row, before_row);
+    BEGIN
+      -- Upserts through metadata_view rewrite rows unchanged
+      IF before_row = after_row THEN
+        RETURN NULL;
+      END IF;
+
+      INSERT INTO audit_log (tenant_id, record_type, record_id, table_name, operation, before, after, actor_id, request_id)
+      VALUES (
+        COALESCE((changed_row->>'tenant_id')::uuid, current_tenant_id()),
+        TG_ARGV[0],
+        (changed_row->>TG_ARGV[1])::uuid,
+        TG_TABLE_NAME,
+        TG_OP,
+        before_row,
+        after_row,
+        NULLIF(current_setting('app.user_id', TRUE), ''),
+        NULLIF(current_setting('app.request_id', TRUE), '')
+      );
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE TRIGGER audit AFTER INSERT OR UPDATE OR DELETE ON category
+      FOR EACH ROW EXECUTE FUNCTION audit_row_change('category', 'id');
+    CREATE TRIGGER audit AFTER INSERT OR UPDATE OR DELETE ON category_field
+      FOR EACH ROW EXECUTE FUNCTION audit_row_change('category', 'category_id');
+    CREATE TRIGGER audit AFTER INSERT OR UPDATE OR DELETE ON category_condition
+      FOR EACH ROW EXECUTE FUNCTION audit_row_change('category', 'category_id');
+    CREATE TRIGGER audit AFTER INSERT OR UPDATE OR DELETE ON category_tabular_group
+      FOR EACH ROW EXECUTE FUNCTION audit_row_change('category', 'category_id');
+    CREATE TRIGGER audit AFTER INSERT OR UPDATE OR DELETE ON field
+      FOR EACH ROW EXECUTE FUNCTION audit_row_change('field', 'id');
+    CREATE TRIGGER audit AFTER INSERT OR UPDATE OR DELETE ON domain_value
+      FOR EACH ROW EXECUTE FUNCTION audit_row_change('field', 'field_id');
+    CREATE TRIGGER audit AFTER INSERT OR UPDATE OR DELETE ON condition
+      FOR EACH ROW EXECUTE FUNCTION audit_row_change('condition', 'id');
+    CREATE TRIGGER audit AFTER INSERT OR UPDATE OR DELETE ON condition_domain_value
+      FOR EACH ROW EXECUTE FUNCTION audit_row_change('condition', 'condition_id');
+    CREATE TRIGGER audit AFTER INSERT OR UPDATE OR DELETE ON tabular_group
+      FOR EACH ROW EXECUTE FUNCTION audit_row_change('tabular_group', 'id');
+    CREATE TRIGGER audit AFTER INSERT OR UPDATE OR DELETE ON tabular_group_field
+      FOR EACH ROW EXECUTE FUNCTION audit_row_change('tabular_group', 'tabular_group_id');
+
+    ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    CREATE POLICY tenant_read ON audit_log FOR SELECT USING (tenant_id = current_tenant_id());
+    CREATE POLICY tenant_append ON audit_log FOR INSERT WITH CHECK (tenant_id = current_tenant_id());
+  `,
+  down: `
+    DROP TRIGGER IF EXISTS audit ON tabular_group_field;
+    DROP TRIGGER IF EXISTS audit ON tabular_group;
+    DROP TRIGGER IF EXISTS audit ON condition_domain_value;
+    DROP TRIGGER IF EXISTS audit ON condition;
+    DROP TRIGGER IF EXISTS audit ON domain_value;
+    DROP TRIGGER IF EXISTS audit ON field;
+    DROP TRIGGER IF EXISTS audit ON category_tabular_group;
+    DROP TRIGGER IF EXISTS audit ON category_condition;
+    DROP TRIGGER IF EXISTS audit ON category_field;
+    DROP TRIGGER IF EXISTS audit ON category;
+    DROP FUNCTION IF EXISTS audit_row_change();
+    DROP TABLE IF EXISTS audit_log;
+  `
+}
@@ -0,0 +1,50 @@
+import type { Migration } from '../migrator'
+
+/**
+ * Published versions of category definitions. Publishing freezes the category's `metadata_view` aggregate,
+ * together with the definitions its validation reads, into a numbered `category_version`; the live tables stay
+ * the editable draft. Versions cannot be changed and only go away with their category.
+ *
+ * `model_category.category_version` pins the version a model's values in a category were validated against,
+ * NULL when they were validated against the draft of a category without versions.
+ */
+export const categoryVersions: Migration = {
+  version: 8,
+  name: 'category_versions',
+  up: `
+    CREATE TABLE category_version (
+      category_id UUID NOT NULL REFERENCES category(id) ON DELETE CASCADE,
+      version INTEGER NOT NULL CHECK (version > 0),
+      tenant_id UUID NOT NULL DEFAULT require_tenant_id() REFERENCES tenant(id),
+      definition JSONB NOT NULL,
+      published_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      published_by TEXT DEFAULT NULLIF(current_setting('app.user_id', TRUE), ''),
+      PRIMARY KEY (category_id, version)
+    );
+
+    CREATE OR REPLACE FUNCTION category_version_immutable() RETURNS TRIGGER AS $$
+    BEGIN
+      RAISE EXCEPTION 'published category versions cannot be changed' USING ERRCODE = 'insufficient_privilege';
+    END $$ LANGUAGE plpgsql;
+    CREATE TRIGGER category_version_immutable BEFORE UPDATE ON category_version
+      FOR EACH ROW EXECUTE FUNCTION category_version_immutable();
+
+    -- No UPDATE or DELETE policies: rows only leave through the cascade from their category
+    ALTER TABLE category_version ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    CREATE POLICY tenant_read ON category_version FOR SELECT USING (tenant_id = current_tenant_id());
+    CREATE POLICY tenant_publish ON category_version FOR INSERT WITH CHECK (
+      tenant_id = current_tenant_id()
+      AND EXISTS (SELECT 1 FROM category c WHERE c.id = category_version.category_id)
+    );
+
+    ALTER TABLE model_category ADD COLUMN category_version INTEGER;
+    ALTER TABLE model_category ADD CONSTRAINT model_category_version_fkey
+      FOREIGN KEY (category_id, category_version) REFERENCES category_version(category_id, version);
+  `,
+  down: `
+    ALTER TABLE model_category DROP CONSTRAINT IF EXISTS model_category_version_fkey;
+    ALTER TABLE model_category DROP COLUMN IF EXISTS category_version;
+    DROP TABLE IF EXISTS category_version;
+    DROP FUNCTION IF EXISTS category_version_immutable();
+  `
+}
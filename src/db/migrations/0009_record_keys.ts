@@ -0,0 +1,76 @@
+import type { Migration } from '../migrator'
+
+/**
+ * Stable keys for metadata records, so exports can reference records independently of their UUIDs and imports can
+ * find them again in another environment. Keys are unique per tenant, domain value keys per field; rows inserted
+ * without one, and every existing row, take their id as key.
+ */
+export const recordKeys: Migration = {
+  version: 9,
+  name: 'record_keys',
+  up: `
+    CREATE OR REPLACE FUNCTION default_record_key() RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.key := COALESCE(NEW.key, NEW.id::text);
+      RETURN NEW;
+    END $$ LANGUAGE plpgsql;
+
+    ALTER TABLE category ADD COLUMN key TEXT;
+    ALTER TABLE field ADD COLUMN key TEXT;
+    ALTER TABLE domain_value ADD COLUMN key TEXT;
+    ALTER TABLE condition ADD COLUMN key TEXT;
+    ALTER TABLE tabular_group ADD COLUMN key TEXT;
+
+    -- The backfill covers every tenant, which the forced policies would hide, and is no change worth auditing
+    ALTER TABLE category NO FORCE ROW LEVEL SECURITY, DISABLE TRIGGER audit;
+    ALTER TABLE field NO FORCE ROW LEVEL SECURITY, DISABLE TRIGGER audit;
+    ALTER TABLE domain_value NO FORCE ROW LEVEL SECURITY, DISABLE TRIGGER audit;
+    ALTER TABLE condition NO FORCE ROW LEVEL SECURITY, DISABLE TRIGGER audit;
+    ALTER TABLE tabular_group NO FORCE ROW LEVEL SECURITY, DISABLE TRIGGER audit;
+
+    UPDATE category SET key = id::text;
+    UPDATE field SET key = id::text;
+    UPDATE domain_value SET key = id::text;
+    UPDATE condition SET key = id::text;
+    UPDATE tabular_group SET key = id::text;
+
+    ALTER TABLE category FORCE ROW LEVEL SECURITY, ENABLE TRIGGER audit;
+    ALTER TABLE field FORCE ROW LEVEL SECURITY, ENABLE TRIGGER audit;
+    ALTER TABLE domain_value FORCE ROW LEVEL SECURITY, ENABLE TRIGGER audit;
+    ALTER TABLE condition FORCE ROW LEVEL SECURITY, ENABLE TRIGGER audit;
+    ALTER TABLE tabular_group FORCE ROW LEVEL SECURITY, ENABLE TRIGGER audit;
+
+    ALTER TABLE category ALTER COLUMN key SET NOT NULL;
+    ALTER TABLE field ALTER COLUMN key SET NOT NULL;
+    ALTER TABLE domain_value ALTER COLUMN key SET NOT NULL;
+    ALTER TABLE condition ALTER COLUMN key SET NOT NULL;
+    ALTER TABLE tabular_group ALTER COLUMN key SET NOT NULL;
+
+    CREATE TRIGGER default_key BEFORE INSERT ON category FOR EACH ROW EXECUTE FUNCTION default_record_key();
+    CREATE TRIGGER default_key BEFORE INSERT ON field FOR EACH ROW EXECUTE FUNCTION default_record_key();
+    CREATE TRIGGER default_key BEFORE INSERT ON domain_value FOR EACH ROW EXECUTE FUNCTION default_record_key();
+    CREATE TRIGGER default_key BEFORE INSERT ON condition FOR EACH ROW EXECUTE FUNCTION default_record_key();
+    CREATE TRIGGER default_key BEFORE INSERT ON tabular_group FOR EACH ROW EXECUTE FUNCTION default_record_key();
+
+    CREATE UNIQUE INDEX category_key_idx ON category (tenant_id, key);
+    CREATE UNIQUE INDEX field_key_idx ON field (tenant_id, key);
+    CREATE UNIQUE INDEX domain_value_key_idx ON domain_value (field_id, key);
+    CREATE UNIQUE INDEX condition_key_idx ON condition (tenant_id, key);
+    CREATE UNIQUE INDEX tabular_group_key_idx ON tabular_group (tenant_id, key);
+  `,
+  down: `
+    DROP TRIGGER IF EXISTS default_key ON category;
+    DROP TRIGGER IF EXISTS default_key ON field;
+    DROP TRIGGER IF EXISTS default_key ON domain_value;
+    DROP TRIGGER IF EXISTS default_key ON condition;
+    DROP TRIGGER IF EXISTS default_key ON tabular_group;
+
+    ALTER TABLE category DROP COLUMN IF EXISTS key;
+    ALTER TABLE field DROP COLUMN IF EXISTS key;
+    ALTER TABLE domain_value DROP COLUMN IF EXISTS key;
+    ALTER TABLE condition DROP COLUMN IF EXISTS key;
+    ALTER TABLE tabular_group DROP COLUMN IF EXISTS key;
+
+    DROP FUNCTION IF EXISTS default_record_key();
+  `
+}
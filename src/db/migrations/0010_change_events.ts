@@ -0,0 +1,139 @@
+import type { Migration } from '../migrator'
+
+/**
+ * A transactional outbox of change events for the metadata tables. Triggers on the category, field, condition and
+ * tabular group tables, their link and value tables and `category_version` append a typed event to `outbox_event`
+ * in the transaction that changes the row, so every write path (the repositories, the `metadata_view` triggers,
+ * imports and restores) emits events exactly when its changes commit. Like the audit log, events are filed under
+ * the record owning the row and carry the row before and after the change.
+ *
+ * The relay publishes pending events and marks them published; events are delivered at least once, and `event_id`
+ * lets consumers drop duplicates. Tenants may only append; the relay sees every tenant's events through the
+ * `app.outbox_relay` setting.
+ */
+export const changeEvents: Migration = {
+  version: 10,
+  name: 'change_events',
+  up: `
+    CREATE TABLE outbox_event (
+      id BIGSERIAL PRIMARY KEY,
+      event_id UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+      tenant_id UUID NOT NULL REFERENCES tenant(id),
+      event_type TEXT NOT NULL,
+      record_type TEXT NOT NULL CHECK (record_type IN ('category', 'field', 'condition', 'tabular_group')),
+      record_id UUID NOT NULL,
+      table_name TEXT NOT NULL,
+      before JSONB,
+      after JSONB,
+      actor_id TEXT,
+      request_id TEXT,
+      occurred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      published_at TIMESTAMPTZ
+    );
+
+    CREATE INDEX outbox_event_pending_idx ON outbox_event (id) WHERE published_at IS NULL;
+    CREATE INDEX outbox_event_published_idx ON outbox_event (published_at) WHERE published_at IS NOT NULL;
+
+    -- TG_ARGV: the record type, the column of the row holding the record's id and the event types of INSERT,
+    -- UPDATE and DELETE, an empty type for operations without an event
+    CREATE OR REPLACE FUNCTION outbox_row_change() RETURNS TRIGGER AS $$
+    DECLARE
+      before_row JSONB := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+      after_row JSONB := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+      changed_row JSONB := COALESCE(after_row, before_row);
+      event_type TEXT := NULLIF(
+        CASE TG_OP WHEN 'INSERT' THEN TG_ARGV[2] WHEN 'UPDATE' THEN TG_ARGV[3] ELSE TG_ARGV[4] END,
+        ''
+      );
+    BEGIN
+      -- Upserts through metadata_view rewrite rows unchanged
+      IF event_type IS NULL OR before_row = after_row THEN
+        RETURN NULL;
+      END IF;
+
+      INSERT INTO outbox_event (
+        tenant_id, event_type, record_type, record_id, table_name, before, after, actor_id, request_id
+      )
+      VALUES (
+        COALESCE((changed_row->>'tenant_id')::uuid, current_tenant_id()),
+        event_type,
+        TG_ARGV[0],
+        (changed_row->>TG_ARGV[1])::uuid,
+        TG_TABLE_NAME,
+        before_row,
+        after_row,
+        NULLIF(current_setting('app.user_id', TRUE), ''),
+        NULLIF(current_setting('app.request_id', TRUE), '')
+      );
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE TRIGGER outbox AFTER INSERT OR UPDATE OR DELETE ON category
+      FOR EACH ROW EXECUTE FUNCTION outbox_row_change(
+        'category', 'id', 'CategoryCreated', 'CategoryUpdated', 'CategoryDeleted'
+      );
+    CREATE TRIGGER outbox AFTER INSERT OR UPDATE OR DELETE ON category_field
+      FOR EACH ROW EXECUTE FUNCTION outbox_row_change(
+        'category', 'category_id', 'CategoryFieldAdded', 'CategoryFieldUpdated', 'CategoryFieldRemoved'
+      );
+    CREATE TRIGGER outbox AFTER INSERT OR UPDATE OR DELETE ON category_condition
+      FOR EACH ROW EXECUTE FUNCTION outbox_row_change(
+        'category', 'category_id', 'CategoryConditionAdded', '', 'CategoryConditionRemoved'
+      );
+    CREATE TRIGGER outbox AFTER INSERT OR UPDATE OR DELETE ON category_tabular_group
+      FOR EACH ROW EXECUTE FUNCTION outbox_row_change(
+        'category', 'category_id', 'CategoryTabularGroupAdded', 'CategoryTabularGroupUpdated',
+        'CategoryTabularGroupRemoved'
+      );
+    -- Versions are immutable and only deleted with their category
+    CREATE TRIGGER outbox AFTER INSERT ON category_version
+      FOR EACH ROW EXECUTE FUNCTION outbox_row_change('category', 'category_id', 'CategoryPublished', '', '');
+    CREATE TRIGGER outbox AFTER INSERT OR UPDATE OR DELETE ON field
+      FOR EACH ROW EXECUTE FUNCTION outbox_row_change(
+        'field', 'id', 'FieldCreated', 'FieldUpdated', 'FieldDeleted'
+      );
+    CREATE TRIGGER outbox AFTER INSERT OR UPDATE OR DELETE ON domain_value
+      FOR EACH ROW EXECUTE FUNCTION outbox_row_change(
+        'field', 'field_id', 'DomainValueAdded', 'DomainValueUpdated', 'DomainValueRemoved'
+      );
+    CREATE TRIGGER outbox AFTER INSERT OR UPDATE OR DELETE ON condition
+      FOR EACH ROW EXECUTE FUNCTION outbox_row_change(
+        'condition', 'id', 'ConditionCreated', 'ConditionUpdated', 'ConditionDeleted'
+      );
+    CREATE TRIGGER outbox AFTER INSERT OR UPDATE OR DELETE ON condition_domain_value
+      FOR EACH ROW EXECUTE FUNCTION outbox_row_change(
+        'condition', 'condition_id', 'ConditionDomainValueAdded', 'ConditionDomainValueUpdated',
+        'ConditionDomainValueRemoved'
+      );
+    CREATE TRIGGER outbox AFTER INSERT OR UPDATE OR DELETE ON tabular_group
+      FOR EACH ROW EXECUTE FUNCTION outbox_row_change(
+        'tabular_group', 'id', 'TabularGroupCreated', 'TabularGroupUpdated', 'TabularGroupDeleted'
+      );
+    CREATE TRIGGER outbox AFTER INSERT OR UPDATE OR DELETE ON tabular_group_field
+      FOR EACH ROW EXECUTE FUNCTION outbox_row_change(
+        'tabular_group', 'tabular_group_id', 'TabularGroupFieldAdded', 'TabularGroupFieldUpdated',
+        'TabularGroupFieldRemoved'
+      );
+
+    ALTER TABLE outbox_event ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    CREATE POLICY tenant_append ON outbox_event FOR INSERT WITH CHECK (tenant_id = current_tenant_id());
+    CREATE POLICY relay ON outbox_event USING (current_setting('app.outbox_relay', TRUE) = 'on');
+  `,
+  down: `
+    DROP TRIGGER IF EXISTS outbox ON tabular_group_field;
+    DROP TRIGGER IF EXISTS outbox ON tabular_group;
+    DROP TRIGGER IF EXISTS outbox ON condition_domain_value;
+    DROP TRIGGER IF EXISTS outbox ON condition;
+    DROP TRIGGER IF EXISTS outbox ON domain_value;
+    DROP TRIGGER IF EXISTS outbox ON field;
+    DROP TRIGGER IF EXISTS outbox ON category_version;
+    DROP TRIGGER IF EXISTS outbox ON category_tabular_group;
+    DROP TRIGGER IF EXISTS outbox ON category_condition;
+    DROP TRIGGER IF EXISTS outbox ON category_field;
+    DROP TRIGGER IF EXISTS outbox ON category;
+    DROP FUNCTION IF EXISTS outbox_row_change();
+    DROP TABLE IF EXISTS outbox_event;
+  `
+}
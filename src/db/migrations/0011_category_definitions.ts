@@ -0,0 +1,189 @@
+import type { Migration } from '../migrator'
+
+/**
+ * A read model of `metadata_view`: `category_definition` keeps every category's aggregate, without its model ids, as
+ * one JSONB document, so reads are a primary key lookup instead of the view's joins and aggregates. Statement level
+ * triggers on the other tables the view reads rebuild the documents of the categories a statement touched, in the
+ * same transaction, and give a document whose content changed a new `version` from a sequence. Versions never repeat,
+ * not even for a category that is deleted and restored, so they can serve as ETags and cache keys.
+ */
+export const categoryDefinitions: Migration = {
+  version: 11,
+  name: 'category_definitions',
+  up: `
+    CREATE SEQUENCE category_definition_version;
+
+    CREATE TABLE category_definition (
+      category_id UUID PRIMARY KEY REFERENCES category(id) ON DELETE CASCADE,
+      tenant_id UUID NOT NULL REFERENCES tenant(id) DEFAULT require_tenant_id(),
+      definition JSONB NOT NULL,
+      version BIGINT NOT NULL DEFAULT nextval('category_definition_version'),
+      refreshed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    );
+
+    -- Dropping the table, as a database reset does, drops the sequence with it
+    ALTER SEQUENCE category_definition_version OWNED BY category_definition.version;
+
+    ALTER TABLE category_definition ENABLE ROW LEVEL SECURITY, FORCE ROW LEVEL SECURITY;
+    CREATE POLICY tenant_isolation ON category_definition
+      USING (tenant_id = current_tenant_id())
+      WITH CHECK (tenant_id = current_tenant_id());
+
+    -- Rebuilds the documents of the given categories from metadata_view, leaving unchanged documents alone. Model
+    -- links are left out: they belong to the models, and saving a model must not rebuild or re-version its categories.
+    CREATE OR REPLACE FUNCTION category_definition_refresh(category_ids UUID[]) RETURNS VOID AS $$
+    BEGIN
+      INSERT INTO category_definition (category_id, tenant_id, definition)
+      SELECT v.category_id, v.tenant_id, to_jsonb(v) - 'tenant_id' - 'model_ids'
+      FROM metadata_view v
+      WHERE v.category_id = ANY(category_ids)
+      ON CONFLICT (category_id) DO UPDATE
+        SET definition = EXCLUDED.definition, version = nextval('category_definition_version'), refreshed_at = now()
+        WHERE category_definition.definition IS DISTINCT FROM EXCLUDED.definition;
+    END $$ LANGUAGE plpgsql;
+
+    -- TG_ARGV: the column of the changed rows to follow and, for rows not referencing the category, the link table
+    -- and its column holding that value; the link table's category_id then names the categories to rebuild.
+    -- Transition tables are per event, so each table has a trigger for INSERT, UPDATE and DELETE.
+    CREATE OR REPLACE FUNCTION category_definition_changed() RETURNS TRIGGER AS $$
+    DECLARE
+      changed_rows TEXT := CASE TG_OP
+        WHEN 'INSERT' THEN format('SELECT %I AS id FROM new_rows', TG_ARGV[0])
+        WHEN 'DELETE' THEN format('SELECT %I AS id FROM old_rows', TG_ARGV[0])
+        ELSE format('SELECT %1$I AS id FROM new_rows UNION SELECT %1$I FROM old_rows', TG_ARGV[0])
+      END;
+      category_ids UUID[];
+    BEGIN
+      IF TG_NARGS = 1 THEN
+        EXECUTE format('SELECT array_agg(DISTINCT id) FROM (%s) changed', changed_rows) INTO category_ids;
+      ELSE
+        EXECUTE format(
+          'SELECT array_agg(DISTINCT category_id) FROM %I WHERE %I IN (%s)', TG_ARGV[1], TG_ARGV[2], changed_rows
+        ) INTO category_ids;
+      END IF;
+
+      IF category_ids IS NOT NULL THEN
+        PERFORM category_definition_refresh(category_ids);
+      END IF;
+      RETURN NULL;
+    END $$ LANGUAGE plpgsql;
+
+    -- Deleted categories take their document with them
+    CREATE TRIGGER category_definition_insert AFTER INSERT ON category REFERENCING NEW TABLE AS new_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed('id');
+    CREATE TRIGGER category_definition_update AFTER UPDATE ON category
+      REFERENCING NEW TABLE AS new_rows OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed('id');
+
+    CREATE TRIGGER category_definition_insert AFTER INSERT ON category_field REFERENCING NEW TABLE AS new_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed('category_id');
+    CREATE TRIGGER category_definition_update AFTER UPDATE ON category_field
+      REFERENCING NEW TABLE AS new_rows OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed('category_id');
+    CREATE TRIGGER category_definition_delete AFTER DELETE ON category_field REFERENCING OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed('category_id');
+
+    -- Deleting a field, condition or tabular group removes its links, whose triggers rebuild the categories
+    CREATE TRIGGER category_definition_update AFTER UPDATE ON field
+      REFERENCING NEW TABLE AS new_rows OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed('id', 'category_field', 'field_id');
+
+    CREATE TRIGGER category_definition_insert AFTER INSERT ON category_condition REFERENCING NEW TABLE AS new_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed('category_id');
+    CREATE TRIGGER category_definition_update AFTER UPDATE ON category_condition
+      REFERENCING NEW TABLE AS new_rows OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed('category_id');
+    CREATE TRIGGER category_definition_delete AFTER DELETE ON category_condition REFERENCING OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed('category_id');
+
+    CREATE TRIGGER category_definition_update AFTER UPDATE ON condition
+      REFERENCING NEW TABLE AS new_rows OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed('id', 'category_condition', 'condition_id');
+
+    CREATE TRIGGER category_definition_insert AFTER INSERT ON condition_domain_value
+      REFERENCING NEW TABLE AS new_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed(
+        'condition_id', 'category_condition', 'condition_id'
+      );
+    CREATE TRIGGER category_definition_update AFTER UPDATE ON condition_domain_value
+      REFERENCING NEW TABLE AS new_rows OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed(
+        'condition_id', 'category_condition', 'condition_id'
+      );
+    CREATE TRIGGER category_definition_delete AFTER DELETE ON condition_domain_value
+      REFERENCING OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed(
+        'condition_id', 'category_condition', 'condition_id'
+      );
+
+    CREATE TRIGGER category_definition_insert AFTER INSERT ON category_tabular_group
+      REFERENCING NEW TABLE AS new_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed('category_id');
+    CREATE TRIGGER category_definition_update AFTER UPDATE ON category_tabular_group
+      REFERENCING NEW TABLE AS new_rows OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed('category_id');
+    CREATE TRIGGER category_definition_delete AFTER DELETE ON category_tabular_group
+      REFERENCING OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed('category_id');
+
+    CREATE TRIGGER category_definition_update AFTER UPDATE ON tabular_group
+      REFERENCING NEW TABLE AS new_rows OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed(
+        'id', 'category_tabular_group', 'tabular_id'
+      );
+
+    CREATE TRIGGER category_definition_insert AFTER INSERT ON tabular_group_field
+      REFERENCING NEW TABLE AS new_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed(
+        'tabular_group_id', 'category_tabular_group', 'tabular_id'
+      );
+    CREATE TRIGGER category_definition_update AFTER UPDATE ON tabular_group_field
+      REFERENCING NEW TABLE AS new_rows OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed(
+        'tabular_group_id', 'category_tabular_group', 'tabular_id'
+      );
+    CREATE TRIGGER category_definition_delete AFTER DELETE ON tabular_group_field
+      REFERENCING OLD TABLE AS old_rows
+      FOR EACH STATEMENT EXECUTE FUNCTION category_definition_changed(
+        'tabular_group_id', 'category_tabular_group', 'tabular_id'
+      );
+
+    -- The forced policies show one tenant at a time
+    DO $$
+    DECLARE
+      tenant UUID;
+    BEGIN
+      FOR tenant IN SELECT id FROM tenant LOOP
+        PERFORM set_config('app.tenant_id', tenant::text, TRUE);
+        PERFORM category_definition_refresh(ARRAY(SELECT id FROM category));
+      END LOOP;
+      PERFORM set_config('app.tenant_id', '', TRUE);
+    END $$;
+  `,
+  down: `
+    DROP TRIGGER IF EXISTS category_definition_insert ON category;
+    DROP TRIGGER IF EXISTS category_definition_update ON category;
+    DROP TRIGGER IF EXISTS category_definition_insert ON category_field;
+    DROP TRIGGER IF EXISTS category_definition_update ON category_field;
+    DROP TRIGGER IF EXISTS category_definition_delete ON category_field;
+    DROP TRIGGER IF EXISTS category_definition_update ON field;
+    DROP TRIGGER IF EXISTS category_definition_insert ON category_condition;
+    DROP TRIGGER IF EXISTS category_definition_update ON category_condition;
+    DROP TRIGGER IF EXISTS category_definition_delete ON category_condition;
+    DROP TRIGGER IF EXISTS category_definition_update ON condition;
+    DROP TRIGGER IF EXISTS category_definition_insert ON condition_domain_value;
+    DROP TRIGGER IF EXISTS category_definition_update ON condition_domain_value;
+    DROP TRIGGER IF EXISTS category_definition_delete ON condition_domain_value;
+    DROP TRIGGER IF EXISTS category_definition_insert ON category_tabular_group;
+    DROP TRIGGER IF EXISTS category_definition_update ON category_tabular_group;
+    DROP TRIGGER IF EXISTS category_definition_delete ON category_tabular_group;
+    DROP TRIGGER IF EXISTS category_definition_update ON tabular_group;
+    DROP TRIGGER IF EXISTS category_definition_insert ON tabular_group_field;
+    DROP TRIGGER IF EXISTS category_definition_update ON tabular_group_field;
+    DROP TRIGGER IF EXISTS category_definition_delete ON tabular_group_field;
+    DROP FUNCTION IF EXISTS category_definition_changed();
+    DROP FUNCTION IF EXISTS category_definition_refresh(UUID[]);
+    DROP TABLE IF EXISTS category_definition;
+    DROP SEQUENCE IF EXISTS category_definition_version;
+  `
+}
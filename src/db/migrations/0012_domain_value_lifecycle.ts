@@ -0,0 +1,105 @@
+import type { Migration } from '../migrator'
+
+/**
+ * Localized labels, display order and soft deprecation for domain values. `labels` maps locales to labels, with
+ * `name` as the fallback; `sort_order` orders a field's values and defaults to after its last one. A deprecated
+ * value stays valid wherever it is already used but cannot be newly referenced, and may name an active value of the
+ * same field as its `successor_id`. Keys become stable external codes: a value's key can be assigned once, while it
+ * still is the id it defaulted to, and never changed afterwards.
+ */
+export const domainValueLifecycle: Migration = {
+  version: 12,
+  name: 'domain_value_lifecycle',
+  up: `
+    ALTER TABLE domain_value
+      ADD COLUMN labels JSONB NOT NULL DEFAULT '{}' CHECK (jsonb_typeof(labels) = 'object'),
+      ADD COLUMN sort_order INTEGER,
+      ADD COLUMN deprecated_at TIMESTAMPTZ,
+      ADD COLUMN successor_id UUID REFERENCES domain_value(id) ON DELETE SET NULL,
+      ADD CONSTRAINT domain_value_successor_check CHECK (
+        successor_id IS NULL OR (deprecated_at IS NOT NULL AND successor_id <> id)
+      );
+
+    -- Existing values keep their alphabetical order; the backfill covers every tenant and is no change worth auditing
+    ALTER TABLE domain_value NO FORCE ROW LEVEL SECURITY, DISABLE TRIGGER audit, DISABLE TRIGGER outbox;
+    UPDATE domain_value dv SET sort_order = ordered.position
+    FROM (
+      SELECT id, row_number() OVER (PARTITION BY field_id ORDER BY name, id) AS position FROM domain_value
+    ) ordered
+    WHERE ordered.id = dv.id;
+    ALTER TABLE domain_value FORCE ROW LEVEL SECURITY, ENABLE TRIGGER audit, ENABLE TRIGGER outbox;
+
+    ALTER TABLE domain_value ALTER COLUMN sort_order SET NOT NULL;
+    CREATE INDEX domain_value_sort_order_idx ON domain_value (field_id, sort_order);
+
+    CREATE OR REPLACE FUNCTION default_domain_value_sort_order() RETURNS TRIGGER AS $$
+    BEGIN
+      IF NEW.sort_order IS NULL THEN
+        SELECT COALESCE(max(sort_order), 0) + 1 INTO NEW.sort_order FROM domain_value WHERE field_id = NEW.field_id;
+      END IF;
+      RETURN NEW;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE TRIGGER default_sort_order BEFORE INSERT ON domain_value
+      FOR EACH ROW EXECUTE FUNCTION default_domain_value_sort_order();
+
+    CREATE OR REPLACE FUNCTION check_domain_value_lifecycle() RETURNS TRIGGER AS $$
+    BEGIN
+      IF TG_OP = 'UPDATE' AND NEW.key IS DISTINCT FROM OLD.key AND OLD.key <> OLD.id::text THEN
+        RAISE EXCEPTION 'The key of domain value % is % and cannot be changed', OLD.id, OLD.key
+          USING ERRCODE = 'check_violation';
+      END IF;
+
+      IF NEW.successor_id IS NOT NULL
+        AND (TG_OP = 'INSERT' OR NEW.successor_id IS DISTINCT FROM OLD.successor_id)
+        AND NOT EXISTS (
+          SELECT 1 FROM domain_value successor
+          WHERE successor.id = NEW.successor_id AND successor.field_id = NEW.field_id
+            AND successor.deprecated_at IS NULL
+        )
+      THEN
+        RAISE EXCEPTION 'The successor of domain value % must be an active value of the same field', NEW.id
+          USING ERRCODE = 'check_violation';
+      END IF;
+      RETURN NEW;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE TRIGGER lifecycle BEFORE INSERT OR UPDATE ON domain_value
+      FOR EACH ROW EXECUTE FUNCTION check_domain_value_lifecycle();
+
+    -- Upserts through metadata_view and the condition repository insert the rows they keep, so a reference the
+    -- condition already has passes
+    CREATE OR REPLACE FUNCTION check_condition_domain_value_active() RETURNS TRIGGER AS $$
+    BEGIN
+      IF (TG_OP = 'INSERT' OR NEW.domain_value_id IS DISTINCT FROM OLD.domain_value_id)
+        AND EXISTS (SELECT 1 FROM domain_value dv WHERE dv.id = NEW.domain_value_id AND dv.deprecated_at IS NOT NULL)
+        AND NOT EXISTS (
+          SELECT 1 FROM condition_domain_value cdv
+          WHERE cdv.condition_id = NEW.condition_id AND cdv.domain_value_id = NEW.domain_value_id
+        )
+      THEN
+        RAISE EXCEPTION 'Domain value % is deprecated and cannot be added to conditions', NEW.domain_value_id
+          USING ERRCODE = 'check_violation';
+      END IF;
+      RETURN NEW;
+    END $$ LANGUAGE plpgsql;
+
+    CREATE TRIGGER active_domain_value BEFORE INSERT OR UPDATE OF domain_value_id ON condition_domain_value
+      FOR EACH ROW EXECUTE FUNCTION check_condition_domain_value_active();
+  `,
+  down: `
+    DROP TRIGGER IF EXISTS active_domain_value ON condition_domain_value;
+    DROP TRIGGER IF EXISTS lifecycle ON domain_value;
+    DROP TRIGGER IF EXISTS default_sort_order ON domain_value;
+    DROP FUNCTION IF EXISTS check_condition_domain_value_active();
+    DROP FUNCTION IF EXISTS check_domain_value_lifecycle();
+    DROP FUNCTION IF EXISTS default_domain_value_sort_order();
+    DROP INDEX IF EXISTS domain_value_sort_order_idx;
+    ALTER TABLE domain_value
+      DROP CONSTRAINT IF EXISTS domain_value_successor_check,
+      DROP COLUMN IF EXISTS successor_id,
+      DROP COLUMN IF EXISTS deprecated_at,
+      DROP COLUMN IF EXISTS sort_order,
+      DROP COLUMN IF EXISTS labels;
+  `
+}
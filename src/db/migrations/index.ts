@@ -0,0 +1,32 @@
+import type { Migration } from '../migrator'
+import { baseline } from './0001_baseline'
+import { metadataViewWriteTriggers } from './0002_metadata_view_write_triggers'
+import { modelSearch } from './0003_model_search'
+import { models } from './0004_models'
+import { users } from './0005_users'
+import { tenantScoping } from './0006_tenant_scoping'
+import { auditLog } from './0007_audit_log'
+import { categoryVersions } from './0008_category_versions'
+import { recordKeys } from './0009_record_keys'
+import { changeEvents } from './0010_change_events'
+import { categoryDefinitions } from './0011_category_definitions'
+import { domainValueLifecycle } from './0012_domain_value_lifecycle'
+
+/**
+ * Every migration known to the application, in the order it must be applied.
+ * Append new migrations to the end; never edit or reorder an applied one.
+ */
+export const migrations: Migration[] = [
+  baseline,
+  metadataViewWriteTriggers,
+  modelSearch,
+  models,
+  users,
+  tenantScoping,
+  auditLog,
+  categoryVersions,
+  recordKeys,
+  changeEvents,
+  categoryDefinitions,
+  domainValueLifecycle
+]
@@ -0,0 +1,247 @@
+import { createHash } from 'crypto'
+import type { Database } from './database'
+import { migrations as defaultMigrations } from './migrations'
+
+export interface Migration {
+  version: number
+  name: string
+  up: string
+  down: string
+}
+
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing'
+
+export interface MigrationStatus {
+  version: number
+  name: string
+  state: MigrationState
+  checksum: string
+  appliedAt?: Date
+}
+
+interface AppliedMigrationRow {
+  version: number
+  name: string
+  checksum: string
+  applied_at: Date
+}
+
+// First key of the two-key advisory lock; the second key is the migration version
+const ADVISORY_LOCK_NAMESPACE = 0x6d6967 // "mig"
+
+export const checksum = (migration: Migration): string =>
+  createHash('sha256').update(migration.up).update('\0').update(migration.down).digest('hex')
+
+/**
+ * Applies and reverts versioned schema migrations, tracking them in `schema_migrations`.
+ *
+ * Each migration runs in its own transaction while holding a transaction-scoped
+ * advisory lock on its version, so concurrent runners cannot apply it twice.
+ */
+export class Migrator {
+  private readonly client: Database
+  private readonly migrations: Migration[]
+
+  constructor(client: Database, migrations: Migration[] = defaultMigrations) {
+    this.client = client
+    this.migrations = [...migrations].sort((a, b) => a.version - b.version)
+
+    this.migrations.forEach((migration, index) => {
+      if (index > 0 && this.migrations[index - 1].version === migration.version) {
+        throw new Error(`Duplicate migration version ${migration.version}`)
+      }
+    })
+  }
+
+  public async status(): Promise<MigrationStatus[]> {
+    const applied = await this.appliedMigrations()
+
+    const known = this.migrations.map((migration): MigrationStatus => {
+      const row = applied.get(migration.version)
+      const sum = checksum(migration)
+
+      if (!row) {
+        return { version: migration.version, name: migration.name, state: 'pending', checksum: sum }
+      }
+
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: row.checksum === sum ? 'applied' : 'changed',
+        checksum: sum,
+        appliedAt: row.applied_at
+      }
+    })
+
+    const missing = [...applied.values()]
+      .filter((row) => !this.find(row.version))
+      .map(
+        (row): MigrationStatus => ({
+          version: row.version,
+          name: row.name,
+          state: 'missing',
+          checksum: row.checksum,
+          appliedAt: row.applied_at
+        })
+      )
+
+    return [...known, ...missing].sort((a, b) => a.version - b.version)
+  }
+
+  /**
+   * Applies pending migrations up to and including `target` (all when omitted).
+   * Refuses to run when an applied migration's checksum no longer matches its source.
+   */
+  public async up(target?: number): Promise<Migration[]> {
+    const statuses = await this.status()
+    const changed = statuses.filter((status) => status.state === 'changed')
+    if (changed.length > 0) {
+      throw new Error(
+        `Applied migrations have been modified: ${changed.map((status) => `${status.version}_${status.name}`).join(', ')}`
+      )
+    }
+
+    const pending = statuses
+      .filter((status) => status.state === 'pending')
+      .filter((status) => target === undefined || status.version <= target)
+      .map((status) => this.find(status.version) as Migration)
+
+    const applied: Migration[] = []
+    for (const migration of pending) {
+      if (await this.apply(migration)) {
+        applied.push(migration)
+      }
+    }
+
+    return applied
+  }
+
+  /**
+   * Reverts the most recently applied `steps` migrations, newest first.
+   */
+  public async down(steps = 1): Promise<Migration[]> {
+    const applied = [...(await this.appliedMigrations()).values()]
+      .sort((a, b) => b.version - a.version)
+      .slice(0, steps)
+
+    const reverted: Migration[] = []
+    for (const row of applied) {
+      const migration = this.find(row.version)
+      if (!migration) {
+        throw new Error(`Cannot revert migration ${row.version}_${row.name}: source not found`)
+      }
+
+      if (await this.revert(migration)) {
+        reverted.push(migration)
+      }
+    }
+
+    return reverted
+  }
+
+  /**
+   * Records migrations up to and including `version` as applied without running them.
+   * Used to adopt a database whose schema was created before migrations existed.
+   */
+  public async baseline(version: number): Promise<Migration[]> {
+    const recorded: Migration[] = []
+
+    for (const migration of this.migrations.filter((m) => m.version <= version)) {
+      const inserted = await this.withLock(migration, async () => {
+        if (await this.isApplied(migration.version)) {
+          return false
+        }
+        await this.record(migration, 0)
+        return true
+      })
+
+      if (inserted) {
+        recorded.push(migration)
+      }
+    }
+
+    return recorded
+  }
+
+  private async apply(migration: Migration): Promise<boolean> {
+    return this.withLock(migration, async () => {
+      // Another runner may have applied it while we waited for the lock
+      if (await this.isApplied(migration.version)) {
+        return false
+      }
+
+      const startedAt = Date.now()
+      await this.client.query(migration.up)
+      await this.record(migration, Date.now() - startedAt)
+
+      return true
+    })
+  }
+
+  private async revert(migration: Migration): Promise<boolean> {
+    return this.withLock(migration, async () => {
+      if (!(await this.isApplied(migration.version))) {
+        return false
+      }
+
+      await this.client.query(migration.down)
+      await this.client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version])
+
+      return true
+    })
+  }
+
+  private async record(migration: Migration, executionMs: number): Promise<void> {
+    await this.client.query(
+      'INSERT INTO schema_migrations (version, name, checksum, execution_ms) VALUES ($1, $2, $3, $4)',
+      [migration.version, migration.name, checksum(migration), executionMs]
+    )
+  }
+
+  private async withLock<T>(migration: Migration, fn: () => Promise<T>): Promise<T> {
+    await this.ensureMigrationsTable()
+
+    await this.client.query('BEGIN')
+    try {
+      await this.client.query('SELECT pg_advisory_xact_lock($1, $2)', [ADVISORY_LOCK_NAMESPACE, migration.version])
+      const result = await fn()
+      await this.client.query('COMMIT')
+
+      return result
+    } catch (error) {
+      await this.client.query('ROLLBACK')
+      throw new Error(`Migration ${migration.version}_${migration.name} failed: ${(error as Error).message}`)
+    }
+  }
+
+  private async isApplied(version: number): Promise<boolean> {
+    const res = await this.client.query('SELECT 1 FROM schema_migrations WHERE version = $1', [version])
+    return (res.rowCount ?? 0) > 0
+  }
+
+  private async appliedMigrations(): Promise<Map<number, AppliedMigrationRow>> {
+    await this.ensureMigrationsTable()
+
+    const res = await this.client.query<AppliedMigrationRow>(
+      'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+    )
+
+    return new Map(res.rows.map((row) => [row.version, row]))
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    await this.client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        checksum TEXT NOT NULL,
+        execution_ms INTEGER NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `)
+  }
+
+  private find(version: number): Migration | undefined {
+    return this.migrations.find((migration) => migration.version === version)
+  }
+}
@@ -0,0 +1,59 @@
+import type { Database } from '../database'
+import type { AuditEntry, AuditLogRow, AuditRecordType, ListOptions } from './types'
+
+const toAuditEntry = (row: AuditLogRow): AuditEntry => ({
+  auditId: row.id,
+  recordType: row.record_type,
+  recordId: row.record_id,
+  table: row.table_name,
+  operation: row.operation,
+  before: row.before,
+  after: row.after,
+  actorId: row.actor_id,
+  requestId: row.request_id,
+  changedAt: row.changed_at
+})
+
+/**
+ * Reads the audit log. Entries are written by the `audit` triggers only.
+ */
+export class AuditRepository {
+  private readonly db: Database
+
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  public async get(auditId: string): Promise<AuditEntry | undefined> {
+    const res = await this.db.query<AuditLogRow>('SELECT * FROM audit_log WHERE id = $1::bigint', [auditId])
+    return res.rows[0] && toAuditEntry(res.rows[0])
+  }
+
+  /**
+   * Lists the history of a record, newest first.
+   */
+  public async list(
+    recordType: AuditRecordType,
+    recordId: string,
+    { limit = 100, offset = 0 }: ListOptions = {}
+  ): Promise<AuditEntry[]> {
+    const res = await this.db.query<AuditLogRow>(
+      `SELECT * FROM audit_log WHERE record_type = $1::text AND record_id = $2
+       ORDER BY id DESC LIMIT $3 OFFSET $4`,
+      [recordType, recordId, limit, offset]
+    )
+    return res.rows.map(toAuditEntry)
+  }
+
+  /**
+   * Lists every entry of a record made after `auditId`, newest first, i.e. in the order they are undone.
+   */
+  public async listAfter(recordType: AuditRecordType, recordId: string, auditId: string): Promise<AuditEntry[]> {
+    const res = await this.db.query<AuditLogRow>(
+      `SELECT * FROM audit_log WHERE record_type = $1::text AND record_id = $2 AND id > $3::bigint
+       ORDER BY id DESC`,
+      [recordType, recordId, auditId]
+    )
+    return res.rows.map(toAuditEntry)
+  }
+}
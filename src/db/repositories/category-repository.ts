@@ -0,0 +1,245 @@
+import type { Database } from '../database'
+import { withTransaction } from '../database'
+import { FieldRepository } from './field-repository'
+import type {
+  Category,
+  CategoryDefinition,
+  CategoryDefinitionRow,
+  CategoryFieldInput,
+  CategoryRow,
+  CategorySnapshot,
+  CategoryTabularGroupInput,
+  CreateCategoryInput,
+  JsonObject,
+  ListOptions,
+  UpdateCategoryInput,
+  VersionedCategoryDefinition
+} from './types'
+
+const toCategory = (row: CategoryRow): Category => ({
+  categoryId: row.id,
+  metadata: row.metadata
+})
+
+export const toCategoryDefinition = (row: CategoryDefinitionRow['definition']): CategoryDefinition => ({
+  categoryId: row.category_id,
+  categoryMetadata: row.category_metadata,
+  fields: row.fields ?? [],
+  conditions: (row.conditions ?? []).map((condition) => ({
+    ...condition,
+    domainValues: condition.domainValues ?? []
+  })),
+  tabularGroups: (row.tabulargroups ?? []).map((tabularGroup) => ({
+    ...tabularGroup,
+    fields: tabularGroup.fields ?? []
+  }))
+})
+
+export class CategoryRepository {
+  private readonly db: Database
+
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  /**
+   * Creates a category and links its models, fields, conditions and tabular groups in one transaction.
+   * Field entries carrying a `datatype` are created as new fields before being linked.
+   */
+  public async create(input: CreateCategoryInput): Promise<CategoryDefinition> {
+    return withTransaction(this.db, async (tx) => {
+      const res = await tx.query<CategoryRow>(
+        'INSERT INTO category (id, metadata) VALUES (COALESCE($1, gen_random_uuid()), $2) RETURNING *',
+        [input.categoryId ?? null, input.metadata]
+      )
+      const { categoryId } = toCategory(res.rows[0])
+      const categories = new CategoryRepository(tx)
+      const fields = new FieldRepository(tx)
+
+      for (const modelId of input.modelIds ?? []) {
+        await categories.addModel(categoryId, modelId)
+      }
+
+      for (const { isRequired, ...field } of input.fields ?? []) {
+        const fieldId = field.datatype !== undefined
+          ? (await fields.create({ ...field, datatype: field.datatype })).fieldId
+          : field.fieldId
+        if (!fieldId) {
+          throw new Error('Category fields need either a fieldId or a datatype')
+        }
+
+        await categories.addField(categoryId, { fieldId, isRequired })
+      }
+
+      for (const conditionId of input.conditionIds ?? []) {
+        await categories.addCondition(categoryId, conditionId)
+      }
+
+      for (const tabularGroup of input.tabularGroups ?? []) {
+        await categories.addTabularGroup(categoryId, tabularGroup)
+      }
+
+      return (await categories.get(categoryId)) as CategoryDefinition
+    })
+  }
+
+  /**
+   * Reads the category's `category_definition` document, which the triggers keep equal to its metadata_view row.
+   */
+  public async get(categoryId: string): Promise<CategoryDefinition | undefined> {
+    const res = await this.db.query<Pick<CategoryDefinitionRow, 'definition'>>(
+      'SELECT definition FROM category_definition WHERE category_id = $1',
+      [categoryId]
+    )
+    return res.rows[0] && toCategoryDefinition(res.rows[0].definition)
+  }
+
+  /**
+   * Like `get`, with the document's version. The definition is only read when it is not at `knownVersion`.
+   */
+  public async getVersioned(
+    categoryId: string,
+    knownVersion?: string
+  ): Promise<VersionedCategoryDefinition | undefined> {
+    const res = await this.db.query<{ version: string; definition: CategoryDefinitionRow['definition'] | null }>(
+      `SELECT version::text AS version, CASE WHEN version::text IS DISTINCT FROM $2 THEN definition END AS definition
+       FROM category_definition WHERE category_id = $1`,
+      [categoryId, knownVersion ?? null]
+    )
+    const [row] = res.rows
+    if (!row) {
+      return undefined
+    }
+
+    return row.definition
+      ? { version: row.version, definition: toCategoryDefinition(row.definition) }
+      : { version: row.version }
+  }
+
+  /**
+   * Reads the category row and its links from the tables, as the audit log records them.
+   */
+  public async getSnapshot(categoryId: string): Promise<CategorySnapshot | undefined> {
+    const res = await this.db.query<CategoryRow>('SELECT * FROM category WHERE id = $1', [categoryId])
+    if (!res.rows[0]) {
+      return undefined
+    }
+
+    const fields = await this.db.query<{ field_id: string; is_required: boolean | null }>(
+      'SELECT field_id, is_required FROM category_field WHERE category_id = $1 ORDER BY field_id',
+      [categoryId]
+    )
+    const conditions = await this.db.query<{ condition_id: string }>(
+      'SELECT condition_id FROM category_condition WHERE category_id = $1 ORDER BY condition_id',
+      [categoryId]
+    )
+    const tabularGroups = await this.db.query<{ tabular_id: string; validation: JsonObject | null }>(
+      'SELECT tabular_id, validation FROM category_tabular_group WHERE category_id = $1 ORDER BY tabular_id',
+      [categoryId]
+    )
+
+    return {
+      categoryId,
+      metadata: res.rows[0].metadata,
+      fields: fields.rows.map((row) => ({ fieldId: row.field_id, isRequired: row.is_required ?? false })),
+      conditionIds: conditions.rows.map((row) => row.condition_id),
+      tabularGroups: tabularGroups.rows.map((row) => ({ tabularGroupId: row.tabular_id, validation: row.validation }))
+    }
+  }
+
+  public async list({ limit = 100, offset = 0 }: ListOptions = {}): Promise<CategoryDefinition[]> {
+    const res = await this.db.query<Pick<CategoryDefinitionRow, 'definition'>>(
+      'SELECT definition FROM category_definition ORDER BY category_id LIMIT $1 OFFSET $2',
+      [limit, offset]
+    )
+    return res.rows.map((row) => toCategoryDefinition(row.definition))
+  }
+
+  public async update(categoryId: string, input: UpdateCategoryInput): Promise<Category | undefined> {
+    const res = await this.db.query<CategoryRow>('UPDATE category SET metadata = $2 WHERE id = $1 RETURNING *', [
+      categoryId,
+      input.metadata
+    ])
+    return res.rows[0] && toCategory(res.rows[0])
+  }
+
+  /**
+   * Deletes a category and its links. Linked fields, conditions and tabular groups are kept.
+   */
+  public async delete(categoryId: string): Promise<boolean> {
+    return withTransaction(this.db, async (tx) => {
+      await tx.query('DELETE FROM model_category WHERE category_id = $1', [categoryId])
+      await tx.query('DELETE FROM category_field WHERE category_id = $1', [categoryId])
+      await tx.query('DELETE FROM category_condition WHERE category_id = $1', [categoryId])
+      await tx.query('DELETE FROM category_tabular_group WHERE category_id = $1', [categoryId])
+      const res = await tx.query('DELETE FROM category WHERE id = $1', [categoryId])
+
+      return (res.rowCount ?? 0) > 0
+    })
+  }
+
+  public async addModel(categoryId: string, modelId: string): Promise<void> {
+    await this.db.query(
+      'INSERT INTO model_category (model_id, category_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+      [modelId, categoryId]
+    )
+  }
+
+  public async removeModel(categoryId: string, modelId: string): Promise<boolean> {
+    const res = await this.db.query('DELETE FROM model_category WHERE category_id = $1 AND model_id = $2', [
+      categoryId,
+      modelId
+    ])
+    return (res.rowCount ?? 0) > 0
+  }
+
+  public async addField(categoryId: string, { fieldId, isRequired = false }: CategoryFieldInput): Promise<void> {
+    await this.db.query(
+      `INSERT INTO category_field (category_id, field_id, is_required) VALUES ($1, $2, $3)
+       ON CONFLICT (category_id, field_id) DO UPDATE SET is_required = EXCLUDED.is_required`,
+      [categoryId, fieldId, isRequired]
+    )
+  }
+
+  public async removeField(categoryId: string, fieldId: string): Promise<boolean> {
+    const res = await this.db.query('DELETE FROM category_field WHERE category_id = $1 AND field_id = $2', [
+      categoryId,
+      fieldId
+    ])
+    return (res.rowCount ?? 0) > 0
+  }
+
+  public async addCondition(categoryId: string, conditionId: string): Promise<void> {
+    await this.db.query(
+      'INSERT INTO category_condition (category_id, condition_id) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+      [categoryId, conditionId]
+    )
+  }
+
+  public async removeCondition(categoryId: string, conditionId: string): Promise<boolean> {
+    const res = await this.db.query('DELETE FROM category_condition WHERE category_id = $1 AND condition_id = $2', [
+      categoryId,
+      conditionId
+    ])
+    return (res.rowCount ?? 0) > 0
+  }
+
+  public async addTabularGroup(
+    categoryId: string,
+    { tabularGroupId, validation = null }: CategoryTabularGroupInput
+  ): Promise<void> {
+    await this.db.query(
+      `INSERT INTO category_tabular_group (category_id, tabular_id, validation) VALUES ($1, $2, $3)
+       ON CONFLICT (category_id, tabular_id) DO UPDATE SET validation = EXCLUDED.validation`,
+      [categoryId, tabularGroupId, validation]
+    )
+  }
+
+  public async removeTabularGroup(categoryId: string, tabularGroupId: string): Promise<boolean> {
+    const res = await this.db.query('DELETE FROM category_tabular_group WHERE category_id = $1 AND tabular_id = $2', [
+      categoryId,
+      tabularGroupId
+    ])
+    return (res.rowCount ?? 0) > 0
+  }
+}
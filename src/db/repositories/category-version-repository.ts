@@ -0,0 +1,67 @@
+import type { Database } from '../database'
+import type { CategoryVersion, CategoryVersionDefinition, CategoryVersionRow, CategoryVersionSummary } from './types'
+
+const toCategoryVersionSummary = (row: Omit<CategoryVersionRow, 'definition'>): CategoryVersionSummary => ({
+  categoryId: row.category_id,
+  version: row.version,
+  publishedAt: row.published_at,
+  publishedBy: row.published_by
+})
+
+const toCategoryVersion = (row: CategoryVersionRow): CategoryVersion => ({
+  ...toCategoryVersionSummary(row),
+  definition: row.definition
+})
+
+/**
+ * Published category versions. Versions are numbered from 1 per category and never change once inserted.
+ */
+export class CategoryVersionRepository {
+  private readonly db: Database
+
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  /**
+   * Stores `definition` as the category's next version. Of two concurrent publishes, the second fails on the
+   * primary key (unique_violation).
+   */
+  public async create(categoryId: string, definition: CategoryVersionDefinition): Promise<CategoryVersion> {
+    const res = await this.db.query<CategoryVersionRow>(
+      `INSERT INTO category_version (category_id, version, definition)
+       SELECT $1, COALESCE(MAX(version), 0) + 1, $2 FROM category_version WHERE category_id = $1
+       RETURNING *`,
+      [categoryId, definition]
+    )
+    return toCategoryVersion(res.rows[0])
+  }
+
+  public async get(categoryId: string, version: number): Promise<CategoryVersion | undefined> {
+    const res = await this.db.query<CategoryVersionRow>(
+      'SELECT * FROM category_version WHERE category_id = $1 AND version = $2',
+      [categoryId, version]
+    )
+    return res.rows[0] && toCategoryVersion(res.rows[0])
+  }
+
+  public async getLatest(categoryId: string): Promise<CategoryVersion | undefined> {
+    const res = await this.db.query<CategoryVersionRow>(
+      'SELECT * FROM category_version WHERE category_id = $1 ORDER BY version DESC LIMIT 1',
+      [categoryId]
+    )
+    return res.rows[0] && toCategoryVersion(res.rows[0])
+  }
+
+  /**
+   * Lists a category's versions, newest first, without their definitions.
+   */
+  public async list(categoryId: string): Promise<CategoryVersionSummary[]> {
+    const res = await this.db.query<Omit<CategoryVersionRow, 'definition'>>(
+      `SELECT category_id, version, tenant_id, published_at, published_by FROM category_version
+       WHERE category_id = $1 ORDER BY version DESC`,
+      [categoryId]
+    )
+    return res.rows.map(toCategoryVersionSummary)
+  }
+}
@@ -0,0 +1,120 @@
+import type { Database, Queryable } from '../database'
+import { withTransaction } from '../database'
+import type { Condition, ConditionDomainValueInput, ConditionRow, CreateConditionInput, ListOptions } from './types'
+
+const SELECT_CONDITIONS = `
+  SELECT
+    cond.id,
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'domainValueId', cdv.domain_value_id,
+          'conditionGroupId', cdv.condition_group_id,
+          'fieldId', cdv.field_id
+        ) ORDER BY cdv.condition_group_id, cdv.domain_value_id
+      ) FILTER (WHERE cdv.domain_value_id IS NOT NULL),
+      '[]'
+    ) AS domain_values
+  FROM condition cond
+  LEFT JOIN condition_domain_value cdv ON cdv.condition_id = cond.id
+`
+
+const toCondition = (row: ConditionRow): Condition => ({
+  conditionId: row.id,
+  domainValues: row.domain_values
+})
+
+/**
+ * Makes `domainValues` the domain values of a condition. Rows the condition keeps are updated in place rather than
+ * deleted and inserted again, so it keeps the references to deprecated values it already had.
+ */
+const replaceDomainValues = async (
+  tx: Queryable,
+  conditionId: string,
+  domainValues: ConditionDomainValueInput[]
+): Promise<void> => {
+  await tx.query('DELETE FROM condition_domain_value WHERE condition_id = $1 AND domain_value_id <> ALL ($2::uuid[])', [
+    conditionId,
+    domainValues.map((value) => value.domainValueId)
+  ])
+
+  for (const { domainValueId, conditionGroupId } of domainValues) {
+    // The field is denormalised from the domain value so conditions can be evaluated per field
+    await tx.query(
+      `INSERT INTO condition_domain_value (condition_id, condition_group_id, domain_value_id, field_id)
+       VALUES ($1, $2, $3, (SELECT field_id FROM domain_value WHERE id = $3))
+       ON CONFLICT (condition_id, domain_value_id) DO UPDATE SET
+         condition_group_id = EXCLUDED.condition_group_id,
+         field_id = EXCLUDED.field_id`,
+      [conditionId, conditionGroupId ?? null, domainValueId]
+    )
+  }
+}
+
+export class ConditionRepository {
+  private readonly db: Database
+
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  /**
+   * Creates a condition together with its grouped domain values.
+   */
+  public async create(input: CreateConditionInput): Promise<Condition> {
+    return withTransaction(this.db, async (tx) => {
+      const res = await tx.query<{ id: string }>(
+        'INSERT INTO condition (id) VALUES (COALESCE($1, gen_random_uuid())) RETURNING id',
+        [input.conditionId ?? null]
+      )
+      const conditionId = res.rows[0].id
+      await replaceDomainValues(tx, conditionId, input.domainValues)
+
+      return (await new ConditionRepository(tx).get(conditionId)) as Condition
+    })
+  }
+
+  public async get(conditionId: string): Promise<Condition | undefined> {
+    const res = await this.db.query<ConditionRow>(`${SELECT_CONDITIONS} WHERE cond.id = $1 GROUP BY cond.id`, [
+      conditionId
+    ])
+    return res.rows[0] && toCondition(res.rows[0])
+  }
+
+  public async list({ limit = 100, offset = 0 }: ListOptions = {}): Promise<Condition[]> {
+    const res = await this.db.query<ConditionRow>(
+      `${SELECT_CONDITIONS} GROUP BY cond.id ORDER BY cond.id LIMIT $1 OFFSET $2`,
+      [limit, offset]
+    )
+    return res.rows.map(toCondition)
+  }
+
+  /**
+   * Replaces the domain values of a condition.
+   */
+  public async update(conditionId: string, domainValues: ConditionDomainValueInput[]): Promise<Condition | undefined> {
+    return withTransaction(this.db, async (tx) => {
+      const res = await tx.query('SELECT 1 FROM condition WHERE id = $1 FOR UPDATE', [conditionId])
+      if (res.rowCount === 0) {
+        return undefined
+      }
+
+      await replaceDomainValues(tx, conditionId, domainValues)
+
+      return new ConditionRepository(tx).get(conditionId)
+    })
+  }
+
+  /**
+   * Deletes a condition and unlinks it from every category.
+   */
+  public async delete(conditionId: string): Promise<boolean> {
+    return withTransaction(this.db, async (tx) => {
+      await tx.query('DELETE FROM condition_domain_value WHERE condition_id = $1', [conditionId])
+      await tx.query('DELETE FROM category_condition WHERE condition_id = $1', [conditionId])
+      const res = await tx.query('DELETE FROM condition WHERE id = $1', [conditionId])
+
+      return (res.rowCount ?? 0) > 0
+    })
+  }
+}
@@ -0,0 +1,175 @@
+import type { Database } from '../database'
+import { withTransaction } from '../database'
+import type {
+  CreateDomainValueInput,
+  DomainValue,
+  DomainValueReplacement,
+  DomainValueRow,
+  ListDomainValuesOptions,
+  UpdateDomainValueInput
+} from './types'
+
+const toDomainValue = (row: DomainValueRow): DomainValue => ({
+  domainValueId: row.id,
+  fieldId: row.field_id,
+  key: row.key,
+  name: row.name,
+  labels: row.labels,
+  sortOrder: row.sort_order,
+  deprecatedAt: row.deprecated_at,
+  successorId: row.successor_id
+})
+
+export class DomainValueRepository {
+  private readonly db: Database
+
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  /**
+   * Creates a domain value. Its key defaults to its id and its sort order to after the field's last value.
+   */
+  public async create(input: CreateDomainValueInput): Promise<DomainValue> {
+    const res = await this.db.query<DomainValueRow>(
+      `INSERT INTO domain_value (id, field_id, key, name, labels, sort_order)
+       VALUES (COALESCE($1, gen_random_uuid()), $2, $3, $4, COALESCE($5::jsonb, '{}'), $6)
+       RETURNING *`,
+      [
+        input.domainValueId ?? null,
+        input.fieldId,
+        input.key ?? null,
+        input.name,
+        input.labels ?? null,
+        input.sortOrder ?? null
+      ]
+    )
+    return toDomainValue(res.rows[0])
+  }
+
+  public async get(domainValueId: string): Promise<DomainValue | undefined> {
+    const res = await this.db.query<DomainValueRow>('SELECT * FROM domain_value WHERE id = $1', [domainValueId])
+    return res.rows[0] && toDomainValue(res.rows[0])
+  }
+
+  public async getMany(domainValueIds: string[]): Promise<DomainValue[]> {
+    const res = await this.db.query<DomainValueRow>(
+      'SELECT * FROM domain_value WHERE id = ANY($1::uuid[]) ORDER BY id',
+      [domainValueIds]
+    )
+    return res.rows.map(toDomainValue)
+  }
+
+  /**
+   * Lists a field's domain values in their sort order.
+   */
+  public async listByField(
+    fieldId: string,
+    { limit = 100, offset = 0, includeDeprecated = true }: ListDomainValuesOptions = {}
+  ): Promise<DomainValue[]> {
+    const res = await this.db.query<DomainValueRow>(
+      `SELECT * FROM domain_value
+       WHERE field_id = $1 AND ($2 OR deprecated_at IS NULL)
+       ORDER BY sort_order, name, id
+       LIMIT $3 OFFSET $4`,
+      [fieldId, includeDeprecated, limit, offset]
+    )
+    return res.rows.map(toDomainValue)
+  }
+
+  /**
+   * Lists every domain value of the given fields, without paging.
+   */
+  public async listByFields(fieldIds: string[]): Promise<DomainValue[]> {
+    const res = await this.db.query<DomainValueRow>(
+      'SELECT * FROM domain_value WHERE field_id = ANY($1::uuid[]) ORDER BY field_id, sort_order, name, id',
+      [fieldIds]
+    )
+    return res.rows.map(toDomainValue)
+  }
+
+  /**
+   * Updates only the properties present in `input`. A key can only be assigned while it still is the value's id.
+   */
+  public async update(domainValueId: string, input: UpdateDomainValueInput): Promise<DomainValue | undefined> {
+    const res = await this.db.query<DomainValueRow>(
+      `UPDATE domain_value SET
+         key = COALESCE($2, key),
+         name = COALESCE($3, name),
+         labels = COALESCE($4::jsonb, labels),
+         sort_order = COALESCE($5, sort_order)
+       WHERE id = $1
+       RETURNING *`,
+      [domainValueId, input.key ?? null, input.name ?? null, input.labels ?? null, input.sortOrder ?? null]
+    )
+    return res.rows[0] && toDomainValue(res.rows[0])
+  }
+
+  /**
+   * Deprecates a domain value, keeping the time of an earlier deprecation, and sets its successor.
+   */
+  public async deprecate(domainValueId: string, successorId: string | null): Promise<DomainValue | undefined> {
+    const res = await this.db.query<DomainValueRow>(
+      `UPDATE domain_value SET deprecated_at = COALESCE(deprecated_at, now()), successor_id = $2
+       WHERE id = $1
+       RETURNING *`,
+      [domainValueId, successorId]
+    )
+    return res.rows[0] && toDomainValue(res.rows[0])
+  }
+
+  /**
+   * Makes a deprecated domain value active again, dropping its successor.
+   */
+  public async reinstate(domainValueId: string): Promise<DomainValue | undefined> {
+    const res = await this.db.query<DomainValueRow>(
+      'UPDATE domain_value SET deprecated_at = NULL, successor_id = NULL WHERE id = $1 RETURNING *',
+      [domainValueId]
+    )
+    return res.rows[0] && toDomainValue(res.rows[0])
+  }
+
+  /**
+   * Points every condition referencing a domain value at `successorId` instead. Conditions that already reference
+   * the successor keep their own reference to it.
+   */
+  public async replaceInConditions(domainValueId: string, successorId: string): Promise<DomainValueReplacement> {
+    return withTransaction(this.db, async (tx) => {
+      const merged = await tx.query<{ condition_id: string }>(
+        `DELETE FROM condition_domain_value cdv
+         WHERE cdv.domain_value_id = $1
+           AND EXISTS (
+             SELECT 1 FROM condition_domain_value other
+             WHERE other.condition_id = cdv.condition_id AND other.domain_value_id = $2
+           )
+         RETURNING cdv.condition_id`,
+        [domainValueId, successorId]
+      )
+      const moved = await tx.query<{ condition_id: string }>(
+        `UPDATE condition_domain_value
+         SET domain_value_id = $2, field_id = (SELECT field_id FROM domain_value WHERE id = $2)
+         WHERE domain_value_id = $1
+         RETURNING condition_id`,
+        [domainValueId, successorId]
+      )
+
+      return {
+        domainValueId,
+        successorId,
+        conditionIds: [...merged.rows, ...moved.rows].map((row) => row.condition_id).sort()
+      }
+    })
+  }
+
+  /**
+   * Deletes a domain value and removes it from every condition that references it.
+   */
+  public async delete(domainValueId: string): Promise<boolean> {
+    return withTransaction(this.db, async (tx) => {
+      await tx.query('DELETE FROM condition_domain_value WHERE domain_value_id = $1', [domainValueId])
+      const res = await tx.query('DELETE FROM domain_value WHERE id = $1', [domainValueId])
+
+      return (res.rowCount ?? 0) > 0
+    })
+  }
+}
@@ -0,0 +1,102 @@
+import type { Database } from '../database'
+import { withTransaction } from '../database'
+import { DomainValueRepository } from './domain-value-repository'
+import type { CreateFieldInput, Field, FieldRow, ListOptions, UpdateFieldInput } from './types'
+
+const toField = (row: FieldRow): Field => ({
+  fieldId: row.id,
+  datatype: row.datatype,
+  metadata: row.metadata,
+  validation: row.validation,
+  search: row.search
+})
+
+export class FieldRepository {
+  private readonly db: Database
+
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  /**
+   * Creates a field together with its domain values.
+   */
+  public async create(input: CreateFieldInput): Promise<Field> {
+    return withTransaction(this.db, async (tx) => {
+      const res = await tx.query<FieldRow>(
+        `INSERT INTO field (id, datatype, metadata, validation, search)
+         VALUES (COALESCE($1, gen_random_uuid()), $2, $3, $4, $5)
+         RETURNING *`,
+        [input.fieldId ?? null, input.datatype, input.metadata ?? null, input.validation ?? null, input.search ?? null]
+      )
+      const field = toField(res.rows[0])
+
+      const domainValues = new DomainValueRepository(tx)
+      for (const name of input.domainValues ?? []) {
+        await domainValues.create({ fieldId: field.fieldId, name })
+      }
+
+      return field
+    })
+  }
+
+  public async get(fieldId: string): Promise<Field | undefined> {
+    const res = await this.db.query<FieldRow>('SELECT * FROM field WHERE id = $1', [fieldId])
+    return res.rows[0] && toField(res.rows[0])
+  }
+
+  public async getMany(fieldIds: string[]): Promise<Field[]> {
+    const res = await this.db.query<FieldRow>('SELECT * FROM field WHERE id = ANY($1::uuid[]) ORDER BY id', [fieldIds])
+    return res.rows.map(toField)
+  }
+
+  public async list({ limit = 100, offset = 0 }: ListOptions = {}): Promise<Field[]> {
+    const res = await this.db.query<FieldRow>('SELECT * FROM field ORDER BY id LIMIT $1 OFFSET $2', [limit, offset])
+    return res.rows.map(toField)
+  }
+
+  /**
+   * Updates only the properties present in `input`.
+   */
+  public async update(fieldId: string, input: UpdateFieldInput): Promise<Field | undefined> {
+    const res = await this.db.query<FieldRow>(
+      `UPDATE field SET
+         datatype = CASE WHEN $2 THEN $3 ELSE datatype END,
+         metadata = CASE WHEN $4 THEN $5::jsonb ELSE metadata END,
+         validation = CASE WHEN $6 THEN $7::jsonb ELSE validation END,
+         search = CASE WHEN $8 THEN $9::jsonb ELSE search END
+       WHERE id = $1
+       RETURNING *`,
+      [
+        fieldId,
+        'datatype' in input,
+        input.datatype ?? null,
+        'metadata' in input,
+        input.metadata ?? null,
+        'validation' in input,
+        input.validation ?? null,
+        'search' in input,
+        input.search ?? null
+      ]
+    )
+    return res.rows[0] && toField(res.rows[0])
+  }
+
+  /**
+   * Deletes a field with its domain values, unlinking it from categories, conditions and tabular groups.
+   */
+  public async delete(fieldId: string): Promise<boolean> {
+    return withTransaction(this.db, async (tx) => {
+      await tx.query(
+        'DELETE FROM condition_domain_value WHERE field_id = $1 OR domain_value_id IN (SELECT id FROM domain_value WHERE field_id = $1)',
+        [fieldId]
+      )
+      await tx.query('DELETE FROM domain_value WHERE field_id = $1', [fieldId])
+      await tx.query('DELETE FROM category_field WHERE field_id = $1', [fieldId])
+      await tx.query('DELETE FROM tabular_group_field WHERE field_id = $1', [fieldId])
+      const res = await tx.query('DELETE FROM field WHERE id = $1', [fieldId])
+
+      return (res.rowCount ?? 0) > 0
+    })
+  }
+}
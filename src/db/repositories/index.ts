@@ -0,0 +1,13 @@
+export * from './types'
+export * from './category-repository'
+export * from './field-repository'
+export * from './domain-value-repository'
+export * from './condition-repository'
+export * from './tabular-group-repository'
+export * from './model-repository'
+export * from './tenant-repository'
+export * from './user-repository'
+export * from './audit-repository'
+export * from './category-version-repository'
+export * from './record-key-repository'
+export * from './outbox-repository'
@@ -0,0 +1,184 @@
+import type { Database, Queryable } from '../database'
+import { withTransaction } from '../database'
+import type {
+  CreateModelInput,
+  JsonObject,
+  Model,
+  ModelCategoryValues,
+  ModelCategoryValuesInput,
+  ModelDefinition,
+  ModelFieldValueRow,
+  ModelListOptions,
+  ModelRow,
+  ModelTabularValueRow,
+  UpdateModelInput
+} from './types'
+
+const toModel = (row: ModelRow): Model => ({
+  modelId: row.id,
+  metadata: row.metadata,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+})
+
+const isStored = (value: unknown): boolean => value !== undefined && value !== null
+
+const insertValues = async (tx: Queryable, table: string, keys: unknown[], values: JsonObject): Promise<void> => {
+  const entries = Object.entries(values).filter(([, value]) => isStored(value))
+  if (entries.length === 0) {
+    return
+  }
+
+  const keyParams = keys.map((_, index) => `$${index + 1}`).join(', ')
+  await tx.query(
+    `INSERT INTO ${table}
+     SELECT ${keyParams}, field_id, value FROM unnest($${keys.length + 1}::uuid[], $${keys.length + 2}::jsonb[]) AS t(field_id, value)`,
+    [...keys, entries.map(([fieldId]) => fieldId), entries.map(([, value]) => JSON.stringify(value))]
+  )
+}
+
+export class ModelRepository {
+  private readonly db: Database
+
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  public async create(input: CreateModelInput): Promise<Model> {
+    const res = await this.db.query<ModelRow>(
+      'INSERT INTO model (id, metadata) VALUES (COALESCE($1, gen_random_uuid()), $2) RETURNING *',
+      [input.modelId ?? null, input.metadata ?? null]
+    )
+    return toModel(res.rows[0])
+  }
+
+  /**
+   * Loads a model with its values and tabular group rows in every linked category.
+   */
+  public async get(modelId: string): Promise<ModelDefinition | undefined> {
+    const res = await this.db.query<ModelRow>('SELECT * FROM model WHERE id = $1', [modelId])
+    if (!res.rows[0]) {
+      return undefined
+    }
+
+    const [links, values, cells] = await Promise.all([
+      this.db.query<{ category_id: string; category_version: number | null }>(
+        'SELECT category_id, category_version FROM model_category WHERE model_id = $1 ORDER BY category_id',
+        [modelId]
+      ),
+      this.db.query<ModelFieldValueRow>(
+        'SELECT category_id, field_id, value FROM model_field_value WHERE model_id = $1 ORDER BY category_id, field_id',
+        [modelId]
+      ),
+      this.db.query<ModelTabularValueRow>(
+        `SELECT r.category_id, r.tabular_group_id, r.row_order, v.field_id, v.value
+         FROM model_tabular_row r
+         LEFT JOIN model_tabular_value v ON v.row_id = r.id
+         LEFT JOIN tabular_group_field tgf ON tgf.tabular_group_id = r.tabular_group_id AND tgf.field_id = v.field_id
+         WHERE r.model_id = $1
+         ORDER BY r.category_id, r.tabular_group_id, r.row_order, tgf.field_order NULLS LAST, v.field_id`,
+        [modelId]
+      )
+    ])
+
+    const categories = new Map(
+      links.rows.map(
+        ({ category_id: categoryId, category_version: categoryVersion }): [string, ModelCategoryValues] => [
+          categoryId,
+          { categoryId, categoryVersion, values: {}, tabularGroups: {} }
+        ]
+      )
+    )
+    values.rows.forEach((row) => {
+      ;(categories.get(row.category_id) as ModelCategoryValues).values[row.field_id] = row.value
+    })
+    cells.rows.forEach((row) => {
+      const tabularGroups = (categories.get(row.category_id) as ModelCategoryValues).tabularGroups
+      const rows = (tabularGroups[row.tabular_group_id] ??= [])
+      rows[row.row_order] ??= {}
+      if (row.field_id) {
+        rows[row.row_order][row.field_id] = row.value
+      }
+    })
+
+    return { ...toModel(res.rows[0]), categories: [...categories.values()] }
+  }
+
+  public async list({ limit = 100, offset = 0, categoryId }: ModelListOptions = {}): Promise<Model[]> {
+    const res = await this.db.query<ModelRow>(
+      `SELECT * FROM model m
+       WHERE $3::uuid IS NULL OR EXISTS (
+         SELECT 1 FROM model_category mc WHERE mc.model_id = m.id AND mc.category_id = $3
+       )
+       ORDER BY m.id LIMIT $1 OFFSET $2`,
+      [limit, offset, categoryId ?? null]
+    )
+    return res.rows.map(toModel)
+  }
+
+  public async update(modelId: string, input: UpdateModelInput): Promise<Model | undefined> {
+    const res = await this.db.query<ModelRow>(
+      'UPDATE model SET metadata = $2, updated_at = now() WHERE id = $1 RETURNING *',
+      [modelId, input.metadata]
+    )
+    return res.rows[0] && toModel(res.rows[0])
+  }
+
+  /**
+   * Deletes a model and its category links, which removes all its values.
+   */
+  public async delete(modelId: string): Promise<boolean> {
+    return withTransaction(this.db, async (tx) => {
+      await tx.query('DELETE FROM model_category WHERE model_id = $1', [modelId])
+      const res = await tx.query('DELETE FROM model WHERE id = $1', [modelId])
+
+      return (res.rowCount ?? 0) > 0
+    })
+  }
+
+  /**
+   * Links the model to a category, pinned to `input.categoryVersion`, and replaces all its values and tabular group
+   * rows there. Rows are stored in input order; null values are not stored.
+   */
+  public async setCategoryValues(modelId: string, categoryId: string, input: ModelCategoryValuesInput): Promise<void> {
+    await withTransaction(this.db, async (tx) => {
+      await tx.query(
+        `INSERT INTO model_category (model_id, category_id, category_version) VALUES ($1, $2, $3)
+         ON CONFLICT (model_id, category_id) DO UPDATE SET category_version = EXCLUDED.category_version`,
+        [modelId, categoryId, input.categoryVersion ?? null]
+      )
+      await tx.query('DELETE FROM model_field_value WHERE model_id = $1 AND category_id = $2', [modelId, categoryId])
+      await tx.query('DELETE FROM model_tabular_row WHERE model_id = $1 AND category_id = $2', [modelId, categoryId])
+
+      await insertValues(tx, 'model_field_value', [modelId, categoryId], input.values)
+
+      for (const [tabularGroupId, rows] of Object.entries(input.tabularGroups ?? {})) {
+        for (const [rowOrder, row] of rows.entries()) {
+          const res = await tx.query<{ id: string }>(
+            `INSERT INTO model_tabular_row (model_id, category_id, tabular_group_id, row_order)
+             VALUES ($1, $2, $3, $4) RETURNING id`,
+            [modelId, categoryId, tabularGroupId, rowOrder]
+          )
+          await insertValues(tx, 'model_tabular_value', [res.rows[0].id], row)
+        }
+      }
+
+      await tx.query('UPDATE model SET updated_at = now() WHERE id = $1', [modelId])
+    })
+  }
+
+  /**
+   * Unlinks the model from a category, removing its values there.
+   */
+  public async removeCategory(modelId: string, categoryId: string): Promise<boolean> {
+    return withTransaction(this.db, async (tx) => {
+      const res = await tx.query('DELETE FROM model_category WHERE model_id = $1 AND category_id = $2', [
+        modelId,
+        categoryId
+      ])
+      await tx.query('UPDATE model SET updated_at = now() WHERE id = $1', [modelId])
+
+      return (res.rowCount ?? 0) > 0
+    })
+  }
+}
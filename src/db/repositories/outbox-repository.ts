@@ -0,0 +1,94 @@
+import type { Database } from '../database'
+import type { OutboxBacklog, OutboxEvent, OutboxEventRow } from './types'
+
+const toOutboxEvent = (row: OutboxEventRow): OutboxEvent => ({
+  sequence: row.id,
+  eventId: row.event_id,
+  tenantId: row.tenant_id,
+  eventType: row.event_type,
+  recordType: row.record_type,
+  recordId: row.record_id,
+  table: row.table_name,
+  before: row.before,
+  after: row.after,
+  actorId: row.actor_id,
+  requestId: row.request_id,
+  occurredAt: row.occurred_at,
+  attempts: row.attempts,
+  lastError: row.last_error,
+  publishedAt: row.published_at
+})
+
+/**
+ * Delivers the change events of the outbox. Events are written by the `outbox` triggers only, and the outbox is
+ * visible only inside `withOutboxRelay`.
+ */
+export class OutboxRepository {
+  private readonly db: Database
+
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  /**
+   * Locks and returns the oldest pending events that have failed fewer than `maxAttempts` times, skipping events
+   * locked by a concurrent relay. The locks are held until the transaction ends.
+   */
+  public async claim(limit: number, maxAttempts: number): Promise<OutboxEvent[]> {
+    const res = await this.db.query<OutboxEventRow>(
+      `SELECT * FROM outbox_event WHERE published_at IS NULL AND attempts < $2
+       ORDER BY id LIMIT $1 FOR UPDATE SKIP LOCKED`,
+      [limit, maxAttempts]
+    )
+    return res.rows.map(toOutboxEvent)
+  }
+
+  public async markPublished(sequences: string[]): Promise<void> {
+    if (!sequences.length) {
+      return
+    }
+
+    await this.db.query(
+      `UPDATE outbox_event SET published_at = now(), attempts = attempts + 1, last_error = NULL
+       WHERE id = ANY($1::bigint[])`,
+      [sequences]
+    )
+  }
+
+  public async markFailed(failures: { sequence: string; error: string }[]): Promise<void> {
+    if (!failures.length) {
+      return
+    }
+
+    await this.db.query(
+      `UPDATE outbox_event SET attempts = attempts + 1, last_error = failure.error
+       FROM unnest($1::bigint[], $2::text[]) AS failure (id, error)
+       WHERE outbox_event.id = failure.id`,
+      [failures.map((failure) => failure.sequence), failures.map((failure) => failure.error)]
+    )
+  }
+
+  /**
+   * Counts the unpublished events, telling the ones still retried from the ones abandoned after `maxAttempts`.
+   */
+  public async backlog(maxAttempts: number): Promise<OutboxBacklog> {
+    const res = await this.db.query<{ pending: number; oldest_pending_seconds: number; abandoned: number }>(
+      `SELECT (count(*) FILTER (WHERE attempts < $1))::int AS pending,
+         COALESCE(EXTRACT(EPOCH FROM now() - min(occurred_at) FILTER (WHERE attempts < $1)), 0)::float8
+           AS oldest_pending_seconds,
+         (count(*) FILTER (WHERE attempts >= $1))::int AS abandoned
+       FROM outbox_event WHERE published_at IS NULL`,
+      [maxAttempts]
+    )
+    const [row] = res.rows
+    return { pending: row.pending, oldestPendingSeconds: row.oldest_pending_seconds, abandoned: row.abandoned }
+  }
+
+  /**
+   * Deletes the events published before `publishedBefore` and returns how many were deleted.
+   */
+  public async purge(publishedBefore: Date): Promise<number> {
+    const res = await this.db.query('DELETE FROM outbox_event WHERE published_at < $1', [publishedBefore])
+    return res.rowCount ?? 0
+  }
+}
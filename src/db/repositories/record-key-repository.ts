@@ -0,0 +1,41 @@
+import type { Database } from '../database'
+import type { KeyedRecordType, RecordKey, RecordKeyRow } from './types'
+
+const toRecordKey = (row: RecordKeyRow): RecordKey => ({
+  recordType: row.record_type,
+  recordId: row.id,
+  key: row.key,
+  fieldId: row.field_id
+})
+
+/**
+ * Reads and assigns the stable keys of metadata records, which are defaulted to their ids on insert.
+ */
+export class RecordKeyRepository {
+  private readonly db: Database
+
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  /**
+   * Lists the keys of every category, field, domain value, condition and tabular group.
+   */
+  public async list(): Promise<RecordKey[]> {
+    const res = await this.db.query<RecordKeyRow>(
+      `SELECT 'category' AS record_type, id, key, NULL::uuid AS field_id FROM category
+       UNION ALL SELECT 'field', id, key, NULL FROM field
+       UNION ALL SELECT 'domain_value', id, key, field_id FROM domain_value
+       UNION ALL SELECT 'condition', id, key, NULL FROM condition
+       UNION ALL SELECT 'tabular_group', id, key, NULL FROM tabular_group
+       ORDER BY record_type, key`
+    )
+    return res.rows.map(toRecordKey)
+  }
+
+  public async setKey(recordType: KeyedRecordType, recordId: string, key: string): Promise<boolean> {
+    // recordType names the table
+    const res = await this.db.query(`UPDATE ${recordType} SET key = $2 WHERE id = $1`, [recordId, key])
+    return (res.rowCount ?? 0) > 0
+  }
+}
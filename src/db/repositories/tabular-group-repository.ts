@@ -0,0 +1,101 @@
+import type { Database, Queryable } from '../database'
+import { withTransaction } from '../database'
+import type { CreateTabularGroupInput, ListOptions, TabularGroup, TabularGroupFieldInput, TabularGroupRow } from './types'
+
+const SELECT_TABULAR_GROUPS = `
+  SELECT
+    tg.id,
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object('fieldId', tgf.field_id, 'fieldOrder', tgf.field_order) ORDER BY tgf.field_order
+      ) FILTER (WHERE tgf.field_id IS NOT NULL),
+      '[]'
+    ) AS fields
+  FROM tabular_group tg
+  LEFT JOIN tabular_group_field tgf ON tgf.tabular_group_id = tg.id
+`
+
+const toTabularGroup = (row: TabularGroupRow): TabularGroup => ({
+  tabularGroupId: row.id,
+  fields: row.fields
+})
+
+const replaceFields = async (tx: Queryable, tabularGroupId: string, fields: TabularGroupFieldInput[]): Promise<void> => {
+  await tx.query('DELETE FROM tabular_group_field WHERE tabular_group_id = $1', [tabularGroupId])
+
+  for (const [index, { fieldId, fieldOrder }] of fields.entries()) {
+    await tx.query('INSERT INTO tabular_group_field (tabular_group_id, field_id, field_order) VALUES ($1, $2, $3)', [
+      tabularGroupId,
+      fieldId,
+      fieldOrder ?? index + 1
+    ])
+  }
+}
+
+export class TabularGroupRepository {
+  private readonly db: Database
+
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  /**
+   * Creates a tabular group with its ordered fields. Fields without a `fieldOrder` keep their input order.
+   */
+  public async create(input: CreateTabularGroupInput): Promise<TabularGroup> {
+    return withTransaction(this.db, async (tx) => {
+      const res = await tx.query<{ id: string }>(
+        'INSERT INTO tabular_group (id) VALUES (COALESCE($1, gen_random_uuid())) RETURNING id',
+        [input.tabularGroupId ?? null]
+      )
+      const tabularGroupId = res.rows[0].id
+      await replaceFields(tx, tabularGroupId, input.fields)
+
+      return (await new TabularGroupRepository(tx).get(tabularGroupId)) as TabularGroup
+    })
+  }
+
+  public async get(tabularGroupId: string): Promise<TabularGroup | undefined> {
+    const res = await this.db.query<TabularGroupRow>(`${SELECT_TABULAR_GROUPS} WHERE tg.id = $1 GROUP BY tg.id`, [
+      tabularGroupId
+    ])
+    return res.rows[0] && toTabularGroup(res.rows[0])
+  }
+
+  public async list({ limit = 100, offset = 0 }: ListOptions = {}): Promise<TabularGroup[]> {
+    const res = await this.db.query<TabularGroupRow>(
+      `${SELECT_TABULAR_GROUPS} GROUP BY tg.id ORDER BY tg.id LIMIT $1 OFFSET $2`,
+      [limit, offset]
+    )
+    return res.rows.map(toTabularGroup)
+  }
+
+  /**
+   * Replaces the fields of a tabular group.
+   */
+  public async update(tabularGroupId: string, fields: TabularGroupFieldInput[]): Promise<TabularGroup | undefined> {
+    return withTransaction(this.db, async (tx) => {
+      const res = await tx.query('SELECT 1 FROM tabular_group WHERE id = $1 FOR UPDATE', [tabularGroupId])
+      if (res.rowCount === 0) {
+        return undefined
+      }
+
+      await replaceFields(tx, tabularGroupId, fields)
+
+      return new TabularGroupRepository(tx).get(tabularGroupId)
+    })
+  }
+
+  /**
+   * Deletes a tabular group and unlinks it from every category.
+   */
+  public async delete(tabularGroupId: string): Promise<boolean> {
+    return withTransaction(this.db, async (tx) => {
+      await tx.query('DELETE FROM tabular_group_field WHERE tabular_group_id = $1', [tabularGroupId])
+      await tx.query('DELETE FROM category_tabular_group WHERE tabular_id = $1', [tabularGroupId])
+      const res = await tx.query('DELETE FROM tabular_group WHERE id = $1', [tabularGroupId])
+
+      return (res.rowCount ?? 0) > 0
+    })
+  }
+}
@@ -0,0 +1,29 @@
+import type { Database } from '../database'
+import type { CreateTenantInput, Tenant, TenantRow } from './types'
+
+const toTenant = (row: TenantRow): Tenant => ({
+  tenantId: row.id,
+  name: row.name,
+  createdAt: row.created_at
+})
+
+export class TenantRepository {
+  private readonly db: Database
+
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  public async create(input: CreateTenantInput): Promise<Tenant> {
+    const res = await this.db.query<TenantRow>(
+      'INSERT INTO tenant (id, name) VALUES (COALESCE($1, gen_random_uuid()), $2) RETURNING *',
+      [input.tenantId ?? null, input.name]
+    )
+    return toTenant(res.rows[0])
+  }
+
+  public async get(tenantId: string): Promise<Tenant | undefined> {
+    const res = await this.db.query<TenantRow>('SELECT * FROM tenant WHERE id = $1', [tenantId])
+    return res.rows[0] && toTenant(res.rows[0])
+  }
+}
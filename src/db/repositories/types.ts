@@ -0,0 +1,527 @@
+export type JsonObject = Record<string, unknown>
+
+export interface ListOptions {
+  limit?: number
+  offset?: number
+}
+
+export interface ListDomainValuesOptions extends ListOptions {
+  includeDeprecated?: boolean
+}
+
+// Entities, in the camelCase shape emitted by metadata_view
+
+export interface Category {
+  categoryId: string
+  metadata: JsonObject | null
+}
+
+export interface Field {
+  fieldId: string
+  datatype: string | null
+  metadata: JsonObject | null
+  validation: JsonObject | null
+  search: JsonObject | null
+}
+
+export interface CategoryField extends Field {
+  isRequired: boolean
+}
+
+/**
+ * Labels of a domain value by locale, e.g. `{ "de": "Rot", "fr-CA": "Rouge" }`.
+ */
+export type DomainValueLabels = Record<string, string>
+
+export interface DomainValue {
+  domainValueId: string
+  fieldId: string
+  // Stable external code, unique per field
+  key: string
+  // The label used when no label matches the requested locale
+  name: string
+  labels: DomainValueLabels
+  sortOrder: number
+  // Deprecated values stay valid where they are used but cannot be newly chosen
+  deprecatedAt: Date | null
+  successorId: string | null
+}
+
+/**
+ * What category definitions and their published versions hold of a domain value.
+ */
+export type DomainValueDefinition = Pick<DomainValue, 'domainValueId' | 'fieldId' | 'name'>
+
+/**
+ * The outcome of replacing a deprecated domain value in conditions: the conditions that referenced it now
+ * reference its successor.
+ */
+export interface DomainValueReplacement {
+  domainValueId: string
+  successorId: string
+  conditionIds: string[]
+}
+
+export interface ConditionDomainValue {
+  domainValueId: string
+  conditionGroupId: string | null
+  fieldId: string | null
+}
+
+export interface Condition {
+  conditionId: string
+  domainValues: ConditionDomainValue[]
+}
+
+export interface TabularGroupField {
+  fieldId: string
+  fieldOrder: number
+}
+
+export interface TabularGroup {
+  tabularGroupId: string
+  fields: TabularGroupField[]
+}
+
+export interface CategoryTabularGroup extends TabularGroup {
+  validation: JsonObject | null
+}
+
+/**
+ * A category with the fields, conditions and tabular groups linked to it, as assembled by metadata_view. The models
+ * of a category are listed by `ModelRepository.list`.
+ */
+export interface CategoryDefinition {
+  categoryId: string
+  categoryMetadata: JsonObject | null
+  fields: CategoryField[]
+  conditions: Condition[]
+  tabularGroups: CategoryTabularGroup[]
+}
+
+/**
+ * A category definition with the version of its `category_definition` document, which changes with every change
+ * of the definition. `definition` is left out when the caller already holds that version.
+ */
+export interface VersionedCategoryDefinition {
+  // bigint, returned as a string
+  version: string
+  definition?: CategoryDefinition
+}
+
+/**
+ * A category's own row and its links to fields, conditions and tabular groups, without the linked records.
+ */
+export interface CategorySnapshot {
+  categoryId: string
+  metadata: JsonObject | null
+  fields: Required<CategoryFieldInput>[]
+  conditionIds: string[]
+  tabularGroups: Required<CategoryTabularGroupInput>[]
+}
+
+export interface Model {
+  modelId: string
+  metadata: JsonObject | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * A model's attribute values in one category. Tabular group rows are keyed by tabular group id,
+ * and each row's values are keyed in `tabular_group_field.field_order`.
+ */
+export interface ModelCategoryValues {
+  categoryId: string
+  // The published version the values were validated against, null for the draft of an unpublished category
+  categoryVersion: number | null
+  values: JsonObject
+  tabularGroups: Record<string, JsonObject[]>
+}
+
+/**
+ * A model with its values in every category it is linked to.
+ */
+export interface ModelDefinition extends Model {
+  categories: ModelCategoryValues[]
+}
+
+export interface Tenant {
+  tenantId: string
+  name: string
+  createdAt: Date
+}
+
+export interface User {
+  userId: string
+  tenantId: string
+  email: string
+  roles: string[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type KeyedRecordType = 'category' | 'field' | 'domain_value' | 'condition' | 'tabular_group'
+
+/**
+ * The stable key of a metadata record. Domain value keys are unique per field, the others per tenant.
+ */
+export interface RecordKey {
+  recordType: KeyedRecordType
+  recordId: string
+  key: string
+  // The field of a domain value, null for other records
+  fieldId: string | null
+}
+
+export type AuditRecordType = 'category' | 'field' | 'condition' | 'tabular_group'
+
+export type AuditOperation = 'INSERT' | 'UPDATE' | 'DELETE'
+
+/**
+ * Types of the change events the `outbox` triggers write, named after the record and what happened to it.
+ */
+export type ChangeEventType =
+  | 'CategoryCreated'
+  | 'CategoryUpdated'
+  | 'CategoryDeleted'
+  | 'CategoryFieldAdded'
+  | 'CategoryFieldUpdated'
+  | 'CategoryFieldRemoved'
+  | 'CategoryConditionAdded'
+  | 'CategoryConditionRemoved'
+  | 'CategoryTabularGroupAdded'
+  | 'CategoryTabularGroupUpdated'
+  | 'CategoryTabularGroupRemoved'
+  | 'CategoryPublished'
+  | 'FieldCreated'
+  | 'FieldUpdated'
+  | 'FieldDeleted'
+  | 'DomainValueAdded'
+  | 'DomainValueUpdated'
+  | 'DomainValueRemoved'
+  | 'ConditionCreated'
+  | 'ConditionUpdated'
+  | 'ConditionDeleted'
+  | 'ConditionDomainValueAdded'
+  | 'ConditionDomainValueUpdated'
+  | 'ConditionDomainValueRemoved'
+  | 'TabularGroupCreated'
+  | 'TabularGroupUpdated'
+  | 'TabularGroupDeleted'
+  | 'TabularGroupFieldAdded'
+  | 'TabularGroupFieldUpdated'
+  | 'TabularGroupFieldRemoved'
+
+/**
+ * What a published category version freezes: its metadata_view aggregate (without model ids) and the definitions
+ * of the tabular group fields and domain values that validating records against it needs.
+ */
+export interface CategoryVersionDefinition {
+  category: CategoryDefinition
+  fields: Field[]
+  domainValues: DomainValueDefinition[]
+}
+
+export interface CategoryVersionSummary {
+  categoryId: string
+  version: number
+  publishedAt: Date
+  publishedBy: string | null
+}
+
+export interface CategoryVersion extends CategoryVersionSummary {
+  definition: CategoryVersionDefinition
+}
+
+/**
+ * One changed row of a record's tables, with the row before and after the change (null when absent).
+ */
+export interface AuditEntry {
+  // bigint, returned as a string
+  auditId: string
+  recordType: AuditRecordType
+  recordId: string
+  table: string
+  operation: AuditOperation
+  before: JsonObject | null
+  after: JsonObject | null
+  actorId: string | null
+  requestId: string | null
+  changedAt: Date
+}
+
+/**
+ * A change event in the outbox, with its delivery state.
+ */
+export interface OutboxEvent {
+  // bigint, returned as a string; orders the events of a record
+  sequence: string
+  eventId: string
+  tenantId: string
+  eventType: ChangeEventType
+  recordType: AuditRecordType
+  recordId: string
+  table: string
+  before: JsonObject | null
+  after: JsonObject | null
+  actorId: string | null
+  requestId: string | null
+  occurredAt: Date
+  attempts: number
+  lastError: string | null
+  publishedAt: Date | null
+}
+
+export interface OutboxBacklog {
+  // Unpublished events that are still retried
+  pending: number
+  // Age of the oldest pending event, 0 without pending events
+  oldestPendingSeconds: number
+  // Unpublished events that failed too often to be retried
+  abandoned: number
+}
+
+// Inputs
+
+export interface CreateFieldInput {
+  fieldId?: string
+  datatype: string
+  metadata?: JsonObject | null
+  validation?: JsonObject | null
+  search?: JsonObject | null
+  domainValues?: string[]
+}
+
+export type UpdateFieldInput = Partial<Omit<CreateFieldInput, 'fieldId' | 'domainValues'>>
+
+export interface CreateDomainValueInput {
+  domainValueId?: string
+  fieldId: string
+  key?: string
+  name: string
+  labels?: DomainValueLabels
+  // Defaults to after the field's last value
+  sortOrder?: number
+}
+
+export type UpdateDomainValueInput = Partial<Omit<CreateDomainValueInput, 'domainValueId' | 'fieldId'>>
+
+export interface ConditionDomainValueInput {
+  domainValueId: string
+  conditionGroupId?: string | null
+}
+
+export interface CreateConditionInput {
+  conditionId?: string
+  domainValues: ConditionDomainValueInput[]
+}
+
+export interface TabularGroupFieldInput {
+  fieldId: string
+  fieldOrder?: number
+}
+
+export interface CreateTabularGroupInput {
+  tabularGroupId?: string
+  fields: TabularGroupFieldInput[]
+}
+
+export interface CategoryFieldInput {
+  fieldId: string
+  isRequired?: boolean
+}
+
+export interface CategoryTabularGroupInput {
+  tabularGroupId: string
+  validation?: JsonObject | null
+}
+
+export interface CreateCategoryInput {
+  categoryId?: string
+  metadata: JsonObject | null
+  modelIds?: string[]
+  // Existing fields are referenced by fieldId; entries with a datatype are created first
+  fields?: (Partial<CategoryFieldInput> & Partial<CreateFieldInput>)[]
+  conditionIds?: string[]
+  tabularGroups?: CategoryTabularGroupInput[]
+}
+
+export interface UpdateCategoryInput {
+  metadata: JsonObject | null
+}
+
+export interface CreateModelInput {
+  modelId?: string
+  metadata?: JsonObject | null
+}
+
+export interface UpdateModelInput {
+  metadata: JsonObject | null
+}
+
+export interface ModelListOptions extends ListOptions {
+  categoryId?: string
+}
+
+export interface ModelCategoryValuesInput {
+  values: JsonObject
+  tabularGroups?: Record<string, JsonObject[]>
+  categoryVersion?: number | null
+}
+
+export interface CreateTenantInput {
+  tenantId?: string
+  name: string
+}
+
+export interface CreateUserInput {
+  userId: string
+  tenantId: string
+  email: string
+  roles?: string[]
+}
+
+// Rows, as returned by the database
+
+export interface CategoryRow {
+  id: string
+  key: string
+  tenant_id: string
+  metadata: JsonObject | null
+}
+
+export interface FieldRow {
+  id: string
+  key: string
+  tenant_id: string
+  datatype: string | null
+  metadata: JsonObject | null
+  validation: JsonObject | null
+  search: JsonObject | null
+}
+
+export interface DomainValueRow {
+  id: string
+  key: string
+  field_id: string
+  name: string
+  labels: DomainValueLabels
+  sort_order: number
+  deprecated_at: Date | null
+  successor_id: string | null
+}
+
+export interface MetadataViewRow {
+  category_id: string
+  category_metadata: JsonObject | null
+  model_ids: string[] | null
+  fields: CategoryField[] | null
+  conditions: (Omit<Condition, 'domainValues'> & { domainValues: ConditionDomainValue[] | null })[] | null
+  // Unquoted in the view definition, so Postgres folds it to lower case
+  tabulargroups: (Omit<CategoryTabularGroup, 'fields'> & { fields: TabularGroupField[] | null })[] | null
+  tenant_id: string
+}
+
+export interface CategoryDefinitionRow {
+  category_id: string
+  tenant_id: string
+  definition: Omit<MetadataViewRow, 'tenant_id' | 'model_ids'>
+  version: string
+  refreshed_at: Date
+}
+
+export interface ConditionRow {
+  id: string
+  domain_values: ConditionDomainValue[]
+}
+
+export interface TabularGroupRow {
+  id: string
+  fields: TabularGroupField[]
+}
+
+export interface ModelRow {
+  id: string
+  tenant_id: string
+  metadata: JsonObject | null
+  created_at: Date
+  updated_at: Date
+}
+
+export interface ModelFieldValueRow {
+  category_id: string
+  field_id: string
+  value: unknown
+}
+
+export interface ModelTabularValueRow {
+  category_id: string
+  tabular_group_id: string
+  row_order: number
+  field_id: string | null
+  value: unknown
+}
+
+export interface TenantRow {
+  id: string
+  name: string
+  created_at: Date
+}
+
+export interface UserRow {
+  id: string
+  tenant_id: string
+  email: string
+  roles: string[]
+  created_at: Date
+  updated_at: Date
+}
+
+export interface AuditLogRow {
+  id: string
+  tenant_id: string | null
+  record_type: AuditRecordType
+  record_id: string
+  table_name: string
+  operation: AuditOperation
+  before: JsonObject | null
+  after: JsonObject | null
+  actor_id: string | null
+  request_id: string | null
+  changed_at: Date
+}
+
+export interface OutboxEventRow {
+  id: string
+  event_id: string
+  tenant_id: string
+  event_type: ChangeEventType
+  record_type: AuditRecordType
+  record_id: string
+  table_name: string
+  before: JsonObject | null
+  after: JsonObject | null
+  actor_id: string | null
+  request_id: string | null
+  occurred_at: Date
+  attempts: number
+  last_error: string | null
+  published_at: Date | null
+}
+
+export interface CategoryVersionRow {
+  category_id: string
+  version: number
+  tenant_id: string
+  definition: CategoryVersionDefinition
+  published_at: Date
+  published_by: string | null
+}
+
+export interface RecordKeyRow {
+  record_type: KeyedRecordType
+  id: string
+  key: string
+  field_id: string | null
+}
@@ -0,0 +1,45 @@
+import type { Database } from '../database'
+import type { CreateUserInput, User, UserRow } from './types'
+
+const toUser = (row: UserRow): User => ({
+  userId: row.id,
+  tenantId: row.tenant_id,
+  email: row.email,
+  roles: row.roles,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+})
+
+export class UserRepository {
+  private readonly db: Database
+
+  constructor(db: Database) {
+    this.db = db
+  }
+
+  /**
+   * Creates the user unless one with the same id exists, and returns the stored user either way.
+   */
+  public async create(input: CreateUserInput): Promise<User> {
+    const res = await this.db.query<UserRow>(
+      `INSERT INTO app_user (id, tenant_id, email, roles) VALUES ($1, $2, $3, COALESCE($4::text[], '{viewer}'))
+       ON CONFLICT (id) DO NOTHING
+       RETURNING *`,
+      [input.userId, input.tenantId, input.email, input.roles ?? null]
+    )
+    return res.rows[0] ? toUser(res.rows[0]) : ((await this.get(input.userId)) as User)
+  }
+
+  public async get(userId: string): Promise<User | undefined> {
+    const res = await this.db.query<UserRow>('SELECT * FROM app_user WHERE id = $1', [userId])
+    return res.rows[0] && toUser(res.rows[0])
+  }
+
+  /**
+   * Finds a user by email, ignoring case.
+   */
+  public async getByEmail(email: string): Promise<User | undefined> {
+    const res = await this.db.query<UserRow>('SELECT * FROM app_user WHERE lower(email) = lower($1)', [email])
+    return res.rows[0] && toUser(res.rows[0])
+  }
+}
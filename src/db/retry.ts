@@ -0,0 +1,31 @@
+export interface RetryOptions {
+  retries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  shouldRetry: (error: unknown) => boolean
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Runs `fn`, retrying retryable failures with exponential backoff and full jitter.
+ */
+export const withRetry = async <TResult>(
+  fn: (attempt: number) => Promise<TResult>,
+  { retries, baseDelayMs, maxDelayMs, shouldRetry, onRetry }: RetryOptions
+): Promise<TResult> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt)
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error)) {
+        throw error
+      }
+
+      const delayMs = Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt))
+      onRetry?.(error, attempt + 1, delayMs)
+      await sleep(delayMs)
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import type { PostConfirmationTriggerEvent, PreSignUpTriggerEvent, PreTokenGenerationTriggerEvent } from 'aws-lambda'
+import type { ContextContainer } from '@utils/context-container'
+import { ConflictError } from '@utils/errors'
+import { CognitoBaseHandler } from '../base-handler/cognito-base-handler'
+import { withConnection } from '../../db/connection'
+import { UserRepository } from '../../db/repositories'
+import { registerUser } from '../../services/users'
+import type { RegisterUserInput } from '../../services/users'
+import type {
+  ConfirmedUserAttributes,
+  PostConfirmationRequest,
+  PreSignUpRequest,
+  PreTokenGenerationRequest
+} from './schemas'
+import { postConfirmationSchema, preSignUpSchema, preTokenGenerationSchema } from './schemas'
+
+const toRegisterUserInput = (userAttributes: ConfirmedUserAttributes): RegisterUserInput => ({
+  userId: userAttributes.sub,
+  email: userAttributes.email,
+  tenantName: userAttributes['custom:organization']
+})
+
+/**
+ * Rejects sign-ups with invalid attributes or an email that already belongs to a user.
+ */
+export class PreSignUpHandler<
+  TEvent extends PreSignUpTriggerEvent = PreSignUpTriggerEvent
+> extends CognitoBaseHandler<TEvent> {
+  constructor(context: ContextContainer, event: TEvent) {
+    super(context, event, preSignUpSchema)
+  }
+
+  protected async handleRequest(): Promise<TEvent> {
+    const { request } = this.parseSchema<PreSignUpRequest>()
+    const existing = await withConnection((client) =>
+      new UserRepository(client).getByEmail(request.userAttributes.email)
+    )
+    if (existing) {
+      throw new ConflictError('An account with this email already exists')
+    }
+
+    return this.event
+  }
+}
+
+/**
+ * Creates the user row, and a tenant they administer, once the user confirms their sign-up.
+ */
+export class PostConfirmationHandler<
+  TEvent extends PostConfirmationTriggerEvent = PostConfirmationTriggerEvent
+> extends CognitoBaseHandler<TEvent> {
+  constructor(context: ContextContainer, event: TEvent) {
+    super(context, event, postConfirmationSchema)
+  }
+
+  protected async handleRequest(): Promise<TEvent> {
+    const { userAttributes } = this.parseSchema<PostConfirmationRequest>().request
+    const user = await withConnection((client) => registerUser(client, toRegisterUserInput(userAttributes)))
+    this.context.logger.info('User registered', { data: { userId: user.userId, tenantId: user.tenantId } })
+
+    return this.event
+  }
+}
+
+/**
+ * Adds the user's roles and tenant to the ID token as the `custom:roles` (comma separated) and
+ * `custom:tenant_id` claims read by `checkAccess`. Cognito confirms a user even when the post confirmation
+ * trigger fails and never runs it again, so a confirmed user without a row is registered here instead.
+ */
+export class PreTokenGenerationHandler<
+  TEvent extends PreTokenGenerationTriggerEvent = PreTokenGenerationTriggerEvent
+> extends CognitoBaseHandler<TEvent> {
+  constructor(context: ContextContainer, event: TEvent) {
+    super(context, event, preTokenGenerationSchema)
+  }
+
+  protected async handleRequest(): Promise<TEvent> {
+    const { userAttributes } = this.parseSchema<PreTokenGenerationRequest>().request
+    const user = await withConnection(async (client) => {
+      const existing = await new UserRepository(client).get(userAttributes.sub)
+      if (existing) {
+        return existing
+      }
+
+      const registered = await registerUser(client, toRegisterUserInput(userAttributes))
+      this.context.logger.warn('User registered on token generation after a failed post confirmation', {
+        data: { userId: registered.userId, tenantId: registered.tenantId }
+      })
+      return registered
+    })
+
+    this.event.response = {
+      claimsOverrideDetails: {
+        claimsToAddOrOverride: {
+          'custom:roles': user.roles.join(','),
+          'custom:tenant_id': user.tenantId
+        }
+      }
+    }
+
+    return this.event
+  }
+}
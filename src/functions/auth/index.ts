@@ -0,0 +1,16 @@
+import type { PostConfirmationTriggerEvent, PreSignUpTriggerEvent, PreTokenGenerationTriggerEvent } from 'aws-lambda'
+import { createCognitoHandler } from '../common/create-cognito-handler'
+import { PostConfirmationHandler, PreSignUpHandler, PreTokenGenerationHandler } from './handlers'
+
+type AuthTriggerEvent = PreSignUpTriggerEvent | PostConfirmationTriggerEvent | PreTokenGenerationTriggerEvent
+
+export const handler = createCognitoHandler<AuthTriggerEvent>({
+  PreSignUp_SignUp: PreSignUpHandler,
+  PreSignUp_AdminCreateUser: PreSignUpHandler,
+  PostConfirmation_ConfirmSignUp: PostConfirmationHandler,
+  TokenGeneration_HostedAuth: PreTokenGenerationHandler,
+  TokenGeneration_Authentication: PreTokenGenerationHandler,
+  TokenGeneration_NewPasswordChallenge: PreTokenGenerationHandler,
+  TokenGeneration_AuthenticateDevice: PreTokenGenerationHandler,
+  TokenGeneration_RefreshTokens: PreTokenGenerationHandler
+})
@@ -0,0 +1,26 @@
+import { z } from 'zod'
+import { uuidSchema } from '../common/schemas'
+
+const signUpAttributesSchema = z.object({
+  email: z.string().email(),
+  'custom:organization': z.string().trim().min(1).max(100).optional()
+})
+
+export const preSignUpSchema = z.object({
+  request: z.object({ userAttributes: signUpAttributesSchema })
+})
+
+const confirmedUserAttributesSchema = signUpAttributesSchema.extend({ sub: uuidSchema })
+
+export const postConfirmationSchema = z.object({
+  request: z.object({ userAttributes: confirmedUserAttributesSchema })
+})
+
+export const preTokenGenerationSchema = z.object({
+  request: z.object({ userAttributes: confirmedUserAttributesSchema })
+})
+
+export type ConfirmedUserAttributes = z.infer<typeof confirmedUserAttributesSchema>
+export type PreSignUpRequest = z.infer<typeof preSignUpSchema>
+export type PostConfirmationRequest = z.infer<typeof postConfirmationSchema>
+export type PreTokenGenerationRequest = z.infer<typeof preTokenGenerationSchema>
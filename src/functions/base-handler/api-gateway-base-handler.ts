@@ -10,6 +10,9 @@ import { BaseHandler } from '.'
 import type { ContextContainer } from '@utils/context-container'
 import type { AuthRoles } from '@utils/auth/types'
 import { checkAccess } from '@utils/auth'
+import { ForbiddenError } from '@utils/errors'
+import { withTenantConnection } from '../../db/connection'
+import type { Database } from '../../db/database'
 
 export abstract class APIGatewayBaseHandler extends BaseHandler<APIGatewayProxyEvent, APIGatewayProxyResult> {
   protected readonly schema: ZodSchema
@@ -23,6 +26,19 @@ export abstract class APIGatewayBaseHandler extends BaseHandler<APIGatewayProxyE
     return checkAccess(this.context, this.event, roles)
   }
 
+  /**
+   * Runs `fn` with a connection scoped to the caller's tenant, so queries only ever see the tenant's rows.
+   * Changes are attributed to the caller and the request in the audit log.
+   */
+  protected withConnection<TResult>(fn: (client: Database) => Promise<TResult>): Promise<TResult> {
+    const { tenantId, userId, requestId } = this.context.requestContext
+    if (!tenantId) {
+      throw new ForbiddenError('No tenant is associated with this user')
+    }
+
+    return withTenantConnection({ tenantId, userId, requestId }, fn)
+  }
+
   protected parseSchema<TSchema>(): TSchema {
     const customEvent: APIGatewayParsedEvent = {
       ...this.event,
@@ -1,6 +1,33 @@
+import type { ZodSchema } from 'zod'
+import type { ContextContainer } from '@utils/context-container'
+import { BadRequestError } from '@utils/errors'
 import { BaseHandler } from '.'
 
 export abstract class CognitoBaseHandler<TEvent> extends BaseHandler<TEvent, TEvent> {
+  protected readonly schema: ZodSchema
+
+  constructor(context: ContextContainer, event: TEvent, schema: ZodSchema) {
+    super(context, event)
+    this.schema = schema
+  }
+
+  /**
+   * Validates the trigger event against the handler's schema. Cognito shows the error message to the user,
+   * so issues are reported as one readable line rather than as a `ZodError`.
+   */
+  protected parseSchema<TSchema>(): TSchema {
+    const result = this.schema.safeParse(this.event)
+    if (!result.success) {
+      this.context.logger.warn('Trigger validation failed', { data: { issues: result.error.issues } })
+      throw new BadRequestError(
+        result.error.issues.map((issue) => `${issue.path.slice(-1).join('.')}: ${issue.message}`).join('; '),
+        result.error.issues
+      )
+    }
+
+    return result.data as TSchema
+  }
+
   protected handleError(error: Error): TEvent {
     this.context.logger.error('Error occurred in Cognito handler', { error, event: this.event })
     throw error
@@ -0,0 +1,442 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda'
+import { StatusCodes } from 'http-status-codes'
+import { ADMIN_ROLES, READ_ROLES } from '@utils/auth'
+import type { ContextContainer } from '@utils/context-container'
+import { NotFoundError } from '@utils/errors'
+import { entityTag, isNotModified } from '@utils/response'
+import { APIGatewayBaseHandler } from '../base-handler/api-gateway-base-handler'
+import { AuditRepository, CategoryRepository, CategoryVersionRepository } from '../../db/repositories'
+import type { CategoryDefinition } from '../../db/repositories'
+import { restoreCategory } from '../../services/audit'
+import { ConditionEvaluator } from '../../services/conditions'
+import { readCategoryDefinition } from '../../services/definitions'
+import { validateCategoryRecord } from '../../services/models'
+import { diffCategoryVersions, getCategoryVersion, publishCategory } from '../../services/versions'
+import type {
+  CategoryConditionRequest,
+  CreateCategoryRequest,
+  DeleteCategoryFieldRequest,
+  DeleteCategoryRequest,
+  DeleteCategoryTabularGroupRequest,
+  DiffCategoryVersionsRequest,
+  EvaluateCategoryConditionsRequest,
+  GetCategoryRequest,
+  GetCategoryVersionRequest,
+  ListCategoriesRequest,
+  ListCategoryHistoryRequest,
+  ListCategoryVersionsRequest,
+  PublishCategoryRequest,
+  PutCategoryFieldRequest,
+  PutCategoryTabularGroupRequest,
+  RestoreCategoryRequest,
+  UpdateCategoryRequest,
+  ValidateCategoryRecordRequest
+} from './schemas'
+import {
+  categoryConditionSchema,
+  createCategorySchema,
+  deleteCategoryFieldSchema,
+  deleteCategorySchema,
+  deleteCategoryTabularGroupSchema,
+  diffCategoryVersionsSchema,
+  evaluateCategoryConditionsSchema,
+  getCategorySchema,
+  getCategoryVersionSchema,
+  listCategoriesSchema,
+  listCategoryHistorySchema,
+  listCategoryVersionsSchema,
+  publishCategorySchema,
+  putCategoryFieldSchema,
+  putCategoryTabularGroupSchema,
+  restoreCategorySchema,
+  updateCategorySchema,
+  validateCategoryRecordSchema
+} from './schemas'
+
+const getCategoryOrThrow = async (categories: CategoryRepository, categoryId: string): Promise<CategoryDefinition> => {
+  const category = await categories.get(categoryId)
+  if (!category) {
+    throw new NotFoundError(`Category ${categoryId} not found`)
+  }
+
+  return category
+}
+
+export class ListCategoriesHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, listCategoriesSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { queryStringParameters } = this.parseSchema<ListCategoriesRequest>()
+    const categories = await this.withConnection((client) => new CategoryRepository(client).list(queryStringParameters))
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: categories } })
+  }
+}
+
+/**
+ * Returns the category's definition from the container's cache while its version is current, with the version as
+ * ETag; 304 when the client's copy is current.
+ */
+export class GetCategoryHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, getCategorySchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters } = this.parseSchema<GetCategoryRequest>()
+    const category = await this.withConnection((client) => readCategoryDefinition(client, pathParameters.categoryId))
+    if (!category) {
+      throw new NotFoundError(`Category ${pathParameters.categoryId} not found`)
+    }
+
+    const etag = entityTag(category.version)
+    // Clients may keep the definition, revalidating it with If-None-Match
+    const headers = { ETag: etag, 'Cache-Control': 'private, no-cache', 'X-Definition-Version': category.version }
+    if (isNotModified(this.event.headers, etag)) {
+      return this.formatResponse({ statusCode: StatusCodes.NOT_MODIFIED, headers })
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: category.definition }, headers })
+  }
+}
+
+export class CreateCategoryHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, createCategorySchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { body } = this.parseSchema<CreateCategoryRequest>()
+    const category = await this.withConnection((client) => new CategoryRepository(client).create(body))
+
+    return this.formatResponse({ statusCode: StatusCodes.CREATED, body: { data: category } })
+  }
+}
+
+export class UpdateCategoryHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, updateCategorySchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters, body } = this.parseSchema<UpdateCategoryRequest>()
+    const category = await this.withConnection(async (client) => {
+      const categories = new CategoryRepository(client)
+      if (!(await categories.update(pathParameters.categoryId, body))) {
+        throw new NotFoundError(`Category ${pathParameters.categoryId} not found`)
+      }
+
+      return getCategoryOrThrow(categories, pathParameters.categoryId)
+    })
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: category } })
+  }
+}
+
+export class DeleteCategoryHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, deleteCategorySchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters } = this.parseSchema<DeleteCategoryRequest>()
+    const deleted = await this.withConnection((client) =>
+      new CategoryRepository(client).delete(pathParameters.categoryId)
+    )
+    if (!deleted) {
+      throw new NotFoundError(`Category ${pathParameters.categoryId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.NO_CONTENT })
+  }
+}
+
+export class PutCategoryFieldHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, putCategoryFieldSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters, body } = this.parseSchema<PutCategoryFieldRequest>()
+    const category = await this.withConnection(async (client) => {
+      const categories = new CategoryRepository(client)
+      await getCategoryOrThrow(categories, pathParameters.categoryId)
+      await categories.addField(pathParameters.categoryId, {
+        fieldId: pathParameters.fieldId,
+        isRequired: body.isRequired
+      })
+
+      return getCategoryOrThrow(categories, pathParameters.categoryId)
+    })
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: category } })
+  }
+}
+
+export class DeleteCategoryFieldHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, deleteCategoryFieldSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters } = this.parseSchema<DeleteCategoryFieldRequest>()
+    const removed = await this.withConnection((client) =>
+      new CategoryRepository(client).removeField(pathParameters.categoryId, pathParameters.fieldId)
+    )
+    if (!removed) {
+      throw new NotFoundError(`Field ${pathParameters.fieldId} is not linked to category ${pathParameters.categoryId}`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.NO_CONTENT })
+  }
+}
+
+export class PutCategoryConditionHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, categoryConditionSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters } = this.parseSchema<CategoryConditionRequest>()
+    const category = await this.withConnection(async (client) => {
+      const categories = new CategoryRepository(client)
+      await getCategoryOrThrow(categories, pathParameters.categoryId)
+      await categories.addCondition(pathParameters.categoryId, pathParameters.conditionId)
+
+      return getCategoryOrThrow(categories, pathParameters.categoryId)
+    })
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: category } })
+  }
+}
+
+export class DeleteCategoryConditionHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, categoryConditionSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters } = this.parseSchema<CategoryConditionRequest>()
+    const removed = await this.withConnection((client) =>
+      new CategoryRepository(client).removeCondition(pathParameters.categoryId, pathParameters.conditionId)
+    )
+    if (!removed) {
+      throw new NotFoundError(
+        `Condition ${pathParameters.conditionId} is not linked to category ${pathParameters.categoryId}`
+      )
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.NO_CONTENT })
+  }
+}
+
+export class PutCategoryTabularGroupHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, putCategoryTabularGroupSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters, body } = this.parseSchema<PutCategoryTabularGroupRequest>()
+    const category = await this.withConnection(async (client) => {
+      const categories = new CategoryRepository(client)
+      await getCategoryOrThrow(categories, pathParameters.categoryId)
+      await categories.addTabularGroup(pathParameters.categoryId, {
+        tabularGroupId: pathParameters.tabularGroupId,
+        validation: body.validation
+      })
+
+      return getCategoryOrThrow(categories, pathParameters.categoryId)
+    })
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: category } })
+  }
+}
+
+export class DeleteCategoryTabularGroupHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, deleteCategoryTabularGroupSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters } = this.parseSchema<DeleteCategoryTabularGroupRequest>()
+    const removed = await this.withConnection((client) =>
+      new CategoryRepository(client).removeTabularGroup(pathParameters.categoryId, pathParameters.tabularGroupId)
+    )
+    if (!removed) {
+      throw new NotFoundError(
+        `Tabular group ${pathParameters.tabularGroupId} is not linked to category ${pathParameters.categoryId}`
+      )
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.NO_CONTENT })
+  }
+}
+
+/**
+ * Validates a model record against the category without storing it, using the version and rejecting the deprecated
+ * domain values a save would.
+ */
+export class ValidateCategoryRecordHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, validateCategoryRecordSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters, queryStringParameters, body } = this.parseSchema<ValidateCategoryRecordRequest>()
+    const result = await this.withConnection((client) =>
+      validateCategoryRecord(client, pathParameters.categoryId, body, queryStringParameters.modelId)
+    )
+    if (!result) {
+      throw new NotFoundError(`Category ${pathParameters.categoryId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: result } })
+  }
+}
+
+/**
+ * Evaluates the category's conditions against a partial record, returning the visible and required fields.
+ */
+export class EvaluateCategoryConditionsHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, evaluateCategoryConditionsSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters, body } = this.parseSchema<EvaluateCategoryConditionsRequest>()
+    const category = await this.withConnection((client) =>
+      getCategoryOrThrow(new CategoryRepository(client), pathParameters.categoryId)
+    )
+    const evaluation = new ConditionEvaluator(category, body.conditionSemantics).evaluate(body.values)
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: evaluation } })
+  }
+}
+
+/**
+ * Lists the changes to a category's metadata and links, newest first. Deleted categories keep their history.
+ */
+export class ListCategoryHistoryHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, listCategoryHistorySchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters, queryStringParameters } = this.parseSchema<ListCategoryHistoryRequest>()
+    const entries = await this.withConnection((client) =>
+      new AuditRepository(client).list('category', pathParameters.categoryId, queryStringParameters)
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: entries } })
+  }
+}
+
+/**
+ * Restores the category as it was right after one of its history entries. Responds with `data: null` when the
+ * category did not exist at that point.
+ */
+export class RestoreCategoryHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, restoreCategorySchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters, body } = this.parseSchema<RestoreCategoryRequest>()
+    const category = await this.withConnection((client) =>
+      restoreCategory(client, pathParameters.categoryId, body.auditId)
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: category ?? null } })
+  }
+}
+
+/**
+ * Publishes the category's draft as a new immutable version. Responds with 200 and the latest version when the
+ * draft has not changed since it was published.
+ */
+export class PublishCategoryHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, publishCategorySchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters } = this.parseSchema<PublishCategoryRequest>()
+    const { version, published } = await this.withConnection((client) =>
+      publishCategory(client, pathParameters.categoryId)
+    )
+
+    return this.formatResponse({
+      statusCode: published ? StatusCodes.CREATED : StatusCodes.OK,
+      body: { data: version }
+    })
+  }
+}
+
+export class ListCategoryVersionsHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, listCategoryVersionsSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters } = this.parseSchema<ListCategoryVersionsRequest>()
+    const versions = await this.withConnection((client) =>
+      new CategoryVersionRepository(client).list(pathParameters.categoryId)
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: versions } })
+  }
+}
+
+export class GetCategoryVersionHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, getCategoryVersionSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters } = this.parseSchema<GetCategoryVersionRequest>()
+    const version = await this.withConnection((client) =>
+      getCategoryVersion(client, pathParameters.categoryId, pathParameters.version)
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: version } })
+  }
+}
+
+/**
+ * Lists the changes between two versions of the category (`?from=1&to=2`); `to` defaults to the draft.
+ */
+export class DiffCategoryVersionsHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, diffCategoryVersionsSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters, queryStringParameters } = this.parseSchema<DiffCategoryVersionsRequest>()
+    const diff = await this.withConnection((client) =>
+      diffCategoryVersions(client, pathParameters.categoryId, queryStringParameters.from, queryStringParameters.to)
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: diff } })
+  }
+}
@@ -0,0 +1,44 @@
+import { createApiHandler } from '../common/create-api-handler'
+import {
+  CreateCategoryHandler,
+  DeleteCategoryConditionHandler,
+  DeleteCategoryFieldHandler,
+  DeleteCategoryHandler,
+  DeleteCategoryTabularGroupHandler,
+  DiffCategoryVersionsHandler,
+  EvaluateCategoryConditionsHandler,
+  GetCategoryHandler,
+  GetCategoryVersionHandler,
+  ListCategoriesHandler,
+  ListCategoryHistoryHandler,
+  ListCategoryVersionsHandler,
+  PublishCategoryHandler,
+  PutCategoryConditionHandler,
+  PutCategoryFieldHandler,
+  PutCategoryTabularGroupHandler,
+  RestoreCategoryHandler,
+  UpdateCategoryHandler,
+  ValidateCategoryRecordHandler
+} from './handlers'
+
+export const handler = createApiHandler({
+  'GET /categories': ListCategoriesHandler,
+  'POST /categories': CreateCategoryHandler,
+  'GET /categories/{categoryId}': GetCategoryHandler,
+  'PATCH /categories/{categoryId}': UpdateCategoryHandler,
+  'DELETE /categories/{categoryId}': DeleteCategoryHandler,
+  'POST /categories/{categoryId}/validate': ValidateCategoryRecordHandler,
+  'POST /categories/{categoryId}/evaluate': EvaluateCategoryConditionsHandler,
+  'PUT /categories/{categoryId}/fields/{fieldId}': PutCategoryFieldHandler,
+  'DELETE /categories/{categoryId}/fields/{fieldId}': DeleteCategoryFieldHandler,
+  'PUT /categories/{categoryId}/conditions/{conditionId}': PutCategoryConditionHandler,
+  'DELETE /categories/{categoryId}/conditions/{conditionId}': DeleteCategoryConditionHandler,
+  'PUT /categories/{categoryId}/tabular-groups/{tabularGroupId}': PutCategoryTabularGroupHandler,
+  'DELETE /categories/{categoryId}/tabular-groups/{tabularGroupId}': DeleteCategoryTabularGroupHandler,
+  'GET /categories/{categoryId}/history': ListCategoryHistoryHandler,
+  'POST /categories/{categoryId}/restore': RestoreCategoryHandler,
+  'GET /categories/{categoryId}/versions': ListCategoryVersionsHandler,
+  'POST /categories/{categoryId}/versions': PublishCategoryHandler,
+  'GET /categories/{categoryId}/versions/{version}': GetCategoryVersionHandler,
+  'GET /categories/{categoryId}/diff': DiffCategoryVersionsHandler
+})
@@ -0,0 +1,154 @@
+import { z } from 'zod'
+import { jsonObjectSchema, paginationSchema, uuidSchema } from '../common/schemas'
+
+const categoryPathSchema = z.object({ categoryId: uuidSchema })
+
+export const listCategoriesSchema = z.object({
+  queryStringParameters: paginationSchema
+})
+
+export const getCategorySchema = z.object({
+  pathParameters: categoryPathSchema
+})
+
+export const createCategorySchema = z.object({
+  body: z.object({
+    categoryId: uuidSchema.optional(),
+    metadata: jsonObjectSchema.nullable(),
+    modelIds: z.array(uuidSchema).optional(),
+    fields: z
+      .array(
+        z
+          .object({
+            fieldId: uuidSchema.optional(),
+            isRequired: z.boolean().optional(),
+            datatype: z.string().min(1).optional(),
+            metadata: jsonObjectSchema.nullable().optional(),
+            validation: jsonObjectSchema.nullable().optional(),
+            search: jsonObjectSchema.nullable().optional(),
+            domainValues: z.array(z.string().min(1)).optional()
+          })
+          .refine((field) => field.fieldId || field.datatype, 'Either fieldId or datatype is required')
+      )
+      .optional(),
+    conditionIds: z.array(uuidSchema).optional(),
+    tabularGroups: z
+      .array(z.object({ tabularGroupId: uuidSchema, validation: jsonObjectSchema.nullable().optional() }))
+      .optional()
+  })
+})
+
+export const updateCategorySchema = z.object({
+  pathParameters: categoryPathSchema,
+  body: z.object({
+    metadata: jsonObjectSchema.nullable()
+  })
+})
+
+export const deleteCategorySchema = getCategorySchema
+
+export const putCategoryFieldSchema = z.object({
+  pathParameters: categoryPathSchema.extend({ fieldId: uuidSchema }),
+  body: z.object({
+    isRequired: z.boolean().default(false)
+  })
+})
+
+export const deleteCategoryFieldSchema = z.object({
+  pathParameters: categoryPathSchema.extend({ fieldId: uuidSchema })
+})
+
+export const categoryConditionSchema = z.object({
+  pathParameters: categoryPathSchema.extend({ conditionId: uuidSchema })
+})
+
+export const putCategoryTabularGroupSchema = z.object({
+  pathParameters: categoryPathSchema.extend({ tabularGroupId: uuidSchema }),
+  body: z.object({
+    validation: jsonObjectSchema.nullable().default(null)
+  })
+})
+
+export const deleteCategoryTabularGroupSchema = z.object({
+  pathParameters: categoryPathSchema.extend({ tabularGroupId: uuidSchema })
+})
+
+export const validateCategoryRecordSchema = z.object({
+  pathParameters: categoryPathSchema,
+  // The model whose values the record would replace, which may keep the deprecated domain values it holds
+  queryStringParameters: z.object({ modelId: uuidSchema.optional() }),
+  body: z.object({
+    values: z.record(z.string(), z.unknown()),
+    tabularGroups: z.record(z.string(), z.array(z.record(z.string(), z.unknown()))).optional(),
+    categoryVersion: z.number().int().positive().optional()
+  })
+})
+
+const quantifierSchema = z.enum(['any', 'all'])
+
+export const evaluateCategoryConditionsSchema = z.object({
+  pathParameters: categoryPathSchema,
+  body: z.object({
+    values: z.record(z.string(), z.unknown()),
+    conditionSemantics: z
+      .object({
+        withinGroup: quantifierSchema.optional(),
+        acrossGroups: quantifierSchema.optional(),
+        acrossConditions: quantifierSchema.optional()
+      })
+      .optional()
+  })
+})
+
+export const listCategoryHistorySchema = z.object({
+  pathParameters: categoryPathSchema,
+  queryStringParameters: paginationSchema
+})
+
+export const restoreCategorySchema = z.object({
+  pathParameters: categoryPathSchema,
+  body: z.object({
+    // An entry of the category's history; audit ids are bigints, sent as strings
+    auditId: z.union([z.string().regex(/^\d+$/), z.number().int().positive()]).transform(String)
+  })
+})
+
+const categoryVersionPathSchema = categoryPathSchema.extend({ version: z.coerce.number().int().positive() })
+
+// A published version number or `draft`
+const categoryVersionRefSchema = z.union([z.literal('draft'), z.coerce.number().int().positive()])
+
+export const publishCategorySchema = getCategorySchema
+
+export const listCategoryVersionsSchema = getCategorySchema
+
+export const getCategoryVersionSchema = z.object({
+  pathParameters: categoryVersionPathSchema
+})
+
+export const diffCategoryVersionsSchema = z.object({
+  pathParameters: categoryPathSchema,
+  queryStringParameters: z.object({
+    from: categoryVersionRefSchema,
+    to: categoryVersionRefSchema.default('draft')
+  })
+})
+
+export type ListCategoriesRequest = z.infer<typeof listCategoriesSchema>
+export type GetCategoryRequest = z.infer<typeof getCategorySchema>
+export type CreateCategoryRequest = z.infer<typeof createCategorySchema>
+export type UpdateCategoryRequest = z.infer<typeof updateCategorySchema>
+export type DeleteCategoryRequest = z.infer<typeof deleteCategorySchema>
+export type PutCategoryFieldRequest = z.infer<typeof putCategoryFieldSchema>
+export type DeleteCategoryFieldRequest = z.infer<typeof deleteCategoryFieldSchema>
+export type CategoryConditionRequest = z.infer<typeof categoryConditionSchema>
+export type PutCategoryTabularGroupRequest = z.infer<typeof putCategoryTabularGroupSchema>
+export type DeleteCategoryTabularGroupRequest = z.infer<typeof deleteCategoryTabularGroupSchema>
+export type ValidateCategoryRecordRequest = z.infer<typeof validateCategoryRecordSchema>
+export type EvaluateCategoryConditionsRequest = z.infer<typeof evaluateCategoryConditionsSchema>
+export type ListCategoryHistoryRequest = z.infer<typeof listCategoryHistorySchema>
+export type RestoreCategoryRequest = z.infer<typeof restoreCategorySchema>
+export type PublishCategoryRequest = z.infer<typeof publishCategorySchema>
+export type ListCategoryVersionsRequest = z.infer<typeof listCategoryVersionsSchema>
+export type GetCategoryVersionRequest = z.infer<typeof getCategoryVersionSchema>
+export type DiffCategoryVersionsRequest = z.infer<typeof diffCategoryVersionsSchema>
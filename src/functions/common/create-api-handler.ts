@@ -0,0 +1,35 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda'
+import { StatusCodes } from 'http-status-codes'
+import type { ContextContainer } from '@utils/context-container'
+import { apiRequestContext, createContextContainer } from '@utils/context-container'
+import { formatResponse } from '@utils/response'
+import type { APIGatewayBaseHandler } from '../base-handler/api-gateway-base-handler'
+
+export type APIGatewayHandlerClass = new (
+  context: ContextContainer,
+  event: APIGatewayProxyEvent
+) => APIGatewayBaseHandler
+
+/**
+ * Routes keyed by `<METHOD> <resource>`, e.g. `GET /categories/{categoryId}`.
+ */
+export type APIGatewayRoutes = Record<string, APIGatewayHandlerClass>
+
+/**
+ * Creates a Lambda entry point that dispatches API Gateway events to the handler registered for the route.
+ */
+export const createApiHandler =
+  (routes: APIGatewayRoutes) =>
+  async (event: APIGatewayProxyEvent, lambdaContext: Context): Promise<APIGatewayProxyResult> => {
+    const context = createContextContainer(lambdaContext, apiRequestContext(event))
+    const Handler = routes[`${event.httpMethod} ${event.resource}`]
+
+    if (!Handler) {
+      context.logger.warn('No handler registered for route', {
+        data: { method: event.httpMethod, resource: event.resource }
+      })
+      return formatResponse({ statusCode: StatusCodes.NOT_FOUND, body: { error: { message: 'Route not found' } } })
+    }
+
+    return new Handler(context, event).execute()
+  }
@@ -0,0 +1,43 @@
+import type { Context } from 'aws-lambda'
+import type { ContextContainer } from '@utils/context-container'
+import { cognitoRequestContext, createContextContainer } from '@utils/context-container'
+import type { CognitoTriggerEvent } from '@utils/context-container'
+import type { CognitoBaseHandler } from '../base-handler/cognito-base-handler'
+
+// The member of the event union `TEvent` that Cognito sends for `TSource`
+type TriggerEvent<TEvent extends CognitoTriggerEvent, TSource> = Extract<TEvent, { triggerSource: TSource }>
+
+export type CognitoHandlerClass<TEvent extends CognitoTriggerEvent> = new (
+  context: ContextContainer,
+  event: TEvent
+) => CognitoBaseHandler<TEvent>
+
+/**
+ * Handlers keyed by `triggerSource`, e.g. `PreSignUp_SignUp`, each accepting the event of its trigger source.
+ * `TEvent` is the union of the events of the registered triggers.
+ */
+export type CognitoTriggers<TEvent extends CognitoTriggerEvent> = {
+  [TSource in TEvent['triggerSource']]?: CognitoHandlerClass<TriggerEvent<TEvent, TSource>>
+}
+
+/**
+ * Creates a Lambda entry point that dispatches Cognito trigger events to the handler registered for the
+ * trigger source. Events of other sources are returned unchanged, which lets Cognito proceed.
+ */
+export const createCognitoHandler =
+  <TEvent extends CognitoTriggerEvent>(triggers: CognitoTriggers<TEvent>) =>
+  async <TSource extends TEvent['triggerSource']>(
+    event: TriggerEvent<TEvent, TSource> & { triggerSource: TSource },
+    lambdaContext: Context
+  ): Promise<TriggerEvent<TEvent, TSource>> => {
+    const context = createContextContainer(lambdaContext, cognitoRequestContext(event))
+    const triggerSource: TSource = event.triggerSource
+    const Handler = triggers[triggerSource]
+
+    if (!Handler) {
+      context.logger.info('No handler registered for trigger', { data: { triggerSource } })
+      return event
+    }
+
+    return new Handler(context, event).execute()
+  }
@@ -0,0 +1,19 @@
+import { z } from 'zod'
+
+export const uuidSchema = z.string().uuid()
+
+export const jsonObjectSchema = z.record(z.unknown())
+
+export const paginationSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+  offset: z.coerce.number().int().min(0).optional()
+})
+
+export const listSchema = z.object({
+  queryStringParameters: paginationSchema
+})
+
+// A BCP 47 language tag such as `de` or `fr-CA`
+export const localeSchema = z.string().regex(/^[A-Za-z]{2,3}(-[A-Za-z0-9]{2,8})*$/)
+
+export const domainValueLabelsSchema = z.record(localeSchema, z.string().min(1))
@@ -0,0 +1,108 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda'
+import { StatusCodes } from 'http-status-codes'
+import { ADMIN_ROLES, READ_ROLES } from '@utils/auth'
+import type { ContextContainer } from '@utils/context-container'
+import { NotFoundError } from '@utils/errors'
+import { APIGatewayBaseHandler } from '../base-handler/api-gateway-base-handler'
+import { ConditionRepository } from '../../db/repositories'
+import type {
+  CreateConditionRequest,
+  DeleteConditionRequest,
+  GetConditionRequest,
+  ListConditionsRequest,
+  ReplaceConditionRequest
+} from './schemas'
+import {
+  createConditionSchema,
+  deleteConditionSchema,
+  getConditionSchema,
+  listConditionsSchema,
+  replaceConditionSchema
+} from './schemas'
+
+export class ListConditionsHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, listConditionsSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { queryStringParameters } = this.parseSchema<ListConditionsRequest>()
+    const conditions = await this.withConnection((client) =>
+      new ConditionRepository(client).list(queryStringParameters)
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: conditions } })
+  }
+}
+
+export class GetConditionHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, getConditionSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters } = this.parseSchema<GetConditionRequest>()
+    const condition = await this.withConnection((client) =>
+      new ConditionRepository(client).get(pathParameters.conditionId)
+    )
+    if (!condition) {
+      throw new NotFoundError(`Condition ${pathParameters.conditionId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: condition } })
+  }
+}
+
+export class CreateConditionHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, createConditionSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { body } = this.parseSchema<CreateConditionRequest>()
+    const condition = await this.withConnection((client) => new ConditionRepository(client).create(body))
+
+    return this.formatResponse({ statusCode: StatusCodes.CREATED, body: { data: condition } })
+  }
+}
+
+export class ReplaceConditionHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, replaceConditionSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters, body } = this.parseSchema<ReplaceConditionRequest>()
+    const condition = await this.withConnection((client) =>
+      new ConditionRepository(client).update(pathParameters.conditionId, body.domainValues)
+    )
+    if (!condition) {
+      throw new NotFoundError(`Condition ${pathParameters.conditionId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: condition } })
+  }
+}
+
+export class DeleteConditionHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, deleteConditionSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters } = this.parseSchema<DeleteConditionRequest>()
+    const deleted = await this.withConnection((client) =>
+      new ConditionRepository(client).delete(pathParameters.conditionId)
+    )
+    if (!deleted) {
+      throw new NotFoundError(`Condition ${pathParameters.conditionId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.NO_CONTENT })
+  }
+}
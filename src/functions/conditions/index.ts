@@ -0,0 +1,16 @@
+import { createApiHandler } from '../common/create-api-handler'
+import {
+  CreateConditionHandler,
+  DeleteConditionHandler,
+  GetConditionHandler,
+  ListConditionsHandler,
+  ReplaceConditionHandler
+} from './handlers'
+
+export const handler = createApiHandler({
+  'GET /conditions': ListConditionsHandler,
+  'POST /conditions': CreateConditionHandler,
+  'GET /conditions/{conditionId}': GetConditionHandler,
+  'PUT /conditions/{conditionId}': ReplaceConditionHandler,
+  'DELETE /conditions/{conditionId}': DeleteConditionHandler
+})
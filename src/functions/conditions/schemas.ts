@@ -0,0 +1,41 @@
+import { z } from 'zod'
+import { paginationSchema, uuidSchema } from '../common/schemas'
+
+const conditionPathSchema = z.object({ conditionId: uuidSchema })
+
+const conditionDomainValuesSchema = z.array(
+  z.object({
+    domainValueId: uuidSchema,
+    conditionGroupId: uuidSchema.nullable().optional()
+  })
+)
+
+export const listConditionsSchema = z.object({
+  queryStringParameters: paginationSchema
+})
+
+export const getConditionSchema = z.object({
+  pathParameters: conditionPathSchema
+})
+
+export const createConditionSchema = z.object({
+  body: z.object({
+    conditionId: uuidSchema.optional(),
+    domainValues: conditionDomainValuesSchema
+  })
+})
+
+export const replaceConditionSchema = z.object({
+  pathParameters: conditionPathSchema,
+  body: z.object({
+    domainValues: conditionDomainValuesSchema
+  })
+})
+
+export const deleteConditionSchema = getConditionSchema
+
+export type ListConditionsRequest = z.infer<typeof listConditionsSchema>
+export type GetConditionRequest = z.infer<typeof getConditionSchema>
+export type CreateConditionRequest = z.infer<typeof createConditionSchema>
+export type ReplaceConditionRequest = z.infer<typeof replaceConditionSchema>
+export type DeleteConditionRequest = z.infer<typeof deleteConditionSchema>
@@ -0,0 +1,97 @@
+import type { ContextContainer } from '@utils/context-container'
+import { redact } from '@utils/logger'
+import { embeddedMetrics } from '@utils/metrics'
+import { BaseHandler } from '../base-handler'
+import { connectionOptionsFromEnv, withConnection } from '../../db/connection'
+import { diagnosticsMetrics, evaluateHealth, inspectDatabase } from '../../services/diagnostics'
+import type { ConnectivityReport, DiagnosticsFailure, DiagnosticsReport } from '../../services/diagnostics'
+
+// Direct invocations and scheduled EventBridge events; the payload is ignored
+export type DiagnosticsEvent = Record<string, unknown>
+
+export type DiagnosticsResult = DiagnosticsReport | DiagnosticsFailure
+
+const METRICS_NAMESPACE = process.env.METRICS_NAMESPACE ?? 'AuroraDiagnostics'
+
+// Module state survives warm invocations of the container
+let coldStart = true
+
+/**
+ * Checks that the database is reachable and reports its health as structured JSON: connection and round trip
+ * latency, the time a paused cluster took to resume, server version, migration status, connection counts and
+ * pg_stat statistics. The report is also logged with embedded metrics for the alarms and dashboard.
+ */
+export class DiagnosticsHandler extends BaseHandler<DiagnosticsEvent, DiagnosticsResult> {
+  private readonly coldStart: boolean
+  private readonly checkedAt = new Date().toISOString()
+
+  constructor(context: ContextContainer, event: DiagnosticsEvent) {
+    super(context, event)
+    this.coldStart = coldStart
+    coldStart = false
+  }
+
+  protected async handleRequest(): Promise<DiagnosticsReport> {
+    const options = connectionOptionsFromEnv()
+    let retries = 0
+    const startedAt = Date.now()
+
+    const onRetry = (error: unknown, attempt: number, delayMs: number) => {
+      retries = attempt
+      this.context.logger.warn('Database unavailable, retrying', { data: { attempt, delayMs, error } })
+    }
+
+    const { connectivity, inspection } = await withConnection(
+      async (client) => {
+        await client.query('SELECT 1')
+        const connectMs = Date.now() - startedAt
+        const roundTripStartedAt = Date.now()
+        await client.query('SELECT 1')
+        const latencyMs = Date.now() - roundTripStartedAt
+
+        const connectivity: ConnectivityReport = {
+          backend: options.backend,
+          connectMs,
+          latencyMs,
+          retries,
+          resumeMs: retries ? Math.max(0, connectMs - latencyMs) : 0
+        }
+        return { connectivity, inspection: await inspectDatabase(client) }
+      },
+      { ...options, onRetry }
+    )
+
+    const health = evaluateHealth({ connectivity, ...inspection })
+    const report: DiagnosticsReport = {
+      ...health,
+      checkedAt: this.checkedAt,
+      coldStart: this.coldStart,
+      connectivity,
+      ...inspection
+    }
+
+    this.context.logger[report.status === 'ok' ? 'info' : 'warn']('Database diagnostics', {
+      ...embeddedMetrics(METRICS_NAMESPACE, diagnosticsMetrics(report)),
+      report
+    })
+
+    return report
+  }
+
+  protected handleError(error: Error): DiagnosticsFailure {
+    const failure: DiagnosticsFailure = {
+      status: 'error',
+      checkedAt: this.checkedAt,
+      coldStart: this.coldStart,
+      // Returned to the caller, so redacted like the logs
+      error: { message: redact(error.message), code: (error as { code?: string }).code }
+    }
+
+    this.context.logger.error('Database diagnostics failed', {
+      ...embeddedMetrics(METRICS_NAMESPACE, diagnosticsMetrics(failure)),
+      error
+    })
+
+    return failure
+  }
+}
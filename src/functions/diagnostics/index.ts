@@ -0,0 +1,7 @@
+import type { Context } from 'aws-lambda'
+import { createContextContainer } from '@utils/context-container'
+import { DiagnosticsHandler } from './handlers'
+import type { DiagnosticsEvent, DiagnosticsResult } from './handlers'
+
+export const handler = async (event: DiagnosticsEvent, lambdaContext: Context): Promise<DiagnosticsResult> =>
+  new DiagnosticsHandler(createContextContainer(lambdaContext), event).execute()
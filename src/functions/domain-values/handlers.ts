@@ -0,0 +1,143 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda'
+import { StatusCodes } from 'http-status-codes'
+import { ADMIN_ROLES, READ_ROLES } from '@utils/auth'
+import type { ContextContainer } from '@utils/context-container'
+import { NotFoundError } from '@utils/errors'
+import { APIGatewayBaseHandler } from '../base-handler/api-gateway-base-handler'
+import { DomainValueRepository } from '../../db/repositories'
+import {
+  deprecateDomainValue,
+  localizeDomainValue,
+  reinstateDomainValue,
+  replaceDeprecatedDomainValue
+} from '../../services/domain-values'
+import type {
+  DeleteDomainValueRequest,
+  DeprecateDomainValueRequest,
+  GetDomainValueRequest,
+  ReinstateDomainValueRequest,
+  ReplaceDomainValueRequest,
+  UpdateDomainValueRequest
+} from './schemas'
+import {
+  deleteDomainValueSchema,
+  deprecateDomainValueSchema,
+  getDomainValueSchema,
+  reinstateDomainValueSchema,
+  replaceDomainValueSchema,
+  updateDomainValueSchema
+} from './schemas'
+
+export class GetDomainValueHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, getDomainValueSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters, queryStringParameters } = this.parseSchema<GetDomainValueRequest>()
+    const domainValue = await this.withConnection((client) =>
+      new DomainValueRepository(client).get(pathParameters.domainValueId)
+    )
+    if (!domainValue) {
+      throw new NotFoundError(`Domain value ${pathParameters.domainValueId} not found`)
+    }
+
+    return this.formatResponse({
+      statusCode: StatusCodes.OK,
+      body: { data: localizeDomainValue(domainValue, queryStringParameters.locale) }
+    })
+  }
+}
+
+export class UpdateDomainValueHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, updateDomainValueSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters, body } = this.parseSchema<UpdateDomainValueRequest>()
+    const domainValue = await this.withConnection((client) =>
+      new DomainValueRepository(client).update(pathParameters.domainValueId, body)
+    )
+    if (!domainValue) {
+      throw new NotFoundError(`Domain value ${pathParameters.domainValueId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: domainValue } })
+  }
+}
+
+export class DeleteDomainValueHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, deleteDomainValueSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters } = this.parseSchema<DeleteDomainValueRequest>()
+    const deleted = await this.withConnection((client) =>
+      new DomainValueRepository(client).delete(pathParameters.domainValueId)
+    )
+    if (!deleted) {
+      throw new NotFoundError(`Domain value ${pathParameters.domainValueId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.NO_CONTENT })
+  }
+}
+
+/**
+ * Deprecates a domain value: existing models and conditions keep it, new ones cannot choose it.
+ */
+export class DeprecateDomainValueHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, deprecateDomainValueSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters, body } = this.parseSchema<DeprecateDomainValueRequest>()
+    const domainValue = await this.withConnection((client) =>
+      deprecateDomainValue(client, pathParameters.domainValueId, body.successorId)
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: domainValue } })
+  }
+}
+
+export class ReinstateDomainValueHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, reinstateDomainValueSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters } = this.parseSchema<ReinstateDomainValueRequest>()
+    const domainValue = await this.withConnection((client) =>
+      reinstateDomainValue(client, pathParameters.domainValueId)
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: domainValue } })
+  }
+}
+
+/**
+ * Points the conditions referencing a deprecated domain value at its successor.
+ */
+export class ReplaceDomainValueHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, replaceDomainValueSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters } = this.parseSchema<ReplaceDomainValueRequest>()
+    const replacement = await this.withConnection((client) =>
+      replaceDeprecatedDomainValue(client, pathParameters.domainValueId)
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: replacement } })
+  }
+}
@@ -0,0 +1,18 @@
+import { createApiHandler } from '../common/create-api-handler'
+import {
+  DeleteDomainValueHandler,
+  DeprecateDomainValueHandler,
+  GetDomainValueHandler,
+  ReinstateDomainValueHandler,
+  ReplaceDomainValueHandler,
+  UpdateDomainValueHandler
+} from './handlers'
+
+export const handler = createApiHandler({
+  'GET /domain-values/{domainValueId}': GetDomainValueHandler,
+  'PATCH /domain-values/{domainValueId}': UpdateDomainValueHandler,
+  'DELETE /domain-values/{domainValueId}': DeleteDomainValueHandler,
+  'PUT /domain-values/{domainValueId}/deprecation': DeprecateDomainValueHandler,
+  'DELETE /domain-values/{domainValueId}/deprecation': ReinstateDomainValueHandler,
+  'POST /domain-values/{domainValueId}/replace': ReplaceDomainValueHandler
+})
@@ -0,0 +1,46 @@
+import { z } from 'zod'
+import { domainValueLabelsSchema, localeSchema, uuidSchema } from '../common/schemas'
+
+const domainValuePathSchema = z.object({ domainValueId: uuidSchema })
+
+export const getDomainValueSchema = z.object({
+  pathParameters: domainValuePathSchema,
+  queryStringParameters: z.object({
+    locale: localeSchema.optional()
+  })
+})
+
+export const updateDomainValueSchema = z.object({
+  pathParameters: domainValuePathSchema,
+  body: z
+    .object({
+      // Only accepted while the value has no key of its own
+      key: z.string().min(1).max(200).optional(),
+      name: z.string().min(1).optional(),
+      labels: domainValueLabelsSchema.optional(),
+      sortOrder: z.number().int().optional()
+    })
+    .refine((body) => Object.values(body).some((value) => value !== undefined), 'Nothing to update')
+})
+
+export const deleteDomainValueSchema = z.object({
+  pathParameters: domainValuePathSchema
+})
+
+export const deprecateDomainValueSchema = z.object({
+  pathParameters: domainValuePathSchema,
+  body: z.object({
+    successorId: uuidSchema.nullable().default(null)
+  })
+})
+
+export const reinstateDomainValueSchema = deleteDomainValueSchema
+
+export const replaceDomainValueSchema = deleteDomainValueSchema
+
+export type GetDomainValueRequest = z.infer<typeof getDomainValueSchema>
+export type UpdateDomainValueRequest = z.infer<typeof updateDomainValueSchema>
+export type DeleteDomainValueRequest = z.infer<typeof deleteDomainValueSchema>
+export type DeprecateDomainValueRequest = z.infer<typeof deprecateDomainValueSchema>
+export type ReinstateDomainValueRequest = z.infer<typeof reinstateDomainValueSchema>
+export type ReplaceDomainValueRequest = z.infer<typeof replaceDomainValueSchema>
@@ -0,0 +1,172 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda'
+import { StatusCodes } from 'http-status-codes'
+import { ADMIN_ROLES, READ_ROLES } from '@utils/auth'
+import type { ContextContainer } from '@utils/context-container'
+import { NotFoundError } from '@utils/errors'
+import { APIGatewayBaseHandler } from '../base-handler/api-gateway-base-handler'
+import { AuditRepository, DomainValueRepository, FieldRepository } from '../../db/repositories'
+import { localizeDomainValue } from '../../services/domain-values'
+import type {
+  CreateFieldDomainValueRequest,
+  CreateFieldRequest,
+  DeleteFieldRequest,
+  GetFieldRequest,
+  ListFieldDomainValuesRequest,
+  ListFieldHistoryRequest,
+  ListFieldsRequest,
+  UpdateFieldRequest
+} from './schemas'
+import {
+  createFieldDomainValueSchema,
+  createFieldSchema,
+  deleteFieldSchema,
+  getFieldSchema,
+  listFieldDomainValuesSchema,
+  listFieldHistorySchema,
+  listFieldsSchema,
+  updateFieldSchema
+} from './schemas'
+
+export class ListFieldsHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, listFieldsSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { queryStringParameters } = this.parseSchema<ListFieldsRequest>()
+    const fields = await this.withConnection((client) => new FieldRepository(client).list(queryStringParameters))
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: fields } })
+  }
+}
+
+export class GetFieldHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, getFieldSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters } = this.parseSchema<GetFieldRequest>()
+    const field = await this.withConnection((client) => new FieldRepository(client).get(pathParameters.fieldId))
+    if (!field) {
+      throw new NotFoundError(`Field ${pathParameters.fieldId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: field } })
+  }
+}
+
+export class CreateFieldHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, createFieldSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { body } = this.parseSchema<CreateFieldRequest>()
+    const field = await this.withConnection((client) => new FieldRepository(client).create(body))
+
+    return this.formatResponse({ statusCode: StatusCodes.CREATED, body: { data: field } })
+  }
+}
+
+export class UpdateFieldHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, updateFieldSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters, body } = this.parseSchema<UpdateFieldRequest>()
+    const field = await this.withConnection((client) =>
+      new FieldRepository(client).update(pathParameters.fieldId, body)
+    )
+    if (!field) {
+      throw new NotFoundError(`Field ${pathParameters.fieldId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: field } })
+  }
+}
+
+export class DeleteFieldHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, deleteFieldSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters } = this.parseSchema<DeleteFieldRequest>()
+    const deleted = await this.withConnection((client) => new FieldRepository(client).delete(pathParameters.fieldId))
+    if (!deleted) {
+      throw new NotFoundError(`Field ${pathParameters.fieldId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.NO_CONTENT })
+  }
+}
+
+export class ListFieldDomainValuesHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, listFieldDomainValuesSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters, queryStringParameters } = this.parseSchema<ListFieldDomainValuesRequest>()
+    const { locale, ...options } = queryStringParameters
+    const domainValues = await this.withConnection(async (client) => {
+      if (!(await new FieldRepository(client).get(pathParameters.fieldId))) {
+        throw new NotFoundError(`Field ${pathParameters.fieldId} not found`)
+      }
+
+      return new DomainValueRepository(client).listByField(pathParameters.fieldId, options)
+    })
+
+    return this.formatResponse({
+      statusCode: StatusCodes.OK,
+      body: { data: domainValues.map((value) => localizeDomainValue(value, locale)) }
+    })
+  }
+}
+
+export class CreateFieldDomainValueHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, createFieldDomainValueSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters, body } = this.parseSchema<CreateFieldDomainValueRequest>()
+    const domainValue = await this.withConnection(async (client) => {
+      if (!(await new FieldRepository(client).get(pathParameters.fieldId))) {
+        throw new NotFoundError(`Field ${pathParameters.fieldId} not found`)
+      }
+
+      return new DomainValueRepository(client).create({ ...body, fieldId: pathParameters.fieldId })
+    })
+
+    return this.formatResponse({ statusCode: StatusCodes.CREATED, body: { data: domainValue } })
+  }
+}
+
+/**
+ * Lists the changes to a field and its domain values, newest first. Deleted fields keep their history.
+ */
+export class ListFieldHistoryHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, listFieldHistorySchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters, queryStringParameters } = this.parseSchema<ListFieldHistoryRequest>()
+    const entries = await this.withConnection((client) =>
+      new AuditRepository(client).list('field', pathParameters.fieldId, queryStringParameters)
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: entries } })
+  }
+}
@@ -0,0 +1,22 @@
+import { createApiHandler } from '../common/create-api-handler'
+import {
+  CreateFieldDomainValueHandler,
+  CreateFieldHandler,
+  DeleteFieldHandler,
+  GetFieldHandler,
+  ListFieldDomainValuesHandler,
+  ListFieldHistoryHandler,
+  ListFieldsHandler,
+  UpdateFieldHandler
+} from './handlers'
+
+export const handler = createApiHandler({
+  'GET /fields': ListFieldsHandler,
+  'POST /fields': CreateFieldHandler,
+  'GET /fields/{fieldId}': GetFieldHandler,
+  'PATCH /fields/{fieldId}': UpdateFieldHandler,
+  'DELETE /fields/{fieldId}': DeleteFieldHandler,
+  'GET /fields/{fieldId}/domain-values': ListFieldDomainValuesHandler,
+  'POST /fields/{fieldId}/domain-values': CreateFieldDomainValueHandler,
+  'GET /fields/{fieldId}/history': ListFieldHistoryHandler
+})
@@ -0,0 +1,77 @@
+import { z } from 'zod'
+import {
+  domainValueLabelsSchema,
+  jsonObjectSchema,
+  localeSchema,
+  paginationSchema,
+  uuidSchema
+} from '../common/schemas'
+
+const fieldPathSchema = z.object({ fieldId: uuidSchema })
+
+export const listFieldsSchema = z.object({
+  queryStringParameters: paginationSchema
+})
+
+export const getFieldSchema = z.object({
+  pathParameters: fieldPathSchema
+})
+
+export const createFieldSchema = z.object({
+  body: z.object({
+    fieldId: uuidSchema.optional(),
+    datatype: z.string().min(1),
+    metadata: jsonObjectSchema.nullable().optional(),
+    validation: jsonObjectSchema.nullable().optional(),
+    search: jsonObjectSchema.nullable().optional(),
+    domainValues: z.array(z.string().min(1)).optional()
+  })
+})
+
+export const updateFieldSchema = z.object({
+  pathParameters: fieldPathSchema,
+  body: z.object({
+    datatype: z.string().min(1).optional(),
+    metadata: jsonObjectSchema.nullable().optional(),
+    validation: jsonObjectSchema.nullable().optional(),
+    search: jsonObjectSchema.nullable().optional()
+  })
+})
+
+export const deleteFieldSchema = getFieldSchema
+
+export const listFieldDomainValuesSchema = z.object({
+  pathParameters: fieldPathSchema,
+  queryStringParameters: paginationSchema.extend({
+    locale: localeSchema.optional(),
+    includeDeprecated: z
+      .enum(['true', 'false'])
+      .default('true')
+      .transform((value) => value === 'true')
+  })
+})
+
+export const createFieldDomainValueSchema = z.object({
+  pathParameters: fieldPathSchema,
+  body: z.object({
+    domainValueId: uuidSchema.optional(),
+    key: z.string().min(1).max(200).optional(),
+    name: z.string().min(1),
+    labels: domainValueLabelsSchema.optional(),
+    sortOrder: z.number().int().optional()
+  })
+})
+
+export const listFieldHistorySchema = z.object({
+  pathParameters: fieldPathSchema,
+  queryStringParameters: paginationSchema
+})
+
+export type ListFieldsRequest = z.infer<typeof listFieldsSchema>
+export type GetFieldRequest = z.infer<typeof getFieldSchema>
+export type CreateFieldRequest = z.infer<typeof createFieldSchema>
+export type UpdateFieldRequest = z.infer<typeof updateFieldSchema>
+export type DeleteFieldRequest = z.infer<typeof deleteFieldSchema>
+export type ListFieldDomainValuesRequest = z.infer<typeof listFieldDomainValuesSchema>
+export type CreateFieldDomainValueRequest = z.infer<typeof createFieldDomainValueSchema>
+export type ListFieldHistoryRequest = z.infer<typeof listFieldHistorySchema>
@@ -0,0 +1,89 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda'
+import { StatusCodes } from 'http-status-codes'
+import { ADMIN_ROLES, READ_ROLES } from '@utils/auth'
+import type { ContextContainer } from '@utils/context-container'
+import { APIGatewayBaseHandler } from '../base-handler/api-gateway-base-handler'
+import {
+  exportMetadata,
+  importDomainValues,
+  importMetadata,
+  parseDomainValuesCsv,
+  toDomainValuesCsv
+} from '../../services/transfer'
+import type { ImportDomainValuesRequest, ImportMetadataRequest } from './schemas'
+import { exportMetadataSchema, importDomainValuesSchema, importMetadataSchema } from './schemas'
+
+/**
+ * Exports the tenant's metadata graph as a JSON document referencing records by key.
+ */
+export class ExportMetadataHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, exportMetadataSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const document = await this.withConnection((client) => exportMetadata(client))
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: document } })
+  }
+}
+
+/**
+ * Exports the domain values of every field as CSV, the one response that is not JSON.
+ */
+export class ExportDomainValuesHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, exportMetadataSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const document = await this.withConnection((client) => exportMetadata(client))
+
+    return {
+      statusCode: StatusCodes.OK,
+      headers: { 'Content-Type': 'text/csv; charset=utf-8' },
+      body: toDomainValuesCsv(document)
+    }
+  }
+}
+
+/**
+ * Imports a metadata document, or with `?dryRun=true` lists the changes it would make.
+ */
+export class ImportMetadataHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, importMetadataSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { queryStringParameters, body } = this.parseSchema<ImportMetadataRequest>()
+    const result = await this.withConnection((client) =>
+      importMetadata(client, body, { dryRun: queryStringParameters.dryRun })
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: result } })
+  }
+}
+
+/**
+ * Imports domain values from `{ "csv": "field,key,name\r\n…" }` into existing fields.
+ */
+export class ImportDomainValuesHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, importDomainValuesSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { queryStringParameters, body } = this.parseSchema<ImportDomainValuesRequest>()
+    const rows = parseDomainValuesCsv(body.csv)
+    const result = await this.withConnection((client) =>
+      importDomainValues(client, rows, { dryRun: queryStringParameters.dryRun })
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: result } })
+  }
+}
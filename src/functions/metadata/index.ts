@@ -0,0 +1,14 @@
+import { createApiHandler } from '../common/create-api-handler'
+import {
+  ExportDomainValuesHandler,
+  ExportMetadataHandler,
+  ImportDomainValuesHandler,
+  ImportMetadataHandler
+} from './handlers'
+
+export const handler = createApiHandler({
+  'GET /metadata/export': ExportMetadataHandler,
+  'GET /metadata/export/domain-values': ExportDomainValuesHandler,
+  'POST /metadata/import': ImportMetadataHandler,
+  'POST /metadata/import/domain-values': ImportDomainValuesHandler
+})
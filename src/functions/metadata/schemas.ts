@@ -0,0 +1,27 @@
+import { z } from 'zod'
+import { metadataDocumentSchema } from '../../services/transfer'
+
+const importQuerySchema = z.object({
+  // Only plan the changes
+  dryRun: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true')
+})
+
+export const exportMetadataSchema = z.object({})
+
+export const importMetadataSchema = z.object({
+  queryStringParameters: importQuerySchema,
+  body: metadataDocumentSchema
+})
+
+export const importDomainValuesSchema = z.object({
+  queryStringParameters: importQuerySchema,
+  body: z.object({
+    csv: z.string().min(1)
+  })
+})
+
+export type ImportMetadataRequest = z.infer<typeof importMetadataSchema>
+export type ImportDomainValuesRequest = z.infer<typeof importDomainValuesSchema>
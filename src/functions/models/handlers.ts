@@ -0,0 +1,145 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda'
+import { StatusCodes } from 'http-status-codes'
+import { EDIT_ROLES, READ_ROLES } from '@utils/auth'
+import type { ContextContainer } from '@utils/context-container'
+import { NotFoundError } from '@utils/errors'
+import { APIGatewayBaseHandler } from '../base-handler/api-gateway-base-handler'
+import { ModelRepository } from '../../db/repositories'
+import { createModel, saveModelCategory } from '../../services/models'
+import type {
+  CreateModelRequest,
+  DeleteModelCategoryRequest,
+  DeleteModelRequest,
+  GetModelRequest,
+  ListModelsRequest,
+  PutModelCategoryRequest,
+  UpdateModelRequest
+} from './schemas'
+import {
+  createModelSchema,
+  deleteModelCategorySchema,
+  deleteModelSchema,
+  getModelSchema,
+  listModelsSchema,
+  putModelCategorySchema,
+  updateModelSchema
+} from './schemas'
+
+export class ListModelsHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, listModelsSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { queryStringParameters } = this.parseSchema<ListModelsRequest>()
+    const models = await this.withConnection((client) => new ModelRepository(client).list(queryStringParameters))
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: models } })
+  }
+}
+
+export class GetModelHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, getModelSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters } = this.parseSchema<GetModelRequest>()
+    const model = await this.withConnection((client) => new ModelRepository(client).get(pathParameters.modelId))
+    if (!model) {
+      throw new NotFoundError(`Model ${pathParameters.modelId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: model } })
+  }
+}
+
+export class CreateModelHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, createModelSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(EDIT_ROLES)
+    const { body } = this.parseSchema<CreateModelRequest>()
+    const model = await this.withConnection((client) => createModel(client, body))
+
+    return this.formatResponse({ statusCode: StatusCodes.CREATED, body: { data: model } })
+  }
+}
+
+export class UpdateModelHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, updateModelSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(EDIT_ROLES)
+    const { pathParameters, body } = this.parseSchema<UpdateModelRequest>()
+    const model = await this.withConnection((client) =>
+      new ModelRepository(client).update(pathParameters.modelId, body)
+    )
+    if (!model) {
+      throw new NotFoundError(`Model ${pathParameters.modelId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: model } })
+  }
+}
+
+export class DeleteModelHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, deleteModelSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(EDIT_ROLES)
+    const { pathParameters } = this.parseSchema<DeleteModelRequest>()
+    const deleted = await this.withConnection((client) => new ModelRepository(client).delete(pathParameters.modelId))
+    if (!deleted) {
+      throw new NotFoundError(`Model ${pathParameters.modelId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.NO_CONTENT })
+  }
+}
+
+/**
+ * Replaces the model's values in a category after validating them against the category's rules.
+ */
+export class PutModelCategoryHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, putModelCategorySchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(EDIT_ROLES)
+    const { pathParameters, body } = this.parseSchema<PutModelCategoryRequest>()
+    const model = await this.withConnection((client) =>
+      saveModelCategory(client, pathParameters.modelId, pathParameters.categoryId, body)
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: model } })
+  }
+}
+
+export class DeleteModelCategoryHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, deleteModelCategorySchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(EDIT_ROLES)
+    const { pathParameters } = this.parseSchema<DeleteModelCategoryRequest>()
+    const removed = await this.withConnection((client) =>
+      new ModelRepository(client).removeCategory(pathParameters.modelId, pathParameters.categoryId)
+    )
+    if (!removed) {
+      throw new NotFoundError(`Model ${pathParameters.modelId} is not linked to category ${pathParameters.categoryId}`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.NO_CONTENT })
+  }
+}
@@ -0,0 +1,20 @@
+import { createApiHandler } from '../common/create-api-handler'
+import {
+  CreateModelHandler,
+  DeleteModelCategoryHandler,
+  DeleteModelHandler,
+  GetModelHandler,
+  ListModelsHandler,
+  PutModelCategoryHandler,
+  UpdateModelHandler
+} from './handlers'
+
+export const handler = createApiHandler({
+  'GET /models': ListModelsHandler,
+  'POST /models': CreateModelHandler,
+  'GET /models/{modelId}': GetModelHandler,
+  'PATCH /models/{modelId}': UpdateModelHandler,
+  'DELETE /models/{modelId}': DeleteModelHandler,
+  'PUT /models/{modelId}/categories/{categoryId}': PutModelCategoryHandler,
+  'DELETE /models/{modelId}/categories/{categoryId}': DeleteModelCategoryHandler
+})
@@ -0,0 +1,52 @@
+import { z } from 'zod'
+import { jsonObjectSchema, paginationSchema, uuidSchema } from '../common/schemas'
+
+const modelPathSchema = z.object({ modelId: uuidSchema })
+
+const modelRecordSchema = z.object({
+  values: jsonObjectSchema,
+  tabularGroups: z.record(uuidSchema, z.array(jsonObjectSchema)).optional(),
+  categoryVersion: z.number().int().positive().optional()
+})
+
+export const listModelsSchema = z.object({
+  queryStringParameters: paginationSchema.extend({ categoryId: uuidSchema.optional() })
+})
+
+export const getModelSchema = z.object({
+  pathParameters: modelPathSchema
+})
+
+export const createModelSchema = z.object({
+  body: z.object({
+    modelId: uuidSchema.optional(),
+    metadata: jsonObjectSchema.nullable().default(null),
+    categories: z.array(modelRecordSchema.extend({ categoryId: uuidSchema })).optional()
+  })
+})
+
+export const updateModelSchema = z.object({
+  pathParameters: modelPathSchema,
+  body: z.object({
+    metadata: jsonObjectSchema.nullable()
+  })
+})
+
+export const deleteModelSchema = getModelSchema
+
+export const putModelCategorySchema = z.object({
+  pathParameters: modelPathSchema.extend({ categoryId: uuidSchema }),
+  body: modelRecordSchema
+})
+
+export const deleteModelCategorySchema = z.object({
+  pathParameters: modelPathSchema.extend({ categoryId: uuidSchema })
+})
+
+export type ListModelsRequest = z.infer<typeof listModelsSchema>
+export type GetModelRequest = z.infer<typeof getModelSchema>
+export type CreateModelRequest = z.infer<typeof createModelSchema>
+export type UpdateModelRequest = z.infer<typeof updateModelSchema>
+export type DeleteModelRequest = z.infer<typeof deleteModelSchema>
+export type PutModelCategoryRequest = z.infer<typeof putModelCategorySchema>
+export type DeleteModelCategoryRequest = z.infer<typeof deleteModelCategorySchema>
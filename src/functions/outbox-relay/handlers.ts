@@ -0,0 +1,45 @@
+import { embeddedMetrics } from '@utils/metrics'
+import type { MetricValue } from '@utils/metrics'
+import { BaseHandler } from '../base-handler'
+import { withConnection } from '../../db/connection'
+import { EventBridgePublisher, relayChangeEvents } from '../../services/events'
+import type { RelayResult } from '../../services/events'
+
+// Scheduled EventBridge events and direct invocations; the payload is ignored
+export type OutboxRelayEvent = Record<string, unknown>
+
+const METRICS_NAMESPACE = process.env.METRICS_NAMESPACE ?? 'ChangeEvents'
+
+const relayMetrics = (result: RelayResult): Record<string, MetricValue> => ({
+  Published: { value: result.published, unit: 'Count' },
+  Failed: { value: result.failed, unit: 'Count' },
+  Pending: { value: result.backlog.pending, unit: 'Count' },
+  Abandoned: { value: result.backlog.abandoned, unit: 'Count' },
+  OldestPendingSeconds: { value: result.backlog.oldestPendingSeconds, unit: 'Seconds' }
+})
+
+/**
+ * Publishes the pending change events of the outbox to the event bus and logs the outcome with embedded metrics
+ * for the backlog alarm. Failures are retried on the next run, so they are logged but do not fail the invocation.
+ */
+export class OutboxRelayHandler extends BaseHandler<OutboxRelayEvent, RelayResult> {
+  protected async handleRequest(): Promise<RelayResult> {
+    const publisher = new EventBridgePublisher({
+      eventBusName: process.env.EVENT_BUS_NAME as string,
+      source: process.env.EVENT_SOURCE as string
+    })
+    const result = await withConnection((client) => relayChangeEvents(client, publisher))
+
+    this.context.logger[result.failed ? 'warn' : 'info']('Change events relayed', {
+      ...embeddedMetrics(METRICS_NAMESPACE, relayMetrics(result)),
+      result
+    })
+
+    return result
+  }
+
+  protected handleError(error: Error): never {
+    this.context.logger.error('Change event relay failed', { error })
+    throw error
+  }
+}
@@ -0,0 +1,8 @@
+import type { Context } from 'aws-lambda'
+import { createContextContainer } from '@utils/context-container'
+import { OutboxRelayHandler } from './handlers'
+import type { OutboxRelayEvent } from './handlers'
+import type { RelayResult } from '../../services/events'
+
+export const handler = async (event: OutboxRelayEvent, lambdaContext: Context): Promise<RelayResult> =>
+  new OutboxRelayHandler(createContextContainer(lambdaContext), event).execute()
@@ -0,0 +1,22 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda'
+import { StatusCodes } from 'http-status-codes'
+import { READ_ROLES } from '@utils/auth'
+import type { ContextContainer } from '@utils/context-container'
+import { APIGatewayBaseHandler } from '../base-handler/api-gateway-base-handler'
+import { searchModels } from '../../services/search'
+import type { SearchModelsRequest } from './schemas'
+import { searchModelsSchema } from './schemas'
+
+export class SearchModelsHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, searchModelsSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { body } = this.parseSchema<SearchModelsRequest>()
+    const { data, ...meta } = await this.withConnection((client) => searchModels(client, body))
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data, meta } })
+  }
+}
@@ -0,0 +1,6 @@
+import { createApiHandler } from '../common/create-api-handler'
+import { SearchModelsHandler } from './handlers'
+
+export const handler = createApiHandler({
+  'POST /search': SearchModelsHandler
+})
@@ -0,0 +1,28 @@
+import { z } from 'zod'
+import { paginationSchema, uuidSchema } from '../common/schemas'
+
+export const searchModelsSchema = z.object({
+  body: z
+    .object({
+      categoryId: uuidSchema,
+      query: z.string().max(500).optional(),
+      filters: z
+        .array(
+          z.object({
+            fieldId: uuidSchema,
+            op: z.enum(['eq', 'ne', 'in', 'gt', 'gte', 'lt', 'lte', 'between', 'exists']),
+            value: z.unknown().optional()
+          })
+        )
+        .max(50)
+        .optional(),
+      sort: z
+        .array(z.object({ fieldId: uuidSchema, direction: z.enum(['asc', 'desc']).optional() }))
+        .max(5)
+        .optional(),
+      facets: z.array(uuidSchema).optional()
+    })
+    .merge(paginationSchema.extend({ limit: z.number().int().min(1).max(100).optional() }))
+})
+
+export type SearchModelsRequest = z.infer<typeof searchModelsSchema>
@@ -0,0 +1,108 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda'
+import { StatusCodes } from 'http-status-codes'
+import { ADMIN_ROLES, READ_ROLES } from '@utils/auth'
+import type { ContextContainer } from '@utils/context-container'
+import { NotFoundError } from '@utils/errors'
+import { APIGatewayBaseHandler } from '../base-handler/api-gateway-base-handler'
+import { TabularGroupRepository } from '../../db/repositories'
+import type {
+  CreateTabularGroupRequest,
+  DeleteTabularGroupRequest,
+  GetTabularGroupRequest,
+  ListTabularGroupsRequest,
+  ReplaceTabularGroupRequest
+} from './schemas'
+import {
+  createTabularGroupSchema,
+  deleteTabularGroupSchema,
+  getTabularGroupSchema,
+  listTabularGroupsSchema,
+  replaceTabularGroupSchema
+} from './schemas'
+
+export class ListTabularGroupsHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, listTabularGroupsSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { queryStringParameters } = this.parseSchema<ListTabularGroupsRequest>()
+    const tabularGroups = await this.withConnection((client) =>
+      new TabularGroupRepository(client).list(queryStringParameters)
+    )
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: tabularGroups } })
+  }
+}
+
+export class GetTabularGroupHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, getTabularGroupSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(READ_ROLES)
+    const { pathParameters } = this.parseSchema<GetTabularGroupRequest>()
+    const tabularGroup = await this.withConnection((client) =>
+      new TabularGroupRepository(client).get(pathParameters.tabularGroupId)
+    )
+    if (!tabularGroup) {
+      throw new NotFoundError(`Tabular group ${pathParameters.tabularGroupId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: tabularGroup } })
+  }
+}
+
+export class CreateTabularGroupHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, createTabularGroupSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { body } = this.parseSchema<CreateTabularGroupRequest>()
+    const tabularGroup = await this.withConnection((client) => new TabularGroupRepository(client).create(body))
+
+    return this.formatResponse({ statusCode: StatusCodes.CREATED, body: { data: tabularGroup } })
+  }
+}
+
+export class ReplaceTabularGroupHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, replaceTabularGroupSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters, body } = this.parseSchema<ReplaceTabularGroupRequest>()
+    const tabularGroup = await this.withConnection((client) =>
+      new TabularGroupRepository(client).update(pathParameters.tabularGroupId, body.fields)
+    )
+    if (!tabularGroup) {
+      throw new NotFoundError(`Tabular group ${pathParameters.tabularGroupId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.OK, body: { data: tabularGroup } })
+  }
+}
+
+export class DeleteTabularGroupHandler extends APIGatewayBaseHandler {
+  constructor(context: ContextContainer, event: APIGatewayProxyEvent) {
+    super(context, event, deleteTabularGroupSchema)
+  }
+
+  protected async handleRequest(): Promise<APIGatewayProxyResult> {
+    await this.checkAccess(ADMIN_ROLES)
+    const { pathParameters } = this.parseSchema<DeleteTabularGroupRequest>()
+    const deleted = await this.withConnection((client) =>
+      new TabularGroupRepository(client).delete(pathParameters.tabularGroupId)
+    )
+    if (!deleted) {
+      throw new NotFoundError(`Tabular group ${pathParameters.tabularGroupId} not found`)
+    }
+
+    return this.formatResponse({ statusCode: StatusCodes.NO_CONTENT })
+  }
+}
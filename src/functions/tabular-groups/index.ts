@@ -0,0 +1,16 @@
+import { createApiHandler } from '../common/create-api-handler'
+import {
+  CreateTabularGroupHandler,
+  DeleteTabularGroupHandler,
+  GetTabularGroupHandler,
+  ListTabularGroupsHandler,
+  ReplaceTabularGroupHandler
+} from './handlers'
+
+export const handler = createApiHandler({
+  'GET /tabular-groups': ListTabularGroupsHandler,
+  'POST /tabular-groups': CreateTabularGroupHandler,
+  'GET /tabular-groups/{tabularGroupId}': GetTabularGroupHandler,
+  'PUT /tabular-groups/{tabularGroupId}': ReplaceTabularGroupHandler,
+  'DELETE /tabular-groups/{tabularGroupId}': DeleteTabularGroupHandler
+})
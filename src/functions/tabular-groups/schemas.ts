@@ -0,0 +1,41 @@
+import { z } from 'zod'
+import { paginationSchema, uuidSchema } from '../common/schemas'
+
+const tabularGroupPathSchema = z.object({ tabularGroupId: uuidSchema })
+
+const tabularGroupFieldsSchema = z.array(
+  z.object({
+    fieldId: uuidSchema,
+    fieldOrder: z.number().int().optional()
+  })
+)
+
+export const listTabularGroupsSchema = z.object({
+  queryStringParameters: paginationSchema
+})
+
+export const getTabularGroupSchema = z.object({
+  pathParameters: tabularGroupPathSchema
+})
+
+export const createTabularGroupSchema = z.object({
+  body: z.object({
+    tabularGroupId: uuidSchema.optional(),
+    fields: tabularGroupFieldsSchema
+  })
+})
+
+export const replaceTabularGroupSchema = z.object({
+  pathParameters: tabularGroupPathSchema,
+  body: z.object({
+    fields: tabularGroupFieldsSchema
+  })
+})
+
+export const deleteTabularGroupSchema = getTabularGroupSchema
+
+export type ListTabularGroupsRequest = z.infer<typeof listTabularGroupsSchema>
+export type GetTabularGroupRequest = z.infer<typeof getTabularGroupSchema>
+export type CreateTabularGroupRequest = z.infer<typeof createTabularGroupSchema>
+export type ReplaceTabularGroupRequest = z.infer<typeof replaceTabularGroupSchema>
+export type DeleteTabularGroupRequest = z.infer<typeof deleteTabularGroupSchema>
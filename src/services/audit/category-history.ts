@@ -0,0 +1,140 @@
+import { NotFoundError } from '@utils/errors'
+import type { Database } from '../../db/database'
+import { withTransaction } from '../../db/database'
+import { AuditRepository, CategoryRepository } from '../../db/repositories'
+import type { AuditEntry, CategoryDefinition, CategorySnapshot, JsonObject } from '../../db/repositories'
+
+const emptySnapshot = (categoryId: string): CategorySnapshot => ({
+  categoryId,
+  metadata: null,
+  fields: [],
+  conditionIds: [],
+  tabularGroups: []
+})
+
+/**
+ * Reverts one audit entry of a category: returns the snapshot as it was before the change, or undefined when the
+ * category did not exist. Entries must be undone newest first.
+ */
+export const undoCategoryEntry = (
+  snapshot: CategorySnapshot | undefined,
+  entry: AuditEntry
+): CategorySnapshot | undefined => {
+  const { before } = entry
+  const row = (before ?? entry.after) as JsonObject
+
+  if (entry.table === 'category') {
+    return before
+      ? { ...(snapshot ?? emptySnapshot(entry.recordId)), metadata: before.metadata as JsonObject }
+      : undefined
+  }
+
+  const current = snapshot ?? emptySnapshot(entry.recordId)
+  switch (entry.table) {
+    case 'category_field': {
+      const fields = current.fields.filter((field) => field.fieldId !== row.field_id)
+      return {
+        ...current,
+        fields: before
+          ? [...fields, { fieldId: row.field_id as string, isRequired: Boolean(before.is_required) }]
+          : fields
+      }
+    }
+    case 'category_condition': {
+      const conditionIds = current.conditionIds.filter((conditionId) => conditionId !== row.condition_id)
+      return { ...current, conditionIds: before ? [...conditionIds, row.condition_id as string] : conditionIds }
+    }
+    case 'category_tabular_group': {
+      const tabularGroups = current.tabularGroups.filter((group) => group.tabularGroupId !== row.tabular_id)
+      return {
+        ...current,
+        tabularGroups: before
+          ? [
+              ...tabularGroups,
+              { tabularGroupId: row.tabular_id as string, validation: before.validation as JsonObject | null }
+            ]
+          : tabularGroups
+      }
+    }
+    default:
+      return current
+  }
+}
+
+/**
+ * Writes `target` over the category's current row and links, creating the category when there is no `current`.
+ */
+export const applySnapshot = async (
+  categories: CategoryRepository,
+  current: CategorySnapshot | undefined,
+  target: CategorySnapshot
+): Promise<void> => {
+  const { categoryId } = target
+  if (current) {
+    await categories.update(categoryId, { metadata: target.metadata })
+  } else {
+    await categories.create({ categoryId, metadata: target.metadata })
+  }
+
+  const linked = current ?? emptySnapshot(categoryId)
+  for (const { fieldId } of linked.fields) {
+    if (!target.fields.some((field) => field.fieldId === fieldId)) {
+      await categories.removeField(categoryId, fieldId)
+    }
+  }
+  for (const conditionId of linked.conditionIds) {
+    if (!target.conditionIds.includes(conditionId)) {
+      await categories.removeCondition(categoryId, conditionId)
+    }
+  }
+  for (const { tabularGroupId } of linked.tabularGroups) {
+    if (!target.tabularGroups.some((group) => group.tabularGroupId === tabularGroupId)) {
+      await categories.removeTabularGroup(categoryId, tabularGroupId)
+    }
+  }
+
+  // Unchanged links are rewritten as they are, which the audit triggers skip
+  for (const field of target.fields) {
+    await categories.addField(categoryId, field)
+  }
+  for (const conditionId of target.conditionIds) {
+    await categories.addCondition(categoryId, conditionId)
+  }
+  for (const tabularGroup of target.tabularGroups) {
+    await categories.addTabularGroup(categoryId, tabularGroup)
+  }
+}
+
+/**
+ * Restores a category's metadata and links to their state right after the audit entry `auditId`, by undoing
+ * every later entry of the category. Linked fields, conditions and tabular groups keep their current definitions
+ * and must still exist. Restoring to the entry that deleted the category deletes it again.
+ *
+ * The restore is itself recorded in the audit log.
+ */
+export const restoreCategory = async (
+  db: Database,
+  categoryId: string,
+  auditId: string
+): Promise<CategoryDefinition | undefined> =>
+  withTransaction(db, async (tx) => {
+    const audit = new AuditRepository(tx)
+    const entry = await audit.get(auditId)
+    if (!entry || entry.recordType !== 'category' || entry.recordId !== categoryId) {
+      throw new NotFoundError(`Audit entry ${auditId} of category ${categoryId} not found`)
+    }
+
+    const categories = new CategoryRepository(tx)
+    const current = await categories.getSnapshot(categoryId)
+    const target = (await audit.listAfter('category', categoryId, auditId)).reduce(undoCategoryEntry, current)
+
+    if (!target) {
+      if (current) {
+        await categories.delete(categoryId)
+      }
+      return undefined
+    }
+
+    await applySnapshot(categories, current, target)
+    return categories.get(categoryId)
+  })
@@ -0,0 +1,123 @@
+import type { CategoryDefinition, Condition, ConditionDomainValue } from '../../db/repositories'
+import type {
+  ConditionEvaluation,
+  ConditionGroupResult,
+  ConditionResult,
+  ConditionSemantics,
+  Quantifier
+} from './types'
+
+export const defaultConditionSemantics: ConditionSemantics = {
+  withinGroup: 'any',
+  acrossGroups: 'all',
+  acrossConditions: 'any'
+}
+
+const QUANTIFIERS: Quantifier[] = ['any', 'all']
+
+const quantify = (quantifier: Quantifier, results: boolean[]): boolean =>
+  quantifier === 'any' ? results.some(Boolean) : results.every(Boolean)
+
+/**
+ * Resolves semantics from the defaults, the category's `conditionSemantics` metadata and explicit overrides,
+ * in increasing order of precedence.
+ */
+export const resolveConditionSemantics = (
+  category: CategoryDefinition,
+  overrides: Partial<ConditionSemantics> = {}
+): ConditionSemantics => {
+  const configured = (category.categoryMetadata?.conditionSemantics ?? {}) as Partial<ConditionSemantics>
+  const semantics = { ...defaultConditionSemantics, ...configured, ...overrides }
+
+  Object.entries(semantics).forEach(([key, value]) => {
+    if (!QUANTIFIERS.includes(value)) {
+      throw new Error(`Invalid condition semantics for category ${category.categoryId}: ${key} must be any or all`)
+    }
+  })
+
+  return semantics
+}
+
+const groupDomainValues = (condition: Condition): Map<string | null, ConditionDomainValue[]> =>
+  condition.domainValues.reduce((groups, value) => {
+    groups.set(value.conditionGroupId, [...(groups.get(value.conditionGroupId) ?? []), value])
+    return groups
+  }, new Map<string | null, ConditionDomainValue[]>())
+
+/**
+ * Decides which of a category's conditions a (partial) record satisfies, and which fields that leaves visible
+ * and required.
+ *
+ * A domain value matches when the record's value for its field is that domain value id, or an array containing it.
+ * Fields referenced by the conditions are always visible, since they drive the decision; the category's other
+ * fields are visible only while the category is active. Hidden fields are never required.
+ */
+export class ConditionEvaluator {
+  public readonly semantics: ConditionSemantics
+  private readonly category: CategoryDefinition
+  private readonly triggerFieldIds: Set<string>
+
+  constructor(category: CategoryDefinition, semantics: Partial<ConditionSemantics> = {}) {
+    this.category = category
+    this.semantics = resolveConditionSemantics(category, semantics)
+    this.triggerFieldIds = new Set(
+      category.conditions.flatMap((condition) =>
+        condition.domainValues.flatMap((value) => (value.fieldId ? [value.fieldId] : []))
+      )
+    )
+  }
+
+  public evaluate(values: Record<string, unknown>): ConditionEvaluation {
+    const conditions = this.category.conditions.map((condition) => this.evaluateCondition(condition, values))
+    const active =
+      conditions.length === 0 ||
+      quantify(
+        this.semantics.acrossConditions,
+        conditions.map((condition) => condition.satisfied)
+      )
+
+    const visible = this.category.fields.filter((field) => active || this.triggerFieldIds.has(field.fieldId))
+    const visibleIds = new Set(visible.map((field) => field.fieldId))
+
+    return {
+      semantics: this.semantics,
+      active,
+      conditions,
+      visibleFieldIds: [...visibleIds],
+      requiredFieldIds: visible.filter((field) => field.isRequired).map((field) => field.fieldId),
+      hiddenFieldIds: this.category.fields
+        .filter((field) => !visibleIds.has(field.fieldId))
+        .map((field) => field.fieldId)
+    }
+  }
+
+  private evaluateCondition(condition: Condition, values: Record<string, unknown>): ConditionResult {
+    const groups = [...groupDomainValues(condition)].map(([conditionGroupId, domainValues]): ConditionGroupResult => ({
+      conditionGroupId,
+      satisfied: quantify(
+        this.semantics.withinGroup,
+        domainValues.map((value) => this.matches(value, values))
+      )
+    }))
+
+    return {
+      conditionId: condition.conditionId,
+      // A condition without domain values constrains nothing
+      satisfied:
+        groups.length === 0 ||
+        quantify(
+          this.semantics.acrossGroups,
+          groups.map((group) => group.satisfied)
+        ),
+      groups
+    }
+  }
+
+  private matches({ domainValueId, fieldId }: ConditionDomainValue, values: Record<string, unknown>): boolean {
+    const contains = (value: unknown) =>
+      value === domainValueId || (Array.isArray(value) && value.includes(domainValueId))
+
+    // Rows written before field_id was tracked match the domain value in any field
+    return fieldId ? contains(values[fieldId]) : Object.values(values).some(contains)
+  }
+}
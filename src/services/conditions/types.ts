@@ -0,0 +1,37 @@
+export type Quantifier = 'any' | 'all'
+
+/**
+ * How condition_domain_value rows combine into a decision.
+ * The defaults read as: a condition holds when every group has at least one matching domain value,
+ * and the category's dependent fields are shown when at least one of its conditions holds.
+ */
+export interface ConditionSemantics {
+  // Domain values sharing a condition_group_id
+  withinGroup: Quantifier
+  // Groups of one condition
+  acrossGroups: Quantifier
+  // Conditions linked to the category
+  acrossConditions: Quantifier
+}
+
+export interface ConditionGroupResult {
+  // Null for domain values without a condition_group_id, which form a single implicit group
+  conditionGroupId: string | null
+  satisfied: boolean
+}
+
+export interface ConditionResult {
+  conditionId: string
+  satisfied: boolean
+  groups: ConditionGroupResult[]
+}
+
+export interface ConditionEvaluation {
+  semantics: ConditionSemantics
+  // Whether the category's conditions allow its dependent fields to be shown
+  active: boolean
+  conditions: ConditionResult[]
+  visibleFieldIds: string[]
+  requiredFieldIds: string[]
+  hiddenFieldIds: string[]
+}
@@ -0,0 +1,39 @@
+import { LruCache } from '@utils/cache'
+import type { Database } from '../../db/database'
+import { CategoryRepository } from '../../db/repositories'
+import type { CategoryDefinition } from '../../db/repositories'
+
+export interface CachedCategoryDefinition {
+  version: string
+  definition: CategoryDefinition
+}
+
+const CACHE_SIZE = 500
+
+// Shared by the invocations of a container
+export const categoryDefinitionCache = new LruCache<string, CachedCategoryDefinition>(CACHE_SIZE)
+
+/**
+ * Reads a category definition with its version, serving it from `cache` while the cached version is current.
+ * Every read asks the database for the version, in the caller's tenant, so a cached definition is only returned
+ * when the caller can see the category and it has not changed since; unchanged definitions are not transferred.
+ */
+export const readCategoryDefinition = async (
+  db: Database,
+  categoryId: string,
+  cache: LruCache<string, CachedCategoryDefinition> = categoryDefinitionCache
+): Promise<CachedCategoryDefinition | undefined> => {
+  const cached = cache.get(categoryId)
+  const current = await new CategoryRepository(db).getVersioned(categoryId, cached?.version)
+  if (!current) {
+    cache.delete(categoryId)
+    return undefined
+  }
+  if (!current.definition) {
+    return cached
+  }
+
+  const entry = { version: current.version, definition: current.definition }
+  cache.set(categoryId, entry)
+  return entry
+}
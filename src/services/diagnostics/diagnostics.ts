@@ -0,0 +1,207 @@
+import type { MetricValue } from '@utils/metrics'
+import type { Database } from '../../db/database'
+import { Migrator } from '../../db/migrator'
+import type {
+  ConnectionReport,
+  DatabaseInspection,
+  DatabaseStatistics,
+  DiagnosticsFailure,
+  DiagnosticsReport,
+  HealthStatus,
+  HealthThresholds,
+  MigrationReport,
+  ServerReport,
+  TableStatistics
+} from './types'
+
+export const defaultHealthThresholds: HealthThresholds = {
+  latencyMs: 1000,
+  connectionUsage: 80
+}
+
+const TABLE_LIMIT = 10
+
+type Row = Record<string, unknown>
+
+// Counters are bigint, which pg returns as strings; the queries cast them to float8 where possible
+const toNumber = (value: unknown): number => Number(value ?? 0)
+
+const toIsoString = (value: unknown): string | null =>
+  value === null || value === undefined ? null : new Date(value as string | Date).toISOString()
+
+const firstRow = async (db: Database, sql: string): Promise<Row> => (await db.query<Row>(sql)).rows[0] ?? {}
+
+const inspectServer = async (db: Database): Promise<ServerReport> => {
+  const row = await firstRow(
+    db,
+    `SELECT current_setting('server_version') AS version,
+            current_database() AS database,
+            pg_postmaster_start_time() AS started_at,
+            EXTRACT(EPOCH FROM now() - pg_postmaster_start_time())::float8 AS uptime_seconds,
+            to_regproc('aurora_version') IS NOT NULL AS is_aurora`
+  )
+  // aurora_version() only exists on Aurora, and a query naming it fails to parse elsewhere
+  const aurora = row.is_aurora ? await firstRow(db, 'SELECT aurora_version() AS aurora_version') : {}
+
+  return {
+    version: String(row.version),
+    auroraVersion: (aurora.aurora_version as string | undefined) ?? null,
+    database: String(row.database),
+    startedAt: toIsoString(row.started_at) as string,
+    uptimeSeconds: Math.round(toNumber(row.uptime_seconds))
+  }
+}
+
+const inspectMigrations = async (db: Database): Promise<MigrationReport> => {
+  const status = await new Migrator(db).status()
+  const versions = (state: string) => status.filter((migration) => migration.state === state).map((m) => m.version)
+  const applied = status.filter((migration) => migration.state !== 'pending').map((migration) => migration.version)
+
+  return {
+    currentVersion: applied.length ? Math.max(...applied) : null,
+    latestVersion: Math.max(0, ...status.filter((m) => m.state !== 'missing').map((m) => m.version)),
+    pending: versions('pending'),
+    changed: versions('changed'),
+    missing: versions('missing')
+  }
+}
+
+const inspectConnections = async (db: Database): Promise<ConnectionReport> => {
+  const res = await db.query<Row>(
+    `SELECT COALESCE(state, 'unknown') AS state, count(*)::int AS count,
+            current_setting('max_connections')::int AS max_connections
+     FROM pg_stat_activity
+     WHERE backend_type = 'client backend'
+     GROUP BY 1`
+  )
+  const byState = Object.fromEntries(res.rows.map((row) => [String(row.state), toNumber(row.count)]))
+  const total = Object.values(byState).reduce((sum, count) => sum + count, 0)
+  const max = res.rows.length
+    ? toNumber(res.rows[0].max_connections)
+    : toNumber((await firstRow(db, `SELECT current_setting('max_connections')::int AS max`)).max)
+
+  return { max, total, byState, usage: max ? Math.round((total / max) * 1000) / 10 : 0 }
+}
+
+const inspectStatistics = async (db: Database): Promise<DatabaseStatistics> => {
+  const row = await firstRow(
+    db,
+    `SELECT pg_database_size(datname)::float8 AS size_bytes,
+            xact_commit::float8 AS commits, xact_rollback::float8 AS rollbacks,
+            blks_read::float8 AS blocks_read, blks_hit::float8 AS blocks_hit,
+            tup_returned::float8 AS tuples_returned, tup_fetched::float8 AS tuples_fetched,
+            tup_inserted::float8 AS tuples_inserted, tup_updated::float8 AS tuples_updated,
+            tup_deleted::float8 AS tuples_deleted,
+            conflicts::float8 AS conflicts, deadlocks::float8 AS deadlocks,
+            temp_files::float8 AS temp_files, temp_bytes::float8 AS temp_bytes,
+            stats_reset
+     FROM pg_stat_database
+     WHERE datname = current_database()`
+  )
+  const blocksRead = toNumber(row.blocks_read)
+  const blocksHit = toNumber(row.blocks_hit)
+
+  return {
+    sizeBytes: toNumber(row.size_bytes),
+    commits: toNumber(row.commits),
+    rollbacks: toNumber(row.rollbacks),
+    blocksRead,
+    blocksHit,
+    cacheHitRatio: blocksRead + blocksHit ? Math.round((blocksHit / (blocksRead + blocksHit)) * 10000) / 10000 : null,
+    tuplesReturned: toNumber(row.tuples_returned),
+    tuplesFetched: toNumber(row.tuples_fetched),
+    tuplesInserted: toNumber(row.tuples_inserted),
+    tuplesUpdated: toNumber(row.tuples_updated),
+    tuplesDeleted: toNumber(row.tuples_deleted),
+    conflicts: toNumber(row.conflicts),
+    deadlocks: toNumber(row.deadlocks),
+    tempFiles: toNumber(row.temp_files),
+    tempBytes: toNumber(row.temp_bytes),
+    statsReset: toIsoString(row.stats_reset)
+  }
+}
+
+const inspectTables = async (db: Database): Promise<TableStatistics[]> => {
+  const res = await db.query<Row>(
+    `SELECT relname AS table, n_live_tup::float8 AS live_tuples, n_dead_tup::float8 AS dead_tuples,
+            seq_scan::float8 AS sequential_scans, COALESCE(idx_scan, 0)::float8 AS index_scans,
+            last_autovacuum, last_autoanalyze
+     FROM pg_stat_user_tables
+     ORDER BY n_live_tup DESC, relname
+     LIMIT $1`,
+    [TABLE_LIMIT]
+  )
+
+  return res.rows.map((row) => ({
+    table: String(row.table),
+    liveTuples: toNumber(row.live_tuples),
+    deadTuples: toNumber(row.dead_tuples),
+    sequentialScans: toNumber(row.sequential_scans),
+    indexScans: toNumber(row.index_scans),
+    lastAutovacuum: toIsoString(row.last_autovacuum),
+    lastAutoanalyze: toIsoString(row.last_autoanalyze)
+  }))
+}
+
+/**
+ * Reads the server version, migration status, connection counts and pg_stat statistics. Only reads catalogs and
+ * statistics views, apart from creating `schema_migrations` on an empty database.
+ */
+export const inspectDatabase = async (db: Database): Promise<DatabaseInspection> => ({
+  server: await inspectServer(db),
+  migrations: await inspectMigrations(db),
+  connections: await inspectConnections(db),
+  statistics: await inspectStatistics(db),
+  tables: await inspectTables(db)
+})
+
+/**
+ * Lists the problems of a reachable database: unapplied or drifted migrations, slow round trips and connections
+ * close to the limit. Any problem makes it degraded.
+ */
+export const evaluateHealth = (
+  { connectivity, migrations, connections }: Pick<DiagnosticsReport, 'connectivity' | 'migrations' | 'connections'>,
+  thresholds: HealthThresholds = defaultHealthThresholds
+): { status: HealthStatus; issues: string[] } => {
+  const issues = [
+    ...(migrations.pending.length ? [`Pending migrations: ${migrations.pending.join(', ')}`] : []),
+    ...(migrations.changed.length ? [`Changed migrations: ${migrations.changed.join(', ')}`] : []),
+    ...(migrations.missing.length ? [`Unknown applied migrations: ${migrations.missing.join(', ')}`] : []),
+    ...(connectivity.latencyMs > thresholds.latencyMs
+      ? [`Round trip took ${connectivity.latencyMs} ms, over ${thresholds.latencyMs} ms`]
+      : []),
+    ...(connections.usage >= thresholds.connectionUsage
+      ? [`${connections.total} of ${connections.max} connections in use`]
+      : [])
+  ]
+
+  return { status: issues.length ? 'degraded' : 'ok', issues }
+}
+
+/**
+ * The metrics the monitoring alarms and dashboard are built on.
+ */
+export const diagnosticsMetrics = (result: DiagnosticsReport | DiagnosticsFailure): Record<string, MetricValue> => {
+  if (!('connectivity' in result)) {
+    return { HealthCheckFailed: { value: 1, unit: 'Count' } }
+  }
+
+  const { connectivity, migrations, connections, statistics } = result
+  return {
+    HealthCheckFailed: { value: 0, unit: 'Count' },
+    Degraded: { value: result.status === 'ok' ? 0 : 1, unit: 'Count' },
+    ConnectMs: { value: connectivity.connectMs, unit: 'Milliseconds' },
+    LatencyMs: { value: connectivity.latencyMs, unit: 'Milliseconds' },
+    ResumeMs: { value: connectivity.resumeMs, unit: 'Milliseconds' },
+    ConnectRetries: { value: connectivity.retries, unit: 'Count' },
+    MigrationIssues: {
+      value: migrations.pending.length + migrations.changed.length + migrations.missing.length,
+      unit: 'Count'
+    },
+    Connections: { value: connections.total, unit: 'Count' },
+    ConnectionUsage: { value: connections.usage, unit: 'Percent' },
+    CacheHitRatio: { value: (statistics.cacheHitRatio ?? 1) * 100, unit: 'Percent' },
+    Deadlocks: { value: statistics.deadlocks, unit: 'Count' },
+    DatabaseSize: { value: statistics.sizeBytes, unit: 'Bytes' }
+  }
+}
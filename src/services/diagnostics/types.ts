@@ -0,0 +1,106 @@
+import type { DatabaseBackend } from '../../db/connection'
+
+export type HealthStatus = 'ok' | 'degraded' | 'error'
+
+export interface ConnectivityReport {
+  backend: DatabaseBackend
+  // Until the first query returned: secret retrieval, pool creation, retries and the query itself
+  connectMs: number
+  // Round trip of a trivial query on the open connection
+  latencyMs: number
+  retries: number
+  // Time spent waiting for the cluster to resume from zero capacity, 0 when it accepted the first attempt
+  resumeMs: number
+}
+
+export interface ServerReport {
+  version: string
+  // Null on PostgreSQL outside Aurora
+  auroraVersion: string | null
+  database: string
+  startedAt: string
+  uptimeSeconds: number
+}
+
+export interface MigrationReport {
+  // Highest applied version, null on an empty database
+  currentVersion: number | null
+  latestVersion: number
+  pending: number[]
+  // Applied migrations whose source changed, and applied migrations unknown to this code
+  changed: number[]
+  missing: number[]
+}
+
+export interface ConnectionReport {
+  max: number
+  // Client connections to every database of the instance
+  total: number
+  byState: Record<string, number>
+  // total / max, in percent
+  usage: number
+}
+
+export interface DatabaseStatistics {
+  sizeBytes: number
+  commits: number
+  rollbacks: number
+  blocksRead: number
+  blocksHit: number
+  // Share of blocks served from shared buffers, null before any block was read
+  cacheHitRatio: number | null
+  tuplesReturned: number
+  tuplesFetched: number
+  tuplesInserted: number
+  tuplesUpdated: number
+  tuplesDeleted: number
+  conflicts: number
+  deadlocks: number
+  tempFiles: number
+  tempBytes: number
+  statsReset: string | null
+}
+
+export interface TableStatistics {
+  table: string
+  liveTuples: number
+  deadTuples: number
+  sequentialScans: number
+  indexScans: number
+  lastAutovacuum: string | null
+  lastAutoanalyze: string | null
+}
+
+/**
+ * What `inspectDatabase` reads from the server's catalogs and statistics views.
+ */
+export interface DatabaseInspection {
+  server: ServerReport
+  migrations: MigrationReport
+  connections: ConnectionReport
+  statistics: DatabaseStatistics
+  // The largest tables by live tuples
+  tables: TableStatistics[]
+}
+
+export interface DiagnosticsReport extends DatabaseInspection {
+  status: HealthStatus
+  // Problems that make the status degraded
+  issues: string[]
+  checkedAt: string
+  // First invocation of the Lambda container
+  coldStart: boolean
+  connectivity: ConnectivityReport
+}
+
+export interface DiagnosticsFailure {
+  status: 'error'
+  checkedAt: string
+  coldStart: boolean
+  error: { message: string; code?: string }
+}
+
+export interface HealthThresholds {
+  latencyMs: number
+  connectionUsage: number
+}
@@ -0,0 +1,37 @@
+import type { DomainValue, DomainValueLabels } from '../../db/repositories'
+
+/**
+ * A domain value with its label in the requested locale.
+ */
+export interface LocalizedDomainValue extends DomainValue {
+  label: string
+}
+
+const languageOf = (locale: string): string => locale.split('-')[0]
+
+/**
+ * Picks the label for `locale`, comparing locales case-insensitively: the exact locale, else its language
+ * (`de` for `de-AT`), else another region of that language in alphabetical order, else `name`.
+ */
+export const resolveLabel = (labels: DomainValueLabels, name: string, locale?: string): string => {
+  if (!locale) {
+    return name
+  }
+
+  const wanted = locale.toLowerCase()
+  const language = languageOf(wanted)
+  const entries = Object.entries(labels)
+    .map(([key, label]): [string, string] => [key.toLowerCase(), label])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  const match =
+    entries.find(([key]) => key === wanted) ??
+    entries.find(([key]) => key === language) ??
+    entries.find(([key]) => languageOf(key) === language)
+
+  return match ? match[1] : name
+}
+
+export const localizeDomainValue = (value: DomainValue, locale?: string): LocalizedDomainValue => ({
+  ...value,
+  label: resolveLabel(value.labels, value.name, locale)
+})
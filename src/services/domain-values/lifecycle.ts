@@ -0,0 +1,84 @@
+import { ConflictError, NotFoundError, UnprocessableEntityError } from '@utils/errors'
+import type { Database } from '../../db/database'
+import { withTransaction } from '../../db/database'
+import { DomainValueRepository } from '../../db/repositories'
+import type { DomainValue, DomainValueReplacement } from '../../db/repositories'
+
+const getOrThrow = async (values: DomainValueRepository, domainValueId: string): Promise<DomainValue> => {
+  const value = await values.get(domainValueId)
+  if (!value) {
+    throw new NotFoundError(`Domain value ${domainValueId} not found`)
+  }
+
+  return value
+}
+
+/**
+ * Deprecates a domain value, optionally naming an active value of the same field that replaces it. Deprecating a
+ * deprecated value again only changes its successor.
+ */
+export const deprecateDomainValue = async (
+  db: Database,
+  domainValueId: string,
+  successorId: string | null = null
+): Promise<DomainValue> =>
+  withTransaction(db, async (tx) => {
+    const values = new DomainValueRepository(tx)
+    const value = await getOrThrow(values, domainValueId)
+
+    if (successorId !== null) {
+      const successor = await values.get(successorId)
+      if (!successor || successorId === domainValueId) {
+        throw new UnprocessableEntityError(`Successor ${successorId} is not another domain value`)
+      }
+      if (successor.fieldId !== value.fieldId) {
+        throw new UnprocessableEntityError(`Successor ${successorId} belongs to another field`)
+      }
+      if (successor.deprecatedAt) {
+        throw new UnprocessableEntityError(`Successor ${successorId} is deprecated`)
+      }
+    }
+
+    return (await values.deprecate(domainValueId, successorId)) as DomainValue
+  })
+
+/**
+ * Makes a deprecated domain value available again.
+ */
+export const reinstateDomainValue = async (db: Database, domainValueId: string): Promise<DomainValue> => {
+  const value = await new DomainValueRepository(db).reinstate(domainValueId)
+  if (!value) {
+    throw new NotFoundError(`Domain value ${domainValueId} not found`)
+  }
+
+  return value
+}
+
+/**
+ * Points the conditions referencing a deprecated domain value at its successor. A successor that was deprecated
+ * since is followed to its own successor, so conditions end up at the first active value of the chain.
+ */
+export const replaceDeprecatedDomainValue = async (
+  db: Database,
+  domainValueId: string
+): Promise<DomainValueReplacement> =>
+  withTransaction(db, async (tx) => {
+    const values = new DomainValueRepository(tx)
+    const value = await getOrThrow(values, domainValueId)
+    if (!value.deprecatedAt) {
+      throw new ConflictError(`Domain value ${domainValueId} is not deprecated`)
+    }
+
+    // Successors are active when they are chosen, so chains cannot loop; `seen` only guards against bad data
+    const seen = new Set([domainValueId])
+    let successor = value.successorId ? await values.get(value.successorId) : undefined
+    while (successor?.deprecatedAt && successor.successorId && !seen.has(successor.successorId)) {
+      seen.add(successor.domainValueId)
+      successor = await values.get(successor.successorId)
+    }
+    if (!successor || successor.deprecatedAt) {
+      throw new ConflictError(`Domain value ${domainValueId} has no active successor`)
+    }
+
+    return values.replaceInConditions(domainValueId, successor.domainValueId)
+  })
@@ -0,0 +1,102 @@
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge'
+import type { PutEventsRequestEntry } from '@aws-sdk/client-eventbridge'
+import type { ChangeEvent, EventPublisher, PublishFailure } from './types'
+
+// Limits of a PutEvents call: the size limit applies to the sum of its entries' sizes
+const MAX_ENTRIES = 10
+const MAX_REQUEST_BYTES = 256 * 1024
+
+export interface EventBridgePublisherOptions {
+  eventBusName: string
+  source: string
+  client?: EventBridgeClient
+}
+
+// As EventBridge counts it, with the bus name on top; a time takes 14 bytes
+const entrySize = (entry: PutEventsRequestEntry): number =>
+  [entry.Source, entry.DetailType, entry.Detail, entry.EventBusName].reduce(
+    (size, value) => size + Buffer.byteLength(value ?? ''),
+    entry.Time ? 14 : 0
+  )
+
+interface Batch {
+  events: ChangeEvent[]
+  entries: PutEventsRequestEntry[]
+  bytes: number
+}
+
+/**
+ * Puts change events on an EventBridge bus, with the event type as detail type. Events too large for EventBridge
+ * are sent without the changed rows, and as many events go into each call as its limits allow.
+ */
+export class EventBridgePublisher implements EventPublisher {
+  private readonly client: EventBridgeClient
+  private readonly eventBusName: string
+  private readonly source: string
+
+  constructor({ eventBusName, source, client }: EventBridgePublisherOptions) {
+    this.client = client ?? new EventBridgeClient({ region: process.env.AWS_REGION })
+    this.eventBusName = eventBusName
+    this.source = source
+  }
+
+  public toEntry(event: ChangeEvent): PutEventsRequestEntry {
+    const entry: PutEventsRequestEntry = {
+      EventBusName: this.eventBusName,
+      Source: this.source,
+      DetailType: event.type,
+      Detail: JSON.stringify(event),
+      Time: new Date(event.occurredAt)
+    }
+
+    if (entrySize(entry) > MAX_REQUEST_BYTES) {
+      entry.Detail = JSON.stringify({ ...event, before: null, after: null, truncated: true })
+    }
+    return entry
+  }
+
+  /**
+   * Splits events, in order, into the entries of PutEvents calls within both the entry count and the size limit.
+   */
+  private toBatches(events: ChangeEvent[]): Batch[] {
+    const batches: Batch[] = []
+
+    events.forEach((event) => {
+      const entry = this.toEntry(event)
+      const bytes = entrySize(entry)
+      const last = batches[batches.length - 1]
+
+      if (last && last.entries.length < MAX_ENTRIES && last.bytes + bytes <= MAX_REQUEST_BYTES) {
+        last.events.push(event)
+        last.entries.push(entry)
+        last.bytes += bytes
+      } else {
+        batches.push({ events: [event], entries: [entry], bytes })
+      }
+    })
+
+    return batches
+  }
+
+  public async publish(events: ChangeEvent[]): Promise<PublishFailure[]> {
+    const failures: PublishFailure[] = []
+
+    for (const { events: chunk, entries } of this.toBatches(events)) {
+      try {
+        const res = await this.client.send(new PutEventsCommand({ Entries: entries }))
+
+        // Result entries are in the order of the request entries
+        res.Entries?.forEach((result, index) => {
+          if (result.ErrorCode) {
+            failures.push({ eventId: chunk[index].eventId, error: `${result.ErrorCode}: ${result.ErrorMessage ?? ''}` })
+          }
+        })
+      } catch (error) {
+        const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error)
+        failures.push(...chunk.map((event) => ({ eventId: event.eventId, error: message })))
+      }
+    }
+
+    return failures
+  }
+}
@@ -0,0 +1,77 @@
+import type { Database } from '../../db/database'
+import { withOutboxRelay } from '../../db/database'
+import { OutboxRepository } from '../../db/repositories'
+import type { OutboxEvent } from '../../db/repositories'
+import type { ChangeEvent, EventPublisher, RelayOptions, RelayResult } from './types'
+
+export const defaultRelayOptions: Required<RelayOptions> = {
+  batchSize: 100,
+  maxBatches: 20,
+  maxAttempts: 10,
+  retentionHours: 7 * 24
+}
+
+export const toChangeEvent = (event: OutboxEvent): ChangeEvent => ({
+  eventId: event.eventId,
+  sequence: event.sequence,
+  type: event.eventType,
+  tenantId: event.tenantId,
+  recordType: event.recordType,
+  recordId: event.recordId,
+  table: event.table,
+  before: event.before,
+  after: event.after,
+  actorId: event.actorId,
+  requestId: event.requestId,
+  occurredAt: event.occurredAt.toISOString()
+})
+
+/**
+ * Publishes the pending events of the outbox, oldest first, in batches. Each batch is claimed, published and
+ * marked in one transaction, so concurrent relays never publish the same batch, and an event is published again
+ * only if its transaction fails after publishing. Failed events are retried on later runs until they reach
+ * `maxAttempts`; a batch with failures ends the run. Published events are purged after `retentionHours`.
+ */
+export const relayChangeEvents = async (
+  db: Database,
+  publisher: EventPublisher,
+  options: RelayOptions = {}
+): Promise<RelayResult> => {
+  const { batchSize, maxBatches, maxAttempts, retentionHours } = { ...defaultRelayOptions, ...options }
+  let published = 0
+  let failed = 0
+
+  for (let batch = 0; batch < maxBatches; batch++) {
+    const { claimed, failures } = await withOutboxRelay(db, async (tx) => {
+      const outbox = new OutboxRepository(tx)
+      const events = await outbox.claim(batchSize, maxAttempts)
+      const failures = events.length ? await publisher.publish(events.map(toChangeEvent)) : []
+      const errors = new Map(failures.map((failure) => [failure.eventId, failure.error]))
+
+      await outbox.markPublished(events.filter((event) => !errors.has(event.eventId)).map((event) => event.sequence))
+      await outbox.markFailed(
+        events
+          .filter((event) => errors.has(event.eventId))
+          .map((event) => ({ sequence: event.sequence, error: errors.get(event.eventId) as string }))
+      )
+      return { claimed: events.length, failures: failures.length }
+    })
+
+    published += claimed - failures
+    failed += failures
+    if (failures || claimed < batchSize) {
+      break
+    }
+  }
+
+  const { purged, backlog } = await withOutboxRelay(db, async (tx) => {
+    const outbox = new OutboxRepository(tx)
+
+    return {
+      purged: await outbox.purge(new Date(Date.now() - retentionHours * 60 * 60 * 1000)),
+      backlog: await outbox.backlog(maxAttempts)
+    }
+  })
+
+  return { published, failed, purged, backlog }
+}
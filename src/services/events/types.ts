@@ -0,0 +1,54 @@
+import type { AuditRecordType, ChangeEventType, JsonObject, OutboxBacklog } from '../../db/repositories'
+
+/**
+ * The detail of a change event on the event bus. Events are delivered at least once and not necessarily in order:
+ * consumers drop duplicates by `eventId` and order the events of a record by `sequence`.
+ */
+export interface ChangeEvent {
+  eventId: string
+  // Increases with every event of the database, as a string as it may exceed Number.MAX_SAFE_INTEGER
+  sequence: string
+  type: ChangeEventType
+  tenantId: string
+  recordType: AuditRecordType
+  recordId: string
+  // The changed table and its row before and after the change
+  table: string
+  before: JsonObject | null
+  after: JsonObject | null
+  // Set when the rows were left out to fit the event size limit; consumers read the record instead
+  truncated?: boolean
+  actorId: string | null
+  requestId: string | null
+  occurredAt: string
+}
+
+export interface PublishFailure {
+  eventId: string
+  error: string
+}
+
+/**
+ * Publishes change events, returning the events that were not accepted.
+ */
+export interface EventPublisher {
+  publish(events: ChangeEvent[]): Promise<PublishFailure[]>
+}
+
+export interface RelayOptions {
+  // Events claimed and published per transaction
+  batchSize?: number
+  // Batches per run, to bound the time a run takes
+  maxBatches?: number
+  // Failed attempts after which an event is no longer retried
+  maxAttempts?: number
+  // How long published events are kept
+  retentionHours?: number
+}
+
+export interface RelayResult {
+  published: number
+  failed: number
+  purged: number
+  backlog: OutboxBacklog
+}
@@ -0,0 +1,157 @@
+import { NotFoundError, UnprocessableEntityError } from '@utils/errors'
+import type { Database } from '../../db/database'
+import { withTransaction } from '../../db/database'
+import { DomainValueRepository, ModelRepository } from '../../db/repositories'
+import type { CreateModelInput, ModelDefinition } from '../../db/repositories'
+import { CategoryValidator, listDomainValueUses } from '../validation'
+import type { CategorySchema, ModelRecord, ValidationIssue, ValidationResult } from '../validation'
+import { resolveCategorySchema } from '../versions'
+
+/**
+ * A record for one category, optionally naming the published version to validate it against.
+ */
+export interface VersionedModelRecord extends ModelRecord {
+  categoryVersion?: number
+}
+
+export interface ModelCategoryRecord extends VersionedModelRecord {
+  categoryId: string
+}
+
+export interface SaveModelInput extends CreateModelInput {
+  categories?: ModelCategoryRecord[]
+}
+
+/**
+ * Lists the deprecated domain values a record chooses that `current`, the record it replaces, did not already hold.
+ */
+const findNewlyDeprecatedValues = async (
+  db: Database,
+  schema: CategorySchema,
+  record: ModelRecord,
+  current?: ModelRecord
+): Promise<ValidationIssue[]> => {
+  const kept = new Set(current ? listDomainValueUses(schema, current).map((use) => use.domainValueId) : [])
+  const uses = listDomainValueUses(schema, record).filter((use) => !kept.has(use.domainValueId))
+  if (uses.length === 0) {
+    return []
+  }
+
+  const values = await new DomainValueRepository(db).getMany([...new Set(uses.map((use) => use.domainValueId))])
+  const deprecated = new Set(values.filter((value) => value.deprecatedAt).map((value) => value.domainValueId))
+
+  return uses
+    .filter((use) => deprecated.has(use.domainValueId))
+    .map(({ domainValueId, ...location }) => ({
+      ...location,
+      code: 'deprecated' as const,
+      message: `Domain value ${domainValueId} is deprecated`
+    }))
+}
+
+/**
+ * Checks a record against a category schema's rules. Deprecated domain values are only accepted where `current`,
+ * the record it replaces, already holds them.
+ */
+export const validateModelRecord = async (
+  db: Database,
+  schema: CategorySchema,
+  record: ModelRecord,
+  current?: ModelRecord
+): Promise<ValidationResult> => {
+  const result = new CategoryValidator(schema).validate(record)
+  const deprecated = result.valid ? await findNewlyDeprecatedValues(db, schema, record, current) : []
+
+  return deprecated.length > 0 ? { valid: false, errors: deprecated } : result
+}
+
+/**
+ * Checks a record like `validateModelRecord`, throwing a 422 that lists every violation. Records are validated
+ * against the requested version, else the latest published one, else the draft; resolves to the version used,
+ * null for the draft.
+ */
+export const assertValidRecord = async (
+  db: Database,
+  categoryId: string,
+  { categoryVersion, ...record }: VersionedModelRecord,
+  current?: ModelRecord
+): Promise<number | null> => {
+  const resolved = await resolveCategorySchema(db, categoryId, categoryVersion)
+  if (!resolved) {
+    throw new NotFoundError(`Category ${categoryId} not found`)
+  }
+
+  const { valid, errors } = await validateModelRecord(db, resolved.schema, record, current)
+  if (!valid) {
+    throw new UnprocessableEntityError(`Model values are invalid for category ${categoryId}`, errors)
+  }
+
+  return resolved.categoryVersion
+}
+
+const getModelOrThrow = async (models: ModelRepository, modelId: string): Promise<ModelDefinition> => {
+  const model = await models.get(modelId)
+  if (!model) {
+    throw new NotFoundError(`Model ${modelId} not found`)
+  }
+
+  return model
+}
+
+/**
+ * Validates a record without storing it, against the same schema a save would use: the requested version, else the
+ * latest published one, else the draft. Deprecated domain values are checked as when the record replaces the
+ * model's values in the category, or is stored for a new model without `modelId`. Resolves to undefined when the
+ * category does not exist.
+ */
+export const validateCategoryRecord = async (
+  db: Database,
+  categoryId: string,
+  { categoryVersion, ...record }: VersionedModelRecord,
+  modelId?: string
+): Promise<ValidationResult | undefined> => {
+  const resolved = await resolveCategorySchema(db, categoryId, categoryVersion)
+  if (!resolved) {
+    return undefined
+  }
+
+  const model = modelId ? await getModelOrThrow(new ModelRepository(db), modelId) : undefined
+  const current = model?.categories.find((category) => category.categoryId === categoryId)
+  return validateModelRecord(db, resolved.schema, record, current)
+}
+
+/**
+ * Creates a model together with its values in each category, validating every category first.
+ */
+export const createModel = async (db: Database, input: SaveModelInput): Promise<ModelDefinition> =>
+  withTransaction(db, async (tx) => {
+    const models = new ModelRepository(tx)
+    const { modelId } = await models.create(input)
+
+    for (const { categoryId, ...record } of input.categories ?? []) {
+      const categoryVersion = await assertValidRecord(tx, categoryId, record)
+      await models.setCategoryValues(modelId, categoryId, { ...record, categoryVersion })
+    }
+
+    return getModelOrThrow(models, modelId)
+  })
+
+/**
+ * Replaces a model's values in one category, linking the model to it when needed and pinning the version the
+ * values were validated against.
+ */
+export const saveModelCategory = async (
+  db: Database,
+  modelId: string,
+  categoryId: string,
+  record: VersionedModelRecord
+): Promise<ModelDefinition> =>
+  withTransaction(db, async (tx) => {
+    const models = new ModelRepository(tx)
+    const model = await getModelOrThrow(models, modelId)
+    const current = model.categories.find((category) => category.categoryId === categoryId)
+    const categoryVersion = await assertValidRecord(tx, categoryId, record, current)
+    await models.setCategoryValues(modelId, categoryId, { ...record, categoryVersion })
+
+    return getModelOrThrow(models, modelId)
+  })
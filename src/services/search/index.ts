@@ -0,0 +1,3 @@
+export * from './types'
+export * from './query-builder'
+export * from './search'
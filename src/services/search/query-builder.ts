@@ -0,0 +1,221 @@
+import { BadRequestError } from '@utils/errors'
+import type { CategoryDefinition, CategoryField } from '../../db/repositories'
+import type { FieldSearchConfig, SearchFilter, SearchRequest, SearchSort, SqlQuery } from './types'
+
+export const DEFAULT_SEARCH_LIMIT = 20
+
+// Keep in sync with the indexes in migration 0003_model_search
+const TEXT_VALUE = `(v.value #>> '{}')`
+const NUMERIC_VALUE = `(CASE WHEN jsonb_typeof(v.value) = 'number' THEN (v.value #>> '{}')::numeric END)`
+const FULLTEXT_VALUE = `to_tsvector('simple', v.value #>> '{}')`
+
+const NUMERIC_DATATYPES = ['number', 'integer']
+
+const RANGE_OPERATORS = { gt: '>', gte: '>=', lt: '<', lte: '<=' } as const
+
+class Parameters {
+  public readonly values: unknown[] = []
+
+  public add(value: unknown, cast = ''): string {
+    this.values.push(value)
+    return `$${this.values.length}${cast}`
+  }
+}
+
+const searchConfig = (field: CategoryField): FieldSearchConfig => (field.search ?? {}) as FieldSearchConfig
+
+const isNumeric = (field: CategoryField): boolean => NUMERIC_DATATYPES.includes((field.datatype ?? '').toLowerCase())
+
+/**
+ * Builds parameterized SQL for searching the models of a category, checking every filter,
+ * sort and facet against the fields' `search` configuration.
+ */
+export class SearchQueryBuilder {
+  private readonly category: CategoryDefinition
+  private readonly request: SearchRequest
+  private readonly fields: Map<string, CategoryField>
+
+  constructor(category: CategoryDefinition, request: SearchRequest) {
+    this.category = category
+    this.request = request
+    this.fields = new Map(category.fields.map((field) => [field.fieldId, field]))
+  }
+
+  /**
+   * Selects the total number of matches and the ordered ids of the requested page.
+   */
+  public page(): SqlQuery {
+    const params = new Parameters()
+    const matched = this.matched(params)
+    const order = [...(this.request.sort ?? []).map((sort) => this.sortExpression(params, sort)), 'm.model_id']
+    const limit = params.add(this.request.limit ?? DEFAULT_SEARCH_LIMIT)
+    const offset = params.add(this.request.offset ?? 0)
+
+    return {
+      text: `
+        WITH matched AS (${matched}),
+        page AS (
+          SELECT m.model_id, row_number() OVER (ORDER BY ${order.join(', ')}) AS position
+          FROM matched m
+          ORDER BY position
+          LIMIT ${limit} OFFSET ${offset}
+        )
+        SELECT
+          (SELECT count(*) FROM matched)::int AS total,
+          COALESCE((SELECT array_agg(model_id ORDER BY position) FROM page), '{}') AS model_ids`,
+      values: params.values
+    }
+  }
+
+  /**
+   * Counts matching models per domain value of each facet field, or returns undefined when no facets apply.
+   */
+  public facets(): SqlQuery | undefined {
+    const fieldIds = this.request.facets ?? this.fieldIdsWith('facet')
+    if (fieldIds.length === 0) {
+      return undefined
+    }
+    fieldIds.forEach((fieldId) => this.fieldWith(fieldId, 'facet'))
+
+    const params = new Parameters()
+    const matched = this.matched(params)
+
+    return {
+      text: `
+        WITH matched AS (${matched})
+        SELECT dv.field_id, dv.id AS domain_value_id, dv.name, count(v.model_id)::int AS count
+        FROM domain_value dv
+        LEFT JOIN model_field_value v
+          ON v.field_id = dv.field_id
+          AND v.category_id = $1
+          AND v.value @> to_jsonb(dv.id::text)
+          AND v.model_id IN (SELECT model_id FROM matched)
+        WHERE dv.field_id = ANY(${params.add(fieldIds, '::uuid[]')})
+        GROUP BY dv.field_id, dv.id, dv.name
+        ORDER BY dv.field_id, dv.name, dv.id`,
+      values: params.values
+    }
+  }
+
+  private matched(params: Parameters): string {
+    // Always $1, so the other clauses can refer to it
+    const categoryId = params.add(this.category.categoryId, '::uuid')
+    const where = [`mc.category_id = ${categoryId}`]
+
+    const query = this.request.query?.trim()
+    if (query) {
+      const fieldIds = this.fieldIdsWith('searchable')
+      if (fieldIds.length === 0) {
+        throw new BadRequestError(`Category ${this.category.categoryId} has no searchable fields`)
+      }
+      where.push(
+        this.exists(
+          `v.field_id = ANY(${params.add(fieldIds, '::uuid[]')})
+            AND ${FULLTEXT_VALUE} @@ plainto_tsquery('simple', ${params.add(query)})`
+        )
+      )
+    }
+
+    ;(this.request.filters ?? []).forEach((filter) => where.push(this.filterCondition(params, filter)))
+
+    return `SELECT mc.model_id FROM model_category mc WHERE ${where.join(' AND ')}`
+  }
+
+  private filterCondition(params: Parameters, filter: SearchFilter): string {
+    const field = this.fieldWith(filter.fieldId, 'filterable')
+    const fieldId = params.add(field.fieldId, '::uuid')
+    const valueOf = (predicate: string) => this.exists(`v.field_id = ${fieldId} AND ${predicate}`)
+    const invalid = (expected: string) =>
+      new BadRequestError(`Filter ${filter.op} on field ${filter.fieldId} expects ${expected}`)
+
+    switch (filter.op) {
+      case 'eq':
+        return valueOf(`v.value @> ${params.add(JSON.stringify(filter.value ?? null), '::jsonb')}`)
+      case 'ne':
+        return `NOT ${valueOf(`v.value @> ${params.add(JSON.stringify(filter.value ?? null), '::jsonb')}`)}`
+      case 'in':
+        if (!Array.isArray(filter.value)) {
+          throw invalid('a list of values')
+        }
+        return valueOf(
+          `v.value @> ANY(${params.add(
+            filter.value.map((value) => JSON.stringify(value)),
+            '::jsonb[]'
+          )})`
+        )
+      case 'exists':
+        return filter.value === false ? `NOT ${valueOf('TRUE')}` : valueOf('TRUE')
+      case 'between': {
+        if (!Array.isArray(filter.value) || filter.value.length !== 2) {
+          throw invalid('a [from, to] pair')
+        }
+        const [from, to] = filter.value.map((bound) => this.comparable(params, field, bound, invalid))
+        return valueOf(`${this.valueExpression(field)} BETWEEN ${from} AND ${to}`)
+      }
+      default: {
+        const operator = RANGE_OPERATORS[filter.op]
+        if (!operator) {
+          throw new BadRequestError(`Unsupported filter operator ${filter.op}`)
+        }
+        return valueOf(
+          `${this.valueExpression(field)} ${operator} ${this.comparable(params, field, filter.value, invalid)}`
+        )
+      }
+    }
+  }
+
+  private sortExpression(params: Parameters, sort: SearchSort): string {
+    const field = this.fieldWith(sort.fieldId, 'sortable')
+    const direction = sort.direction === 'desc' ? 'DESC' : 'ASC'
+
+    return `(SELECT ${this.valueExpression(field)} FROM model_field_value v
+      WHERE v.model_id = m.model_id AND v.category_id = $1 AND v.field_id = ${params.add(field.fieldId, '::uuid')}
+    ) ${direction} NULLS LAST`
+  }
+
+  private comparable(
+    params: Parameters,
+    field: CategoryField,
+    value: unknown,
+    invalid: (expected: string) => Error
+  ): string {
+    if (isNumeric(field)) {
+      if (typeof value !== 'number') {
+        throw invalid('a number')
+      }
+      return params.add(value, '::numeric')
+    }
+    if (typeof value !== 'string') {
+      throw invalid('a string')
+    }
+
+    return params.add(value, '::text')
+  }
+
+  private valueExpression(field: CategoryField): string {
+    return isNumeric(field) ? NUMERIC_VALUE : TEXT_VALUE
+  }
+
+  private exists(predicate: string): string {
+    return `EXISTS (
+      SELECT 1 FROM model_field_value v
+      WHERE v.model_id = mc.model_id AND v.category_id = mc.category_id AND ${predicate}
+    )`
+  }
+
+  private fieldIdsWith(feature: keyof FieldSearchConfig): string[] {
+    return this.category.fields.filter((field) => searchConfig(field)[feature] === true).map((field) => field.fieldId)
+  }
+
+  private fieldWith(fieldId: string, feature: keyof FieldSearchConfig): CategoryField {
+    const field = this.fields.get(fieldId)
+    if (!field) {
+      throw new BadRequestError(`Field ${fieldId} is not part of category ${this.category.categoryId}`)
+    }
+    if (searchConfig(field)[feature] !== true) {
+      throw new BadRequestError(`Field ${fieldId} is not ${feature}`)
+    }
+
+    return field
+  }
+}
@@ -0,0 +1,67 @@
+import { NotFoundError } from '@utils/errors'
+import type { Database } from '../../db/database'
+import { CategoryRepository } from '../../db/repositories'
+import { DEFAULT_SEARCH_LIMIT, SearchQueryBuilder } from './query-builder'
+import type { FacetBucket, SearchHit, SearchRequest, SearchResult } from './types'
+
+interface PageRow {
+  total: number
+  model_ids: string[]
+}
+
+interface ValueRow {
+  model_id: string
+  field_id: string
+  value: unknown
+}
+
+interface FacetRow {
+  field_id: string
+  domain_value_id: string
+  name: string
+  count: number
+}
+
+/**
+ * Searches the models of a category by their field values, returning a page of models with
+ * all their values and the domain value counts of the requested facets.
+ */
+export const searchModels = async (db: Database, request: SearchRequest): Promise<SearchResult> => {
+  const category = await new CategoryRepository(db).get(request.categoryId)
+  if (!category) {
+    throw new NotFoundError(`Category ${request.categoryId} not found`)
+  }
+
+  const builder = new SearchQueryBuilder(category, request)
+  const page = builder.page()
+  const facetsQuery = builder.facets()
+
+  const { total, model_ids: modelIds } = (await db.query<PageRow>(page.text, page.values)).rows[0]
+  const values = await db.query<ValueRow>(
+    `SELECT model_id, field_id, value FROM model_field_value
+     WHERE category_id = $1 AND model_id = ANY($2::uuid[])`,
+    [category.categoryId, modelIds]
+  )
+  const facetRows = facetsQuery ? (await db.query<FacetRow>(facetsQuery.text, facetsQuery.values)).rows : []
+
+  const hits = new Map(modelIds.map((modelId): [string, SearchHit] => [modelId, { modelId, values: {} }]))
+  values.rows.forEach((row) => {
+    ;(hits.get(row.model_id) as SearchHit).values[row.field_id] = row.value
+  })
+
+  const facets = facetRows.reduce<Record<string, FacetBucket[]>>((byField, row) => {
+    byField[row.field_id] = [
+      ...(byField[row.field_id] ?? []),
+      { domainValueId: row.domain_value_id, name: row.name, count: row.count }
+    ]
+    return byField
+  }, {})
+
+  return {
+    data: [...hits.values()],
+    facets,
+    total,
+    limit: request.limit ?? DEFAULT_SEARCH_LIMIT,
+    offset: request.offset ?? 0
+  }
+}
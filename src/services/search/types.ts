@@ -0,0 +1,60 @@
+/**
+ * Shape of `field.search`. A field takes part in a search feature only when its flag is true.
+ */
+export interface FieldSearchConfig {
+  // Matched by the free-text query
+  searchable?: boolean
+  filterable?: boolean
+  sortable?: boolean
+  // Domain value counts are returned for the field
+  facet?: boolean
+}
+
+export type FilterOperator = 'eq' | 'ne' | 'in' | 'gt' | 'gte' | 'lt' | 'lte' | 'between' | 'exists'
+
+export interface SearchFilter {
+  fieldId: string
+  op: FilterOperator
+  // A scalar, a list for `in`, a [from, to] pair for `between` and a boolean for `exists`
+  value?: unknown
+}
+
+export interface SearchSort {
+  fieldId: string
+  direction?: 'asc' | 'desc'
+}
+
+export interface SearchRequest {
+  categoryId: string
+  query?: string
+  filters?: SearchFilter[]
+  sort?: SearchSort[]
+  // Defaults to every facet field of the category
+  facets?: string[]
+  limit?: number
+  offset?: number
+}
+
+export interface SearchHit {
+  modelId: string
+  values: Record<string, unknown>
+}
+
+export interface FacetBucket {
+  domainValueId: string
+  name: string
+  count: number
+}
+
+export interface SearchResult {
+  data: SearchHit[]
+  facets: Record<string, FacetBucket[]>
+  total: number
+  limit: number
+  offset: number
+}
+
+export interface SqlQuery {
+  text: string
+  values: unknown[]
+}
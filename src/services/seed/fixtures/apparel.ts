@@ -0,0 +1,241 @@
+import { METADATA_DOCUMENT_FORMAT } from '../../transfer'
+import type { FixtureSet } from '../types'
+
+const BOOT_MATERIAL_GROUP = '0b9c4f6e-3d1a-4e2b-9a7c-5f8d2e1b4c3a'
+const BOOT_COLOR_GROUP = '7e2d1c5b-8a4f-4b3e-8d6c-1a9f0e7b2d5c'
+
+/**
+ * Shirts and boots sharing fields of every datatype. Boots are only active for leather boots in black or brown.
+ */
+export const apparel: FixtureSet = {
+  name: 'apparel',
+  description: 'Shirts and boots with fields of every datatype, a condition and a variants table',
+  document: {
+    format: METADATA_DOCUMENT_FORMAT,
+    fields: [
+      {
+        key: 'brand',
+        datatype: 'text',
+        metadata: { label: 'Brand' },
+        validation: { maxLength: 80 },
+        search: { searchable: true, filterable: true },
+        domainValues: []
+      },
+      {
+        key: 'color',
+        datatype: 'domain',
+        metadata: { label: 'Color' },
+        validation: null,
+        search: { filterable: true, facet: true },
+        domainValues: [
+          { key: 'black', name: 'Black' },
+          { key: 'blue', name: 'Blue' },
+          { key: 'brown', name: 'Brown' },
+          { key: 'white', name: 'White' }
+        ]
+      },
+      {
+        key: 'size',
+        datatype: 'domain',
+        metadata: { label: 'Size' },
+        validation: null,
+        search: { filterable: true, facet: true },
+        domainValues: [
+          { key: 's', name: 'S' },
+          { key: 'm', name: 'M' },
+          { key: 'l', name: 'L' },
+          { key: 'xl', name: 'XL' }
+        ]
+      },
+      {
+        key: 'material',
+        datatype: 'domain',
+        metadata: { label: 'Material' },
+        validation: null,
+        search: { filterable: true, facet: true },
+        domainValues: [
+          { key: 'cotton', name: 'Cotton' },
+          { key: 'leather', name: 'Leather' },
+          { key: 'linen', name: 'Linen' },
+          { key: 'suede', name: 'Suede' }
+        ]
+      },
+      {
+        key: 'price',
+        datatype: 'number',
+        metadata: { label: 'Price', unit: 'EUR' },
+        validation: { min: 0 },
+        search: { filterable: true, sortable: true },
+        domainValues: []
+      },
+      {
+        key: 'stock',
+        datatype: 'integer',
+        metadata: { label: 'Stock' },
+        validation: { min: 0 },
+        search: { filterable: true, sortable: true },
+        domainValues: []
+      },
+      {
+        key: 'waterproof',
+        datatype: 'boolean',
+        metadata: { label: 'Waterproof' },
+        validation: null,
+        search: { filterable: true },
+        domainValues: []
+      },
+      {
+        key: 'release-date',
+        datatype: 'date',
+        metadata: { label: 'Release date' },
+        validation: { min: '2000-01-01' },
+        search: { filterable: true, sortable: true },
+        domainValues: []
+      },
+      {
+        key: 'restocked-at',
+        datatype: 'datetime',
+        metadata: { label: 'Last restocked' },
+        validation: null,
+        search: { sortable: true },
+        domainValues: []
+      },
+      {
+        key: 'care',
+        datatype: 'json',
+        metadata: { label: 'Care instructions' },
+        validation: null,
+        search: null,
+        domainValues: []
+      },
+      {
+        key: 'sku',
+        datatype: 'text',
+        metadata: { label: 'SKU' },
+        validation: { required: true, pattern: '^[A-Z0-9-]+$' },
+        search: null,
+        domainValues: []
+      },
+      {
+        key: 'quantity',
+        datatype: 'integer',
+        metadata: { label: 'Quantity' },
+        validation: { required: true, min: 0 },
+        search: null,
+        domainValues: []
+      }
+    ],
+    tabularGroups: [
+      {
+        key: 'variants',
+        fields: [
+          { field: 'sku', fieldOrder: 1 },
+          { field: 'size', fieldOrder: 2 },
+          { field: 'quantity', fieldOrder: 3 }
+        ]
+      }
+    ],
+    conditions: [
+      {
+        key: 'dark-leather',
+        domainValues: [
+          { field: 'material', domainValue: 'leather', conditionGroupId: BOOT_MATERIAL_GROUP },
+          { field: 'material', domainValue: 'suede', conditionGroupId: BOOT_MATERIAL_GROUP },
+          { field: 'color', domainValue: 'black', conditionGroupId: BOOT_COLOR_GROUP },
+          { field: 'color', domainValue: 'brown', conditionGroupId: BOOT_COLOR_GROUP }
+        ]
+      }
+    ],
+    categories: [
+      {
+        key: 'shirts',
+        metadata: { name: 'Shirts', description: 'Casual and formal shirts' },
+        fields: [
+          { field: 'brand', isRequired: true },
+          { field: 'care', isRequired: false },
+          { field: 'color', isRequired: true },
+          { field: 'material', isRequired: false },
+          { field: 'price', isRequired: true },
+          { field: 'release-date', isRequired: false },
+          { field: 'stock', isRequired: false }
+        ],
+        conditions: [],
+        tabularGroups: [{ tabularGroup: 'variants', validation: { minRows: 1, maxRows: 20 } }]
+      },
+      {
+        key: 'boots',
+        metadata: { name: 'Boots', description: 'Leather and suede boots in dark colors' },
+        fields: [
+          { field: 'brand', isRequired: true },
+          { field: 'color', isRequired: true },
+          { field: 'material', isRequired: true },
+          { field: 'price', isRequired: true },
+          { field: 'restocked-at', isRequired: false },
+          { field: 'waterproof', isRequired: true }
+        ],
+        conditions: ['dark-leather'],
+        tabularGroups: [{ tabularGroup: 'variants', validation: { maxRows: 20 } }]
+      }
+    ]
+  },
+  models: [
+    {
+      modelId: 'a1f3c2d4-5b6e-4f70-8a91-b2c3d4e5f601',
+      metadata: { name: 'Oxford shirt' },
+      categories: [
+        {
+          category: 'shirts',
+          values: {
+            brand: 'Northwind',
+            care: { wash: 40, tumbleDry: false },
+            color: 'white',
+            material: 'cotton',
+            price: 49.9,
+            'release-date': '2024-03-01',
+            stock: 120
+          },
+          tabularGroups: {
+            variants: [
+              { sku: 'OX-WHT-M', size: 'm', quantity: 60 },
+              { sku: 'OX-WHT-L', size: 'l', quantity: 60 }
+            ]
+          }
+        }
+      ]
+    },
+    {
+      modelId: 'a1f3c2d4-5b6e-4f70-8a91-b2c3d4e5f602',
+      metadata: { name: 'Linen shirt' },
+      categories: [
+        {
+          category: 'shirts',
+          values: { brand: 'Northwind', color: 'blue', material: 'linen', price: 59 },
+          tabularGroups: { variants: [{ sku: 'LN-BLU-S', size: 's', quantity: 15 }] }
+        }
+      ]
+    },
+    {
+      modelId: 'a1f3c2d4-5b6e-4f70-8a91-b2c3d4e5f603',
+      metadata: { name: 'Chelsea boot' },
+      categories: [
+        {
+          category: 'boots',
+          values: {
+            brand: 'Fjellsko',
+            color: 'brown',
+            material: 'suede',
+            price: 189,
+            'restocked-at': '2025-01-15T08:30:00Z',
+            waterproof: false
+          },
+          tabularGroups: {
+            variants: [
+              { sku: 'CH-BRN-42', size: 'l', quantity: 4 },
+              { sku: 'CH-BRN-44', size: 'xl', quantity: 2 }
+            ]
+          }
+        }
+      ]
+    }
+  ]
+}
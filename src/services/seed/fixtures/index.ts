@@ -0,0 +1,35 @@
+import { METADATA_DOCUMENT_FORMAT } from '../../transfer'
+import { generateSeedSet } from '../generator'
+import type { FixtureSet } from '../types'
+import { apparel } from './apparel'
+
+const minimal: FixtureSet = {
+  name: 'minimal',
+  description: 'A single category without fields',
+  document: {
+    format: METADATA_DOCUMENT_FORMAT,
+    fields: [],
+    tabularGroups: [],
+    conditions: [],
+    categories: [
+      {
+        key: 'sample',
+        metadata: { name: 'New Category', description: 'This is a sample category' },
+        fields: [],
+        conditions: [],
+        tabularGroups: []
+      }
+    ]
+  },
+  models: []
+}
+
+const generated: FixtureSet = {
+  name: 'generated',
+  description: 'The generator at its default scale: 5 categories of 8 fields with 10 models each',
+  ...generateSeedSet()
+}
+
+export const fixtureSets: FixtureSet[] = [minimal, apparel, generated]
+
+export const findFixtureSet = (name: string): FixtureSet | undefined => fixtureSets.find((set) => set.name === name)
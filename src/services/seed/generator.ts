@@ -0,0 +1,296 @@
+import type { JsonObject } from '../../db/repositories'
+import { METADATA_DOCUMENT_FORMAT, normalizeDocument } from '../transfer'
+import type { CategoryDocument, ConditionDocument, FieldDocument, TabularGroupDocument } from '../transfer'
+import type { FieldDatatype } from '../validation'
+import { createRandom } from './random'
+import type { Random } from './random'
+import type { GeneratorOptions, ModelFixture, SeedSet } from './types'
+
+export const defaultGeneratorOptions: Required<GeneratorOptions> = {
+  seed: 1,
+  categories: 5,
+  fieldsPerCategory: 8,
+  domainValuesPerField: 6,
+  conditionsPerCategory: 1,
+  tabularGroupsPerCategory: 1,
+  modelsPerCategory: 10
+}
+
+// Every category cycles through all datatypes, domain first so even small categories can have conditions
+const DATATYPES: FieldDatatype[] = ['domain', 'text', 'number', 'integer', 'boolean', 'date', 'datetime', 'json']
+
+const CATEGORY_NAMES = [
+  'Shirts',
+  'Shoes',
+  'Jackets',
+  'Backpacks',
+  'Lamps',
+  'Chairs',
+  'Tables',
+  'Headphones',
+  'Watches',
+  'Bicycles',
+  'Tents',
+  'Kettles',
+  'Monitors',
+  'Keyboards',
+  'Sofas',
+  'Rugs'
+]
+
+const FIELD_LABELS: Record<FieldDatatype, string[]> = {
+  domain: ['Color', 'Size', 'Material', 'Style', 'Finish', 'Pattern'],
+  text: ['Brand', 'Model name', 'Manufacturer', 'Summary', 'Collection', 'Country of origin'],
+  number: ['Price', 'Weight', 'Width', 'Height', 'Depth', 'Volume'],
+  integer: ['Stock', 'Warranty months', 'Pack size', 'Power rating'],
+  boolean: ['Waterproof', 'Recyclable', 'Wireless', 'Assembly required'],
+  date: ['Release date', 'Launch date', 'Discontinued on'],
+  datetime: ['Last restocked', 'Available from'],
+  json: ['Specifications', 'Care instructions', 'Dimensions']
+}
+
+const DOMAIN_VALUE_NAMES: Record<string, string[]> = {
+  Color: ['Red', 'Blue', 'Green', 'Black', 'White', 'Grey', 'Yellow', 'Orange', 'Purple', 'Brown'],
+  Size: ['XS', 'S', 'M', 'L', 'XL', 'XXL'],
+  Material: ['Cotton', 'Wool', 'Leather', 'Steel', 'Oak', 'Bamboo', 'Glass', 'Polyester'],
+  Style: ['Classic', 'Modern', 'Vintage', 'Minimal', 'Industrial', 'Rustic'],
+  Finish: ['Matte', 'Glossy', 'Satin', 'Brushed', 'Polished'],
+  Pattern: ['Plain', 'Striped', 'Checked', 'Dotted', 'Floral', 'Camouflage']
+}
+
+const TABULAR_COLUMNS: { label: string; datatype: FieldDatatype }[] = [
+  { label: 'SKU', datatype: 'text' },
+  { label: 'Quantity', datatype: 'integer' },
+  { label: 'Unit price', datatype: 'number' },
+  { label: 'In stock', datatype: 'boolean' }
+]
+
+const ADJECTIVES = [
+  'Compact',
+  'Classic',
+  'Rugged',
+  'Light',
+  'Premium',
+  'Everyday',
+  'Urban',
+  'Outdoor',
+  'Slim',
+  'Deluxe'
+]
+const NOUNS = ['Edition', 'Series', 'Line', 'Model', 'Collection', 'Range', 'Set', 'Pro', 'Lite', 'Plus']
+
+const MAX_NUMBER = 10000
+const MAX_INTEGER = 1000
+const FIRST_DAY = Date.UTC(2000, 0, 1)
+const LAST_DAY = Date.UTC(2030, 11, 31)
+const DAY = 24 * 60 * 60 * 1000
+
+const VALIDATION: Partial<Record<FieldDatatype, JsonObject>> = {
+  text: { maxLength: 120 },
+  number: { min: 0, max: MAX_NUMBER },
+  integer: { min: 0, max: MAX_INTEGER },
+  date: { min: '2000-01-01', max: '2030-12-31' },
+  datetime: { min: '2000-01-01T00:00:00Z', max: '2030-12-31T23:59:59Z' }
+}
+
+const SEARCH: Record<FieldDatatype, JsonObject | null> = {
+  domain: { filterable: true, facet: true },
+  text: { searchable: true },
+  number: { filterable: true, sortable: true },
+  integer: { filterable: true, sortable: true },
+  boolean: { filterable: true },
+  date: { filterable: true, sortable: true },
+  datetime: { filterable: true, sortable: true },
+  json: null
+}
+
+const pad = (n: number): string => String(n).padStart(3, '0')
+
+// Cycles through names, numbering them once they repeat
+const nth = (names: string[], index: number): string => {
+  const round = Math.floor(index / names.length)
+  const name = names[index % names.length]
+  return round === 0 ? name : `${name} ${round + 1}`
+}
+
+const words = (random: Random): string => `${random.pick(ADJECTIVES)} ${random.pick(NOUNS)}`
+
+const generateValue = (random: Random, field: FieldDocument): unknown => {
+  switch (field.datatype as FieldDatatype) {
+    case 'domain':
+      return field.domainValues.length ? random.pick(field.domainValues).key : undefined
+    case 'text':
+      return words(random)
+    case 'number':
+      return Math.round(random.next() * MAX_NUMBER * 100) / 100
+    case 'integer':
+      return random.int(0, MAX_INTEGER)
+    case 'boolean':
+      return random.chance(0.5)
+    case 'date':
+      return new Date(FIRST_DAY + random.int(0, (LAST_DAY - FIRST_DAY) / DAY) * DAY).toISOString().slice(0, 10)
+    case 'datetime':
+      return new Date(FIRST_DAY + random.int(0, (LAST_DAY - FIRST_DAY) / 1000) * 1000).toISOString()
+    default:
+      return { notes: words(random), tags: [random.pick(ADJECTIVES).toLowerCase()] }
+  }
+}
+
+const generateValues = (random: Random, fields: FieldDocument[]): JsonObject =>
+  fields.reduce<JsonObject>((values, field) => {
+    const value = generateValue(random, field)
+    return value === undefined ? values : { ...values, [field.key]: value }
+  }, {})
+
+interface GeneratedCategory {
+  fields: FieldDocument[]
+  tabularGroups: TabularGroupDocument[]
+  conditions: ConditionDocument[]
+  category: CategoryDocument
+  models: ModelFixture[]
+}
+
+const generateFields = (categoryKey: string, options: Required<GeneratorOptions>) => {
+  const counts = new Map<FieldDatatype, number>()
+
+  return Array.from({ length: options.fieldsPerCategory }, (_, index): FieldDocument => {
+    const datatype = DATATYPES[index % DATATYPES.length]
+    const count = counts.get(datatype) ?? 0
+    counts.set(datatype, count + 1)
+    const label = nth(FIELD_LABELS[datatype], count)
+    const valueNames = DOMAIN_VALUE_NAMES[FIELD_LABELS[datatype][count % FIELD_LABELS[datatype].length]] ?? [label]
+
+    return {
+      key: `${categoryKey}-field-${pad(index + 1)}`,
+      datatype,
+      metadata: { label },
+      validation: VALIDATION[datatype] ?? null,
+      search: SEARCH[datatype],
+      domainValues:
+        datatype === 'domain'
+          ? Array.from({ length: options.domainValuesPerField }, (_, value) => ({
+              key: `value-${pad(value + 1)}`,
+              name: nth(valueNames, value)
+            }))
+          : []
+    }
+  })
+}
+
+const generateTabularGroups = (random: Random, categoryKey: string, options: Required<GeneratorOptions>) =>
+  Array.from({ length: options.tabularGroupsPerCategory }, (_, index) => {
+    const key = `${categoryKey}-group-${pad(index + 1)}`
+    const fields = TABULAR_COLUMNS.slice(0, random.int(2, TABULAR_COLUMNS.length)).map(
+      ({ label, datatype }, column): FieldDocument => ({
+        key: `${key}-field-${pad(column + 1)}`,
+        datatype,
+        metadata: { label },
+        // The first column identifies the row
+        validation: column === 0 ? { ...VALIDATION[datatype], required: true } : (VALIDATION[datatype] ?? null),
+        search: null,
+        domainValues: []
+      })
+    )
+
+    return { key, fields }
+  })
+
+/**
+ * Conditions of one or two groups, each matching one or two values of one of the category's domain fields.
+ */
+const generateConditions = (
+  random: Random,
+  categoryKey: string,
+  fields: FieldDocument[],
+  options: Required<GeneratorOptions>
+): ConditionDocument[] => {
+  const domainFields = fields.filter((field) => field.domainValues.length > 0)
+  if (!domainFields.length) {
+    return []
+  }
+
+  return Array.from({ length: options.conditionsPerCategory }, (_, index) => ({
+    key: `${categoryKey}-condition-${pad(index + 1)}`,
+    domainValues: Array.from({ length: random.int(1, Math.min(2, domainFields.length)) }, (_, group) => {
+      const field = domainFields[(index + group) % domainFields.length]
+      const conditionGroupId = random.uuid()
+      const first = random.int(0, field.domainValues.length - 1)
+
+      return Array.from({ length: random.int(1, Math.min(2, field.domainValues.length)) }, (_, offset) => ({
+        field: field.key,
+        domainValue: field.domainValues[(first + offset) % field.domainValues.length].key,
+        conditionGroupId
+      }))
+    }).flat()
+  }))
+}
+
+const generateCategory = (index: number, options: Required<GeneratorOptions>): GeneratedCategory => {
+  const key = `category-${pad(index + 1)}`
+  const name = nth(CATEGORY_NAMES, index)
+  // Each category draws from its own generator, so adding categories leaves the existing ones unchanged
+  const random = createRandom(`${options.seed}/${key}`)
+
+  const fields = generateFields(key, options)
+  const groups = generateTabularGroups(random, key, options)
+  const conditions = generateConditions(random, key, fields, options)
+  const fillable = (field: FieldDocument) => field.datatype !== 'domain' || field.domainValues.length > 0
+
+  const models = Array.from({ length: options.modelsPerCategory }, (_, model): ModelFixture => {
+    const modelRandom = createRandom(`${options.seed}/${key}/model-${pad(model + 1)}`)
+
+    return {
+      modelId: modelRandom.uuid(),
+      metadata: { name: `${name} ${words(modelRandom)}` },
+      categories: [
+        {
+          category: key,
+          values: generateValues(modelRandom, fields),
+          tabularGroups: Object.fromEntries(
+            groups.map((group) => [
+              group.key,
+              Array.from({ length: modelRandom.int(0, 3) }, () => generateValues(modelRandom, group.fields))
+            ])
+          )
+        }
+      ]
+    }
+  })
+
+  return {
+    fields: [...fields, ...groups.flatMap((group) => group.fields)],
+    tabularGroups: groups.map((group) => ({
+      key: group.key,
+      fields: group.fields.map((field, order) => ({ field: field.key, fieldOrder: order + 1 }))
+    })),
+    conditions,
+    category: {
+      key,
+      metadata: { name, description: `Generated ${name.toLowerCase()} category` },
+      fields: fields.map((field) => ({ field: field.key, isRequired: fillable(field) && random.chance(0.3) })),
+      conditions: conditions.map((condition) => condition.key),
+      tabularGroups: groups.map((group) => ({ tabularGroup: group.key, validation: { maxRows: 10 } }))
+    },
+    models
+  }
+}
+
+/**
+ * Generates categories with fields of every datatype, domain values, conditions with condition groups and tabular
+ * groups, and models whose values are valid against them.
+ */
+export const generateSeedSet = (options: GeneratorOptions = {}): SeedSet => {
+  const resolved = { ...defaultGeneratorOptions, ...options }
+  const categories = Array.from({ length: resolved.categories }, (_, index) => generateCategory(index, resolved))
+
+  return {
+    document: normalizeDocument({
+      format: METADATA_DOCUMENT_FORMAT,
+      fields: categories.flatMap((category) => category.fields),
+      tabularGroups: categories.flatMap((category) => category.tabularGroups),
+      conditions: categories.flatMap((category) => category.conditions),
+      categories: categories.map((category) => category.category)
+    }),
+    models: categories.flatMap((category) => category.models)
+  }
+}
@@ -0,0 +1,5 @@
+export * from './types'
+export * from './random'
+export * from './generator'
+export * from './fixtures'
+export * from './seed'
@@ -0,0 +1,51 @@
+/**
+ * A seeded pseudo-random number generator (mulberry32), so generated data is the same on every run.
+ */
+export interface Random {
+  // A float in [0, 1)
+  next(): number
+  // An integer in [min, max]
+  int(min: number, max: number): number
+  chance(probability: number): boolean
+  pick<T>(items: readonly T[]): T
+  // A version 4 UUID drawn from the generator
+  uuid(): string
+}
+
+// FNV-1a, to derive independent generators from string seeds
+const hash = (seed: string): number => {
+  let value = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    value = Math.imul(value ^ seed.charCodeAt(i), 0x01000193)
+  }
+
+  return value >>> 0
+}
+
+export const createRandom = (seed: number | string): Random => {
+  let state = typeof seed === 'number' ? seed >>> 0 : hash(seed)
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  const int = (min: number, max: number): number => min + Math.floor(next() * (max - min + 1))
+
+  return {
+    next,
+    int,
+    chance: (probability) => next() < probability,
+    pick: (items) => items[int(0, items.length - 1)],
+    uuid: () => {
+      const bytes = Array.from({ length: 16 }, () => int(0, 255))
+      bytes[6] = (bytes[6] & 0x0f) | 0x40
+      bytes[8] = (bytes[8] & 0x3f) | 0x80
+      const hex = bytes.map((byte) => byte.toString(16).padStart(2, '0')).join('')
+
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`
+    }
+  }
+}
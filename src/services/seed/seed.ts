@@ -0,0 +1,97 @@
+import { UnprocessableEntityError } from '@utils/errors'
+import type { Database } from '../../db/database'
+import { withTransaction } from '../../db/database'
+import { ModelRepository } from '../../db/repositories'
+import type { JsonObject, KeyedRecordType } from '../../db/repositories'
+import { createModel } from '../models'
+import type { SaveModelInput } from '../models'
+import { RecordIds, domainValueKey, importMetadata } from '../transfer'
+import type { MetadataDocument } from '../transfer'
+import type { ModelFixture, SeedOptions, SeedResult, SeedSet } from './types'
+
+export type RecordIdLookup = (recordType: KeyedRecordType, key: string) => string | undefined
+
+/**
+ * Turns a model fixture into the input of `createModel`, replacing keys with the ids `idOf` finds for them.
+ * Values of the document's domain fields are resolved as domain value keys.
+ */
+export const resolveModelFixture = (
+  model: ModelFixture,
+  document: MetadataDocument,
+  idOf: RecordIdLookup
+): SaveModelInput => {
+  const domainFields = new Set(document.fields.filter((field) => field.datatype === 'domain').map((field) => field.key))
+  const missing: string[] = []
+  const resolve = (recordType: KeyedRecordType, key: string): string => {
+    const id = idOf(recordType, key)
+    if (!id) {
+      missing.push(`Unknown ${recordType} ${key}`)
+    }
+    return id ?? key
+  }
+  const resolveValue = (field: string, value: unknown): unknown => {
+    if (!domainFields.has(field)) {
+      return value
+    }
+    return Array.isArray(value)
+      ? value.map((item) => resolve('domain_value', domainValueKey(field, String(item))))
+      : resolve('domain_value', domainValueKey(field, String(value)))
+  }
+  const resolveValues = (values: JsonObject): JsonObject =>
+    Object.fromEntries(
+      Object.entries(values).map(([field, value]) => [resolve('field', field), resolveValue(field, value)])
+    )
+
+  const input: SaveModelInput = {
+    modelId: model.modelId,
+    metadata: model.metadata,
+    categories: model.categories.map((category) => ({
+      categoryId: resolve('category', category.category),
+      values: resolveValues(category.values),
+      tabularGroups: Object.fromEntries(
+        Object.entries(category.tabularGroups ?? {}).map(([group, rows]) => [
+          resolve('tabular_group', group),
+          rows.map(resolveValues)
+        ])
+      )
+    }))
+  }
+  if (missing.length) {
+    throw new UnprocessableEntityError(`Model ${model.modelId} references unknown records`, missing)
+  }
+
+  return input
+}
+
+/**
+ * Seeds the tenant with a set's metadata and models in one transaction. Metadata is imported by key and models
+ * that already exist are skipped, so seeding the same set again changes nothing.
+ *
+ * With `dryRun` nothing is written; the metadata changes and the number of models to create are returned.
+ */
+export const seedDatabase = async (
+  db: Database,
+  { document, models }: SeedSet,
+  { dryRun = false }: SeedOptions = {}
+): Promise<SeedResult> =>
+  withTransaction(db, async (tx) => {
+    const metadata = await importMetadata(tx, document, { dryRun })
+    const modelRepository = new ModelRepository(tx)
+    const ids = dryRun ? undefined : await RecordIds.load(tx)
+
+    let created = 0
+    for (const model of models) {
+      if (await modelRepository.get(model.modelId)) {
+        continue
+      }
+      if (ids) {
+        await createModel(
+          tx,
+          resolveModelFixture(model, document, (recordType, key) => ids.get(recordType, key))
+        )
+      }
+      created++
+    }
+
+    return { dryRun, metadata, models: { created, existing: models.length - created } }
+  })
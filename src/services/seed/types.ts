@@ -0,0 +1,65 @@
+import type { JsonObject } from '../../db/repositories'
+import type { ImportResult, MetadataDocument } from '../transfer'
+
+// Models reference their categories, fields, domain values and tabular groups by key, like the metadata document
+
+/**
+ * A model's values in one category. Values are keyed by field key; values of domain fields are domain value keys,
+ * or arrays of them for fields with `multiple`.
+ */
+export interface ModelCategoryFixture {
+  category: string
+  values: JsonObject
+  // Rows keyed by tabular group key, each row's values keyed by field key
+  tabularGroups?: Record<string, JsonObject[]>
+}
+
+/**
+ * A model with a fixed id, so seeding it again finds it instead of creating a duplicate.
+ */
+export interface ModelFixture {
+  modelId: string
+  metadata: JsonObject | null
+  categories: ModelCategoryFixture[]
+}
+
+/**
+ * Everything a seed writes: the metadata graph and models valid against it.
+ */
+export interface SeedSet {
+  document: MetadataDocument
+  models: ModelFixture[]
+}
+
+/**
+ * A named set of fixtures that can be seeded by name.
+ */
+export interface FixtureSet extends SeedSet {
+  name: string
+  description: string
+}
+
+/**
+ * Scale of a generated seed set. The same options always generate the same set, and raising the number of
+ * categories or models per category keeps the ones generated for the lower number.
+ */
+export interface GeneratorOptions {
+  seed?: number
+  categories?: number
+  fieldsPerCategory?: number
+  domainValuesPerField?: number
+  conditionsPerCategory?: number
+  tabularGroupsPerCategory?: number
+  modelsPerCategory?: number
+}
+
+export interface SeedOptions {
+  dryRun?: boolean
+}
+
+export interface SeedResult {
+  dryRun: boolean
+  metadata: ImportResult
+  // Models created, or that would be created on a dry run, and models that already existed
+  models: { created: number; existing: number }
+}
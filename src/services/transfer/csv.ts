@@ -0,0 +1,107 @@
+import { BadRequestError, UnprocessableEntityError } from '@utils/errors'
+import type { DomainValueCsvRow, MetadataDocument } from './types'
+
+const CSV_COLUMNS: (keyof DomainValueCsvRow)[] = ['field', 'key', 'name']
+
+const quote = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+/**
+ * Lists the domain values of a document as CSV with a `field,key,name` header, fields and values in key order.
+ */
+export const toDomainValuesCsv = (document: MetadataDocument): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...document.fields.flatMap((field) =>
+      field.domainValues.map((value) => [field.key, value.key, value.name].map(quote).join(','))
+    )
+  ].join('\r\n') + '\r\n'
+
+/**
+ * Splits CSV text (RFC 4180: quoted values may contain commas, quotes and line breaks) into records.
+ */
+const parseCsv = (text: string): string[][] => {
+  const records: string[][] = []
+  let record: string[] = []
+  let value = ''
+  let quoted = false
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        value += '"'
+        index++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        value += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      record.push(value)
+      value = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index++
+      }
+      records.push([...record, value])
+      record = []
+      value = ''
+    } else {
+      value += char
+    }
+  }
+
+  if (quoted) {
+    throw new BadRequestError('Unterminated quoted value in CSV')
+  }
+  if (value !== '' || record.length > 0) {
+    records.push([...record, value])
+  }
+
+  return records.filter((columns) => columns.some((column) => column !== ''))
+}
+
+/**
+ * Parses domain values CSV with a `field,key,name` header, in any column order.
+ */
+export const parseDomainValuesCsv = (text: string): DomainValueCsvRow[] => {
+  const [header = [], ...records] = parseCsv(text)
+  const columns = CSV_COLUMNS.map((column) => header.indexOf(column))
+  if (columns.some((index) => index < 0)) {
+    throw new BadRequestError(`CSV header must contain the columns ${CSV_COLUMNS.join(', ')}`)
+  }
+
+  return records.map((record, index) => {
+    const [field, key, name] = columns.map((column) => record[column] ?? '')
+    if (!field || !key) {
+      throw new BadRequestError(`CSV row ${index + 2} has no field or key`)
+    }
+    return { field, key, name }
+  })
+}
+
+/**
+ * Adds the rows to the domain values of their fields in `document`, renaming values whose key exists.
+ */
+export const mergeDomainValues = (document: MetadataDocument, rows: DomainValueCsvRow[]): MetadataDocument => {
+  const unknown = [...new Set(rows.map((row) => row.field))].filter(
+    (key) => !document.fields.some((field) => field.key === key)
+  )
+  if (unknown.length > 0) {
+    throw new UnprocessableEntityError('The CSV references unknown fields', unknown)
+  }
+
+  return {
+    ...document,
+    fields: document.fields.map((field) => {
+      const domainValues = new Map(field.domainValues.map((value) => [value.key, value]))
+      rows
+        .filter((row) => row.field === field.key)
+        .forEach(({ key, name }) => domainValues.set(key, { ...domainValues.get(key), key, name }))
+
+      return { ...field, domainValues: [...domainValues.values()] }
+    })
+  }
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod'
+import { METADATA_DOCUMENT_FORMAT } from './types'
+import type { MetadataDocument } from './types'
+
+const keySchema = z.string().min(1).max(200)
+
+const jsonObjectSchema = z.record(z.unknown())
+
+/**
+ * Validates an imported metadata document. Optional lists and properties default to empty and null.
+ */
+export const metadataDocumentSchema: z.ZodType<MetadataDocument, z.ZodTypeDef, unknown> = z.object({
+  format: z.literal(METADATA_DOCUMENT_FORMAT),
+  fields: z
+    .array(
+      z.object({
+        key: keySchema,
+        datatype: z.string().min(1).nullable(),
+        metadata: jsonObjectSchema.nullable().default(null),
+        validation: jsonObjectSchema.nullable().default(null),
+        search: jsonObjectSchema.nullable().default(null),
+        domainValues: z
+          .array(
+            z.object({
+              key: keySchema,
+              name: z.string(),
+              labels: z.record(z.string().min(1), z.string()).optional(),
+              sortOrder: z.number().int().optional()
+            })
+          )
+          .default([])
+      })
+    )
+    .default([]),
+  tabularGroups: z
+    .array(
+      z.object({
+        key: keySchema,
+        fields: z.array(z.object({ field: keySchema, fieldOrder: z.number().int() }))
+      })
+    )
+    .default([]),
+  conditions: z
+    .array(
+      z.object({
+        key: keySchema,
+        domainValues: z.array(
+          z.object({
+            field: keySchema,
+            domainValue: keySchema,
+            conditionGroupId: z.string().uuid().nullable().default(null)
+          })
+        )
+      })
+    )
+    .default([]),
+  categories: z
+    .array(
+      z.object({
+        key: keySchema,
+        metadata: jsonObjectSchema.nullable().default(null),
+        fields: z.array(z.object({ field: keySchema, isRequired: z.boolean().default(false) })).default([]),
+        conditions: z.array(keySchema).default([]),
+        tabularGroups: z
+          .array(z.object({ tabularGroup: keySchema, validation: jsonObjectSchema.nullable().default(null) }))
+          .default([])
+      })
+    )
+    .default([])
+})
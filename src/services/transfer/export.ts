@@ -0,0 +1,125 @@
+import type { Database } from '../../db/database'
+import {
+  CategoryRepository,
+  ConditionRepository,
+  DomainValueRepository,
+  FieldRepository,
+  RecordKeyRepository,
+  TabularGroupRepository
+} from '../../db/repositories'
+import type { ListOptions, RecordKey } from '../../db/repositories'
+import { METADATA_DOCUMENT_FORMAT } from './types'
+import type { MetadataDocument } from './types'
+
+const PAGE_SIZE = 500
+
+const listAll = async <T>(list: (options: ListOptions) => Promise<T[]>): Promise<T[]> => {
+  const items: T[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await list({ limit: PAGE_SIZE, offset })
+    items.push(...page)
+    if (page.length < PAGE_SIZE) {
+      return items
+    }
+  }
+}
+
+const compareKeys = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0)
+
+const byKey =
+  <T>(key: (item: T) => string) =>
+  (a: T, b: T): number =>
+    compareKeys(key(a), key(b))
+
+/**
+ * Puts every list of a document in a stable order: records and links by key, tabular group fields by order.
+ */
+export const normalizeDocument = (document: MetadataDocument): MetadataDocument => ({
+  format: METADATA_DOCUMENT_FORMAT,
+  fields: document.fields
+    .map((field) => ({ ...field, domainValues: [...field.domainValues].sort(byKey((value) => value.key)) }))
+    .sort(byKey((field) => field.key)),
+  tabularGroups: document.tabularGroups
+    .map((group) => ({
+      ...group,
+      fields: [...group.fields].sort((a, b) => a.fieldOrder - b.fieldOrder || compareKeys(a.field, b.field))
+    }))
+    .sort(byKey((group) => group.key)),
+  conditions: document.conditions
+    .map((condition) => ({
+      ...condition,
+      domainValues: [...condition.domainValues].sort(byKey((value) => `${value.field}/${value.domainValue}`))
+    }))
+    .sort(byKey((condition) => condition.key)),
+  categories: document.categories
+    .map((category) => ({
+      ...category,
+      fields: [...category.fields].sort(byKey((field) => field.field)),
+      conditions: [...category.conditions].sort(compareKeys),
+      tabularGroups: [...category.tabularGroups].sort(byKey((group) => group.tabularGroup))
+    }))
+    .sort(byKey((category) => category.key))
+})
+
+/**
+ * Exports the tenant's categories, fields, domain values, conditions and tabular groups with their links,
+ * referencing records by key.
+ */
+export const exportMetadata = async (db: Database): Promise<MetadataDocument> => {
+  const records = new Map(
+    (await new RecordKeyRepository(db).list()).map((record): [string, RecordKey] => [record.recordId, record])
+  )
+  const keyOf = (recordId: string): string => (records.get(recordId) as RecordKey).key
+
+  const fieldRepository = new FieldRepository(db)
+  const conditionRepository = new ConditionRepository(db)
+  const tabularGroupRepository = new TabularGroupRepository(db)
+  const categoryRepository = new CategoryRepository(db)
+
+  const fields = await listAll((options) => fieldRepository.list(options))
+  const domainValues = await new DomainValueRepository(db).listByFields(fields.map((field) => field.fieldId))
+  const tabularGroups = await listAll((options) => tabularGroupRepository.list(options))
+  const conditions = await listAll((options) => conditionRepository.list(options))
+  const categories = await listAll((options) => categoryRepository.list(options))
+
+  return normalizeDocument({
+    format: METADATA_DOCUMENT_FORMAT,
+    fields: fields.map(({ fieldId, datatype, metadata, validation, search }) => ({
+      key: keyOf(fieldId),
+      datatype,
+      metadata,
+      validation,
+      search,
+      domainValues: domainValues
+        .filter((value) => value.fieldId === fieldId)
+        .map((value) => ({
+          key: keyOf(value.domainValueId),
+          name: value.name,
+          labels: value.labels,
+          sortOrder: value.sortOrder
+        }))
+    })),
+    tabularGroups: tabularGroups.map((group) => ({
+      key: keyOf(group.tabularGroupId),
+      fields: group.fields.map((field) => ({ field: keyOf(field.fieldId), fieldOrder: field.fieldOrder }))
+    })),
+    conditions: conditions.map((condition) => ({
+      key: keyOf(condition.conditionId),
+      domainValues: condition.domainValues.map((value) => ({
+        field: keyOf((records.get(value.domainValueId) as RecordKey).fieldId as string),
+        domainValue: keyOf(value.domainValueId),
+        conditionGroupId: value.conditionGroupId
+      }))
+    })),
+    categories: categories.map((category) => ({
+      key: keyOf(category.categoryId),
+      metadata: category.categoryMetadata,
+      fields: category.fields.map((field) => ({ field: keyOf(field.fieldId), isRequired: Boolean(field.isRequired) })),
+      conditions: category.conditions.map((condition) => keyOf(condition.conditionId)),
+      tabularGroups: category.tabularGroups.map((group) => ({
+        tabularGroup: keyOf(group.tabularGroupId),
+        validation: group.validation
+      }))
+    }))
+  })
+}
@@ -0,0 +1,383 @@
+import { randomUUID } from 'crypto'
+import { UnprocessableEntityError } from '@utils/errors'
+import { isEqualJson } from '@utils/json'
+import type { Database } from '../../db/database'
+import { withTransaction } from '../../db/database'
+import {
+  CategoryRepository,
+  ConditionRepository,
+  DomainValueRepository,
+  FieldRepository,
+  RecordKeyRepository,
+  TabularGroupRepository
+} from '../../db/repositories'
+import type { KeyedRecordType } from '../../db/repositories'
+import { applySnapshot } from '../audit'
+import { mergeDomainValues } from './csv'
+import { exportMetadata, normalizeDocument } from './export'
+import type {
+  CategoryDocument,
+  ConditionDocument,
+  DomainValueCsvRow,
+  DomainValueDocument,
+  FieldDocument,
+  ImportChange,
+  ImportOptions,
+  ImportResult,
+  MetadataDocument,
+  TabularGroupDocument
+} from './types'
+
+const FIELD_PROPERTIES = ['datatype', 'metadata', 'validation', 'search'] as const
+const DOMAIN_VALUE_PROPERTIES = ['name', 'labels', 'sortOrder'] as const
+const TABULAR_GROUP_PROPERTIES = ['fields'] as const
+const CONDITION_PROPERTIES = ['domainValues'] as const
+const CATEGORY_PROPERTIES = ['metadata', 'fields', 'conditions', 'tabularGroups'] as const
+
+export interface ImportPlan {
+  changes: ImportChange[]
+  unchanged: number
+}
+
+const indexByKey = <T extends { key: string }>(items: T[]): Map<string, T> =>
+  new Map(items.map((item): [string, T] => [item.key, item]))
+
+export const domainValueKey = (field: string, domainValue: string): string => `${field}/${domainValue}`
+
+/**
+ * Reports duplicate keys and references to records that neither the document nor the database has.
+ */
+const findProblems = (current: MetadataDocument, incoming: MetadataDocument): string[] => {
+  const problems: string[] = []
+  const checkUnique = (recordType: string, keys: string[]) => {
+    keys
+      .filter((key, index) => keys.indexOf(key) !== index)
+      .forEach((key) => problems.push(`Duplicate ${recordType} key ${key}`))
+  }
+
+  checkUnique(
+    'field',
+    incoming.fields.map((field) => field.key)
+  )
+  incoming.fields.forEach((field) =>
+    checkUnique(
+      'domain value',
+      field.domainValues.map((value) => domainValueKey(field.key, value.key))
+    )
+  )
+  checkUnique(
+    'tabular group',
+    incoming.tabularGroups.map((group) => group.key)
+  )
+  checkUnique(
+    'condition',
+    incoming.conditions.map((condition) => condition.key)
+  )
+  checkUnique(
+    'category',
+    incoming.categories.map((category) => category.key)
+  )
+
+  const both = [current, incoming]
+  const fields = new Set(both.flatMap((document) => document.fields.map((field) => field.key)))
+  const domainValues = new Set(
+    both.flatMap((document) =>
+      document.fields.flatMap((field) => field.domainValues.map((value) => domainValueKey(field.key, value.key)))
+    )
+  )
+  const tabularGroups = new Set(both.flatMap((document) => document.tabularGroups.map((group) => group.key)))
+  const conditions = new Set(both.flatMap((document) => document.conditions.map((condition) => condition.key)))
+
+  const checkReference = (known: Set<string>, recordType: string, key: string, from: string) => {
+    if (!known.has(key)) {
+      problems.push(`${from} references unknown ${recordType} ${key}`)
+    }
+  }
+
+  incoming.tabularGroups.forEach((group) =>
+    group.fields.forEach((field) => checkReference(fields, 'field', field.field, `Tabular group ${group.key}`))
+  )
+  incoming.conditions.forEach((condition) =>
+    condition.domainValues.forEach((value) =>
+      checkReference(
+        domainValues,
+        'domain value',
+        domainValueKey(value.field, value.domainValue),
+        `Condition ${condition.key}`
+      )
+    )
+  )
+  incoming.categories.forEach((category) => {
+    const from = `Category ${category.key}`
+    category.fields.forEach((field) => checkReference(fields, 'field', field.field, from))
+    category.conditions.forEach((condition) => checkReference(conditions, 'condition', condition, from))
+    category.tabularGroups.forEach((group) => checkReference(tabularGroups, 'tabular group', group.tabularGroup, from))
+  })
+
+  return problems
+}
+
+/**
+ * Compares the records of `incoming` with those of `current` by key. Records only in `current` are left alone,
+ * so they are not part of the plan. Changes are ordered so that records are created before they are referenced.
+ */
+export const planImport = (current: MetadataDocument, incoming: MetadataDocument): ImportPlan => {
+  const problems = findProblems(current, incoming)
+  if (problems.length > 0) {
+    throw new UnprocessableEntityError('The metadata document cannot be imported', problems)
+  }
+
+  const before = normalizeDocument(current)
+  const after = normalizeDocument(incoming)
+  const changes: ImportChange[] = []
+  let unchanged = 0
+
+  const compare = <T extends object>(
+    recordType: KeyedRecordType,
+    key: string,
+    existing: T | undefined,
+    record: T,
+    properties: readonly (keyof T & string)[]
+  ) => {
+    if (!existing) {
+      changes.push({ recordType, key, action: 'create' })
+      return
+    }
+
+    const changed = properties.filter((property) => !isEqualJson(existing[property], record[property]))
+    if (changed.length > 0) {
+      changes.push({ recordType, key, action: 'update', changed })
+    } else {
+      unchanged++
+    }
+  }
+
+  const fields = indexByKey(before.fields)
+  after.fields.forEach((field) => {
+    const existing = fields.get(field.key)
+    compare('field', field.key, existing, field, FIELD_PROPERTIES)
+
+    const domainValues = indexByKey(existing?.domainValues ?? [])
+    field.domainValues.forEach((value) => {
+      const current = domainValues.get(value.key)
+      // Documents may leave out labels, and values without a sort order keep theirs
+      const incoming = { ...value, labels: value.labels ?? {}, sortOrder: value.sortOrder ?? current?.sortOrder }
+      compare(
+        'domain_value',
+        domainValueKey(field.key, value.key),
+        current && { ...current, labels: current.labels ?? {} },
+        incoming,
+        DOMAIN_VALUE_PROPERTIES
+      )
+    })
+  })
+
+  const tabularGroups = indexByKey(before.tabularGroups)
+  after.tabularGroups.forEach((group) =>
+    compare('tabular_group', group.key, tabularGroups.get(group.key), group, TABULAR_GROUP_PROPERTIES)
+  )
+
+  const conditions = indexByKey(before.conditions)
+  after.conditions.forEach((condition) =>
+    compare('condition', condition.key, conditions.get(condition.key), condition, CONDITION_PROPERTIES)
+  )
+
+  const categories = indexByKey(before.categories)
+  after.categories.forEach((category) =>
+    compare('category', category.key, categories.get(category.key), category, CATEGORY_PROPERTIES)
+  )
+
+  return { changes, unchanged }
+}
+
+/**
+ * Resolves keys to the ids of the records they name, learning the ids of records as they are created.
+ */
+export class RecordIds {
+  private readonly ids = new Map<string, string>()
+
+  public static async load(db: Database): Promise<RecordIds> {
+    const recordIds = new RecordIds()
+    const keys = await new RecordKeyRepository(db).list()
+    const fieldKeys = new Map(
+      keys.filter((record) => record.recordType === 'field').map((record) => [record.recordId, record.key])
+    )
+    keys.forEach((record) =>
+      recordIds.set(
+        record.recordType,
+        record.recordType === 'domain_value'
+          ? domainValueKey(fieldKeys.get(record.fieldId as string) as string, record.key)
+          : record.key,
+        record.recordId
+      )
+    )
+
+    return recordIds
+  }
+
+  public set(recordType: KeyedRecordType, key: string, recordId: string): void {
+    this.ids.set(`${recordType}:${key}`, recordId)
+  }
+
+  public get(recordType: KeyedRecordType, key: string): string {
+    return this.ids.get(`${recordType}:${key}`) as string
+  }
+}
+
+interface IncomingDomainValue {
+  field: string
+  value: DomainValueDocument
+}
+
+const applyChanges = async (tx: Database, incoming: MetadataDocument, changes: ImportChange[]): Promise<void> => {
+  const ids = await RecordIds.load(tx)
+  const keys = new RecordKeyRepository(tx)
+  const fieldRepository = new FieldRepository(tx)
+  const domainValueRepository = new DomainValueRepository(tx)
+  const tabularGroupRepository = new TabularGroupRepository(tx)
+  const conditionRepository = new ConditionRepository(tx)
+  const categoryRepository = new CategoryRepository(tx)
+
+  const fields = indexByKey(incoming.fields)
+  const domainValues = new Map(
+    incoming.fields.flatMap((field) =>
+      field.domainValues.map((value): [string, IncomingDomainValue] => [
+        domainValueKey(field.key, value.key),
+        { field: field.key, value }
+      ])
+    )
+  )
+  const tabularGroups = indexByKey(incoming.tabularGroups)
+  const conditions = indexByKey(incoming.conditions)
+  const categories = indexByKey(incoming.categories)
+
+  const created = async (recordType: KeyedRecordType, key: string, recordId: string, recordKey = key) => {
+    await keys.setKey(recordType, recordId, recordKey)
+    ids.set(recordType, key, recordId)
+  }
+
+  const tabularGroupFields = (group: TabularGroupDocument) =>
+    group.fields.map((field) => ({ fieldId: ids.get('field', field.field), fieldOrder: field.fieldOrder }))
+
+  const conditionDomainValues = (condition: ConditionDocument) =>
+    condition.domainValues.map((value) => ({
+      domainValueId: ids.get('domain_value', domainValueKey(value.field, value.domainValue)),
+      conditionGroupId: value.conditionGroupId
+    }))
+
+  const categorySnapshot = (categoryId: string, category: CategoryDocument) => ({
+    categoryId,
+    metadata: category.metadata,
+    fields: category.fields.map((field) => ({ fieldId: ids.get('field', field.field), isRequired: field.isRequired })),
+    conditionIds: category.conditions.map((condition) => ids.get('condition', condition)),
+    tabularGroups: category.tabularGroups.map((group) => ({
+      tabularGroupId: ids.get('tabular_group', group.tabularGroup),
+      validation: group.validation
+    }))
+  })
+
+  for (const { recordType, key, action } of changes) {
+    switch (recordType) {
+      case 'field': {
+        const field = fields.get(key) as FieldDocument
+        // Fields created before datatypes were required have none
+        const input = {
+          datatype: field.datatype as string,
+          metadata: field.metadata,
+          validation: field.validation,
+          search: field.search
+        }
+        if (action === 'create') {
+          await created('field', key, (await fieldRepository.create(input)).fieldId)
+        } else {
+          await fieldRepository.update(ids.get('field', key), input)
+        }
+        break
+      }
+      case 'domain_value': {
+        const { field, value } = domainValues.get(key) as IncomingDomainValue
+        if (action === 'create') {
+          const { domainValueId } = await domainValueRepository.create({
+            fieldId: ids.get('field', field),
+            name: value.name,
+            labels: value.labels,
+            sortOrder: value.sortOrder
+          })
+          await created('domain_value', key, domainValueId, value.key)
+        } else {
+          await domainValueRepository.update(ids.get('domain_value', key), {
+            name: value.name,
+            labels: value.labels ?? {},
+            sortOrder: value.sortOrder
+          })
+        }
+        break
+      }
+      case 'tabular_group': {
+        const group = tabularGroups.get(key) as TabularGroupDocument
+        if (action === 'create') {
+          const { tabularGroupId } = await tabularGroupRepository.create({ fields: tabularGroupFields(group) })
+          await created('tabular_group', key, tabularGroupId)
+        } else {
+          await tabularGroupRepository.update(ids.get('tabular_group', key), tabularGroupFields(group))
+        }
+        break
+      }
+      case 'condition': {
+        const condition = conditions.get(key) as ConditionDocument
+        if (action === 'create') {
+          const { conditionId } = await conditionRepository.create({ domainValues: conditionDomainValues(condition) })
+          await created('condition', key, conditionId)
+        } else {
+          await conditionRepository.update(ids.get('condition', key), conditionDomainValues(condition))
+        }
+        break
+      }
+      case 'category': {
+        const categoryId = action === 'create' ? randomUUID() : ids.get('category', key)
+        const current = action === 'create' ? undefined : await categoryRepository.getSnapshot(categoryId)
+        await applySnapshot(
+          categoryRepository,
+          current,
+          categorySnapshot(categoryId, categories.get(key) as CategoryDocument)
+        )
+        if (action === 'create') {
+          await created('category', key, categoryId)
+        }
+        break
+      }
+    }
+  }
+}
+
+/**
+ * Imports a metadata document into the tenant, creating the records whose keys are new and updating those that
+ * differ. Records missing from the document are kept; the links of imported categories, conditions and tabular
+ * groups are replaced by the document's. Importing the same document twice changes nothing the second time.
+ *
+ * With `dryRun` the changes are only planned. Either way they are returned.
+ */
+export const importMetadata = async (
+  db: Database,
+  document: MetadataDocument,
+  { dryRun = false }: ImportOptions = {}
+): Promise<ImportResult> =>
+  withTransaction(db, async (tx) => {
+    const { changes, unchanged } = planImport(await exportMetadata(tx), document)
+    if (!dryRun) {
+      await applyChanges(tx, document, changes)
+    }
+
+    return { dryRun, changes, unchanged }
+  })
+
+/**
+ * Imports domain values parsed from CSV into the tenant's existing fields, as `importMetadata` would import the
+ * current document with the rows merged into it.
+ */
+export const importDomainValues = async (
+  db: Database,
+  rows: DomainValueCsvRow[],
+  options: ImportOptions = {}
+): Promise<ImportResult> =>
+  withTransaction(db, async (tx) => importMetadata(tx, mergeDomainValues(await exportMetadata(tx), rows), options))
@@ -0,0 +1,5 @@
+export * from './types'
+export * from './document-schema'
+export * from './export'
+export * from './import'
+export * from './csv'
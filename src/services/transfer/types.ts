@@ -0,0 +1,106 @@
+import type { DomainValueLabels, JsonObject, KeyedRecordType } from '../../db/repositories'
+
+export const METADATA_DOCUMENT_FORMAT = 'metadata/v1'
+
+// Records reference each other by key: `field`, `domainValue` (unique within its field), `tabularGroup`
+
+// Deprecation is not transferred; it is managed per environment
+export interface DomainValueDocument {
+  key: string
+  name: string
+  labels?: DomainValueLabels
+  // Values without one keep theirs, or go after the field's last value when created
+  sortOrder?: number
+}
+
+export interface FieldDocument {
+  key: string
+  datatype: string | null
+  metadata: JsonObject | null
+  validation: JsonObject | null
+  search: JsonObject | null
+  domainValues: DomainValueDocument[]
+}
+
+export interface TabularGroupFieldDocument {
+  field: string
+  fieldOrder: number
+}
+
+export interface TabularGroupDocument {
+  key: string
+  fields: TabularGroupFieldDocument[]
+}
+
+export interface ConditionDomainValueDocument {
+  field: string
+  domainValue: string
+  conditionGroupId: string | null
+}
+
+export interface ConditionDocument {
+  key: string
+  domainValues: ConditionDomainValueDocument[]
+}
+
+export interface CategoryFieldDocument {
+  field: string
+  isRequired: boolean
+}
+
+export interface CategoryTabularGroupDocument {
+  tabularGroup: string
+  validation: JsonObject | null
+}
+
+export interface CategoryDocument {
+  key: string
+  metadata: JsonObject | null
+  fields: CategoryFieldDocument[]
+  conditions: string[]
+  tabularGroups: CategoryTabularGroupDocument[]
+}
+
+/**
+ * The metadata graph of a tenant, with every reference expressed as a stable key.
+ */
+export interface MetadataDocument {
+  format: typeof METADATA_DOCUMENT_FORMAT
+  fields: FieldDocument[]
+  tabularGroups: TabularGroupDocument[]
+  conditions: ConditionDocument[]
+  categories: CategoryDocument[]
+}
+
+/**
+ * One row of the domain values CSV.
+ */
+export interface DomainValueCsvRow {
+  field: string
+  key: string
+  name: string
+}
+
+export type ImportAction = 'create' | 'update'
+
+/**
+ * A record an import creates or updates. Domain values are keyed `<field key>/<domain value key>`.
+ */
+export interface ImportChange {
+  recordType: KeyedRecordType
+  key: string
+  action: ImportAction
+  // The properties an update changes
+  changed?: string[]
+}
+
+export interface ImportOptions {
+  dryRun?: boolean
+}
+
+export interface ImportResult {
+  dryRun: boolean
+  changes: ImportChange[]
+  // Records of the document that already match
+  unchanged: number
+}
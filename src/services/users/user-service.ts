@@ -0,0 +1,34 @@
+import { AuthRoles } from '@utils/auth/types'
+import type { Database } from '../../db/database'
+import { withTransaction } from '../../db/database'
+import { TenantRepository, UserRepository } from '../../db/repositories'
+import type { User } from '../../db/repositories'
+
+export interface RegisterUserInput {
+  // Cognito `sub`
+  userId: string
+  email: string
+  // Defaults to the user's email
+  tenantName?: string
+}
+
+/**
+ * Creates a user who confirmed their sign-up, together with a tenant of their own in which they are admin.
+ * Registering an existing user again returns them unchanged, so retried triggers are harmless.
+ */
+export const registerUser = async (db: Database, input: RegisterUserInput): Promise<User> =>
+  withTransaction(db, async (tx) => {
+    const users = new UserRepository(tx)
+    const existing = await users.get(input.userId)
+    if (existing) {
+      return existing
+    }
+
+    const tenant = await new TenantRepository(tx).create({ name: input.tenantName ?? input.email })
+    return users.create({
+      userId: input.userId,
+      tenantId: tenant.tenantId,
+      email: input.email,
+      roles: [AuthRoles.ADMIN]
+    })
+  })
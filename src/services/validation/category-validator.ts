@@ -0,0 +1,221 @@
+import type { CategoryDefinition, CategoryTabularGroup, DomainValueDefinition, Field } from '../../db/repositories'
+import { ConditionEvaluator } from '../conditions'
+import type { ConditionSemantics } from '../conditions'
+import { compileFieldValidator } from './field-validator'
+import type { FieldValidator } from './field-validator'
+import type {
+  FieldValidationRules,
+  ModelRecord,
+  RecordValues,
+  TabularGroupValidationRules,
+  ValidationIssue,
+  ValidationResult
+} from './types'
+
+/**
+ * Everything needed to validate records of a category: the definition from metadata_view,
+ * the definitions of tabular group fields and the domain values of all those fields.
+ */
+export interface CategorySchema {
+  category: CategoryDefinition
+  fields: Field[]
+  domainValues: DomainValueDefinition[]
+}
+
+export interface CategoryValidatorOptions {
+  conditionSemantics?: Partial<ConditionSemantics>
+}
+
+interface CompiledTabularGroup {
+  tabularGroupId: string
+  rules: TabularGroupValidationRules
+  columns: FieldValidator[]
+}
+
+const groupDomainValues = (domainValues: DomainValueDefinition[]): Map<string, string[]> =>
+  domainValues.reduce((byField, value) => {
+    byField.set(value.fieldId, [...(byField.get(value.fieldId) ?? []), value.domainValueId])
+    return byField
+  }, new Map<string, string[]>())
+
+/**
+ * Validates model records against a category's fields, required flags and tabular groups.
+ * Compiles the rules once, so an instance can be cached and reused per category.
+ *
+ * Fields hidden by the category's conditions are not required, but values given for them are still checked.
+ */
+export class CategoryValidator {
+  public readonly categoryId: string
+  public readonly conditions: ConditionEvaluator
+  private readonly fields: Map<string, FieldValidator>
+  private readonly tabularGroups: Map<string, CompiledTabularGroup>
+
+  constructor({ category, fields, domainValues }: CategorySchema, options: CategoryValidatorOptions = {}) {
+    const valuesByField = groupDomainValues(domainValues)
+    const definitions = new Map<string, Field>([
+      ...fields.map((field): [string, Field] => [field.fieldId, field]),
+      ...category.fields.map((field): [string, Field] => [field.fieldId, field])
+    ])
+
+    this.categoryId = category.categoryId
+    this.conditions = new ConditionEvaluator(category, options.conditionSemantics)
+    this.fields = new Map(
+      category.fields.map((field) => [
+        field.fieldId,
+        compileFieldValidator(field, field.isRequired, valuesByField.get(field.fieldId))
+      ])
+    )
+    this.tabularGroups = new Map(
+      category.tabularGroups.map((group) => [
+        group.tabularGroupId,
+        this.compileTabularGroup(group, definitions, valuesByField)
+      ])
+    )
+  }
+
+  public validate(record: ModelRecord): ValidationResult {
+    const errors = [
+      ...this.validateValues(record.values ?? {}),
+      ...this.validateTabularGroups(record.tabularGroups ?? {})
+    ]
+    return { valid: errors.length === 0, errors }
+  }
+
+  private validateValues(values: RecordValues): ValidationIssue[] {
+    const errors: ValidationIssue[] = []
+
+    Object.keys(values)
+      .filter((fieldId) => !this.fields.has(fieldId))
+      .forEach((fieldId) =>
+        errors.push({
+          path: `values.${fieldId}`,
+          code: 'unknownField',
+          message: 'Field is not part of the category',
+          fieldId
+        })
+      )
+
+    const hidden = new Set(this.conditions.evaluate(values).hiddenFieldIds)
+    this.fields.forEach((field) =>
+      errors.push(
+        ...field.validate(
+          values[field.fieldId],
+          `values.${field.fieldId}`,
+          field.required && !hidden.has(field.fieldId)
+        )
+      )
+    )
+
+    return errors
+  }
+
+  private validateTabularGroups(tabularGroups: Record<string, RecordValues[]>): ValidationIssue[] {
+    const errors: ValidationIssue[] = []
+
+    Object.keys(tabularGroups)
+      .filter((tabularGroupId) => !this.tabularGroups.has(tabularGroupId))
+      .forEach((tabularGroupId) =>
+        errors.push({
+          path: `tabularGroups.${tabularGroupId}`,
+          code: 'unknownTabularGroup',
+          message: 'Tabular group is not part of the category',
+          tabularGroupId
+        })
+      )
+
+    this.tabularGroups.forEach((group) =>
+      errors.push(...this.validateRows(group, tabularGroups[group.tabularGroupId] ?? []))
+    )
+
+    return errors
+  }
+
+  private validateRows(group: CompiledTabularGroup, rows: RecordValues[]): ValidationIssue[] {
+    const { tabularGroupId, rules, columns } = group
+    const path = `tabularGroups.${tabularGroupId}`
+    const errors: ValidationIssue[] = []
+
+    if (!Array.isArray(rows)) {
+      return [{ path, code: 'type', message: 'Expected an array of rows', tabularGroupId }]
+    }
+    if (rules.minRows !== undefined && rows.length < rules.minRows) {
+      errors.push({ path, code: 'minRows', message: `Must contain at least ${rules.minRows} rows`, tabularGroupId })
+    }
+    if (rules.maxRows !== undefined && rows.length > rules.maxRows) {
+      errors.push({ path, code: 'maxRows', message: `Must contain at most ${rules.maxRows} rows`, tabularGroupId })
+    }
+
+    const columnIds = new Set(columns.map((column) => column.fieldId))
+    const seen = new Map<string, number>()
+
+    rows.forEach((row, index) => {
+      const rowPath = `${path}[${index}]`
+      const located = { tabularGroupId, row: index }
+
+      if (row === null || typeof row !== 'object' || Array.isArray(row)) {
+        errors.push({ path: rowPath, code: 'type', message: 'Expected a row object', ...located })
+        return
+      }
+
+      Object.keys(row)
+        .filter((fieldId) => !columnIds.has(fieldId))
+        .forEach((fieldId) =>
+          errors.push({
+            path: `${rowPath}.${fieldId}`,
+            code: 'unknownField',
+            message: 'Field is not part of the tabular group',
+            fieldId,
+            ...located
+          })
+        )
+
+      columns.forEach((column) =>
+        column
+          .validate(row[column.fieldId], `${rowPath}.${column.fieldId}`)
+          .forEach((issue) => errors.push({ ...issue, ...located }))
+      )
+
+      if (rules.unique && rules.unique.length > 0) {
+        const key = JSON.stringify(rules.unique.map((fieldId) => row[fieldId] ?? null))
+        const first = seen.get(key)
+        if (first === undefined) {
+          seen.set(key, index)
+        } else {
+          errors.push({
+            path: rowPath,
+            code: 'unique',
+            message: `Duplicates row ${first} on ${rules.unique.join(', ')}`,
+            ...located
+          })
+        }
+      }
+    })
+
+    return errors
+  }
+
+  private compileTabularGroup(
+    group: CategoryTabularGroup,
+    definitions: Map<string, Field>,
+    valuesByField: Map<string, string[]>
+  ): CompiledTabularGroup {
+    const columns = [...group.fields]
+      .sort((a, b) => a.fieldOrder - b.fieldOrder)
+      .map(({ fieldId }) => {
+        const field = definitions.get(fieldId)
+        if (!field) {
+          throw new Error(`Field ${fieldId} of tabular group ${group.tabularGroupId} not found`)
+        }
+
+        // Cells have no category_field row, so requiredness comes from the field's own rules
+        const required = (field.validation as FieldValidationRules | null)?.required === true
+        return compileFieldValidator(field, required, valuesByField.get(fieldId))
+      })
+
+    return {
+      tabularGroupId: group.tabularGroupId,
+      rules: (group.validation ?? {}) as TabularGroupValidationRules,
+      columns
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import type { Field } from '../../db/repositories'
+import type { CategorySchema } from './category-validator'
+import type { ModelRecord, ValidationIssue } from './types'
+
+/**
+ * A domain value chosen in a record, located like a validation issue.
+ */
+export type DomainValueUse = Omit<ValidationIssue, 'code' | 'message'> & { fieldId: string; domainValueId: string }
+
+// Items of multiple values are located like the validator locates them
+const valuesOf = (value: unknown, path: string): [string, string][] =>
+  (Array.isArray(value)
+    ? value.map((item, index): [unknown, string] => [item, `${path}[${index}]`])
+    : [[value, path]]
+  ).filter((entry): entry is [string, string] => typeof entry[0] === 'string')
+
+/**
+ * Lists the domain values a record uses in the domain fields of the category and of its tabular groups.
+ * Values of other datatypes and malformed values are the validator's concern and left out.
+ */
+export const listDomainValueUses = ({ category, fields }: CategorySchema, record: ModelRecord): DomainValueUse[] => {
+  const isDomain = (field: Field | undefined) => field?.datatype === 'domain'
+  const definitions = new Map<string, Field>([
+    ...fields.map((field): [string, Field] => [field.fieldId, field]),
+    ...category.fields.map((field): [string, Field] => [field.fieldId, field])
+  ])
+  const uses: DomainValueUse[] = []
+
+  category.fields
+    .filter(isDomain)
+    .forEach(({ fieldId }) =>
+      valuesOf(record.values?.[fieldId], `values.${fieldId}`).forEach(([domainValueId, path]) =>
+        uses.push({ path, fieldId, domainValueId })
+      )
+    )
+
+  category.tabularGroups.forEach(({ tabularGroupId, fields: columns }) => {
+    const rows = record.tabularGroups?.[tabularGroupId]
+    if (!Array.isArray(rows)) {
+      return
+    }
+
+    const domainColumns = columns.filter((column) => isDomain(definitions.get(column.fieldId)))
+    rows.forEach((row, index) =>
+      domainColumns.forEach(({ fieldId }) =>
+        valuesOf(
+          (row as Record<string, unknown> | null)?.[fieldId],
+          `tabularGroups.${tabularGroupId}[${index}].${fieldId}`
+        ).forEach(([domainValueId, path]) =>
+          uses.push({
+            path,
+            fieldId,
+            domainValueId,
+            tabularGroupId,
+            row: index
+          })
+        )
+      )
+    )
+  })
+
+  return uses
+}
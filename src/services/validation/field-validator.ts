@@ -0,0 +1,182 @@
+import type { Field } from '../../db/repositories'
+import type { FieldDatatype, FieldValidationRules, ValidationIssue, ValidationIssueCode } from './types'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/
+
+const DATATYPES: FieldDatatype[] = ['text', 'number', 'integer', 'boolean', 'date', 'datetime', 'domain', 'json']
+
+type Issue = Pick<ValidationIssue, 'code' | 'message'>
+
+export interface FieldValidator {
+  fieldId: string
+  datatype: FieldDatatype
+  required: boolean
+  // `required` overrides the compiled requiredness, e.g. for fields hidden by conditions
+  validate(value: unknown, path: string, required?: boolean): ValidationIssue[]
+}
+
+export const isEmptyValue = (value: unknown): boolean =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)
+
+const toDatatype = (datatype: string | null): FieldDatatype => {
+  const normalized = (datatype ?? '').toLowerCase() as FieldDatatype
+  return DATATYPES.includes(normalized) ? normalized : 'json'
+}
+
+const isValidDate = (value: string): boolean => !Number.isNaN(Date.parse(value))
+
+const matchesDatatype = (datatype: FieldDatatype, value: unknown): boolean => {
+  switch (datatype) {
+    case 'text':
+    case 'domain':
+      return typeof value === 'string'
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+    case 'integer':
+      return Number.isInteger(value)
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value) && isValidDate(value)
+    case 'datetime':
+      return typeof value === 'string' && DATETIME_PATTERN.test(value) && isValidDate(value)
+    default:
+      return true
+  }
+}
+
+/**
+ * Converts a value or range bound to a comparable number, or undefined when ranges do not apply to the datatype.
+ */
+const toComparable = (datatype: FieldDatatype, value: unknown): number | undefined => {
+  if (datatype === 'number' || datatype === 'integer') {
+    return typeof value === 'number' ? value : undefined
+  }
+  if (datatype === 'date' || datatype === 'datetime') {
+    return typeof value === 'string' && isValidDate(value) ? Date.parse(value) : undefined
+  }
+
+  return undefined
+}
+
+const assertRules = (field: Field, datatype: FieldDatatype, rules: FieldValidationRules): void => {
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid validation for field ${field.fieldId}: ${reason}`)
+  }
+
+  for (const key of ['min', 'max'] as const) {
+    if (rules[key] !== undefined && toComparable(datatype, rules[key]) === undefined) {
+      fail(`${key} is not a valid bound for datatype ${datatype}`)
+    }
+  }
+  for (const key of ['minLength', 'maxLength', 'minItems', 'maxItems'] as const) {
+    if (rules[key] !== undefined && !(Number.isInteger(rules[key]) && (rules[key] as number) >= 0)) {
+      fail(`${key} must be a non-negative integer`)
+    }
+  }
+  if (rules.allowedValues !== undefined && !Array.isArray(rules.allowedValues)) {
+    fail('allowedValues must be an array')
+  }
+}
+
+/**
+ * Compiles a field definition into a reusable validator.
+ * `domainValueIds` are the ids of the field's domain values and are only used by domain fields.
+ *
+ * Throws when the field's validation rules are malformed, so bad metadata surfaces when
+ * the category is loaded rather than being silently ignored.
+ */
+export const compileFieldValidator = (
+  field: Field,
+  required: boolean,
+  domainValueIds: string[] = []
+): FieldValidator => {
+  const datatype = toDatatype(field.datatype)
+  const rules = (field.validation ?? {}) as FieldValidationRules
+  assertRules(field, datatype, rules)
+
+  let pattern: RegExp | undefined
+  try {
+    pattern = rules.pattern === undefined ? undefined : new RegExp(rules.pattern, 'u')
+  } catch (error) {
+    throw new Error(`Invalid validation for field ${field.fieldId}: ${(error as Error).message}`)
+  }
+
+  const allowed = new Set(
+    rules.allowedValues ? domainValueIds.filter((id) => rules.allowedValues?.includes(id)) : domainValueIds
+  )
+  const min = toComparable(datatype, rules.min)
+  const max = toComparable(datatype, rules.max)
+
+  const checkItem = (value: unknown): Issue[] => {
+    if (!matchesDatatype(datatype, value)) {
+      return [{ code: 'type', message: `Expected a value of type ${datatype}` }]
+    }
+
+    const issues: Issue[] = []
+    const comparable = toComparable(datatype, value)
+    if (comparable !== undefined && min !== undefined && comparable < min) {
+      issues.push({ code: 'min', message: `Must be greater than or equal to ${rules.min}` })
+    }
+    if (comparable !== undefined && max !== undefined && comparable > max) {
+      issues.push({ code: 'max', message: `Must be less than or equal to ${rules.max}` })
+    }
+
+    if (typeof value === 'string' && datatype === 'text') {
+      // Count code points rather than UTF-16 units
+      const length = [...value].length
+      if (rules.minLength !== undefined && length < rules.minLength) {
+        issues.push({ code: 'minLength', message: `Must be at least ${rules.minLength} characters long` })
+      }
+      if (rules.maxLength !== undefined && length > rules.maxLength) {
+        issues.push({ code: 'maxLength', message: `Must be at most ${rules.maxLength} characters long` })
+      }
+      if (pattern && !pattern.test(value)) {
+        issues.push({ code: 'pattern', message: `Must match pattern ${rules.pattern}` })
+      }
+    }
+
+    if (datatype === 'domain' && !allowed.has(value as string)) {
+      issues.push({ code: 'domain', message: 'Must be one of the allowed domain values' })
+    }
+
+    return issues
+  }
+
+  const validate = (value: unknown, path: string, isRequired = required): ValidationIssue[] => {
+    const issue = (code: ValidationIssueCode, message: string, itemPath = path): ValidationIssue => ({
+      path: itemPath,
+      code,
+      message,
+      fieldId: field.fieldId
+    })
+
+    if (isEmptyValue(value)) {
+      return isRequired ? [issue('required', 'Value is required')] : []
+    }
+
+    if (!rules.multiple) {
+      return checkItem(value).map(({ code, message }) => issue(code, message))
+    }
+
+    if (!Array.isArray(value)) {
+      return [issue('type', `Expected an array of ${datatype} values`)]
+    }
+
+    const issues: ValidationIssue[] = []
+    if (rules.minItems !== undefined && value.length < rules.minItems) {
+      issues.push(issue('minItems', `Must contain at least ${rules.minItems} values`))
+    }
+    if (rules.maxItems !== undefined && value.length > rules.maxItems) {
+      issues.push(issue('maxItems', `Must contain at most ${rules.maxItems} values`))
+    }
+    value.forEach((item, index) => {
+      checkItem(item).forEach(({ code, message }) => issues.push(issue(code, message, `${path}[${index}]`)))
+    })
+
+    return issues
+  }
+
+  return { fieldId: field.fieldId, datatype, required, validate }
+}
@@ -0,0 +1,5 @@
+export * from './types'
+export * from './field-validator'
+export * from './category-validator'
+export * from './load'
+export * from './domain-value-uses'
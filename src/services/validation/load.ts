@@ -0,0 +1,41 @@
+import type { Database } from '../../db/database'
+import { CategoryRepository, DomainValueRepository, FieldRepository } from '../../db/repositories'
+import { CategoryValidator } from './category-validator'
+import type { CategorySchema, CategoryValidatorOptions } from './category-validator'
+
+/**
+ * Loads a category from metadata_view together with the field definitions and domain values its validator needs.
+ * Resolves to undefined when the category does not exist.
+ */
+export const loadCategorySchema = async (db: Database, categoryId: string): Promise<CategorySchema | undefined> => {
+  const category = await new CategoryRepository(db).get(categoryId)
+  if (!category) {
+    return undefined
+  }
+
+  const categoryFieldIds = new Set(category.fields.map((field) => field.fieldId))
+  const tabularFieldIds = [
+    ...new Set(category.tabularGroups.flatMap((group) => group.fields.map((field) => field.fieldId)))
+  ].filter((fieldId) => !categoryFieldIds.has(fieldId))
+
+  const fields = tabularFieldIds.length > 0 ? await new FieldRepository(db).getMany(tabularFieldIds) : []
+  const domainValues = await new DomainValueRepository(db).listByFields([
+    ...categoryFieldIds,
+    ...fields.map((field) => field.fieldId)
+  ])
+
+  return {
+    category,
+    fields,
+    domainValues: domainValues.map(({ domainValueId, fieldId, name }) => ({ domainValueId, fieldId, name }))
+  }
+}
+
+export const loadCategoryValidator = async (
+  db: Database,
+  categoryId: string,
+  options: CategoryValidatorOptions = {}
+): Promise<CategoryValidator | undefined> => {
+  const schema = await loadCategorySchema(db, categoryId)
+  return schema && new CategoryValidator(schema, options)
+}
@@ -0,0 +1,76 @@
+/**
+ * Datatypes understood by the validator. Fields with any other datatype accept any JSON value.
+ */
+export type FieldDatatype = 'text' | 'number' | 'integer' | 'boolean' | 'date' | 'datetime' | 'domain' | 'json'
+
+/**
+ * Shape of `field.validation`. Every rule is optional.
+ */
+export interface FieldValidationRules {
+  // Inclusive bounds: numbers for number/integer fields, ISO strings for date/datetime fields
+  min?: number | string
+  max?: number | string
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  // Subset of the field's domain value ids that may be used
+  allowedValues?: string[]
+  // The value is an array of values of the field's datatype
+  multiple?: boolean
+  minItems?: number
+  maxItems?: number
+  // Applies to tabular group cells, which have no category_field.is_required
+  required?: boolean
+}
+
+/**
+ * Shape of `category_tabular_group.validation`.
+ */
+export interface TabularGroupValidationRules {
+  minRows?: number
+  maxRows?: number
+  // Fields whose combined values must be unique across rows
+  unique?: string[]
+}
+
+export type ValidationIssueCode =
+  | 'required'
+  | 'type'
+  | 'min'
+  | 'max'
+  | 'minLength'
+  | 'maxLength'
+  | 'pattern'
+  | 'domain'
+  | 'deprecated'
+  | 'minItems'
+  | 'maxItems'
+  | 'unknownField'
+  | 'unknownTabularGroup'
+  | 'minRows'
+  | 'maxRows'
+  | 'unique'
+
+export interface ValidationIssue {
+  path: string
+  code: ValidationIssueCode
+  message: string
+  fieldId?: string
+  tabularGroupId?: string
+  row?: number
+}
+
+export interface ValidationResult {
+  valid: boolean
+  errors: ValidationIssue[]
+}
+
+export type RecordValues = Record<string, unknown>
+
+/**
+ * A submitted model record: values keyed by field id, and rows of each tabular group keyed by its id.
+ */
+export interface ModelRecord {
+  values: RecordValues
+  tabularGroups?: Record<string, RecordValues[]>
+}
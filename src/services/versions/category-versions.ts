@@ -0,0 +1,132 @@
+import { NotFoundError } from '@utils/errors'
+import type { Database } from '../../db/database'
+import { withTransaction } from '../../db/database'
+import { CategoryVersionRepository } from '../../db/repositories'
+import type { CategoryVersion, CategoryVersionDefinition } from '../../db/repositories'
+import { loadCategorySchema } from '../validation'
+import type { CategorySchema } from '../validation'
+import { diffCategoryDefinitions, normalizeDefinition } from './diff'
+import type { CategoryChange } from './diff'
+
+/**
+ * A published version number, or `draft` for the category's current, editable definition.
+ */
+export type CategoryVersionRef = number | 'draft'
+
+export interface PublishResult {
+  version: CategoryVersion
+  // false when the draft matched the latest version, which is returned instead
+  published: boolean
+}
+
+export interface CategoryDiff {
+  from: CategoryVersionRef
+  to: CategoryVersionRef
+  changes: CategoryChange[]
+}
+
+/**
+ * A category's validator schema together with the version it came from, null for the draft.
+ */
+export interface ResolvedCategorySchema {
+  categoryVersion: number | null
+  schema: CategorySchema
+}
+
+const loadDraft = async (db: Database, categoryId: string): Promise<CategoryVersionDefinition> => {
+  const schema = await loadCategorySchema(db, categoryId)
+  if (!schema) {
+    throw new NotFoundError(`Category ${categoryId} not found`)
+  }
+
+  return normalizeDefinition(schema)
+}
+
+const loadDefinition = async (
+  db: Database,
+  categoryId: string,
+  ref: CategoryVersionRef
+): Promise<CategoryVersionDefinition> => {
+  if (ref === 'draft') {
+    return loadDraft(db, categoryId)
+  }
+
+  const version = await new CategoryVersionRepository(db).get(categoryId, ref)
+  if (!version) {
+    throw new NotFoundError(`Version ${ref} of category ${categoryId} not found`)
+  }
+
+  return version.definition
+}
+
+/**
+ * Publishes the category's draft as its next version. Publishing a draft that matches the latest version
+ * returns that version instead of numbering a copy.
+ */
+export const publishCategory = async (db: Database, categoryId: string): Promise<PublishResult> =>
+  withTransaction(db, async (tx) => {
+    const versions = new CategoryVersionRepository(tx)
+    const draft = await loadDraft(tx, categoryId)
+
+    const latest = await versions.getLatest(categoryId)
+    if (latest && diffCategoryDefinitions(latest.definition, draft).length === 0) {
+      return { version: latest, published: false }
+    }
+
+    return { version: await versions.create(categoryId, draft), published: true }
+  })
+
+export const getCategoryVersion = async (
+  db: Database,
+  categoryId: string,
+  version: number
+): Promise<CategoryVersion> => {
+  const categoryVersion = await new CategoryVersionRepository(db).get(categoryId, version)
+  if (!categoryVersion) {
+    throw new NotFoundError(`Version ${version} of category ${categoryId} not found`)
+  }
+
+  return categoryVersion
+}
+
+/**
+ * Compares two versions of a category, either of which may be the draft.
+ */
+export const diffCategoryVersions = async (
+  db: Database,
+  categoryId: string,
+  from: CategoryVersionRef,
+  to: CategoryVersionRef
+): Promise<CategoryDiff> => {
+  const [before, after] = await Promise.all([loadDefinition(db, categoryId, from), loadDefinition(db, categoryId, to)])
+
+  return { from, to, changes: diffCategoryDefinitions(before, after) }
+}
+
+/**
+ * Picks the schema a record is validated against and pinned to: the requested version, else the latest
+ * published one, else the draft of a category that was never published. Resolves to undefined when the
+ * category does not exist.
+ */
+export const resolveCategorySchema = async (
+  db: Database,
+  categoryId: string,
+  version?: number
+): Promise<ResolvedCategorySchema | undefined> => {
+  const versions = new CategoryVersionRepository(db)
+  if (version !== undefined) {
+    const requested = await versions.get(categoryId, version)
+    if (!requested) {
+      throw new NotFoundError(`Version ${version} of category ${categoryId} not found`)
+    }
+    return { categoryVersion: requested.version, schema: requested.definition }
+  }
+
+  const latest = await versions.getLatest(categoryId)
+  if (latest) {
+    return { categoryVersion: latest.version, schema: latest.definition }
+  }
+
+  const schema = await loadCategorySchema(db, categoryId)
+  return schema && { categoryVersion: null, schema }
+}
@@ -0,0 +1,87 @@
+import { isEqualJson } from '@utils/json'
+import type { CategoryVersionDefinition } from '../../db/repositories'
+
+export type CategoryChangeKind = 'added' | 'removed' | 'changed'
+
+/**
+ * One difference between two category definitions. `path` names the part that differs: `metadata`,
+ * `fields/{fieldId}`, `conditions/{conditionId}`, `tabularGroups/{tabularGroupId}`,
+ * `tabularGroupFields/{fieldId}` (fields used only in tabular groups) or `domainValues/{domainValueId}`.
+ */
+export interface CategoryChange {
+  path: string
+  kind: CategoryChangeKind
+  before?: unknown
+  after?: unknown
+}
+
+const byKey =
+  <T>(key: (item: T) => string) =>
+  (a: T, b: T): number =>
+    key(a).localeCompare(key(b))
+
+/**
+ * Puts every list of a definition in a stable order, so equal definitions serialize equally.
+ */
+export const normalizeDefinition = ({
+  category,
+  fields,
+  domainValues
+}: CategoryVersionDefinition): CategoryVersionDefinition => ({
+  category: {
+    ...category,
+    fields: [...category.fields].sort(byKey((field) => field.fieldId)),
+    conditions: category.conditions
+      .map((condition) => ({
+        ...condition,
+        domainValues: [...condition.domainValues].sort(byKey((value) => value.domainValueId))
+      }))
+      .sort(byKey((condition) => condition.conditionId)),
+    tabularGroups: category.tabularGroups
+      .map((group) => ({
+        ...group,
+        fields: [...group.fields].sort((a, b) => a.fieldOrder - b.fieldOrder || a.fieldId.localeCompare(b.fieldId))
+      }))
+      .sort(byKey((group) => group.tabularGroupId))
+  },
+  fields: [...fields].sort(byKey((field) => field.fieldId)),
+  domainValues: [...domainValues].sort(byKey((value) => value.domainValueId))
+})
+
+const toEntries = ({ category, fields, domainValues }: CategoryVersionDefinition): Map<string, unknown> =>
+  new Map<string, unknown>([
+    ['metadata', category.categoryMetadata],
+    ...category.fields.map((field): [string, unknown] => [`fields/${field.fieldId}`, field]),
+    ...category.conditions.map((condition): [string, unknown] => [`conditions/${condition.conditionId}`, condition]),
+    ...category.tabularGroups.map((group): [string, unknown] => [`tabularGroups/${group.tabularGroupId}`, group]),
+    ...fields.map((field): [string, unknown] => [`tabularGroupFields/${field.fieldId}`, field]),
+    ...domainValues.map((value): [string, unknown] => [`domainValues/${value.domainValueId}`, value])
+  ])
+
+/**
+ * Lists what changed from one category definition to another. Lists are compared by the ids of their items,
+ * in any order.
+ */
+export const diffCategoryDefinitions = (
+  from: CategoryVersionDefinition,
+  to: CategoryVersionDefinition
+): CategoryChange[] => {
+  const before = toEntries(normalizeDefinition(from))
+  const after = toEntries(normalizeDefinition(to))
+
+  const changes: CategoryChange[] = []
+  before.forEach((value, path) => {
+    if (!after.has(path)) {
+      changes.push({ path, kind: 'removed', before: value })
+    } else if (!isEqualJson(value, after.get(path))) {
+      changes.push({ path, kind: 'changed', before: value, after: after.get(path) })
+    }
+  })
+  after.forEach((value, path) => {
+    if (!before.has(path)) {
+      changes.push({ path, kind: 'added', after: value })
+    }
+  })
+
+  return changes
+}
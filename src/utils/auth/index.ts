@@ -0,0 +1,44 @@
+import type { APIGatewayProxyEvent } from 'aws-lambda'
+import type { ContextContainer } from '../context-container'
+import { ForbiddenError, UnauthorizedError } from '../errors'
+import { AuthRoles } from './types'
+
+// Everyone may read; editors change models; only admins change the category metadata
+export const READ_ROLES = [AuthRoles.ADMIN, AuthRoles.EDITOR, AuthRoles.VIEWER]
+export const EDIT_ROLES = [AuthRoles.ADMIN, AuthRoles.EDITOR]
+export const ADMIN_ROLES = [AuthRoles.ADMIN]
+
+/**
+ * Reads the caller's roles from the authorizer claims: `custom:roles` (comma separated) and `cognito:groups`.
+ */
+export const getRoles = (event: APIGatewayProxyEvent): AuthRoles[] | undefined => {
+  const claims = event.requestContext?.authorizer?.claims
+  if (!claims) {
+    return undefined
+  }
+
+  const values = [claims['custom:roles'], claims['cognito:groups']]
+    .filter((value): value is string => typeof value === 'string')
+    .flatMap((value) => value.split(/[,\s]+/))
+
+  return values.filter((value): value is AuthRoles => Object.values<string>(AuthRoles).includes(value))
+}
+
+/**
+ * Throws unless the caller is authenticated and has at least one of `roles`.
+ */
+export const checkAccess = async (
+  context: ContextContainer,
+  event: APIGatewayProxyEvent,
+  roles: AuthRoles[]
+): Promise<void> => {
+  const callerRoles = getRoles(event)
+  if (!callerRoles) {
+    throw new UnauthorizedError()
+  }
+
+  if (!roles.some((role) => callerRoles.includes(role))) {
+    context.logger.warn('Access denied', { data: { required: roles, actual: callerRoles } })
+    throw new ForbiddenError()
+  }
+}
@@ -0,0 +1,5 @@
+export enum AuthRoles {
+  ADMIN = 'admin',
+  EDITOR = 'editor',
+  VIEWER = 'viewer'
+}
@@ -0,0 +1,45 @@
+/**
+ * A map of at most `maxEntries` entries that evicts the least recently used one when full. Held in module scope,
+ * it survives warm invocations of a Lambda container.
+ */
+export class LruCache<TKey, TValue> {
+  private readonly maxEntries: number
+  // Iterates in insertion order, so the first key is the least recently used
+  private readonly entries = new Map<TKey, TValue>()
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries
+  }
+
+  public get size(): number {
+    return this.entries.size
+  }
+
+  public get(key: TKey): TValue | undefined {
+    if (!this.entries.has(key)) {
+      return undefined
+    }
+
+    const value = this.entries.get(key) as TValue
+    this.entries.delete(key)
+    this.entries.set(key, value)
+    return value
+  }
+
+  public set(key: TKey, value: TValue): void {
+    this.entries.delete(key)
+    this.entries.set(key, value)
+
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as TKey)
+    }
+  }
+
+  public delete(key: TKey): boolean {
+    return this.entries.delete(key)
+  }
+
+  public clear(): void {
+    this.entries.clear()
+  }
+}
@@ -0,0 +1,54 @@
+import type { APIGatewayProxyEvent, Context } from 'aws-lambda'
+import { Logger } from '../logger'
+
+/**
+ * Who and what the current invocation is about. Populated from the Lambda context and the triggering event.
+ */
+export interface RequestContext {
+  requestId: string
+  functionName?: string
+  method?: string
+  path?: string
+  userId?: string
+  tenantId?: string
+}
+
+export interface ContextContainer {
+  logger: Logger
+  requestContext: RequestContext
+}
+
+export const createContextContainer = (
+  lambdaContext?: Context,
+  request: Partial<RequestContext> = {}
+): ContextContainer => {
+  const requestContext: RequestContext = {
+    requestId: lambdaContext?.awsRequestId ?? 'local',
+    functionName: lambdaContext?.functionName,
+    ...request
+  }
+
+  return {
+    logger: new Logger({ requestContext }),
+    requestContext
+  }
+}
+
+export const apiRequestContext = (event: APIGatewayProxyEvent): Partial<RequestContext> => ({
+  method: event.httpMethod,
+  path: event.path,
+  userId: event.requestContext?.authorizer?.claims?.sub,
+  // Injected into the token by the pre token generation trigger
+  tenantId: event.requestContext?.authorizer?.claims?.['custom:tenant_id']
+})
+
+// The part common to every Cognito user pool trigger event
+export interface CognitoTriggerEvent {
+  triggerSource: string
+  userName: string
+  request: { userAttributes?: Record<string, string> }
+}
+
+export const cognitoRequestContext = (event: CognitoTriggerEvent): Partial<RequestContext> => ({
+  userId: event.request.userAttributes?.sub ?? event.userName
+})
@@ -0,0 +1,58 @@
+import { StatusCodes } from 'http-status-codes'
+
+/**
+ * An error that maps to an HTTP response. `details` is returned to the client as-is.
+ */
+export class HttpError extends Error {
+  readonly statusCode: number
+  readonly details?: unknown
+
+  constructor(statusCode: number, message: string, details?: unknown) {
+    super(message)
+    this.name = new.target.name
+    this.statusCode = statusCode
+    this.details = details
+  }
+}
+
+export class BadRequestError extends HttpError {
+  constructor(message = 'Bad request', details?: unknown) {
+    super(StatusCodes.BAD_REQUEST, message, details)
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = 'Unauthorized', details?: unknown) {
+    super(StatusCodes.UNAUTHORIZED, message, details)
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message = 'Forbidden', details?: unknown) {
+    super(StatusCodes.FORBIDDEN, message, details)
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = 'Not found', details?: unknown) {
+    super(StatusCodes.NOT_FOUND, message, details)
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message = 'Conflict', details?: unknown) {
+    super(StatusCodes.CONFLICT, message, details)
+  }
+}
+
+export class UnsupportedMediaTypeError extends HttpError {
+  constructor(message = 'Unsupported media type', details?: unknown) {
+    super(StatusCodes.UNSUPPORTED_MEDIA_TYPE, message, details)
+  }
+}
+
+export class UnprocessableEntityError extends HttpError {
+  constructor(message = 'Unprocessable entity', details?: unknown) {
+    super(StatusCodes.UNPROCESSABLE_ENTITY, message, details)
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Serializes JSON with object keys sorted, so equal values serialize equally regardless of key order.
+ * Properties holding `undefined` are left out, as `JSON.stringify` does.
+ */
+export const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+export const isEqualJson = (a: unknown, b: unknown): boolean => stableStringify(a) === stableStringify(b)
@@ -0,0 +1,54 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda'
+import { StatusCodes } from 'http-status-codes'
+import { ZodError } from 'zod'
+import type { ContextContainer } from '../context-container'
+import { HttpError } from '../errors'
+import type { ErrorBody } from '../response'
+import { formatResponse } from '../response'
+
+// Postgres errors caused by the request rather than by the service
+const PG_ERROR_STATUS_CODES: Record<string, number> = {
+  '23505': StatusCodes.CONFLICT, // unique_violation
+  '23503': StatusCodes.CONFLICT, // foreign_key_violation
+  '23514': StatusCodes.UNPROCESSABLE_ENTITY, // check_violation, e.g. using a deprecated domain value
+  '22P02': StatusCodes.BAD_REQUEST, // invalid_text_representation
+  '42501': StatusCodes.FORBIDDEN // insufficient_privilege, e.g. writing rows of another tenant
+}
+
+const pgErrorCode = (error: Error): string | undefined => {
+  const code = (error as Error & { code?: unknown }).code
+  return typeof code === 'string' ? code : undefined
+}
+
+/**
+ * Converts an error thrown while handling an API request into an error response.
+ * Unexpected errors are logged and reported without internal details.
+ */
+export const handleError = (
+  context: ContextContainer,
+  error: Error,
+  event: APIGatewayProxyEvent
+): APIGatewayProxyResult => {
+  const { requestId } = context.requestContext
+  const respond = (statusCode: number, message: string, details?: unknown) =>
+    formatResponse<ErrorBody>({ statusCode, body: { error: { message, details, requestId } } })
+
+  if (error instanceof HttpError) {
+    context.logger.warn('Request failed', { error, data: { statusCode: error.statusCode } })
+    return respond(error.statusCode, error.message, error.details)
+  }
+
+  if (error instanceof ZodError) {
+    return respond(StatusCodes.BAD_REQUEST, 'Request validation failed', error.issues)
+  }
+
+  const pgStatusCode = PG_ERROR_STATUS_CODES[pgErrorCode(error) ?? '']
+  if (pgStatusCode) {
+    context.logger.warn('Request rejected by the database', { error })
+    const { detail } = error as Error & { detail?: string }
+    return respond(pgStatusCode, detail ?? error.message)
+  }
+
+  context.logger.error('Unhandled error', { error, data: { method: event.httpMethod, path: event.path } })
+  return respond(StatusCodes.INTERNAL_SERVER_ERROR, 'Internal server error')
+}
@@ -0,0 +1,40 @@
+import type { APIGatewayProxyEventHeaders } from 'aws-lambda'
+import type { ContextContainer } from '../context-container'
+import { BadRequestError, UnsupportedMediaTypeError } from '../errors'
+
+const contentType = (headers: APIGatewayProxyEventHeaders): string | undefined => {
+  const name = Object.keys(headers ?? {}).find((header) => header.toLowerCase() === 'content-type')
+  return name ? headers[name] : undefined
+}
+
+/**
+ * Parses a JSON request body into an object. A missing content type is treated as JSON.
+ */
+export const parseJSONBody = (
+  context: ContextContainer,
+  body: string | null,
+  headers: APIGatewayProxyEventHeaders
+): Record<string, unknown> => {
+  if (!body) {
+    return {}
+  }
+
+  const type = contentType(headers)
+  if (type && !type.toLowerCase().startsWith('application/json')) {
+    throw new UnsupportedMediaTypeError(`Expected application/json but received ${type}`)
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(body)
+  } catch (error) {
+    context.logger.warn('Request body is not valid JSON', { error })
+    throw new BadRequestError('Request body is not valid JSON')
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new BadRequestError('Request body must be a JSON object')
+  }
+
+  return parsed as Record<string, unknown>
+}
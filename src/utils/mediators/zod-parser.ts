@@ -0,0 +1,30 @@
+import type { ZodSchema } from 'zod'
+import type { APIGatewayProxyEvent } from 'aws-lambda'
+import type { ContextContainer } from '../context-container'
+
+export type APIGatewayParsedEvent = Omit<APIGatewayProxyEvent, 'body'> & {
+  body: Record<string, unknown>
+}
+
+/**
+ * Validates path parameters, query string and body of an event against `schema`.
+ * Missing parameter maps are passed as empty objects. Throws a `ZodError` when validation fails.
+ */
+export const zodParser = <TSchema>(
+  context: ContextContainer,
+  schema: ZodSchema,
+  event: APIGatewayParsedEvent
+): TSchema => {
+  const result = schema.safeParse({
+    ...event,
+    pathParameters: event.pathParameters ?? {},
+    queryStringParameters: event.queryStringParameters ?? {}
+  })
+
+  if (!result.success) {
+    context.logger.warn('Request validation failed', { data: { issues: result.error.issues } })
+    throw result.error
+  }
+
+  return result.data as TSchema
+}
@@ -0,0 +1,28 @@
+export type MetricUnit = 'Count' | 'Milliseconds' | 'Seconds' | 'Percent' | 'Bytes' | 'None'
+
+export interface MetricValue {
+  value: number
+  unit: MetricUnit
+}
+
+/**
+ * Formats metrics in the CloudWatch embedded metric format: logged as attributes of a JSON log entry, they are
+ * extracted into `namespace` without any API call. The metrics have no dimensions.
+ */
+export const embeddedMetrics = (
+  namespace: string,
+  metrics: Record<string, MetricValue>,
+  timestamp: Date = new Date()
+): Record<string, unknown> => ({
+  _aws: {
+    Timestamp: timestamp.getTime(),
+    CloudWatchMetrics: [
+      {
+        Namespace: namespace,
+        Dimensions: [[]],
+        Metrics: Object.entries(metrics).map(([name, { unit }]) => ({ Name: name, Unit: unit }))
+      }
+    ]
+  },
+  ...Object.fromEntries(Object.entries(metrics).map(([name, { value }]) => [name, value]))
+})
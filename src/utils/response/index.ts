@@ -0,0 +1,59 @@
+import type { APIGatewayProxyEventHeaders, APIGatewayProxyResult } from 'aws-lambda'
+import { StatusCodes } from 'http-status-codes'
+
+export interface Input<TBody> {
+  statusCode: number
+  body?: TBody
+  headers?: Record<string, string>
+}
+
+// Envelopes shared by every API response
+export interface SuccessBody<TData> {
+  data: TData
+}
+
+export interface ErrorBody {
+  error: {
+    message: string
+    details?: unknown
+    requestId?: string
+  }
+}
+
+const DEFAULT_HEADERS = {
+  'Content-Type': 'application/json'
+}
+
+export const formatResponse = <TBody>({ statusCode, body, headers }: Input<TBody>): APIGatewayProxyResult => {
+  if (statusCode === StatusCodes.NO_CONTENT || body === undefined) {
+    return { statusCode, headers: { ...headers }, body: '' }
+  }
+
+  return {
+    statusCode,
+    headers: { ...DEFAULT_HEADERS, ...headers },
+    body: JSON.stringify(body)
+  }
+}
+
+/**
+ * A strong entity tag for a version of a resource.
+ */
+export const entityTag = (version: string): string => `"${version}"`
+
+/**
+ * Whether the request's `If-None-Match` header lists `etag`, weakly compared, or is `*`: the client's copy is
+ * then current and a 304 can be sent instead of the resource.
+ */
+export const isNotModified = (headers: APIGatewayProxyEventHeaders | null, etag: string): boolean => {
+  const name = Object.keys(headers ?? {}).find((header) => header.toLowerCase() === 'if-none-match')
+  const value = name ? headers?.[name] : undefined
+  if (!value) {
+    return false
+  }
+
+  return value
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag)
+}
@@ -0,0 +1,123 @@
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as ec2 from 'aws-cdk-lib/aws-ec2';
+import * as lambda from 'aws-cdk-lib/aws-lambda';
+import { AuroraServerlessDatabase, AuroraServerlessDatabaseProps } from '../lib/constructs';
+
+const setup = (props: Partial<AuroraServerlessDatabaseProps> = {}) => {
+  const stack = new cdk.Stack();
+  const vpc = new ec2.Vpc(stack, 'Vpc', {
+    natGateways: 0,
+    subnetConfiguration: [
+      { name: 'Isolated', subnetType: ec2.SubnetType.PRIVATE_ISOLATED },
+      { name: 'Public', subnetType: ec2.SubnetType.PUBLIC },
+    ],
+  });
+  const database = new AuroraServerlessDatabase(stack, 'Database', { vpc, ...props });
+  const createFunction = (id: string, inVpc: boolean) =>
+    new lambda.Function(stack, id, {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'index.handler',
+      code: lambda.Code.fromInline('exports.handler = async () => {}'),
+      ...(inVpc ? database.lambdaNetworking : {}),
+    });
+
+  return { stack, database, createFunction };
+};
+
+describe('AuroraServerlessDatabase', () => {
+  test('wires environment, secret access and ingress for functions in the VPC', () => {
+    const { stack, database, createFunction } = setup({ defaultDatabaseName: 'app' });
+    database.grantConnect(createFunction('Fn', true));
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: {
+          DB_BACKEND: 'pg',
+          DB_SECRET_ARN: { Ref: Match.stringLikeRegexp('^DatabaseSecretAttachment') },
+          DB_HOST: { 'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseCluster'), 'Endpoint.Address'] },
+          DB_NAME: 'app',
+          DB_SSL_MODE: 'verify-full',
+        },
+      },
+    });
+    template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+      GroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseSecurityGroup'), 'GroupId'] },
+      SourceSecurityGroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseClientSecurityGroup'), 'GroupId'] },
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({ Action: ['secretsmanager:GetSecretValue', 'secretsmanager:DescribeSecret'] }),
+        ]),
+      },
+    });
+  });
+
+  test('enables the Data API and grants it to functions outside the VPC', () => {
+    const { stack, database, createFunction } = setup({ enableDataApi: true });
+    database.grantConnect(createFunction('Fn', false));
+    database.grantConnect(createFunction('VpcFn', true));
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::RDS::DBCluster', { EnableHttpEndpoint: true });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      VpcConfig: Match.absent(),
+      Environment: {
+        Variables: {
+          DB_BACKEND: 'data-api',
+          DB_SECRET_ARN: Match.anyValue(),
+          DB_NAME: 'postgres',
+          DB_CLUSTER_ARN: Match.anyValue(),
+        },
+      },
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([Match.objectLike({ Action: Match.arrayWith(['rds-data:ExecuteStatement']) })]),
+      },
+    });
+    // Functions in the VPC keep connecting over TCP
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      VpcConfig: Match.anyValue(),
+      Environment: { Variables: Match.objectLike({ DB_BACKEND: 'pg' }) },
+    });
+    template.resourceCountIs('AWS::EC2::SecurityGroupIngress', 1);
+  });
+
+  test('adds rotation and routes functions through the proxy', () => {
+    const { stack, database, createFunction } = setup({
+      rotation: cdk.Duration.days(30),
+      enableProxy: true,
+      secretsManagerEndpoint: true,
+    });
+    database.grantConnect(createFunction('Fn', true));
+    const template = Template.fromStack(stack);
+
+    template.hasResourceProperties('AWS::SecretsManager::RotationSchedule', {
+      RotationRules: { ScheduleExpression: 'rate(30 days)' },
+    });
+    template.resourceCountIs('AWS::EC2::VPCEndpoint', 1);
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: Match.objectLike({
+          DB_HOST: { 'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseClusterProxy'), 'Endpoint'] },
+          DB_SSL_CA_PATH: '',
+        }),
+      },
+    });
+  });
+
+  test('refuses functions that cannot reach the database', () => {
+    const privateDatabase = setup();
+    expect(() => privateDatabase.database.grantConnect(privateDatabase.createFunction('Fn', false))).toThrow(
+      'cannot reach a private cluster without the Data API',
+    );
+
+    const proxied = setup({ enableProxy: true, publiclyAccessible: true });
+    expect(() => proxied.database.grantConnect(proxied.createFunction('Fn', false))).toThrow(
+      'must run in the VPC to connect through the RDS Proxy',
+    );
+  });
+});
@@ -0,0 +1,263 @@
+import type { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import { z } from 'zod';
+import { checkAccess, getRoles, READ_ROLES } from '../src/utils/auth';
+import { AuthRoles } from '../src/utils/auth/types';
+import { apiRequestContext, createContextContainer } from '../src/utils/context-container';
+import { BadRequestError, ForbiddenError, NotFoundError, UnauthorizedError } from '../src/utils/errors';
+import { Logger, registerSecret } from '../src/utils/logger';
+import { handleError } from '../src/utils/mediators/error-handler';
+import { parseJSONBody } from '../src/utils/mediators/json-body-parser';
+import { zodParser } from '../src/utils/mediators/zod-parser';
+import type { APIGatewayParsedEvent } from '../src/utils/mediators/zod-parser';
+import { entityTag, formatResponse, isNotModified } from '../src/utils/response';
+
+const lambdaContext = { awsRequestId: 'request-1', functionName: 'Categories' } as Context;
+
+const event = (claims?: Record<string, string>) =>
+  ({
+    httpMethod: 'GET',
+    path: '/categories',
+    headers: {},
+    requestContext: { authorizer: claims && { claims } },
+  }) as unknown as APIGatewayProxyEvent;
+
+const pgError = (code: string, detail?: string) => Object.assign(new Error(`pg ${code}`), { code, detail });
+
+// The entries written to `console[method]`, parsed
+const logged = (method: 'log' | 'warn' | 'error') =>
+  jest.mocked(console[method]).mock.calls.map(([line]) => JSON.parse(line as string));
+
+let context = createContextContainer(lambdaContext);
+
+beforeEach(() => {
+  (['log', 'warn', 'error'] as const).forEach((level) =>
+    jest.spyOn(console, level).mockImplementation(() => undefined),
+  );
+  context = createContextContainer(lambdaContext);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('handleError', () => {
+  const respond = (error: Error) => {
+    const response = handleError(context, error, event());
+    return { statusCode: response.statusCode, error: JSON.parse(response.body).error };
+  };
+
+  test('answers HTTP errors with their status, message and details', () => {
+    expect(respond(new NotFoundError('Category 1 not found', { categoryId: '1' }))).toEqual({
+      statusCode: 404,
+      error: { message: 'Category 1 not found', details: { categoryId: '1' }, requestId: 'request-1' },
+    });
+  });
+
+  test('answers validation errors with the issues', () => {
+    const { error } = z.object({ name: z.string() }).safeParse({}) as { error: Error };
+
+    expect(respond(error)).toEqual({
+      statusCode: 400,
+      error: {
+        message: 'Request validation failed',
+        details: [expect.objectContaining({ path: ['name'] })],
+        requestId: 'request-1',
+      },
+    });
+  });
+
+  test.each([
+    ['23505', 409],
+    ['23503', 409],
+    ['23514', 422],
+    ['22P02', 400],
+    ['42501', 403],
+  ])('answers database error %s with %s and its detail', (code, statusCode) => {
+    expect(respond(pgError(code, 'Key (key)=(red) already exists.'))).toEqual({
+      statusCode,
+      error: { message: 'Key (key)=(red) already exists.', requestId: 'request-1' },
+    });
+  });
+
+  test('hides the details of unexpected errors', () => {
+    expect(respond(pgError('53200', 'out of memory'))).toEqual({
+      statusCode: 500,
+      error: { message: 'Internal server error', requestId: 'request-1' },
+    });
+    expect(logged('error')).toEqual([
+      expect.objectContaining({ message: 'Unhandled error', data: { method: 'GET', path: '/categories' } }),
+    ]);
+  });
+});
+
+describe('parseJSONBody', () => {
+  test('parses JSON object bodies, with or without a content type', () => {
+    const headers = { 'content-type': 'application/json; charset=utf-8' };
+
+    expect(parseJSONBody(context, '{"name":"Shirts"}', headers)).toEqual({ name: 'Shirts' });
+    expect(parseJSONBody(context, '{"name":"Shirts"}', {})).toEqual({ name: 'Shirts' });
+    expect(parseJSONBody(context, null, {})).toEqual({});
+  });
+
+  test.each([
+    ['malformed JSON', '{"name":', {}, 'Request body is not valid JSON'],
+    ['an array', '[]', {}, 'Request body must be a JSON object'],
+    ['null', 'null', {}, 'Request body must be a JSON object'],
+  ])('rejects %s', (_, body, headers, message) => {
+    expect(() => parseJSONBody(context, body, headers)).toThrow(new BadRequestError(message));
+  });
+
+  test('rejects other content types', () => {
+    expect(() => parseJSONBody(context, 'name=Shirts', { 'Content-Type': 'text/plain' })).toThrow(
+      expect.objectContaining({ statusCode: 415, message: 'Expected application/json but received text/plain' }),
+    );
+  });
+});
+
+describe('zodParser', () => {
+  const schema = z.object({
+    pathParameters: z.object({ id: z.string() }).partial(),
+    queryStringParameters: z.object({ limit: z.coerce.number().optional() }),
+    body: z.object({ name: z.string() }),
+  });
+
+  test('passes missing parameter maps as empty objects', () => {
+    const parsed = zodParser(context, schema, {
+      ...event(),
+      pathParameters: null,
+      queryStringParameters: null,
+      body: { name: 'Shirts' },
+    } as APIGatewayParsedEvent);
+
+    expect(parsed).toEqual({ pathParameters: {}, queryStringParameters: {}, body: { name: 'Shirts' } });
+  });
+
+  test('throws the validation error and logs its issues', () => {
+    expect(() =>
+      zodParser(context, schema, { ...event(), queryStringParameters: { limit: 'ten' }, body: {} }),
+    ).toThrow(z.ZodError);
+    expect(logged('warn')[0]).toMatchObject({
+      message: 'Request validation failed',
+      data: { issues: [expect.objectContaining({ path: ['queryStringParameters', 'limit'] }), expect.anything()] },
+    });
+  });
+});
+
+describe('formatResponse', () => {
+  test('serializes the body as JSON', () => {
+    expect(formatResponse({ statusCode: 200, body: { data: [] }, headers: { ETag: '"1"' } })).toEqual({
+      statusCode: 200,
+      headers: { 'Content-Type': 'application/json', ETag: '"1"' },
+      body: '{"data":[]}',
+    });
+  });
+
+  test('sends no body or content type with 204 or without a body', () => {
+    expect(formatResponse({ statusCode: 204, body: { data: [] } })).toEqual({ statusCode: 204, headers: {}, body: '' });
+    expect(formatResponse({ statusCode: 304, headers: { ETag: '"1"' } })).toEqual({
+      statusCode: 304,
+      headers: { ETag: '"1"' },
+      body: '',
+    });
+  });
+
+  test('matches If-None-Match weakly, in a list or as a wildcard', () => {
+    const etag = entityTag('42');
+
+    expect(etag).toBe('"42"');
+    expect(isNotModified({ 'If-None-Match': '"41", W/"42"' }, etag)).toBe(true);
+    expect(isNotModified({ 'if-none-match': '*' }, etag)).toBe(true);
+    expect(isNotModified({ 'if-none-match': '"41"' }, etag)).toBe(false);
+    expect(isNotModified(null, etag)).toBe(false);
+  });
+});
+
+describe('Logger', () => {
+  test('writes one JSON entry per line with the attributes of the logger and of the entry', () => {
+    new Logger({ functionName: 'Categories' }).child({ requestId: 'request-1' }).warn('Slow query', { ms: 1200n });
+
+    expect(logged('warn')).toEqual([
+      {
+        level: 'warn',
+        message: 'Slow query',
+        timestamp: expect.any(String),
+        functionName: 'Categories',
+        requestId: 'request-1',
+        ms: '1200',
+      },
+    ]);
+  });
+
+  test('skips entries below its level', () => {
+    const logger = new Logger({}, 'warn');
+
+    logger.info('Started');
+    logger.error('Failed');
+
+    expect(logged('log')).toEqual([]);
+    expect(logged('error')).toHaveLength(1);
+  });
+
+  test('logs the message and stack of errors', () => {
+    new Logger().error('Failed', { error: new Error('boom') });
+
+    expect(logged('error')[0].error).toMatchObject({ name: 'Error', message: 'boom', stack: expect.any(String) });
+  });
+
+  test('redacts secret keys, registered secrets and connection string passwords', () => {
+    registerSecret('s3cr3t-password');
+
+    new Logger().info('Connecting', {
+      secretArn: 'arn:aws:secretsmanager:secret:db',
+      data: { password: 'hunter2', id_token: 'eyJ', url: 'postgres://app:hunter2@db:5432/app' },
+      error: new Error('password authentication failed for s3cr3t-password'),
+    });
+
+    const [entry] = logged('log');
+    expect(entry.secretArn).toBe('arn:aws:secretsmanager:secret:db');
+    expect(entry.data).toEqual({
+      password: '[REDACTED]',
+      id_token: '[REDACTED]',
+      url: 'postgres://app:[REDACTED]@db:5432/app',
+    });
+    expect(entry.error.message).toBe('password authentication failed for [REDACTED]');
+  });
+});
+
+describe('context container', () => {
+  test('describes the invocation and the caller of an API request', () => {
+    const container = createContextContainer(
+      lambdaContext,
+      apiRequestContext(event({ sub: 'user-1', 'custom:tenant_id': 'tenant-1' })),
+    );
+
+    expect(container.requestContext).toEqual({
+      requestId: 'request-1',
+      functionName: 'Categories',
+      method: 'GET',
+      path: '/categories',
+      userId: 'user-1',
+      tenantId: 'tenant-1',
+    });
+  });
+
+  test('falls back to a local request id outside Lambda', () => {
+    expect(createContextContainer().requestContext).toEqual({ requestId: 'local', functionName: undefined });
+  });
+});
+
+describe('checkAccess', () => {
+  test('reads the roles from custom:roles and the Cognito groups', () => {
+    expect(getRoles(event({ 'custom:roles': 'editor, unknown', 'cognito:groups': 'viewer' }))).toEqual([
+      AuthRoles.EDITOR,
+      AuthRoles.VIEWER,
+    ]);
+    expect(getRoles(event())).toBeUndefined();
+  });
+
+  test('rejects anonymous callers and callers without a required role', async () => {
+    await expect(checkAccess(context, event(), READ_ROLES)).rejects.toThrow(UnauthorizedError);
+    await expect(checkAccess(context, event({ sub: 'user-1' }), READ_ROLES)).rejects.toThrow(ForbiddenError);
+    await expect(checkAccess(context, event({ 'custom:roles': 'viewer' }), READ_ROLES)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+import type { Database } from '../src/db/database';
+import { readCategoryDefinition } from '../src/services/definitions';
+import type { CachedCategoryDefinition } from '../src/services/definitions';
+import { LruCache } from '../src/utils/cache';
+import { entityTag, isNotModified } from '../src/utils/response';
+
+const CATEGORY_ID = '0b9f3c4e-2d1a-4f6b-8c7d-5e4f3a2b1c0d';
+
+const definition = (name: string) => ({
+  category_id: CATEGORY_ID,
+  category_metadata: { name },
+  model_ids: null,
+  fields: null,
+  conditions: null,
+  tabulargroups: null,
+});
+
+/**
+ * A database holding one category document at `state.version`, answering like `getVersioned`'s query.
+ */
+const fakeDatabase = (state: { version: string; name: string } | undefined) => {
+  const query = jest.fn(async (_text: string, values?: unknown[]) => {
+    if (!state) {
+      return { rows: [] };
+    }
+    const [, knownVersion] = values as [string, string | null];
+
+    return {
+      rows: [{ version: state.version, definition: knownVersion === state.version ? null : definition(state.name) }],
+    };
+  });
+
+  return { db: { query } as unknown as Database, query };
+};
+
+describe('LruCache', () => {
+  test('evicts the least recently used entry', () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect([cache.get('a'), cache.get('b'), cache.get('c'), cache.size]).toEqual([1, undefined, 3, 2]);
+  });
+});
+
+describe('readCategoryDefinition', () => {
+  test('reads a definition once per version', async () => {
+    const cache = new LruCache<string, CachedCategoryDefinition>(10);
+    const state = { version: '7', name: 'Shirts' };
+    const { db, query } = fakeDatabase(state);
+
+    const first = await readCategoryDefinition(db, CATEGORY_ID, cache);
+    const second = await readCategoryDefinition(db, CATEGORY_ID, cache);
+    Object.assign(state, { version: '9', name: 'Formal shirts' });
+    const third = await readCategoryDefinition(db, CATEGORY_ID, cache);
+
+    expect(first).toMatchObject({
+      version: '7',
+      definition: { categoryId: CATEGORY_ID, categoryMetadata: { name: 'Shirts' } },
+    });
+    expect(second).toBe(first);
+    expect(third).toMatchObject({ version: '9', definition: { categoryMetadata: { name: 'Formal shirts' } } });
+    expect(query.mock.calls.map(([, values]) => values)).toEqual([
+      [CATEGORY_ID, null],
+      [CATEGORY_ID, '7'],
+      [CATEGORY_ID, '7'],
+    ]);
+  });
+
+  test('forgets categories the database does not return', async () => {
+    const cache = new LruCache<string, CachedCategoryDefinition>(10);
+    await readCategoryDefinition(fakeDatabase({ version: '7', name: 'Shirts' }).db, CATEGORY_ID, cache);
+
+    expect(await readCategoryDefinition(fakeDatabase(undefined).db, CATEGORY_ID, cache)).toBeUndefined();
+    expect(cache.size).toBe(0);
+  });
+});
+
+describe('isNotModified', () => {
+  const etag = entityTag('42');
+
+  test.each([
+    [{ 'If-None-Match': '"42"' }, true],
+    [{ 'if-none-match': '"41", W/"42"' }, true],
+    [{ 'If-None-Match': '*' }, true],
+    [{ 'If-None-Match': '"41"' }, false],
+    [{}, false],
+  ])('%j', (headers, expected) => {
+    expect(isNotModified(headers, etag)).toBe(expected);
+  });
+});
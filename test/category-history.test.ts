@@ -0,0 +1,85 @@
+import type { AuditEntry, CategorySnapshot } from '../src/db/repositories';
+import { undoCategoryEntry } from '../src/services/audit';
+
+const CATEGORY_ID = '00000000-0000-4000-8000-0000000000ff';
+const FIELD_ID = '00000000-0000-4000-8000-000000000001';
+const CONDITION_ID = '00000000-0000-4000-8000-0000000000c1';
+const TABULAR_GROUP_ID = '00000000-0000-4000-8000-0000000000a1';
+
+let auditId = 0;
+
+const entry = (table: string, before: AuditEntry['before'], after: AuditEntry['after']): AuditEntry => ({
+  auditId: String(++auditId),
+  recordType: 'category',
+  recordId: CATEGORY_ID,
+  table,
+  operation: before ? (after ? 'UPDATE' : 'DELETE') : 'INSERT',
+  before,
+  after,
+  actorId: 'user',
+  requestId: 'request',
+  changedAt: new Date(0),
+});
+
+const snapshot: CategorySnapshot = {
+  categoryId: CATEGORY_ID,
+  metadata: { name: 'Current' },
+  fields: [{ fieldId: FIELD_ID, isRequired: true }],
+  conditionIds: [],
+  tabularGroups: [],
+};
+
+describe('undoCategoryEntry', () => {
+  test('restores the previous metadata and link rows', () => {
+    const undone = [
+      entry(
+        'category_field',
+        { category_id: CATEGORY_ID, field_id: FIELD_ID, is_required: false },
+        { category_id: CATEGORY_ID, field_id: FIELD_ID, is_required: true },
+      ),
+      entry('category_condition', { category_id: CATEGORY_ID, condition_id: CONDITION_ID }, null),
+      entry(
+        'category_tabular_group',
+        { category_id: CATEGORY_ID, tabular_id: TABULAR_GROUP_ID, validation: null },
+        null,
+      ),
+      entry(
+        'category',
+        { id: CATEGORY_ID, metadata: { name: 'Previous' } },
+        { id: CATEGORY_ID, metadata: { name: 'Current' } },
+      ),
+    ]
+      .reverse()
+      .reduce(undoCategoryEntry, snapshot);
+
+    expect(undone).toEqual({
+      categoryId: CATEGORY_ID,
+      metadata: { name: 'Previous' },
+      fields: [{ fieldId: FIELD_ID, isRequired: false }],
+      conditionIds: [CONDITION_ID],
+      tabularGroups: [{ tabularGroupId: TABULAR_GROUP_ID, validation: null }],
+    });
+  });
+
+  test('removes links that were added and the category when it was created', () => {
+    const entries = [
+      entry('category', null, { id: CATEGORY_ID, metadata: { name: 'Current' } }),
+      entry('category_field', null, { category_id: CATEGORY_ID, field_id: FIELD_ID, is_required: true }),
+    ];
+
+    expect(undoCategoryEntry(snapshot, entries[1])).toEqual({ ...snapshot, fields: [] });
+    expect(entries.reverse().reduce(undoCategoryEntry, snapshot)).toBeUndefined();
+  });
+
+  test('brings back a deleted category with its links', () => {
+    const entries = [
+      entry('category_field', { category_id: CATEGORY_ID, field_id: FIELD_ID, is_required: true }, null),
+      entry('category', { id: CATEGORY_ID, metadata: { name: 'Deleted' } }, null),
+    ];
+
+    expect(entries.reverse().reduce(undoCategoryEntry, undefined)).toEqual({
+      ...snapshot,
+      metadata: { name: 'Deleted' },
+    });
+  });
+});
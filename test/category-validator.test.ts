@@ -0,0 +1,167 @@
+import { CategoryValidator } from '../src/services/validation';
+import type { CategorySchema } from '../src/services/validation';
+
+const NAME = '00000000-0000-4000-8000-000000000001';
+const PRICE = '00000000-0000-4000-8000-000000000002';
+const COLOR = '00000000-0000-4000-8000-000000000003';
+const TAGS = '00000000-0000-4000-8000-000000000004';
+const SIZE = '00000000-0000-4000-8000-000000000005';
+const QUANTITY = '00000000-0000-4000-8000-000000000006';
+const VARIANTS = '00000000-0000-4000-8000-000000000007';
+const RED = '00000000-0000-4000-8000-00000000000a';
+const BLUE = '00000000-0000-4000-8000-00000000000b';
+const GREEN = '00000000-0000-4000-8000-00000000000c';
+
+const schema: CategorySchema = {
+  category: {
+    categoryId: '00000000-0000-4000-8000-0000000000ff',
+    categoryMetadata: null,
+    fields: [
+      {
+        fieldId: NAME,
+        datatype: 'text',
+        metadata: null,
+        validation: { minLength: 2, maxLength: 10, pattern: '^[A-Z]' },
+        search: null,
+        isRequired: true,
+      },
+      {
+        fieldId: PRICE,
+        datatype: 'number',
+        metadata: null,
+        validation: { min: 0, max: 100 },
+        search: null,
+        isRequired: false,
+      },
+      {
+        fieldId: COLOR,
+        datatype: 'domain',
+        metadata: null,
+        validation: { allowedValues: [RED, BLUE] },
+        search: null,
+        isRequired: false,
+      },
+      {
+        fieldId: TAGS,
+        datatype: 'text',
+        metadata: null,
+        validation: { multiple: true, maxItems: 2 },
+        search: null,
+        isRequired: false,
+      },
+    ],
+    conditions: [],
+    tabularGroups: [
+      {
+        tabularGroupId: VARIANTS,
+        validation: { minRows: 1, maxRows: 3, unique: [SIZE] },
+        fields: [
+          { fieldId: QUANTITY, fieldOrder: 2 },
+          { fieldId: SIZE, fieldOrder: 1 },
+        ],
+      },
+    ],
+  },
+  fields: [
+    { fieldId: SIZE, datatype: 'text', metadata: null, validation: { required: true }, search: null },
+    { fieldId: QUANTITY, datatype: 'integer', metadata: null, validation: { min: 1 }, search: null },
+  ],
+  domainValues: [RED, BLUE, GREEN].map((domainValueId) => ({ domainValueId, fieldId: COLOR, name: domainValueId })),
+};
+
+const codes = (validator: CategoryValidator, record: Parameters<CategoryValidator['validate']>[0]) =>
+  validator.validate(record).errors.map((error) => [error.path, error.code]);
+
+describe('CategoryValidator', () => {
+  const validator = new CategoryValidator(schema);
+  const variants = { [VARIANTS]: [{ [SIZE]: 'M', [QUANTITY]: 3 }] };
+
+  test('accepts a valid record', () => {
+    const result = validator.validate({
+      values: { [NAME]: 'Shirt', [PRICE]: 12.5, [COLOR]: RED, [TAGS]: ['summer'] },
+      tabularGroups: variants,
+    });
+
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+
+  test('reports required, datatype, range and pattern errors per field', () => {
+    expect(codes(validator, { values: { [PRICE]: 120 }, tabularGroups: variants })).toEqual([
+      [`values.${NAME}`, 'required'],
+      [`values.${PRICE}`, 'max'],
+    ]);
+    expect(codes(validator, { values: { [NAME]: 'shirt', [PRICE]: '1' }, tabularGroups: variants })).toEqual([
+      [`values.${NAME}`, 'pattern'],
+      [`values.${PRICE}`, 'type'],
+    ]);
+  });
+
+  test('restricts domain fields to the allowed domain values', () => {
+    expect(codes(validator, { values: { [NAME]: 'Shirt', [COLOR]: GREEN }, tabularGroups: variants })).toEqual([
+      [`values.${COLOR}`, 'domain'],
+    ]);
+  });
+
+  test('validates each item of multi-valued fields', () => {
+    expect(codes(validator, { values: { [NAME]: 'Shirt', [TAGS]: ['a', 1, 'c'] }, tabularGroups: variants })).toEqual([
+      [`values.${TAGS}`, 'maxItems'],
+      [`values.${TAGS}[1]`, 'type'],
+    ]);
+  });
+
+  test('rejects fields and tabular groups outside the category', () => {
+    expect(
+      codes(validator, { values: { [NAME]: 'Shirt', [SIZE]: 'M' }, tabularGroups: { ...variants, [NAME]: [] } }),
+    ).toEqual([
+      [`values.${SIZE}`, 'unknownField'],
+      [`tabularGroups.${NAME}`, 'unknownTabularGroup'],
+    ]);
+  });
+
+  test('validates tabular group rows and row counts', () => {
+    expect(codes(validator, { values: { [NAME]: 'Shirt' } })).toEqual([[`tabularGroups.${VARIANTS}`, 'minRows']]);
+
+    const result = validator.validate({
+      values: { [NAME]: 'Shirt' },
+      tabularGroups: { [VARIANTS]: [{ [SIZE]: 'M', [QUANTITY]: 0 }, { [QUANTITY]: 1.5 }, { [SIZE]: 'M' }] },
+    });
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        path: `tabularGroups.${VARIANTS}[0].${QUANTITY}`,
+        code: 'min',
+        row: 0,
+        tabularGroupId: VARIANTS,
+      }),
+      expect.objectContaining({ path: `tabularGroups.${VARIANTS}[1].${SIZE}`, code: 'required', row: 1 }),
+      expect.objectContaining({ path: `tabularGroups.${VARIANTS}[1].${QUANTITY}`, code: 'type', row: 1 }),
+      expect.objectContaining({ path: `tabularGroups.${VARIANTS}[2]`, code: 'unique', row: 2 }),
+    ]);
+  });
+
+  test('does not require fields hidden by conditions', () => {
+    const conditional = new CategoryValidator({
+      ...schema,
+      category: {
+        ...schema.category,
+        conditions: [
+          {
+            conditionId: '00000000-0000-4000-8000-0000000000c1',
+            domainValues: [{ domainValueId: BLUE, conditionGroupId: null, fieldId: COLOR }],
+          },
+        ],
+      },
+    });
+
+    expect(codes(conditional, { values: { [COLOR]: RED }, tabularGroups: variants })).toEqual([]);
+    expect(codes(conditional, { values: { [COLOR]: BLUE }, tabularGroups: variants })).toEqual([
+      [`values.${NAME}`, 'required'],
+    ]);
+  });
+
+  test('fails to compile malformed validation rules', () => {
+    const field = { ...schema.category.fields[0], validation: { pattern: '(' } };
+    expect(() => new CategoryValidator({ ...schema, category: { ...schema.category, fields: [field] } })).toThrow(
+      `Invalid validation for field ${NAME}`,
+    );
+  });
+});
@@ -0,0 +1,78 @@
+import type { CategoryVersionDefinition } from '../src/db/repositories';
+import { diffCategoryDefinitions, normalizeDefinition } from '../src/services/versions';
+
+const CATEGORY_ID = '00000000-0000-4000-8000-0000000000ff';
+const COLOR_ID = '00000000-0000-4000-8000-000000000001';
+const SIZE_ID = '00000000-0000-4000-8000-000000000002';
+const RED_ID = '00000000-0000-4000-8000-0000000000d1';
+const BLUE_ID = '00000000-0000-4000-8000-0000000000d2';
+const CONDITION_ID = '00000000-0000-4000-8000-0000000000c1';
+
+const definition = (): CategoryVersionDefinition => ({
+  category: {
+    categoryId: CATEGORY_ID,
+    categoryMetadata: { name: 'Shirts', order: 1 },
+    fields: [
+      { fieldId: COLOR_ID, datatype: 'domain', metadata: null, validation: null, search: null, isRequired: true },
+      { fieldId: SIZE_ID, datatype: 'text', metadata: null, validation: null, search: null, isRequired: false },
+    ],
+    conditions: [
+      {
+        conditionId: CONDITION_ID,
+        domainValues: [
+          { domainValueId: RED_ID, conditionGroupId: null, fieldId: COLOR_ID },
+          { domainValueId: BLUE_ID, conditionGroupId: null, fieldId: COLOR_ID },
+        ],
+      },
+    ],
+    tabularGroups: [],
+  },
+  fields: [],
+  domainValues: [
+    { domainValueId: RED_ID, fieldId: COLOR_ID, name: 'Red' },
+    { domainValueId: BLUE_ID, fieldId: COLOR_ID, name: 'Blue' },
+  ],
+});
+
+describe('diffCategoryDefinitions', () => {
+  test('finds no changes between definitions that differ only in order', () => {
+    const reordered = definition();
+    reordered.category.categoryMetadata = { order: 1, name: 'Shirts' };
+    reordered.category.fields.reverse();
+    reordered.category.conditions[0].domainValues.reverse();
+    reordered.domainValues.reverse();
+
+    expect(diffCategoryDefinitions(definition(), reordered)).toEqual([]);
+    expect(normalizeDefinition(reordered)).toEqual(normalizeDefinition(definition()));
+  });
+
+  test('reports added, removed and changed parts by path', () => {
+    const next = definition();
+    next.category.categoryMetadata = { name: 'T-shirts', order: 1 };
+    next.category.fields = next.category.fields
+      .filter((field) => field.fieldId !== SIZE_ID)
+      .map((field) => ({ ...field, isRequired: false }));
+    next.domainValues.push({ domainValueId: '00000000-0000-4000-8000-0000000000d3', fieldId: COLOR_ID, name: 'Green' });
+
+    expect(diffCategoryDefinitions(definition(), next)).toEqual([
+      {
+        path: 'metadata',
+        kind: 'changed',
+        before: { name: 'Shirts', order: 1 },
+        after: { name: 'T-shirts', order: 1 },
+      },
+      {
+        path: `fields/${COLOR_ID}`,
+        kind: 'changed',
+        before: expect.objectContaining({ isRequired: true }),
+        after: expect.objectContaining({ isRequired: false }),
+      },
+      { path: `fields/${SIZE_ID}`, kind: 'removed', before: expect.objectContaining({ fieldId: SIZE_ID }) },
+      {
+        path: 'domainValues/00000000-0000-4000-8000-0000000000d3',
+        kind: 'added',
+        after: { domainValueId: '00000000-0000-4000-8000-0000000000d3', fieldId: COLOR_ID, name: 'Green' },
+      },
+    ]);
+  });
+});
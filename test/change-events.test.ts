@@ -0,0 +1,149 @@
+import type { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { changeEvents } from '../src/db/migrations/0010_change_events';
+import type { ChangeEventType } from '../src/db/repositories';
+import { EventBridgePublisher } from '../src/services/events';
+import type { ChangeEvent } from '../src/services/events';
+
+const event = (index: number, overrides: Partial<ChangeEvent> = {}): ChangeEvent => ({
+  eventId: `event-${index}`,
+  sequence: `${index}`,
+  type: 'CategoryUpdated',
+  tenantId: 'tenant',
+  recordType: 'category',
+  recordId: 'category',
+  table: 'category',
+  before: { metadata: { name: 'Shirts' } },
+  after: { metadata: { name: 'Formal shirts' } },
+  actorId: 'user',
+  requestId: 'request',
+  occurredAt: '2024-05-01T10:00:00.000Z',
+  ...overrides,
+});
+
+// Answers every PutEvents call with `respond`, recording the commands
+const fakeClient = (respond: (command: PutEventsCommand) => unknown) => {
+  const commands: PutEventsCommand[] = [];
+  const client = {
+    send: async (command: PutEventsCommand) => {
+      commands.push(command);
+      return respond(command);
+    },
+  } as unknown as EventBridgeClient;
+
+  return { client, commands };
+};
+
+const accepted = (command: PutEventsCommand) => ({
+  FailedEntryCount: 0,
+  Entries: command.input.Entries?.map((_, index) => ({ EventId: `${index}` })),
+});
+
+describe('EventBridgePublisher', () => {
+  test('puts events in calls of at most ten entries, typed by their detail type', async () => {
+    const { client, commands } = fakeClient(accepted);
+    const publisher = new EventBridgePublisher({ eventBusName: 'changes', source: 'metadata', client });
+    const events = Array.from({ length: 23 }, (_, index) => event(index));
+
+    expect(await publisher.publish(events)).toEqual([]);
+    expect(commands.map((command) => command.input.Entries?.length)).toEqual([10, 10, 3]);
+    expect(commands[0].input.Entries?.[0]).toEqual({
+      EventBusName: 'changes',
+      Source: 'metadata',
+      DetailType: 'CategoryUpdated',
+      Detail: JSON.stringify(events[0]),
+      Time: new Date('2024-05-01T10:00:00.000Z'),
+    });
+  });
+
+  test('splits calls whose entries together exceed the request size limit', async () => {
+    const { client, commands } = fakeClient(accepted);
+    const publisher = new EventBridgePublisher({ eventBusName: 'changes', source: 'metadata', client });
+    const events = Array.from({ length: 5 }, (_, index) =>
+      event(index, { after: { metadata: { description: 'x'.repeat(100 * 1024) } } }),
+    );
+
+    expect(await publisher.publish(events)).toEqual([]);
+    expect(commands.map((command) => command.input.Entries?.length)).toEqual([2, 2, 1]);
+    expect(
+      commands.flatMap((command) => command.input.Entries?.map((entry) => JSON.parse(entry.Detail as string).eventId)),
+    ).toEqual(events.map(({ eventId }) => eventId));
+  });
+
+  test('returns rejected entries and every entry of a failed call', async () => {
+    let calls = 0;
+    const { client } = fakeClient((command) => {
+      if (calls++) {
+        throw Object.assign(new Error('Rate exceeded'), { name: 'ThrottlingException' });
+      }
+      return {
+        FailedEntryCount: 1,
+        Entries: command.input.Entries?.map((_, index) =>
+          index === 1 ? { ErrorCode: 'InternalFailure', ErrorMessage: 'Try again' } : { EventId: `${index}` },
+        ),
+      };
+    });
+    const publisher = new EventBridgePublisher({ eventBusName: 'changes', source: 'metadata', client });
+
+    const failures = await publisher.publish(Array.from({ length: 12 }, (_, index) => event(index)));
+
+    expect(failures).toEqual([
+      { eventId: 'event-1', error: 'InternalFailure: Try again' },
+      { eventId: 'event-10', error: 'ThrottlingException: Rate exceeded' },
+      { eventId: 'event-11', error: 'ThrottlingException: Rate exceeded' },
+    ]);
+  });
+
+  test('leaves the rows out of events too large for EventBridge', () => {
+    const publisher = new EventBridgePublisher({ eventBusName: 'changes', source: 'metadata', client: {} as never });
+    const large = event(1, { after: { metadata: { description: 'x'.repeat(300 * 1024) } } });
+
+    expect(JSON.parse(publisher.toEntry(large).Detail as string)).toEqual({
+      ...large,
+      before: null,
+      after: null,
+      truncated: true,
+    });
+  });
+});
+
+describe('change event types', () => {
+  // Fails to compile when a type is added to or removed from ChangeEventType without updating this list
+  const types: Record<ChangeEventType, true> = {
+    CategoryCreated: true,
+    CategoryUpdated: true,
+    CategoryDeleted: true,
+    CategoryFieldAdded: true,
+    CategoryFieldUpdated: true,
+    CategoryFieldRemoved: true,
+    CategoryConditionAdded: true,
+    CategoryConditionRemoved: true,
+    CategoryTabularGroupAdded: true,
+    CategoryTabularGroupUpdated: true,
+    CategoryTabularGroupRemoved: true,
+    CategoryPublished: true,
+    FieldCreated: true,
+    FieldUpdated: true,
+    FieldDeleted: true,
+    DomainValueAdded: true,
+    DomainValueUpdated: true,
+    DomainValueRemoved: true,
+    ConditionCreated: true,
+    ConditionUpdated: true,
+    ConditionDeleted: true,
+    ConditionDomainValueAdded: true,
+    ConditionDomainValueUpdated: true,
+    ConditionDomainValueRemoved: true,
+    TabularGroupCreated: true,
+    TabularGroupUpdated: true,
+    TabularGroupDeleted: true,
+    TabularGroupFieldAdded: true,
+    TabularGroupFieldUpdated: true,
+    TabularGroupFieldRemoved: true,
+  };
+
+  test('match the types the outbox triggers write', () => {
+    const written = [...changeEvents.up.matchAll(/'([A-Z][a-z][A-Za-z]*)'/g)].map((match) => match[1]);
+
+    expect([...new Set(written)].sort()).toEqual(Object.keys(types).sort());
+  });
+});
@@ -0,0 +1,147 @@
+import type { Context } from 'aws-lambda';
+import { withConnection } from '../src/db/connection';
+import { handler } from '../src/functions/auth';
+import { fakeDatabase } from './support/fake-database';
+import type { QueryAnswer } from './support/fake-database';
+
+jest.mock('../src/db/connection', () => ({ withConnection: jest.fn() }));
+
+const USER_ID = '0b6f3c1e-8a44-4c1e-9d59-3f1f6a1b2c3d';
+const TENANT_ID = '5a7b8c9d-6e0f-4a1b-9c2d-3e4f5a6b7c8d';
+
+const lambdaContext = { awsRequestId: 'request-1', functionName: 'AuthTriggers' } as Context;
+
+/**
+ * Runs every connection on a database answering each query with the rows `answer` returns for it.
+ */
+const mockDatabase = (answer: QueryAnswer) => {
+  const database = fakeDatabase(answer);
+  jest.mocked(withConnection).mockImplementation(async (fn) => fn(database.db));
+
+  return database;
+};
+
+const userRow = {
+  id: USER_ID,
+  tenant_id: TENANT_ID,
+  email: 'ada@example.com',
+  roles: ['admin', 'editor'],
+  created_at: new Date(0),
+  updated_at: new Date(0),
+};
+
+const triggerEvent = (triggerSource: string, userAttributes: Record<string, string>) =>
+  ({
+    version: '1',
+    region: 'us-east-1',
+    userPoolId: 'us-east-1_pool',
+    userName: USER_ID,
+    callerContext: { awsSdkVersion: '3', clientId: 'client' },
+    triggerSource,
+    request: { userAttributes },
+    response: {},
+  }) as never;
+
+beforeAll(() => {
+  // The handlers' structured logs
+  (['log', 'warn', 'error'] as const).forEach((level) =>
+    jest.spyOn(console, level).mockImplementation(() => undefined),
+  );
+});
+
+afterEach(() => {
+  jest.mocked(withConnection).mockReset();
+});
+
+describe('pre sign-up', () => {
+  test('accepts a new email', async () => {
+    const { statements } = mockDatabase(() => []);
+    const event = triggerEvent('PreSignUp_SignUp', { email: 'ada@example.com' });
+
+    await expect(handler(event, lambdaContext)).resolves.toBe(event);
+    expect(statements()[0]).toContain('lower(email) = lower($1)');
+  });
+
+  test('rejects invalid attributes and taken emails with a readable message', async () => {
+    mockDatabase(() => [userRow]);
+
+    await expect(handler(triggerEvent('PreSignUp_SignUp', { email: 'not-an-email' }), lambdaContext)).rejects.toThrow(
+      'email: Invalid email',
+    );
+    await expect(
+      handler(triggerEvent('PreSignUp_SignUp', { email: 'ADA@example.com' }), lambdaContext),
+    ).rejects.toThrow('An account with this email already exists');
+  });
+});
+
+/**
+ * A database without the user, which answers the inserts registering them.
+ */
+const mockRegistration = () =>
+  mockDatabase((sql, values) => {
+    if (sql.includes('INSERT INTO tenant')) {
+      return [{ id: TENANT_ID, name: values[1], created_at: new Date(0) }];
+    }
+    if (sql.includes('INSERT INTO app_user')) {
+      return [{ ...userRow, roles: values[3] }];
+    }
+    return undefined;
+  });
+
+describe('post confirmation', () => {
+  test('creates the user as admin of a new tenant named after the organization', async () => {
+    const { query, statements } = mockRegistration();
+    const event = triggerEvent('PostConfirmation_ConfirmSignUp', {
+      sub: USER_ID,
+      email: 'ada@example.com',
+      'custom:organization': 'Analytical Engines',
+    });
+
+    await expect(handler(event, lambdaContext)).resolves.toBe(event);
+    expect(statements().map((sql) => sql.split(' ').slice(0, 3).join(' '))).toEqual([
+      'BEGIN',
+      'SELECT * FROM',
+      'INSERT INTO tenant',
+      'INSERT INTO app_user',
+      'COMMIT',
+    ]);
+    expect(query.mock.calls[2][1]).toEqual([null, 'Analytical Engines']);
+    expect(query.mock.calls[3][1]).toEqual([USER_ID, TENANT_ID, 'ada@example.com', ['admin']]);
+  });
+
+  test('ignores other post confirmation sources', async () => {
+    const event = triggerEvent('PostConfirmation_ConfirmForgotPassword', { sub: USER_ID, email: 'ada@example.com' });
+
+    await expect(handler(event, lambdaContext)).resolves.toBe(event);
+    expect(withConnection).not.toHaveBeenCalled();
+  });
+});
+
+describe('pre token generation', () => {
+  test('injects the role and tenant claims', async () => {
+    mockDatabase(() => [userRow]);
+    const event = triggerEvent('TokenGeneration_Authentication', { sub: USER_ID, email: 'ada@example.com' });
+
+    const result = (await handler(event, lambdaContext)) as { response: unknown };
+
+    expect(result.response).toEqual({
+      claimsOverrideDetails: {
+        claimsToAddOrOverride: { 'custom:roles': 'admin,editor', 'custom:tenant_id': TENANT_ID },
+      },
+    });
+  });
+
+  test('registers users whose post confirmation failed', async () => {
+    const { query, statements } = mockRegistration();
+    const event = triggerEvent('TokenGeneration_Authentication', { sub: USER_ID, email: 'ada@example.com' });
+
+    const result = (await handler(event, lambdaContext)) as { response: unknown };
+
+    expect(query.mock.calls[4][1]).toEqual([USER_ID, TENANT_ID, 'ada@example.com', ['admin']]);
+    expect(result.response).toEqual({
+      claimsOverrideDetails: {
+        claimsToAddOrOverride: { 'custom:roles': 'admin', 'custom:tenant_id': TENANT_ID },
+      },
+    });
+  });
+});
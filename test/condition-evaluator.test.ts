@@ -0,0 +1,82 @@
+import { ConditionEvaluator } from '../src/services/conditions';
+import type { CategoryDefinition } from '../src/db/repositories';
+
+const MATERIAL = '00000000-0000-4000-8000-000000000001';
+const COLOR = '00000000-0000-4000-8000-000000000002';
+const CARE = '00000000-0000-4000-8000-000000000003';
+const COTTON = '00000000-0000-4000-8000-00000000000a';
+const WOOL = '00000000-0000-4000-8000-00000000000b';
+const RED = '00000000-0000-4000-8000-00000000000c';
+const MATERIAL_GROUP = '00000000-0000-4000-8000-0000000000a1';
+const COLOR_GROUP = '00000000-0000-4000-8000-0000000000a2';
+
+const category = (overrides: Partial<CategoryDefinition> = {}): CategoryDefinition => ({
+  categoryId: '00000000-0000-4000-8000-0000000000ff',
+  categoryMetadata: null,
+  fields: [MATERIAL, COLOR, CARE].map((fieldId) => ({
+    fieldId,
+    datatype: 'domain',
+    metadata: null,
+    validation: null,
+    search: null,
+    isRequired: true,
+  })),
+  conditions: [
+    {
+      conditionId: '00000000-0000-4000-8000-0000000000c1',
+      domainValues: [
+        { domainValueId: COTTON, conditionGroupId: MATERIAL_GROUP, fieldId: MATERIAL },
+        { domainValueId: WOOL, conditionGroupId: MATERIAL_GROUP, fieldId: MATERIAL },
+        { domainValueId: RED, conditionGroupId: COLOR_GROUP, fieldId: COLOR },
+      ],
+    },
+  ],
+  tabularGroups: [],
+  ...overrides,
+});
+
+describe('ConditionEvaluator', () => {
+  test('ORs domain values within a group and ANDs across groups by default', () => {
+    const evaluator = new ConditionEvaluator(category());
+
+    expect(evaluator.evaluate({ [MATERIAL]: WOOL, [COLOR]: RED })).toMatchObject({
+      active: true,
+      conditions: [
+        {
+          satisfied: true,
+          groups: [
+            { conditionGroupId: MATERIAL_GROUP, satisfied: true },
+            { conditionGroupId: COLOR_GROUP, satisfied: true },
+          ],
+        },
+      ],
+      visibleFieldIds: [MATERIAL, COLOR, CARE],
+      requiredFieldIds: [MATERIAL, COLOR, CARE],
+      hiddenFieldIds: [],
+    });
+    expect(evaluator.evaluate({ [MATERIAL]: [COTTON] }).active).toBe(false);
+  });
+
+  test('keeps condition fields visible and hides the rest while inactive', () => {
+    expect(new ConditionEvaluator(category()).evaluate({})).toMatchObject({
+      active: false,
+      visibleFieldIds: [MATERIAL, COLOR],
+      requiredFieldIds: [MATERIAL, COLOR],
+      hiddenFieldIds: [CARE],
+    });
+  });
+
+  test('applies semantics from category metadata and overrides', () => {
+    const configured = category({ categoryMetadata: { conditionSemantics: { acrossGroups: 'any' } } });
+
+    expect(new ConditionEvaluator(configured).evaluate({ [COLOR]: RED }).active).toBe(true);
+    expect(new ConditionEvaluator(configured, { acrossGroups: 'all' }).evaluate({ [COLOR]: RED }).active).toBe(false);
+    expect(() => new ConditionEvaluator(configured, { withinGroup: 'some' as 'any' })).toThrow(
+      'withinGroup must be any or all',
+    );
+  });
+
+  test('treats a category without conditions as active', () => {
+    expect(new ConditionEvaluator(category({ conditions: [] })).evaluate({}).hiddenFieldIds).toEqual([]);
+  });
+});
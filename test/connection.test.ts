@@ -0,0 +1,289 @@
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+import { Client, Pool } from 'pg';
+import type { PoolClient } from 'pg';
+import {
+  closePool,
+  connect,
+  connectionOptionsFromEnv,
+  getDbSecret,
+  isAuthError,
+  isTransientError,
+  sslConfig,
+  withConnection,
+} from '../src/db/connection';
+import type { ConnectionOptions } from '../src/db/connection';
+import { withRetry } from '../src/db/retry';
+import { redact } from '../src/utils/logger';
+
+const SECRET_ARN = 'arn:aws:secretsmanager:us-east-1:123456789012:secret:db';
+
+const OPTIONS: ConnectionOptions = {
+  backend: 'pg',
+  secretArn: SECRET_ARN,
+  host: 'cluster.local',
+  sslMode: 'disable',
+  secretTtlMs: 60000,
+  maxConnections: 2,
+  connectTimeoutMs: 1000,
+  retries: 2,
+};
+
+const errorWithCode = (code: string) => Object.assign(new Error(code), { code });
+
+/**
+ * Answers GetSecretValue with each password in turn, repeating the last one.
+ */
+const mockSecrets = (...passwords: string[]) => {
+  let calls = 0;
+  return jest.spyOn(SecretsManagerClient.prototype, 'send').mockImplementation(async () => ({
+    SecretString: JSON.stringify({ username: 'app', password: passwords[Math.min(calls++, passwords.length - 1)] }),
+  }));
+};
+
+// A pooled client that is never connected
+const poolClient = (): PoolClient => Object.assign(new Client(), { release: jest.fn() });
+
+// The passwords of the pools connect was called on
+const connectingPasswords = (connectSpy: jest.SpyInstance) =>
+  connectSpy.mock.contexts.map((pool) => (pool as Pool).options.password);
+
+afterEach(async () => {
+  await closePool();
+  jest.restoreAllMocks();
+});
+
+describe('withRetry', () => {
+  const options = { retries: 3, baseDelayMs: 10, maxDelayMs: 15, shouldRetry: () => true };
+
+  test('retries failures with exponential backoff capped at the maximum delay', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    const onRetry = jest.fn();
+    const fn = jest.fn(async (attempt: number) => {
+      if (attempt < 2) {
+        throw new Error(`attempt ${attempt}`);
+      }
+      return 'done';
+    });
+
+    expect(await withRetry(fn, { ...options, onRetry })).toBe('done');
+    expect(onRetry.mock.calls).toEqual([
+      [new Error('attempt 0'), 1, 10],
+      [new Error('attempt 1'), 2, 15],
+    ]);
+  });
+
+  test('rethrows the last error once the retries are used up', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    const fn = jest.fn(async (attempt: number) => {
+      throw new Error(`attempt ${attempt}`);
+    });
+
+    await expect(withRetry(fn, options)).rejects.toThrow('attempt 3');
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  test('rethrows errors that should not be retried at once', async () => {
+    const fn = jest.fn(async () => {
+      throw new Error('syntax error');
+    });
+
+    await expect(withRetry(fn, { ...options, shouldRetry: () => false })).rejects.toThrow('syntax error');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('error classification', () => {
+  test.each([
+    ['ECONNREFUSED', true, errorWithCode('ECONNREFUSED')],
+    ['cannot_connect_now', true, errorWithCode('57P03')],
+    ['too_many_connections', true, errorWithCode('53300')],
+    ['a timeout', true, new Error('timeout expired')],
+    ['a terminated connection', true, new Error('Connection terminated unexpectedly')],
+    ['invalid_password', false, errorWithCode('28P01')],
+    ['unique_violation', false, errorWithCode('23505')],
+    ['a syntax error', false, new Error('syntax error')],
+  ])('treats %s as transient: %s', (_, transient, error) => {
+    expect(isTransientError(error)).toBe(transient);
+  });
+
+  test('recognizes authentication failures', () => {
+    expect(isAuthError(errorWithCode('28P01'))).toBe(true);
+    expect(isAuthError(errorWithCode('28000'))).toBe(true);
+    expect(isAuthError(errorWithCode('57P03'))).toBe(false);
+    expect(isAuthError(new Error('password authentication failed'))).toBe(false);
+  });
+});
+
+describe('connectionOptionsFromEnv', () => {
+  test('defaults to pooled connections verified over TLS', () => {
+    expect(connectionOptionsFromEnv({ DB_SECRET_ARN: SECRET_ARN, DB_SSL_CA_PATH: '/ca.pem' })).toEqual({
+      backend: 'pg',
+      secretArn: SECRET_ARN,
+      clusterArn: undefined,
+      host: undefined,
+      database: undefined,
+      sslMode: 'verify-full',
+      sslCaPath: '/ca.pem',
+      secretTtlMs: 300000,
+      maxConnections: 2,
+      connectTimeoutMs: 10000,
+      retries: 6,
+    });
+  });
+
+  test('reads the limits from the environment', () => {
+    expect(
+      connectionOptionsFromEnv({
+        DB_SECRET_ARN: SECRET_ARN,
+        DB_SECRET_TTL_SECONDS: '30',
+        DB_POOL_MAX: '5',
+        DB_CONNECT_TIMEOUT_MS: '1500',
+        DB_CONNECT_RETRIES: '1',
+      }),
+    ).toMatchObject({ secretTtlMs: 30000, maxConnections: 5, connectTimeoutMs: 1500, retries: 1 });
+  });
+
+  test.each([
+    ['no secret', {}, 'Missing DB_SECRET_ARN environment variable.'],
+    ['an unknown backend', { DB_SECRET_ARN: SECRET_ARN, DB_BACKEND: 'mysql' }, 'Invalid DB_BACKEND: mysql'],
+    [
+      'the data-api backend without a cluster',
+      { DB_SECRET_ARN: SECRET_ARN, DB_BACKEND: 'data-api' },
+      'Missing DB_CLUSTER_ARN environment variable required by the data-api backend.',
+    ],
+    ['an unknown TLS mode', { DB_SECRET_ARN: SECRET_ARN, DB_SSL_MODE: 'require' }, 'Invalid DB_SSL_MODE: require'],
+  ])('rejects %s', (_, env, message) => {
+    expect(() => connectionOptionsFromEnv(env)).toThrow(message);
+  });
+});
+
+describe('sslConfig', () => {
+  test('maps each mode to the TLS settings of the pool', () => {
+    const caPath = join(mkdtempSync(join(tmpdir(), 'connection-')), 'ca.pem');
+    writeFileSync(caPath, 'CERTIFICATE');
+
+    expect(sslConfig('disable')).toBe(false);
+    expect(sslConfig('no-verify')).toEqual({ rejectUnauthorized: false });
+    expect(sslConfig('verify-full')).toEqual({ rejectUnauthorized: true, ca: undefined });
+    expect(sslConfig('verify-full', caPath)).toEqual({ rejectUnauthorized: true, ca: 'CERTIFICATE' });
+  });
+});
+
+describe('getDbSecret', () => {
+  test('caches the secret until it expires or a refresh is forced', async () => {
+    const send = mockSecrets('first-password', 'second-password', 'third-password');
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const options = { ...OPTIONS, secretTtlMs: 1000 };
+
+    expect((await getDbSecret(options, true)).password).toBe('first-password');
+    now.mockReturnValue(999);
+    expect((await getDbSecret(options)).password).toBe('first-password');
+    expect((await getDbSecret(options, true)).password).toBe('second-password');
+    now.mockReturnValue(2000);
+    expect((await getDbSecret(options)).password).toBe('third-password');
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  test('keeps the password out of the logs', async () => {
+    mockSecrets('never-logged-password');
+
+    await getDbSecret(OPTIONS, true);
+
+    expect(redact('password never-logged-password rejected')).not.toContain('never-logged-password');
+  });
+
+  test('rejects an empty secret', async () => {
+    jest.spyOn(SecretsManagerClient.prototype, 'send').mockImplementation(async () => ({}));
+
+    await expect(getDbSecret(OPTIONS, true)).rejects.toThrow('SecretString is empty.');
+  });
+});
+
+describe('connect', () => {
+  beforeEach(() => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  test('retries while the cluster resumes', async () => {
+    mockSecrets('password');
+    const client = poolClient();
+    const poolConnect = jest
+      .spyOn(Pool.prototype, 'connect')
+      .mockImplementationOnce(async () => {
+        throw errorWithCode('57P03');
+      })
+      .mockImplementation(async () => client);
+    const onRetry = jest.fn();
+
+    expect(await connect({ ...OPTIONS, onRetry })).toBe(client);
+    expect(poolConnect).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ code: '57P03' }), 1, 0);
+  });
+
+  test('rebuilds the pool once with a fresh secret when authentication fails', async () => {
+    mockSecrets('old-password', 'rotated-password');
+    await getDbSecret(OPTIONS, true);
+    const poolConnect = jest.spyOn(Pool.prototype, 'connect').mockImplementation(async function (this: Pool) {
+      if (this.options.password !== 'rotated-password') {
+        throw errorWithCode('28P01');
+      }
+      return poolClient();
+    });
+
+    await connect({ ...OPTIONS, retries: 1 });
+
+    expect(connectingPasswords(poolConnect)).toEqual(['old-password', 'rotated-password']);
+  });
+
+  test('gives up on authentication failures that outlive the refresh', async () => {
+    mockSecrets('wrong-password');
+    const poolConnect = jest.spyOn(Pool.prototype, 'connect').mockImplementation(async () => {
+      throw errorWithCode('28P01');
+    });
+
+    await expect(connect(OPTIONS)).rejects.toMatchObject({ code: '28P01' });
+    expect(poolConnect).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('withConnection', () => {
+  const mockClient = () => {
+    mockSecrets('password');
+    const client = poolClient();
+    jest.spyOn(Pool.prototype, 'connect').mockImplementation(async () => client);
+    return client;
+  };
+
+  test('returns the client to the pool', async () => {
+    const client = mockClient();
+
+    expect(await withConnection(async () => 'result', OPTIONS)).toBe('result');
+    expect(client.release).toHaveBeenCalledWith();
+  });
+
+  test('discards the client after a connection failure', async () => {
+    const client = mockClient();
+    const error = errorWithCode('ECONNRESET');
+
+    await expect(
+      withConnection(async () => {
+        throw error;
+      }, OPTIONS),
+    ).rejects.toBe(error);
+    expect(client.release).toHaveBeenCalledWith(error);
+  });
+
+  test('keeps the client after a failed statement', async () => {
+    const client = mockClient();
+
+    await expect(
+      withConnection(async () => {
+        throw errorWithCode('23505');
+      }, OPTIONS),
+    ).rejects.toMatchObject({ code: '23505' });
+    expect(client.release).toHaveBeenCalledWith(undefined);
+  });
+});
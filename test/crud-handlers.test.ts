@@ -0,0 +1,277 @@
+import type { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import { withTenantConnection } from '../src/db/connection';
+import { handler as conditionsHandler } from '../src/functions/conditions';
+import { handler as domainValuesHandler } from '../src/functions/domain-values';
+import { handler as fieldsHandler } from '../src/functions/fields';
+import { handler as tabularGroupsHandler } from '../src/functions/tabular-groups';
+import { fakeDatabase } from './support/fake-database';
+import type { QueryAnswer } from './support/fake-database';
+
+jest.mock('../src/db/connection', () => ({ withTenantConnection: jest.fn() }));
+
+const TENANT_ID = '5a7b8c9d-6e0f-4a1b-9c2d-3e4f5a6b7c8d';
+const FIELD_ID = '00000000-0000-4000-8000-0000000000f1';
+const CONDITION_ID = '00000000-0000-4000-8000-0000000000b1';
+const TABULAR_GROUP_ID = '00000000-0000-4000-8000-0000000000a1';
+const DOMAIN_VALUE_ID = '00000000-0000-4000-8000-0000000000d1';
+
+const lambdaContext = { awsRequestId: 'request-1', functionName: 'Metadata' } as Context;
+
+const fieldRow = { id: FIELD_ID, datatype: 'text', metadata: { name: 'Color' }, validation: null, search: null };
+
+/**
+ * Runs every connection on a database answering each query with the rows `answer` returns for it, and no rows by
+ * default.
+ */
+const mockDatabase = (answer?: QueryAnswer) => {
+  const { db, query } = fakeDatabase(answer);
+  jest.mocked(withTenantConnection).mockImplementation(async (_, fn) => fn(db));
+
+  return query;
+};
+
+interface RequestOptions {
+  pathParameters?: Record<string, string>;
+  queryStringParameters?: Record<string, string>;
+  body?: unknown;
+  role?: string;
+}
+
+const apiEvent = (
+  method: string,
+  resource: string,
+  { pathParameters, queryStringParameters, body, role = 'admin' }: RequestOptions = {},
+) =>
+  ({
+    httpMethod: method,
+    resource,
+    path: resource,
+    headers: {},
+    queryStringParameters: queryStringParameters ?? null,
+    pathParameters: pathParameters ?? null,
+    body: body === undefined ? null : JSON.stringify(body),
+    requestContext: { authorizer: { claims: { sub: 'user', 'custom:roles': role, 'custom:tenant_id': TENANT_ID } } },
+  }) as unknown as APIGatewayProxyEvent;
+
+const parse = (response: { body: string }) => JSON.parse(response.body);
+
+beforeAll(() => {
+  // The handlers' structured logs
+  (['log', 'warn', 'error'] as const).forEach((level) =>
+    jest.spyOn(console, level).mockImplementation(() => undefined),
+  );
+});
+
+afterEach(() => {
+  jest.mocked(withTenantConnection).mockReset();
+});
+
+describe('fields', () => {
+  test('lists fields with the requested page', async () => {
+    const query = mockDatabase(() => [fieldRow]);
+
+    const response = await fieldsHandler(
+      apiEvent('GET', '/fields', { queryStringParameters: { limit: '10', offset: '20' }, role: 'viewer' }),
+      lambdaContext,
+    );
+
+    expect(response.statusCode).toBe(200);
+    expect(parse(response).data).toEqual([
+      { fieldId: FIELD_ID, datatype: 'text', metadata: { name: 'Color' }, validation: null, search: null },
+    ]);
+    expect(query).toHaveBeenCalledWith(expect.stringContaining('LIMIT $1 OFFSET $2'), [10, 20]);
+  });
+
+  test('creates a field', async () => {
+    mockDatabase((sql) => (sql.startsWith('INSERT INTO field') ? [fieldRow] : undefined));
+
+    const response = await fieldsHandler(
+      apiEvent('POST', '/fields', { body: { datatype: 'text', metadata: { name: 'Color' } } }),
+      lambdaContext,
+    );
+
+    expect(response.statusCode).toBe(201);
+    expect(parse(response).data.fieldId).toBe(FIELD_ID);
+  });
+
+  test('rejects an invalid request before connecting', async () => {
+    const responses = [
+      await fieldsHandler(apiEvent('POST', '/fields', { body: { metadata: {} } }), lambdaContext),
+      await fieldsHandler(
+        apiEvent('GET', '/fields/{fieldId}', { pathParameters: { fieldId: 'not-a-uuid' } }),
+        lambdaContext,
+      ),
+      await fieldsHandler(apiEvent('GET', '/fields', { queryStringParameters: { limit: '0' } }), lambdaContext),
+    ];
+
+    expect(responses.map((response) => response.statusCode)).toEqual([400, 400, 400]);
+    expect(parse(responses[0]).error).toMatchObject({
+      message: 'Request validation failed',
+      details: [expect.objectContaining({ path: ['body', 'datatype'] })],
+    });
+    expect(withTenantConnection).not.toHaveBeenCalled();
+  });
+
+  test('lets only admins change fields', async () => {
+    const response = await fieldsHandler(
+      apiEvent('DELETE', '/fields/{fieldId}', { pathParameters: { fieldId: FIELD_ID }, role: 'editor' }),
+      lambdaContext,
+    );
+
+    expect(response.statusCode).toBe(403);
+    expect(withTenantConnection).not.toHaveBeenCalled();
+  });
+
+  test.each([
+    ['GET', '/fields/{fieldId}', undefined],
+    ['PATCH', '/fields/{fieldId}', { metadata: null }],
+    ['DELETE', '/fields/{fieldId}', undefined],
+    ['GET', '/fields/{fieldId}/domain-values', undefined],
+    ['POST', '/fields/{fieldId}/domain-values', { name: 'Red' }],
+  ])('answers %s %s for a missing field with 404', async (method, resource, body) => {
+    mockDatabase();
+
+    const response = await fieldsHandler(
+      apiEvent(method, resource, { pathParameters: { fieldId: FIELD_ID }, body }),
+      lambdaContext,
+    );
+
+    expect(response.statusCode).toBe(404);
+    expect(parse(response).error).toMatchObject({ message: `Field ${FIELD_ID} not found`, requestId: 'request-1' });
+  });
+
+  test('deletes a field without a body', async () => {
+    mockDatabase((sql) => (sql.startsWith('DELETE FROM field') ? [{}] : undefined));
+
+    const response = await fieldsHandler(
+      apiEvent('DELETE', '/fields/{fieldId}', { pathParameters: { fieldId: FIELD_ID } }),
+      lambdaContext,
+    );
+
+    expect(response.statusCode).toBe(204);
+    expect(response.body).toBe('');
+  });
+});
+
+describe('conditions', () => {
+  test('creates a condition from its domain values', async () => {
+    const domainValues = [{ domainValueId: DOMAIN_VALUE_ID, conditionGroupId: null, fieldId: FIELD_ID }];
+    mockDatabase((sql) => {
+      if (sql.startsWith('INSERT INTO condition (id)')) {
+        return [{ id: CONDITION_ID }];
+      }
+      if (sql.includes('FROM condition cond')) {
+        return [{ id: CONDITION_ID, domain_values: domainValues }];
+      }
+      return undefined;
+    });
+
+    const response = await conditionsHandler(
+      apiEvent('POST', '/conditions', { body: { domainValues: [{ domainValueId: DOMAIN_VALUE_ID }] } }),
+      lambdaContext,
+    );
+
+    expect(response.statusCode).toBe(201);
+    expect(parse(response).data).toEqual({ conditionId: CONDITION_ID, domainValues });
+  });
+
+  test('answers a replacement of a missing condition with 404', async () => {
+    mockDatabase();
+
+    const response = await conditionsHandler(
+      apiEvent('PUT', '/conditions/{conditionId}', {
+        pathParameters: { conditionId: CONDITION_ID },
+        body: { domainValues: [] },
+      }),
+      lambdaContext,
+    );
+
+    expect(response.statusCode).toBe(404);
+  });
+});
+
+describe('tabular groups', () => {
+  test('replaces the fields of a tabular group', async () => {
+    const fields = [{ fieldId: FIELD_ID, fieldOrder: 1 }];
+    mockDatabase((sql) => {
+      if (sql.startsWith('SELECT 1 FROM tabular_group')) {
+        return [{}];
+      }
+      if (sql.includes('FROM tabular_group tg')) {
+        return [{ id: TABULAR_GROUP_ID, fields }];
+      }
+      return undefined;
+    });
+
+    const response = await tabularGroupsHandler(
+      apiEvent('PUT', '/tabular-groups/{tabularGroupId}', {
+        pathParameters: { tabularGroupId: TABULAR_GROUP_ID },
+        body: { fields: [{ fieldId: FIELD_ID }] },
+      }),
+      lambdaContext,
+    );
+
+    expect(response.statusCode).toBe(200);
+    expect(parse(response).data).toEqual({ tabularGroupId: TABULAR_GROUP_ID, fields });
+  });
+
+  test('rejects fields that are not uuids', async () => {
+    const response = await tabularGroupsHandler(
+      apiEvent('POST', '/tabular-groups', { body: { fields: [{ fieldId: 'color' }] } }),
+      lambdaContext,
+    );
+
+    expect(response.statusCode).toBe(400);
+  });
+});
+
+describe('domain values', () => {
+  test('returns a domain value labelled for the requested locale', async () => {
+    mockDatabase(() => [
+      {
+        id: DOMAIN_VALUE_ID,
+        field_id: FIELD_ID,
+        key: 'red',
+        name: 'Red',
+        labels: { de: 'Rot' },
+        sort_order: 1,
+        deprecated_at: null,
+        successor_id: null,
+      },
+    ]);
+
+    const response = await domainValuesHandler(
+      apiEvent('GET', '/domain-values/{domainValueId}', {
+        pathParameters: { domainValueId: DOMAIN_VALUE_ID },
+        queryStringParameters: { locale: 'de-AT' },
+        role: 'viewer',
+      }),
+      lambdaContext,
+    );
+
+    expect(response.statusCode).toBe(200);
+    expect(parse(response).data).toMatchObject({ domainValueId: DOMAIN_VALUE_ID, name: 'Red', label: 'Rot' });
+  });
+
+  test('rejects an update that changes nothing', async () => {
+    const response = await domainValuesHandler(
+      apiEvent('PATCH', '/domain-values/{domainValueId}', {
+        pathParameters: { domainValueId: DOMAIN_VALUE_ID },
+        body: {},
+      }),
+      lambdaContext,
+    );
+
+    expect(response.statusCode).toBe(400);
+    expect(parse(response).error.details).toEqual([expect.objectContaining({ message: 'Nothing to update' })]);
+  });
+});
+
+describe('routing', () => {
+  test('answers routes without a handler with 404', async () => {
+    const response = await fieldsHandler(apiEvent('PUT', '/fields'), lambdaContext);
+
+    expect(response.statusCode).toBe(404);
+    expect(parse(response)).toEqual({ error: { message: 'Route not found' } });
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  BeginTransactionCommand,
+  CommitTransactionCommand,
+  ExecuteStatementCommand,
+  RDSDataClient,
+  RollbackTransactionCommand,
+} from '@aws-sdk/client-rds-data';
+import { DataApiClient, DataApiError, decodeField, toNamedPlaceholders, toSqlParameter } from '../src/db/data-api';
+import { withTransaction } from '../src/db/database';
+
+const OPTIONS = {
+  resourceArn: 'arn:aws:rds:us-east-1:123456789012:cluster:db',
+  secretArn: 'arn:aws:secretsmanager:us-east-1:123456789012:secret:db',
+  database: 'devdb',
+  retries: 2,
+};
+
+const CATEGORY_ID = '3e0b51d3-34c4-4f8b-a1a1-123456789abc';
+
+/**
+ * A client whose `send` answers each command type from `responses` and records the commands sent.
+ */
+const fakeClient = (responses: { execute?: object; error?: Error } = {}) => {
+  const sent: object[] = [];
+  const send = jest.fn(async (command: object) => {
+    sent.push(command);
+    if (command instanceof BeginTransactionCommand) {
+      return { transactionId: 'tx-1' };
+    }
+    if (command instanceof ExecuteStatementCommand && responses.error) {
+      throw responses.error;
+    }
+
+    return command instanceof ExecuteStatementCommand ? (responses.execute ?? {}) : {};
+  });
+
+  return { client: { send } as unknown as RDSDataClient, sent };
+};
+
+describe('toNamedPlaceholders', () => {
+  test('rewrites positional placeholders outside literals and dollar-quoted bodies', () => {
+    expect(
+      toNamedPlaceholders(
+        `SELECT $1::uuid[], '$2', "$3", $$ $4 $$, $fn$ $5 $fn$ FROM t WHERE a = $10 AND b = 'it''s $6'`,
+      ),
+    ).toBe(`SELECT :p1::uuid[], '$2', "$3", $$ $4 $$, $fn$ $5 $fn$ FROM t WHERE a = :p10 AND b = 'it''s $6'`);
+  });
+});
+
+describe('toSqlParameter', () => {
+  test('maps values to typed parameters', () => {
+    expect(toSqlParameter('p1', null)).toEqual({ name: 'p1', value: { isNull: true } });
+    expect(toSqlParameter('p1', true)).toEqual({ name: 'p1', value: { booleanValue: true } });
+    expect(toSqlParameter('p1', 42)).toEqual({ name: 'p1', value: { longValue: 42 } });
+    expect(toSqlParameter('p1', 1.5)).toEqual({ name: 'p1', value: { doubleValue: 1.5 } });
+    expect(toSqlParameter('p1', 'text')).toEqual({ name: 'p1', value: { stringValue: 'text' } });
+    expect(toSqlParameter('p1', CATEGORY_ID)).toEqual({
+      name: 'p1',
+      value: { stringValue: CATEGORY_ID },
+      typeHint: 'UUID',
+    });
+    expect(toSqlParameter('p1', { name: 'Car', tags: ['a'] })).toEqual({
+      name: 'p1',
+      value: { stringValue: '{"name":"Car","tags":["a"]}' },
+      typeHint: 'JSON',
+    });
+    expect(toSqlParameter('p1', new Date('2024-05-01T10:20:30.400Z'))).toEqual({
+      name: 'p1',
+      value: { stringValue: '2024-05-01 10:20:30.400' },
+      typeHint: 'TIMESTAMP',
+    });
+  });
+
+  test('sends arrays as PostgreSQL array literals', () => {
+    expect(toSqlParameter('p1', [CATEGORY_ID, null])).toEqual({
+      name: 'p1',
+      value: { stringValue: `{"${CATEGORY_ID}",NULL}` },
+    });
+    expect(toSqlParameter('p1', [{ a: 'say "hi"' }, [1, 2]]).value).toEqual({
+      stringValue: '{"{\\"a\\":\\"say \\\\\\"hi\\\\\\"\\"}",{"1","2"}}',
+    });
+  });
+});
+
+describe('decodeField', () => {
+  test('restores the values pg would return', () => {
+    expect(decodeField({ typeName: 'jsonb' }, { stringValue: '{"a":1}' })).toEqual({ a: 1 });
+    expect(decodeField({ typeName: 'int8' }, { longValue: 7 })).toBe('7');
+    expect(decodeField({ typeName: 'int4' }, { longValue: 7 })).toBe(7);
+    expect(decodeField({ typeName: 'bool' }, { booleanValue: false })).toBe(false);
+    expect(decodeField({ typeName: 'numeric' }, { stringValue: '1.50' })).toBe('1.50');
+    expect(decodeField({ typeName: 'timestamptz' }, { stringValue: '2024-05-01 10:20:30.4' })).toEqual(
+      new Date('2024-05-01T10:20:30.400Z'),
+    );
+    expect(decodeField({ typeName: 'uuid' }, { isNull: true })).toBeNull();
+    expect(decodeField({ typeName: '_jsonb' }, { arrayValue: { stringValues: ['{"a":1}', '[2]'] } })).toEqual([
+      { a: 1 },
+      [2],
+    ]);
+    expect(decodeField({ typeName: '_int8' }, { arrayValue: { arrayValues: [{ longValues: [1, 2] }] } })).toEqual([
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('DataApiClient', () => {
+  test('executes statements and decodes the result set into rows', async () => {
+    const { client, sent } = fakeClient({
+      execute: {
+        columnMetadata: [
+          { name: 'id', typeName: 'uuid' },
+          { name: 'metadata', typeName: 'jsonb' },
+        ],
+        records: [[{ stringValue: CATEGORY_ID }, { stringValue: '{"name":"Car"}' }]],
+        numberOfRecordsUpdated: 0,
+      },
+    });
+
+    const res = await new DataApiClient(OPTIONS, client).query(
+      'SELECT id, metadata FROM category WHERE id = $1 AND metadata @> $2::jsonb',
+      [CATEGORY_ID, { name: 'Car' }],
+    );
+
+    expect(res.rows).toEqual([{ id: CATEGORY_ID, metadata: { name: 'Car' } }]);
+    expect(res.rowCount).toBe(1);
+    expect(res.fields.map((field) => field.name)).toEqual(['id', 'metadata']);
+    expect((sent[0] as ExecuteStatementCommand).input).toMatchObject({
+      resourceArn: OPTIONS.resourceArn,
+      secretArn: OPTIONS.secretArn,
+      database: 'devdb',
+      sql: 'SELECT id, metadata FROM category WHERE id = :p1 AND metadata @> :p2::jsonb',
+      parameters: [
+        { name: 'p1', typeHint: 'UUID' },
+        { name: 'p2', typeHint: 'JSON' },
+      ],
+      includeResultMetadata: true,
+    });
+  });
+
+  test('runs withTransaction in a Data API transaction', async () => {
+    const { client, sent } = fakeClient({ execute: { numberOfRecordsUpdated: 1 } });
+    const db = new DataApiClient(OPTIONS, client);
+
+    const rowCount = await withTransaction(db, async (tx) => {
+      const res = await tx.query('UPDATE category SET metadata = $2 WHERE id = $1', [CATEGORY_ID, {}]);
+      return res.rowCount;
+    });
+
+    expect(rowCount).toBe(1);
+    expect(sent.map((command) => command.constructor)).toEqual([
+      BeginTransactionCommand,
+      ExecuteStatementCommand,
+      CommitTransactionCommand,
+    ]);
+    expect((sent[1] as ExecuteStatementCommand).input.transactionId).toBe('tx-1');
+    expect((sent[2] as CommitTransactionCommand).input.transactionId).toBe('tx-1');
+    expect(db.inTransaction).toBe(false);
+  });
+
+  test('rolls back and keeps the SQLSTATE of failed statements', async () => {
+    const { client, sent } = fakeClient({
+      error: Object.assign(new Error('ERROR: duplicate key value violates unique constraint; SQLState: 23505'), {
+        name: 'DatabaseErrorException',
+      }),
+    });
+    const db = new DataApiClient(OPTIONS, client);
+
+    const error = await withTransaction(db, (tx) => tx.query('INSERT INTO category (id) VALUES ($1)', [CATEGORY_ID]))
+      .then(() => undefined)
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(DataApiError);
+    expect((error as DataApiError).code).toBe('23505');
+    expect(sent[sent.length - 1]).toBeInstanceOf(RollbackTransactionCommand);
+  });
+
+  test('retries while the cluster resumes', async () => {
+    const { client, sent } = fakeClient();
+    const send = client.send as jest.Mock;
+    send.mockRejectedValueOnce(Object.assign(new Error('Resuming'), { name: 'DatabaseResumingException' }));
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    const res = await new DataApiClient(OPTIONS, client).query('SELECT 1');
+
+    expect(res.rows).toEqual([]);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(sent).toHaveLength(1);
+    jest.restoreAllMocks();
+  });
+});
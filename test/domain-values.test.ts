@@ -0,0 +1,104 @@
+import type { Field } from '../src/db/repositories';
+import { localizeDomainValue, resolveLabel } from '../src/services/domain-values';
+import { listDomainValueUses } from '../src/services/validation';
+import type { CategorySchema } from '../src/services/validation';
+
+const COLOR = '00000000-0000-4000-8000-0000000000f1';
+const SIZE = '00000000-0000-4000-8000-0000000000f2';
+const TRIM = '00000000-0000-4000-8000-0000000000f3';
+const VARIANTS = '00000000-0000-4000-8000-0000000000a1';
+const [RED, BLUE, GOLD] = ['00000000-0000-4000-8000-0000000000d1', '00000000-0000-4000-8000-0000000000d2', 'gold'];
+
+const field = (fieldId: string, datatype: string): Field => ({
+  fieldId,
+  datatype,
+  metadata: null,
+  validation: null,
+  search: null,
+});
+
+const schema: CategorySchema = {
+  category: {
+    categoryId: '00000000-0000-4000-8000-0000000000c1',
+    categoryMetadata: { name: 'Shirts' },
+    fields: [
+      { ...field(COLOR, 'domain'), isRequired: false },
+      { ...field(SIZE, 'text'), isRequired: false },
+    ],
+    conditions: [],
+    tabularGroups: [
+      {
+        tabularGroupId: VARIANTS,
+        validation: null,
+        fields: [
+          { fieldId: TRIM, fieldOrder: 1 },
+          { fieldId: SIZE, fieldOrder: 2 },
+        ],
+      },
+    ],
+  },
+  fields: [field(TRIM, 'domain')],
+  domainValues: [],
+};
+
+describe('resolveLabel', () => {
+  const labels = { de: 'Rot', 'fr-CA': 'Rouge', 'fr-BE': 'Rouge vif', 'PT-br': 'Vermelho' };
+
+  test.each([
+    ['de', 'Rot'],
+    ['fr-CA', 'Rouge'],
+    ['pt-BR', 'Vermelho'],
+    ['de-AT', 'Rot'],
+    ['fr', 'Rouge vif'],
+    ['fr-FR', 'Rouge vif'],
+    ['it', 'Red'],
+    [undefined, 'Red'],
+  ])('resolves %s to %s', (locale, label) => {
+    expect(resolveLabel(labels, 'Red', locale)).toBe(label);
+  });
+
+  test('adds the label to a domain value', () => {
+    const value = {
+      domainValueId: RED,
+      fieldId: COLOR,
+      key: 'red',
+      name: 'Red',
+      labels,
+      sortOrder: 1,
+      deprecatedAt: null,
+      successorId: null,
+    };
+
+    expect(localizeDomainValue(value, 'de-CH')).toEqual({ ...value, label: 'Rot' });
+  });
+});
+
+describe('listDomainValueUses', () => {
+  test('locates the domain values of domain fields and tabular group cells', () => {
+    const uses = listDomainValueUses(schema, {
+      values: { [COLOR]: [RED, BLUE], [SIZE]: RED },
+      tabularGroups: { [VARIANTS]: [{ [TRIM]: GOLD, [SIZE]: 'M' }, { [SIZE]: 'L' }] },
+    });
+
+    expect(uses).toEqual([
+      { path: `values.${COLOR}[0]`, fieldId: COLOR, domainValueId: RED },
+      { path: `values.${COLOR}[1]`, fieldId: COLOR, domainValueId: BLUE },
+      {
+        path: `tabularGroups.${VARIANTS}[0].${TRIM}`,
+        fieldId: TRIM,
+        domainValueId: GOLD,
+        tabularGroupId: VARIANTS,
+        row: 0,
+      },
+    ]);
+  });
+
+  test('skips malformed values and rows', () => {
+    expect(
+      listDomainValueUses(schema, {
+        values: { [COLOR]: 42 },
+        tabularGroups: { [VARIANTS]: 'rows' as unknown as [] },
+      }),
+    ).toEqual([]);
+  });
+});
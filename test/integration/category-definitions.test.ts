@@ -0,0 +1,137 @@
+import { randomUUID } from 'crypto';
+import type { Pool } from 'pg';
+import type { Database, SessionContext } from '../../src/db/database';
+import { withTenant } from '../../src/db/database';
+import { Migrator } from '../../src/db/migrator';
+import { categoryDefinitions } from '../../src/db/migrations/0011_category_definitions';
+import {
+  CategoryRepository,
+  ConditionRepository,
+  FieldRepository,
+  ModelRepository,
+  TabularGroupRepository,
+} from '../../src/db/repositories';
+import { findFixtureSet, seedDatabase } from '../../src/services/seed';
+import type { FixtureSet } from '../../src/services/seed';
+import { createTestPool, createTestTenant, withRollback, withScratchDatabase } from './support/database';
+
+let pool: Pool;
+let session: SessionContext;
+
+const apparel = findFixtureSet('apparel') as FixtureSet;
+
+const idOf = async (db: Database, table: string, key: string): Promise<string> =>
+  (await db.query<{ id: string }>(`SELECT id FROM ${table} WHERE key = $1`, [key])).rows[0].id;
+
+// Categories whose document is missing, left over or differs from their metadata_view row, model ids aside
+const staleDefinitions = async (db: Database): Promise<string[]> =>
+  (
+    await db.query<{ category_id: string }>(
+      `SELECT category_id FROM metadata_view v FULL JOIN category_definition d USING (category_id)
+       WHERE d.definition IS DISTINCT FROM to_jsonb(v) - 'tenant_id' - 'model_ids'`,
+    )
+  ).rows.map((row) => row.category_id);
+
+const versionOf = async (db: Database, categoryId: string): Promise<string | undefined> =>
+  (await new CategoryRepository(db).getVersioned(categoryId))?.version;
+
+beforeAll(async () => {
+  pool = createTestPool();
+  session = await createTestTenant(pool);
+});
+
+afterAll(() => pool.end());
+
+describe('category_definition', () => {
+  test('follows every change to the tables metadata_view reads', async () => {
+    await withRollback(pool, session, async (tx) => {
+      await seedDatabase(tx, apparel);
+      expect(await staleDefinitions(tx)).toEqual([]);
+
+      const [boots, color, size, darkLeather, variants, black] = [
+        await idOf(tx, 'category', 'boots'),
+        await idOf(tx, 'field', 'color'),
+        await idOf(tx, 'field', 'size'),
+        await idOf(tx, 'condition', 'dark-leather'),
+        await idOf(tx, 'tabular_group', 'variants'),
+        await idOf(tx, 'domain_value', 'black'),
+      ];
+      const changes: [string, () => Promise<unknown>][] = [
+        ['field', () => new FieldRepository(tx).update(color, { metadata: { name: 'Colour' } })],
+        ['condition', () => new ConditionRepository(tx).update(darkLeather, [{ domainValueId: black }])],
+        ['tabular group', () => new TabularGroupRepository(tx).update(variants, [{ fieldId: size, fieldOrder: 1 }])],
+        ['category', () => new CategoryRepository(tx).update(boots, { metadata: { name: 'Winter boots' } })],
+        ['metadata_view', () => tx.query('UPDATE metadata_view SET conditions = NULL WHERE category_id = $1', [boots])],
+        ['deleted field', () => new FieldRepository(tx).delete(size)],
+        ['deleted category', () => new CategoryRepository(tx).delete(boots)],
+      ];
+
+      for (const [change, apply] of changes) {
+        await apply();
+        expect({ change, stale: await staleDefinitions(tx) }).toEqual({ change, stale: [] });
+      }
+    });
+  });
+
+  test('changes the version only when the definition changes', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const categories = new CategoryRepository(tx);
+      const { categoryId } = await categories.create({ metadata: { name: 'Shirts' } });
+      const created = await versionOf(tx, categoryId);
+
+      await categories.update(categoryId, { metadata: { name: 'Shirts' } });
+      expect(await versionOf(tx, categoryId)).toBe(created);
+
+      await categories.update(categoryId, { metadata: { name: 'Formal shirts' } });
+      const updated = await versionOf(tx, categoryId);
+      expect(BigInt(updated as string)).toBeGreaterThan(BigInt(created as string));
+
+      // Model links are not part of the definition
+      const { modelId } = await new ModelRepository(tx).create({ metadata: { name: 'Oxford' } });
+      await new ModelRepository(tx).setCategoryValues(modelId, categoryId, { values: {} });
+      expect(await versionOf(tx, categoryId)).toBe(updated);
+
+      expect(await categories.getVersioned(categoryId, updated)).toEqual({ version: updated });
+      expect(await categories.getVersioned(categoryId, created)).toEqual({
+        version: updated,
+        definition: await categories.get(categoryId),
+      });
+    });
+  });
+
+  test("hides other tenants' definitions", async () => {
+    const other = await createTestTenant(pool);
+    const { categoryId } = await withTenant(pool, other, (tx) =>
+      new CategoryRepository(tx).create({ metadata: { name: 'Boots' } }),
+    );
+
+    await withRollback(pool, session, async (tx) => {
+      expect(await new CategoryRepository(tx).getVersioned(categoryId)).toBeUndefined();
+    });
+  });
+
+  test('are built for the existing categories of every tenant when the migration is applied', async () => {
+    await withScratchDatabase(async (client) => {
+      const migrator = new Migrator(client);
+      await migrator.up(categoryDefinitions.version - 1);
+      const tenants = [await createTestTenant(client), await createTestTenant(client)];
+      for (const tenant of tenants) {
+        await withTenant(client, tenant, (tx) =>
+          tx.query(`INSERT INTO metadata_view (category_metadata, fields) VALUES ($1, $2)`, [
+            JSON.stringify({ name: 'Shirts' }),
+            JSON.stringify([{ fieldId: randomUUID(), datatype: 'text' }]),
+          ]),
+        );
+      }
+
+      await migrator.up();
+
+      for (const tenant of tenants) {
+        await withTenant(client, tenant, async (tx) => {
+          expect(await new CategoryRepository(tx).list()).toHaveLength(1);
+          expect(await staleDefinitions(tx)).toEqual([]);
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import type { Pool } from 'pg';
+import type { Database, SessionContext } from '../../src/db/database';
+import { withOutboxRelay, withTenant } from '../../src/db/database';
+import { CategoryRepository, FieldRepository } from '../../src/db/repositories';
+import type { OutboxEventRow } from '../../src/db/repositories';
+import { relayChangeEvents } from '../../src/services/events';
+import type { ChangeEvent, EventPublisher } from '../../src/services/events';
+import { createTestPool, createTestTenant, withRollback } from './support/database';
+
+let pool: Pool;
+let session: SessionContext;
+
+// The outbox of one tenant, oldest first; only visible to the relay
+const outboxOf = (db: Database, tenantId: string): Promise<OutboxEventRow[]> =>
+  withOutboxRelay(
+    db,
+    async (tx) =>
+      (await tx.query<OutboxEventRow>('SELECT * FROM outbox_event WHERE tenant_id = $1 ORDER BY id', [tenantId])).rows,
+  );
+
+// Records what it publishes and rejects the events `reject` selects
+const fakePublisher = (reject: (event: ChangeEvent) => boolean = () => false) => {
+  const published: ChangeEvent[] = [];
+  const publisher: EventPublisher = {
+    publish: async (events) => {
+      published.push(...events.filter((event) => !reject(event)));
+      return events.filter(reject).map((event) => ({ eventId: event.eventId, error: 'Rejected' }));
+    },
+  };
+
+  return { publisher, published };
+};
+
+beforeAll(async () => {
+  pool = createTestPool();
+  session = await createTestTenant(pool);
+});
+
+afterAll(() => pool.end());
+
+describe('outbox triggers', () => {
+  test('append typed events with the rows, user and request of every change', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const categories = new CategoryRepository(tx);
+      const { categoryId, fields } = await categories.create({
+        metadata: { name: 'Shirts' },
+        fields: [{ datatype: 'text', metadata: { name: 'Brand' } }],
+      });
+      await categories.update(categoryId, { metadata: { name: 'Formal shirts' } });
+      await categories.delete(categoryId);
+
+      const events = await outboxOf(tx, session.tenantId);
+
+      expect(events.map(({ event_type, record_id }) => ({ event_type, record_id }))).toEqual([
+        { event_type: 'CategoryCreated', record_id: categoryId },
+        { event_type: 'FieldCreated', record_id: fields[0].fieldId },
+        { event_type: 'CategoryFieldAdded', record_id: categoryId },
+        { event_type: 'CategoryUpdated', record_id: categoryId },
+        { event_type: 'CategoryFieldRemoved', record_id: categoryId },
+        { event_type: 'CategoryDeleted', record_id: categoryId },
+      ]);
+      expect(events[3]).toMatchObject({
+        record_type: 'category',
+        table_name: 'category',
+        before: expect.objectContaining({ metadata: { name: 'Shirts' } }),
+        after: expect.objectContaining({ metadata: { name: 'Formal shirts' } }),
+        actor_id: session.userId,
+        request_id: session.requestId,
+        published_at: null,
+      });
+    });
+  });
+
+  test('are hidden from tenants and vanish with a rolled back change', async () => {
+    await withRollback(pool, session, async (tx) => {
+      await new FieldRepository(tx).create({ datatype: 'number' });
+
+      expect((await tx.query('SELECT * FROM outbox_event')).rows).toEqual([]);
+      expect(await outboxOf(tx, session.tenantId)).toHaveLength(1);
+    });
+
+    expect(await outboxOf(pool, session.tenantId)).toEqual([]);
+  });
+});
+
+describe('relayChangeEvents', () => {
+  test('publishes committed events once and retries failed ones', async () => {
+    const tenant = await createTestTenant(pool);
+    const { fieldId } = await withTenant(pool, tenant, (tx) => new FieldRepository(tx).create({ datatype: 'number' }));
+    await withTenant(pool, tenant, (tx) => new FieldRepository(tx).update(fieldId, { metadata: { name: 'Price' } }));
+
+    const failing = fakePublisher((event) => event.tenantId === tenant.tenantId && event.type === 'FieldUpdated');
+    const first = await relayChangeEvents(pool, failing.publisher, { batchSize: 1000 });
+
+    expect(failing.published.filter((event) => event.tenantId === tenant.tenantId)).toMatchObject([
+      { type: 'FieldCreated', recordType: 'field', recordId: fieldId, actorId: tenant.userId },
+    ]);
+    expect(first.failed).toBe(1);
+    expect(await outboxOf(pool, tenant.tenantId)).toMatchObject([
+      { event_type: 'FieldCreated', attempts: 1, published_at: expect.any(Date) },
+      { event_type: 'FieldUpdated', attempts: 1, last_error: 'Rejected', published_at: null },
+    ]);
+
+    const retry = fakePublisher();
+    const second = await relayChangeEvents(pool, retry.publisher, { batchSize: 1000 });
+
+    expect(retry.published.filter((event) => event.tenantId === tenant.tenantId)).toMatchObject([
+      { type: 'FieldUpdated', before: expect.objectContaining({ metadata: null }) },
+    ]);
+    expect(second).toMatchObject({ failed: 0, backlog: { pending: 0, abandoned: 0 } });
+  });
+
+  test('stops retrying events after maxAttempts and purges published events after the retention', async () => {
+    const tenant = await createTestTenant(pool);
+    await withTenant(pool, tenant, (tx) => new FieldRepository(tx).create({ datatype: 'number' }));
+    const rejecting = fakePublisher((event) => event.tenantId === tenant.tenantId);
+
+    await relayChangeEvents(pool, rejecting.publisher, { batchSize: 1000, maxAttempts: 1 });
+    const abandoned = await relayChangeEvents(pool, rejecting.publisher, { batchSize: 1000, maxAttempts: 1 });
+
+    expect(abandoned.failed).toBe(0);
+    expect(abandoned.backlog.abandoned).toBeGreaterThan(0);
+    // Abandoned events do not keep the backlog age alarm firing
+    expect(abandoned.backlog).toMatchObject({ pending: 0, oldestPendingSeconds: 0 });
+    expect(await outboxOf(pool, tenant.tenantId)).toMatchObject([{ attempts: 1, published_at: null }]);
+
+    await relayChangeEvents(pool, fakePublisher().publisher, { batchSize: 1000 });
+    const purged = await relayChangeEvents(pool, fakePublisher().publisher, { retentionHours: 0 });
+
+    expect(purged.purged).toBeGreaterThan(0);
+    expect(await outboxOf(pool, tenant.tenantId)).toEqual([]);
+  });
+});
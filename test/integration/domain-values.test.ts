@@ -0,0 +1,225 @@
+import { randomUUID } from 'crypto';
+import type { Pool } from 'pg';
+import type { Database, SessionContext } from '../../src/db/database';
+import { withTenant } from '../../src/db/database';
+import { Migrator } from '../../src/db/migrator';
+import { domainValueLifecycle } from '../../src/db/migrations/0012_domain_value_lifecycle';
+import {
+  CategoryRepository,
+  ConditionRepository,
+  DomainValueRepository,
+  FieldRepository,
+} from '../../src/db/repositories';
+import { deprecateDomainValue, replaceDeprecatedDomainValue } from '../../src/services/domain-values';
+import { createModel, saveModelCategory, validateCategoryRecord } from '../../src/services/models';
+import { publishCategory } from '../../src/services/versions';
+import { createTestPool, createTestTenant, withRollback, withScratchDatabase } from './support/database';
+
+let pool: Pool;
+let session: SessionContext;
+
+/**
+ * A domain field with values named `names`, in that order.
+ */
+const createColors = async (tx: Database, names: string[]) => {
+  const { fieldId } = await new FieldRepository(tx).create({ datatype: 'domain', domainValues: names });
+  const values = await new DomainValueRepository(tx).listByField(fieldId);
+
+  return { fieldId, values: Object.fromEntries(values.map((value) => [value.name, value])) };
+};
+
+const conditionValues = async (tx: Database, conditionId: string) =>
+  (await new ConditionRepository(tx).get(conditionId))?.domainValues.map((value) => value.domainValueId).sort();
+
+beforeAll(async () => {
+  pool = createTestPool();
+  session = await createTestTenant(pool);
+});
+
+afterAll(() => pool.end());
+
+describe('domain values', () => {
+  test('are listed in their sort order with their labels and stable keys', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const { fieldId, values } = await createColors(tx, ['White', 'Black']);
+      const repository = new DomainValueRepository(tx);
+      const red = await repository.create({ fieldId, key: 'red', name: 'Red', labels: { de: 'Rot' } });
+      await repository.update(values.White.domainValueId, { sortOrder: 10 });
+
+      expect(red).toMatchObject({ key: 'red', labels: { de: 'Rot' }, sortOrder: 3, deprecatedAt: null });
+      expect((await repository.listByField(fieldId)).map((value) => value.name)).toEqual(['Black', 'Red', 'White']);
+
+      // A value keyed by its id can be given a key once; the rejection aborts the transaction
+      expect(await repository.update(values.Black.domainValueId, { key: 'black' })).toMatchObject({ key: 'black' });
+      await expect(repository.update(red.domainValueId, { key: 'crimson' })).rejects.toMatchObject({ code: '23514' });
+    });
+  });
+
+  test('cannot be newly referenced once deprecated, while existing references stay', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const { fieldId, values } = await createColors(tx, ['Red', 'Crimson', 'Blue']);
+      const [red, crimson, blue] = [values.Red, values.Crimson, values.Blue].map((value) => value.domainValueId);
+      const conditions = new ConditionRepository(tx);
+      const { conditionId } = await conditions.create({ domainValues: [{ domainValueId: red }] });
+      const { categoryId } = await new CategoryRepository(tx).create({
+        metadata: { name: 'Shirts' },
+        fields: [{ fieldId }],
+        conditionIds: [conditionId],
+      });
+
+      const deprecated = await deprecateDomainValue(tx, red, crimson);
+      expect(deprecated).toMatchObject({ successorId: crimson, deprecatedAt: expect.any(Date) });
+      expect(
+        (await new DomainValueRepository(tx).listByField(fieldId, { includeDeprecated: false })).map((v) => v.name),
+      ).toEqual(['Crimson', 'Blue']);
+
+      // Conditions keep the value through updates of the repository and metadata_view
+      await conditions.update(conditionId, [{ domainValueId: red }, { domainValueId: blue }]);
+      await tx.query(`UPDATE metadata_view SET conditions = $2 WHERE category_id = $1`, [
+        categoryId,
+        JSON.stringify([{ conditionId, domainValues: [{ domainValueId: red }] }]),
+      ]);
+      expect(await conditionValues(tx, conditionId)).toEqual([red]);
+
+      await expect(deprecateDomainValue(tx, blue, red)).rejects.toMatchObject({ statusCode: 422 });
+      // Rejected by the database, which aborts the transaction
+      await expect(conditions.create({ domainValues: [{ domainValueId: red }] })).rejects.toMatchObject({
+        code: '23514',
+      });
+    });
+  });
+
+  test('are replaced by their successor in every condition', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const { values } = await createColors(tx, ['Red', 'Crimson', 'Scarlet']);
+      const [red, crimson, scarlet] = [values.Red, values.Crimson, values.Scarlet].map((v) => v.domainValueId);
+      const conditions = new ConditionRepository(tx);
+      const onlyRed = await conditions.create({ domainValues: [{ domainValueId: red }] });
+      const both = await conditions.create({ domainValues: [{ domainValueId: red }, { domainValueId: scarlet }] });
+
+      await expect(replaceDeprecatedDomainValue(tx, red)).rejects.toMatchObject({ statusCode: 409 });
+      await deprecateDomainValue(tx, red, crimson);
+      // The successor was deprecated since, so conditions move on to its own successor
+      await deprecateDomainValue(tx, crimson, scarlet);
+
+      expect(await replaceDeprecatedDomainValue(tx, red)).toEqual({
+        domainValueId: red,
+        successorId: scarlet,
+        conditionIds: [onlyRed.conditionId, both.conditionId].sort(),
+      });
+      expect(await conditionValues(tx, onlyRed.conditionId)).toEqual([scarlet]);
+      expect(await conditionValues(tx, both.conditionId)).toEqual([scarlet]);
+    });
+  });
+
+  test('that are deprecated are only accepted in models already holding them', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const { fieldId, values } = await createColors(tx, ['Red', 'Blue']);
+      const [red, blue] = [values.Red, values.Blue].map((value) => value.domainValueId);
+      const { categoryId } = await new CategoryRepository(tx).create({
+        metadata: { name: 'Shirts' },
+        fields: [{ fieldId }],
+      });
+      const { modelId } = await createModel(tx, {
+        metadata: { name: 'Oxford' },
+        categories: [{ categoryId, values: { [fieldId]: red } }],
+      });
+
+      await deprecateDomainValue(tx, red);
+
+      // Validation agrees with the saves below
+      expect(await validateCategoryRecord(tx, categoryId, { values: { [fieldId]: red } }, modelId)).toEqual({
+        valid: true,
+        errors: [],
+      });
+      expect(await validateCategoryRecord(tx, categoryId, { values: { [fieldId]: red } })).toMatchObject({
+        valid: false,
+        errors: [{ path: `values.${fieldId}`, code: 'deprecated', fieldId }],
+      });
+      await expect(saveModelCategory(tx, modelId, categoryId, { values: { [fieldId]: red } })).resolves.toBeDefined();
+      await expect(
+        createModel(tx, { metadata: { name: 'Poplin' }, categories: [{ categoryId, values: { [fieldId]: red } }] }),
+      ).rejects.toMatchObject({
+        statusCode: 422,
+        details: [{ path: `values.${fieldId}`, code: 'deprecated', fieldId }],
+      });
+      await saveModelCategory(tx, modelId, categoryId, { values: { [fieldId]: blue } });
+      await expect(saveModelCategory(tx, modelId, categoryId, { values: { [fieldId]: red } })).rejects.toMatchObject({
+        statusCode: 422,
+      });
+    });
+  });
+
+  test('that are deprecated are checked against the version saves validate against', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const { fieldId, values } = await createColors(tx, ['Red', 'Blue']);
+      const [red, blue] = [values.Red, values.Blue].map((value) => value.domainValueId);
+      const size = await new FieldRepository(tx).create({ datatype: 'text' });
+      const categories = new CategoryRepository(tx);
+      const { categoryId } = await categories.create({ metadata: { name: 'Shirts' }, fields: [{ fieldId }] });
+      await publishCategory(tx, categoryId);
+
+      // The draft drops the color and requires a size, neither of which applies until it is published
+      await categories.removeField(categoryId, fieldId);
+      await categories.addField(categoryId, { fieldId: size.fieldId, isRequired: true });
+      await deprecateDomainValue(tx, red);
+
+      const deprecated = [{ path: `values.${fieldId}`, code: 'deprecated', fieldId }];
+      expect(await validateCategoryRecord(tx, categoryId, { values: { [fieldId]: red } })).toMatchObject({
+        valid: false,
+        errors: deprecated,
+      });
+      await expect(
+        createModel(tx, { metadata: { name: 'Poplin' }, categories: [{ categoryId, values: { [fieldId]: red } }] }),
+      ).rejects.toMatchObject({ statusCode: 422, details: deprecated });
+
+      expect(await validateCategoryRecord(tx, categoryId, { values: { [fieldId]: blue } })).toEqual({
+        valid: true,
+        errors: [],
+      });
+      const { modelId, categories: saved } = await createModel(tx, {
+        metadata: { name: 'Oxford' },
+        categories: [{ categoryId, values: { [fieldId]: blue } }],
+      });
+      expect(saved).toMatchObject([{ categoryId, categoryVersion: 1 }]);
+
+      expect(await validateCategoryRecord(tx, categoryId, { values: { [fieldId]: red } }, modelId)).toMatchObject({
+        valid: false,
+        errors: deprecated,
+      });
+      await expect(saveModelCategory(tx, modelId, categoryId, { values: { [fieldId]: red } })).rejects.toMatchObject({
+        statusCode: 422,
+        details: deprecated,
+      });
+    });
+  });
+
+  test('keep their alphabetical order when the migration is applied', async () => {
+    await withScratchDatabase(async (client) => {
+      const migrator = new Migrator(client);
+      await migrator.up(domainValueLifecycle.version - 1);
+      const tenant = await createTestTenant(client);
+      const fieldId = randomUUID();
+      await withTenant(client, tenant, async (tx) => {
+        await tx.query(`INSERT INTO field (id, datatype) VALUES ($1, 'domain')`, [fieldId]);
+        for (const name of ['White', 'Black', 'Red']) {
+          await tx.query('INSERT INTO domain_value (id, field_id, name) VALUES (gen_random_uuid(), $1, $2)', [
+            fieldId,
+            name,
+          ]);
+        }
+      });
+
+      await migrator.up();
+
+      await withTenant(client, tenant, async (tx) => {
+        const listed = await new DomainValueRepository(tx).listByField(fieldId);
+        expect(listed.map(({ name, sortOrder }) => [name, sortOrder])).toEqual([
+          ['Black', 1],
+          ['Red', 2],
+          ['White', 3],
+        ]);
+      });
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { randomUUID } from 'crypto';
+import type { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import type { Pool } from 'pg';
+import type { SessionContext } from '../../src/db/database';
+import { closePool } from '../../src/db/connection';
+import { migrations } from '../../src/db/migrations';
+import { handler as categories } from '../../src/functions/categories';
+import { handler as diagnostics } from '../../src/functions/diagnostics';
+import type { DiagnosticsReport } from '../../src/services/diagnostics';
+import { createTestPool, createTestTenant } from './support/database';
+
+let pool: Pool;
+let session: SessionContext;
+
+const lambdaContext = (functionName: string) => ({ awsRequestId: randomUUID(), functionName }) as Context;
+
+/**
+ * An API Gateway event of the categories API, authorized as an admin of `tenant`.
+ */
+const categoriesEvent = (
+  tenant: SessionContext,
+  httpMethod: string,
+  resource: string,
+  {
+    pathParameters = null,
+    body,
+    headers = {},
+  }: { pathParameters?: Record<string, string> | null; body?: object; headers?: Record<string, string> } = {},
+) =>
+  ({
+    httpMethod,
+    resource,
+    path: Object.entries(pathParameters ?? {}).reduce(
+      (path, [name, value]) => path.replace(`{${name}}`, value),
+      resource,
+    ),
+    headers: { 'Content-Type': 'application/json', ...headers },
+    queryStringParameters: null,
+    pathParameters,
+    body: body ? JSON.stringify(body) : null,
+    requestContext: {
+      authorizer: { claims: { sub: tenant.userId, 'custom:roles': 'admin', 'custom:tenant_id': tenant.tenantId } },
+    },
+  }) as unknown as APIGatewayProxyEvent;
+
+const call = async (event: APIGatewayProxyEvent) => {
+  const response = await categories(event, lambdaContext('Categories'));
+
+  return {
+    statusCode: response.statusCode,
+    headers: response.headers,
+    body: response.body ? JSON.parse(response.body) : undefined,
+  };
+};
+
+beforeAll(async () => {
+  pool = createTestPool();
+  session = await createTestTenant(pool);
+});
+
+afterAll(async () => {
+  await closePool();
+  await pool.end();
+});
+
+describe('categories API', () => {
+  test('creates, reads, updates and deletes a category through the connection pool', async () => {
+    const created = await call(
+      categoriesEvent(session, 'POST', '/categories', {
+        body: {
+          metadata: { name: 'Shirts' },
+          fields: [{ datatype: 'text', metadata: { name: 'Brand' }, isRequired: true }],
+        },
+      }),
+    );
+    expect(created).toMatchObject({
+      statusCode: 201,
+      body: { data: { categoryMetadata: { name: 'Shirts' }, fields: [{ datatype: 'text', isRequired: true }] } },
+    });
+
+    const pathParameters = { categoryId: created.body.data.categoryId };
+    const updated = await call(
+      categoriesEvent(session, 'PATCH', '/categories/{categoryId}', {
+        pathParameters,
+        body: { metadata: { name: 'Formal shirts' } },
+      }),
+    );
+    expect(updated.statusCode).toBe(200);
+    expect(await call(categoriesEvent(session, 'GET', '/categories/{categoryId}', { pathParameters }))).toMatchObject({
+      statusCode: 200,
+      body: { data: { categoryMetadata: { name: 'Formal shirts' } } },
+    });
+
+    expect(
+      (await call(categoriesEvent(session, 'DELETE', '/categories/{categoryId}', { pathParameters }))).statusCode,
+    ).toBeLessThan(300);
+    expect(
+      (await call(categoriesEvent(session, 'GET', '/categories/{categoryId}', { pathParameters }))).statusCode,
+    ).toBe(404);
+  });
+
+  test('tags category definitions with their version and answers unchanged ones with 304', async () => {
+    const created = await call(
+      categoriesEvent(session, 'POST', '/categories', { body: { metadata: { name: 'Shirts' } } }),
+    );
+    const pathParameters = { categoryId: created.body.data.categoryId };
+    const get = (headers: Record<string, string> = {}) =>
+      call(categoriesEvent(session, 'GET', '/categories/{categoryId}', { pathParameters, headers }));
+
+    const first = await get();
+    const etag = first.headers?.ETag as string;
+    expect(first).toMatchObject({ statusCode: 200, body: { data: created.body.data } });
+    expect(etag).toBe(`"${first.headers?.['X-Definition-Version']}"`);
+    expect(await get({ 'If-None-Match': etag })).toMatchObject({ statusCode: 304, body: undefined });
+
+    await call(
+      categoriesEvent(session, 'PATCH', '/categories/{categoryId}', {
+        pathParameters,
+        body: { metadata: { name: 'Formal shirts' } },
+      }),
+    );
+    const changed = await get({ 'if-none-match': etag });
+    expect(changed).toMatchObject({ statusCode: 200, body: { data: { categoryMetadata: { name: 'Formal shirts' } } } });
+    expect(changed.headers?.ETag).not.toBe(etag);
+  });
+
+  test("hides other tenants' categories", async () => {
+    const other = await createTestTenant(pool);
+    const created = await call(
+      categoriesEvent(other, 'POST', '/categories', { body: { metadata: { name: 'Boots' } } }),
+    );
+    const pathParameters = { categoryId: created.body.data.categoryId };
+
+    expect(
+      (await call(categoriesEvent(session, 'GET', '/categories/{categoryId}', { pathParameters }))).statusCode,
+    ).toBe(404);
+    expect((await call(categoriesEvent(session, 'GET', '/categories'))).body.data).not.toContainEqual(
+      expect.objectContaining(pathParameters),
+    );
+  });
+
+  test('rejects invalid requests before touching the database', async () => {
+    const response = await call(categoriesEvent(session, 'POST', '/categories', { body: { metadata: 'Shirts' } }));
+
+    expect(response.statusCode).toBe(400);
+  });
+});
+
+describe('diagnostics', () => {
+  test('reports a healthy, fully migrated database', async () => {
+    const latest = migrations[migrations.length - 1].version;
+    const report = (await diagnostics({}, lambdaContext('Diagnostics'))) as DiagnosticsReport;
+
+    expect(report).toMatchObject({
+      status: 'ok',
+      issues: [],
+      connectivity: { backend: 'pg', retries: 0, resumeMs: 0 },
+      migrations: { currentVersion: latest, latestVersion: latest, pending: [], changed: [] },
+    });
+    expect(report.connections.total).toBeGreaterThan(0);
+    expect(report.tables.map((table) => table.table)).toContain('category');
+  });
+});
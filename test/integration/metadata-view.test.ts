@@ -0,0 +1,190 @@
+import { randomUUID } from 'crypto';
+import type { Pool } from 'pg';
+import type { Database, SessionContext } from '../../src/db/database';
+import { withTenant } from '../../src/db/database';
+import { ModelRepository } from '../../src/db/repositories';
+import type { MetadataViewRow } from '../../src/db/repositories';
+import { createTestPool, createTestTenant, withRollback } from './support/database';
+
+let pool: Pool;
+let session: SessionContext;
+
+const json = (value: unknown) => JSON.stringify(value);
+
+const insertCategory = async (tx: Database, row: Partial<Record<keyof MetadataViewRow, unknown>>) =>
+  (
+    await tx.query<MetadataViewRow>(
+      `INSERT INTO metadata_view (category_id, category_metadata, model_ids, fields, conditions, tabularGroups)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [
+        row.category_id ?? null,
+        json(row.category_metadata ?? { name: 'Shirts' }),
+        row.model_ids === undefined ? null : json(row.model_ids),
+        row.fields === undefined ? null : json(row.fields),
+        row.conditions === undefined ? null : json(row.conditions),
+        row.tabulargroups === undefined ? null : json(row.tabulargroups),
+      ],
+    )
+  ).rows[0];
+
+const selectCategory = async (tx: Database, categoryId: string) =>
+  (await tx.query<MetadataViewRow>('SELECT * FROM metadata_view WHERE category_id = $1', [categoryId])).rows[0];
+
+const count = async (tx: Database, table: string, where = 'TRUE', values: unknown[] = []) =>
+  Number((await tx.query(`SELECT count(*) AS count FROM ${table} WHERE ${where}`, values)).rows[0].count);
+
+beforeAll(async () => {
+  pool = createTestPool();
+  session = await createTestTenant(pool);
+});
+
+afterAll(() => pool.end());
+
+describe('metadata_view', () => {
+  test('INSERT creates the category with its fields, conditions, tabular groups and models', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const model = await new ModelRepository(tx).create({ metadata: { name: 'Oxford' } });
+      const [colour, size, conditionId, groupId] = [randomUUID(), randomUUID(), randomUUID(), randomUUID()];
+
+      const inserted = await insertCategory(tx, {
+        model_ids: [model.modelId],
+        fields: [
+          { fieldId: colour, datatype: 'text', metadata: { name: 'Colour' }, isRequired: true },
+          { fieldId: size, datatype: 'integer', metadata: { name: 'Size' } },
+        ],
+        conditions: [{ conditionId }],
+        tabulargroups: [
+          { tabularGroupId: groupId, validation: { minRows: 1 }, fields: [{ fieldId: size }, { fieldId: colour }] },
+        ],
+      });
+      const category = await selectCategory(tx, inserted.category_id);
+
+      expect(category).toMatchObject({
+        category_metadata: { name: 'Shirts' },
+        model_ids: [model.modelId],
+        conditions: [{ conditionId, domainValues: null }],
+        tabulargroups: [
+          {
+            tabularGroupId: groupId,
+            validation: { minRows: 1 },
+            fields: [
+              { fieldId: size, fieldOrder: 1 },
+              { fieldId: colour, fieldOrder: 2 },
+            ],
+          },
+        ],
+        tenant_id: session.tenantId,
+      });
+      expect(category.fields).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ fieldId: colour, datatype: 'text', isRequired: true }),
+          expect.objectContaining({ fieldId: size, datatype: 'integer', isRequired: false }),
+        ]),
+      );
+      expect(await count(tx, 'field', 'tenant_id = $1', [session.tenantId])).toBe(2);
+    });
+  });
+
+  test('UPDATE replaces only the arrays it changes', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const [kept, dropped, added] = [randomUUID(), randomUUID(), randomUUID()];
+      const { category_id: categoryId } = await insertCategory(tx, {
+        fields: [
+          { fieldId: kept, datatype: 'text' },
+          { fieldId: dropped, datatype: 'text' },
+        ],
+        conditions: [{ conditionId: randomUUID() }],
+      });
+
+      await tx.query(`UPDATE metadata_view SET category_metadata = $2, fields = $3 WHERE category_id = $1`, [
+        categoryId,
+        json({ name: 'Renamed' }),
+        json([{ fieldId: kept }, { fieldId: added, datatype: 'boolean' }]),
+      ]);
+      const category = await selectCategory(tx, categoryId);
+
+      expect(category.category_metadata).toEqual({ name: 'Renamed' });
+      expect(category.fields?.map((field) => field.fieldId).sort()).toEqual([kept, added].sort());
+      expect(category.conditions).toHaveLength(1);
+      // Unlinked fields stay, as other categories may use them
+      expect(await count(tx, 'field', 'id = $1', [dropped])).toBe(1);
+    });
+  });
+
+  test('UPDATE refuses to change the category id', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const { category_id: categoryId } = await insertCategory(tx, {});
+
+      await expect(
+        tx.query('UPDATE metadata_view SET category_id = $2 WHERE category_id = $1', [categoryId, randomUUID()]),
+      ).rejects.toThrow('category_id of metadata_view cannot be changed');
+    });
+  });
+
+  test('UPDATE to NULL unlinks everything in that array', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const model = await new ModelRepository(tx).create({ metadata: { name: 'Oxford' } });
+      const fieldId = randomUUID();
+      const { category_id: categoryId } = await insertCategory(tx, {
+        model_ids: [model.modelId],
+        fields: [{ fieldId, datatype: 'text' }],
+        conditions: [{ conditionId: randomUUID() }],
+      });
+
+      await tx.query('UPDATE metadata_view SET model_ids = NULL, fields = NULL WHERE category_id = $1', [categoryId]);
+
+      expect(await count(tx, 'model_category', 'category_id = $1', [categoryId])).toBe(0);
+      expect(await count(tx, 'category_field', 'category_id = $1', [categoryId])).toBe(0);
+      expect(await count(tx, 'category_condition', 'category_id = $1', [categoryId])).toBe(1);
+      expect(await count(tx, 'field', 'id = $1', [fieldId])).toBe(1);
+    });
+  });
+
+  test('DELETE removes the category and its links but keeps shared records', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const model = await new ModelRepository(tx).create({ metadata: { name: 'Oxford' } });
+      const [fieldId, conditionId, groupId] = [randomUUID(), randomUUID(), randomUUID()];
+      const { category_id: categoryId } = await insertCategory(tx, {
+        model_ids: [model.modelId],
+        fields: [{ fieldId, datatype: 'text' }],
+        conditions: [{ conditionId }],
+        tabulargroups: [{ tabularGroupId: groupId, fields: [{ fieldId }] }],
+      });
+
+      const deleted = await tx.query('DELETE FROM metadata_view WHERE category_id = $1 RETURNING *', [categoryId]);
+
+      expect(deleted.rowCount).toBe(1);
+      expect(await selectCategory(tx, categoryId)).toBeUndefined();
+      for (const link of ['model_category', 'category_field', 'category_condition', 'category_tabular_group']) {
+        expect(await count(tx, link, 'category_id = $1', [categoryId])).toBe(0);
+      }
+      expect(await count(tx, 'model', 'id = $1', [model.modelId])).toBe(1);
+      expect(await count(tx, 'field', 'id = $1', [fieldId])).toBe(1);
+      expect(await count(tx, 'condition', 'id = $1', [conditionId])).toBe(1);
+      expect(await count(tx, 'tabular_group', 'id = $1', [groupId])).toBe(1);
+    });
+  });
+
+  test("shows and changes only the session tenant's categories", async () => {
+    const other = await createTestTenant(pool);
+    const categoryId = randomUUID();
+    await withTenant(pool, other, (tx) => insertCategory(tx, { category_id: categoryId }));
+
+    await withRollback(pool, session, async (tx) => {
+      expect(await selectCategory(tx, categoryId)).toBeUndefined();
+      expect((await tx.query('DELETE FROM metadata_view WHERE category_id = $1', [categoryId])).rowCount).toBe(0);
+      await expect(insertCategory(tx, { category_id: categoryId })).rejects.toMatchObject({ code: '42501' });
+    });
+    await withRollback(pool, other, async (tx) => {
+      expect(await selectCategory(tx, categoryId)).toMatchObject({ tenant_id: other.tenantId });
+    });
+  });
+
+  test('refuses writes without a tenant', async () => {
+    await expect(pool.query('INSERT INTO category (metadata) VALUES ($1)', [json({ name: 'Orphan' })])).rejects.toThrow(
+      'app.tenant_id is not set',
+    );
+    expect(await count(pool, 'metadata_view')).toBe(0);
+  });
+});
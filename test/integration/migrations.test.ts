@@ -0,0 +1,60 @@
+import type { Database } from '../../src/db/database';
+import { Migrator } from '../../src/db/migrator';
+import { migrations } from '../../src/db/migrations';
+import { dropAllTablesAndViews } from '../../scripts/reset-database';
+import { withScratchDatabase } from './support/database';
+
+// Tables and views of the schema, apart from the migrations' own
+const tables = async (db: Database): Promise<string[]> =>
+  (
+    await db.query<{ table_name: string }>(
+      `SELECT table_name FROM information_schema.tables
+       WHERE table_schema = 'public' AND table_name <> 'schema_migrations' ORDER BY table_name`,
+    )
+  ).rows.map((row) => row.table_name);
+
+describe('migrations', () => {
+  test('apply to an empty database, revert completely and apply again', async () => {
+    await withScratchDatabase(async (client) => {
+      const migrator = new Migrator(client);
+
+      expect((await migrator.up()).map((m) => m.version)).toEqual(migrations.map((m) => m.version));
+      expect((await migrator.status()).every((m) => m.state === 'applied')).toBe(true);
+      const schema = await tables(client);
+      expect(schema).toEqual(expect.arrayContaining(['category', 'field', 'metadata_view', 'model', 'tenant']));
+
+      expect(await migrator.down(migrations.length)).toHaveLength(migrations.length);
+      expect(await tables(client)).toEqual([]);
+
+      await migrator.up();
+      expect(await tables(client)).toEqual(schema);
+    });
+  });
+
+  test('revert and re-apply each migration on top of its predecessors', async () => {
+    await withScratchDatabase(async (client) => {
+      const migrator = new Migrator(client);
+
+      for (const migration of migrations) {
+        await migrator.up(migration.version);
+        await migrator.down(1);
+        await migrator.up(migration.version);
+      }
+
+      expect((await migrator.status()).map((m) => m.state)).toEqual(migrations.map(() => 'applied'));
+    });
+  });
+
+  test('apply again after a reset drops every table and view', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    await withScratchDatabase(async (client) => {
+      const migrator = new Migrator(client);
+      await migrator.up();
+
+      await dropAllTablesAndViews(client);
+      expect(await tables(client)).toEqual([]);
+
+      expect(await migrator.up()).toHaveLength(migrations.length);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import type { Pool } from 'pg';
+import type { Database, SessionContext } from '../../src/db/database';
+import {
+  AuditRepository,
+  CategoryRepository,
+  DomainValueRepository,
+  FieldRepository,
+  ModelRepository,
+} from '../../src/db/repositories';
+import { searchModels } from '../../src/services/search';
+import { findFixtureSet, seedDatabase } from '../../src/services/seed';
+import type { FixtureSet } from '../../src/services/seed';
+import { createTestPool, createTestTenant, withRollback } from './support/database';
+
+let pool: Pool;
+let session: SessionContext;
+
+const idOf = async (db: Database, table: 'category' | 'field', key: string): Promise<string> =>
+  (await db.query<{ id: string }>(`SELECT id FROM ${table} WHERE key = $1`, [key])).rows[0].id;
+
+const domainValueIdOf = async (db: Database, fieldKey: string, key: string): Promise<string> =>
+  (
+    await db.query<{ id: string }>(
+      'SELECT dv.id FROM domain_value dv JOIN field f ON f.id = dv.field_id WHERE f.key = $1 AND dv.key = $2',
+      [fieldKey, key],
+    )
+  ).rows[0].id;
+
+beforeAll(async () => {
+  pool = createTestPool();
+  session = await createTestTenant(pool);
+});
+
+afterAll(() => pool.end());
+
+describe('repositories', () => {
+  test('create, read, update and delete a category with new and existing fields', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const color = await new FieldRepository(tx).create({ datatype: 'domain', domainValues: ['Black', 'White'] });
+      const categories = new CategoryRepository(tx);
+
+      const created = await categories.create({
+        metadata: { name: 'Shirts' },
+        fields: [
+          { fieldId: color.fieldId, isRequired: true },
+          { datatype: 'number', metadata: { name: 'Price' } },
+        ],
+      });
+
+      expect(await categories.get(created.categoryId)).toEqual(created);
+      expect(created.fields).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ fieldId: color.fieldId, isRequired: true }),
+          expect.objectContaining({ datatype: 'number', metadata: { name: 'Price' }, isRequired: false }),
+        ]),
+      );
+      expect((await new DomainValueRepository(tx).listByField(color.fieldId)).map((value) => value.name)).toEqual([
+        'Black',
+        'White',
+      ]);
+
+      expect(await categories.update(created.categoryId, { metadata: { name: 'Formal shirts' } })).toEqual({
+        categoryId: created.categoryId,
+        metadata: { name: 'Formal shirts' },
+      });
+      expect((await categories.list()).map((category) => category.categoryId)).toEqual([created.categoryId]);
+
+      expect(await categories.delete(created.categoryId)).toBe(true);
+      expect(await categories.get(created.categoryId)).toBeUndefined();
+      expect(await new FieldRepository(tx).get(color.fieldId)).toBeDefined();
+    });
+  });
+
+  test('the audit log records every change with the user and request', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const categories = new CategoryRepository(tx);
+      const { categoryId } = await categories.create({ metadata: { name: 'Shirts' } });
+      await categories.update(categoryId, { metadata: { name: 'Formal shirts' } });
+
+      const entries = await new AuditRepository(tx).list('category', categoryId);
+
+      expect(entries.map(({ operation, actorId, requestId }) => ({ operation, actorId, requestId }))).toEqual([
+        { operation: 'UPDATE', actorId: session.userId, requestId: session.requestId },
+        { operation: 'INSERT', actorId: session.userId, requestId: session.requestId },
+      ]);
+      expect(entries[0]).toMatchObject({
+        table: 'category',
+        before: expect.objectContaining({ metadata: { name: 'Shirts' } }),
+        after: expect.objectContaining({ metadata: { name: 'Formal shirts' } }),
+      });
+    });
+  });
+
+  test('models keep their values per category', async () => {
+    await withRollback(pool, session, async (tx) => {
+      const price = await new FieldRepository(tx).create({ datatype: 'number' });
+      const { categoryId } = await new CategoryRepository(tx).create({
+        metadata: { name: 'Shirts' },
+        fields: [{ fieldId: price.fieldId }],
+      });
+      const models = new ModelRepository(tx);
+      const { modelId } = await models.create({ metadata: { name: 'Oxford' } });
+
+      await models.setCategoryValues(modelId, categoryId, { values: { [price.fieldId]: 49.9 } });
+
+      expect(await models.get(modelId)).toMatchObject({
+        metadata: { name: 'Oxford' },
+        categories: [{ categoryId, categoryVersion: null, values: { [price.fieldId]: 49.9 }, tabularGroups: {} }],
+      });
+      expect(await models.removeCategory(modelId, categoryId)).toBe(true);
+      expect((await models.get(modelId))?.categories).toEqual([]);
+    });
+  });
+});
+
+describe('searchModels', () => {
+  const apparel = findFixtureSet('apparel') as FixtureSet;
+
+  test('filters, sorts and counts facets of the seeded models', async () => {
+    await withRollback(pool, session, async (tx) => {
+      await seedDatabase(tx, apparel);
+      const categoryId = await idOf(tx, 'category', 'boots');
+      const [color, price, black] = [
+        await idOf(tx, 'field', 'color'),
+        await idOf(tx, 'field', 'price'),
+        await domainValueIdOf(tx, 'color', 'black'),
+      ];
+
+      const all = await searchModels(tx, { categoryId, sort: [{ fieldId: price, direction: 'desc' }] });
+      const prices = all.data.map((hit) => hit.values[price] as number);
+      const blackBoots = await searchModels(tx, { categoryId, filters: [{ fieldId: color, op: 'eq', value: black }] });
+
+      expect(all.total).toBe(
+        apparel.models.filter((model) => model.categories.some((c) => c.category === 'boots')).length,
+      );
+      expect(prices).toEqual([...prices].sort((a, b) => b - a));
+      expect(blackBoots.data.every((hit) => hit.values[color] === black)).toBe(true);
+      expect(all.facets[color].find((bucket) => bucket.domainValueId === black)?.count).toBe(blackBoots.total);
+    });
+  });
+});
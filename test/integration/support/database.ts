@@ -0,0 +1,73 @@
+import { randomUUID } from 'crypto';
+import { Client, Pool } from 'pg';
+import type { Database, SessionContext } from '../../../src/db/database';
+import { withTenant } from '../../../src/db/database';
+import { TenantRepository } from '../../../src/db/repositories';
+import { ENV } from './environment';
+
+const env = (name: string): string => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set; run the integration tests with npm run test:integration`);
+  }
+
+  return value;
+};
+
+/**
+ * A pool on the migrated test database. End it in `afterAll`.
+ */
+export const createTestPool = (): Pool => new Pool({ connectionString: env(ENV.databaseUrl), max: 2 });
+
+/**
+ * Creates a tenant of its own for a test, so tests never see each other's rows.
+ */
+export const createTestTenant = async (db: Database): Promise<SessionContext> => {
+  const tenant = await new TenantRepository(db).create({ name: `Integration ${randomUUID()}` });
+
+  return { tenantId: tenant.tenantId, userId: randomUUID(), requestId: randomUUID() };
+};
+
+/**
+ * Runs `fn` scoped to `session` in a transaction that is always rolled back.
+ */
+export const withRollback = async (
+  db: Database,
+  session: SessionContext,
+  fn: (tx: Database) => Promise<void>,
+): Promise<void> => {
+  const rollback = new Error('rollback');
+  await withTenant(db, session, async (tx) => {
+    await fn(tx);
+    throw rollback;
+  }).catch((error) => {
+    if (error !== rollback) {
+      throw error;
+    }
+  });
+};
+
+/**
+ * Runs `fn` connected to a new, empty database owned by the test role, which is dropped afterwards.
+ */
+export const withScratchDatabase = async (fn: (client: Client) => Promise<void>): Promise<void> => {
+  const url = new URL(env(ENV.databaseUrl));
+  const name = `scratch_${randomUUID().replace(/-/g, '')}`;
+  const admin = new Client({ connectionString: env(ENV.adminUrl) });
+  await admin.connect();
+
+  try {
+    await admin.query(`CREATE DATABASE ${name} OWNER ${decodeURIComponent(url.username)}`);
+    url.pathname = `/${name}`;
+    const client = new Client({ connectionString: url.toString() });
+    await client.connect();
+    try {
+      await fn(client);
+    } finally {
+      await client.end();
+    }
+  } finally {
+    await admin.query(`DROP DATABASE IF EXISTS ${name} WITH (FORCE)`);
+    await admin.end();
+  }
+};
@@ -0,0 +1,12 @@
+// The secret the Secrets Manager stub serves for the test database
+export const SECRET_ARN = 'arn:aws:secretsmanager:us-east-1:000000000000:secret:integration-database';
+
+/**
+ * Environment variables set by the global setup for the test files.
+ */
+export const ENV = {
+  // Superuser connection string of the server
+  adminUrl: 'INTEGRATION_ADMIN_URL',
+  // Connection string of the migrated test database, as its owner, which row level security applies to
+  databaseUrl: 'INTEGRATION_DATABASE_URL',
+} as const;
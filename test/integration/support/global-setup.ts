@@ -0,0 +1,97 @@
+import { randomBytes } from 'crypto';
+import { Client } from 'pg';
+import { Migrator } from '../../../src/db/migrator';
+import { ENV, SECRET_ARN } from './environment';
+import { startLocalPostgres } from './local-postgres';
+import { startSecretsManagerStub } from './secrets-manager-stub';
+
+declare global {
+  // Read by the global teardown, which runs in the same process
+  var integrationTeardown: (() => Promise<void>) | undefined;
+}
+
+const withClient = async (connectionString: string, fn: (client: Client) => Promise<void>) => {
+  const client = new Client({ connectionString });
+  await client.connect();
+  try {
+    await fn(client);
+  } finally {
+    await client.end();
+  }
+};
+
+/**
+ * Prepares a disposable database for the integration tests:
+ *
+ * 1. starts a local PostgreSQL in a temporary directory, or uses the server of `TEST_DATABASE_URL`
+ * 2. creates a login role and a database it owns, both with random names, and applies every migration as that role
+ * 3. serves the role's credentials from a Secrets Manager stub and points the `DB_*` and AWS variables at it, so
+ *    handlers connect through `src/db/connection.ts` exactly as in Lambda
+ */
+export default async function globalSetup(): Promise<void> {
+  const server = process.env.TEST_DATABASE_URL ? undefined : await startLocalPostgres();
+  const adminUrl = process.env.TEST_DATABASE_URL ?? (server?.adminUrl as string);
+
+  // Hex, so the names and the password need no quoting
+  const role = `integration_${randomBytes(6).toString('hex')}`;
+  const password = randomBytes(16).toString('hex');
+  const databaseUrl = new URL(adminUrl);
+  databaseUrl.username = role;
+  databaseUrl.password = password;
+  databaseUrl.pathname = `/${role}`;
+
+  const cleanUp = async () => {
+    if (server) {
+      server.stop();
+      return;
+    }
+
+    await withClient(adminUrl, async (admin) => {
+      await admin.query(`DROP DATABASE IF EXISTS ${role} WITH (FORCE)`);
+      await admin.query(`DROP ROLE IF EXISTS ${role}`);
+    });
+  };
+
+  try {
+    await withClient(adminUrl, async (admin) => {
+      await admin.query(`CREATE ROLE ${role} LOGIN PASSWORD '${password}'`);
+      await admin.query(`CREATE DATABASE ${role} OWNER ${role}`);
+    });
+    await withClient(databaseUrl.toString(), async (client) => {
+      await new Migrator(client).up();
+    });
+  } catch (error) {
+    await cleanUp();
+    throw error;
+  }
+
+  const stub = await startSecretsManagerStub({
+    [SECRET_ARN]: {
+      engine: 'postgres',
+      username: role,
+      password,
+      host: databaseUrl.hostname,
+      port: Number(databaseUrl.port || 5432),
+      dbname: role,
+    },
+  });
+
+  Object.assign(process.env, {
+    [ENV.adminUrl]: adminUrl,
+    [ENV.databaseUrl]: databaseUrl.toString(),
+    DB_BACKEND: 'pg',
+    DB_SECRET_ARN: SECRET_ARN,
+    DB_SSL_MODE: 'disable',
+    DB_CONNECT_RETRIES: '0',
+    AWS_REGION: 'us-east-1',
+    AWS_ACCESS_KEY_ID: 'integration',
+    AWS_SECRET_ACCESS_KEY: 'integration',
+    AWS_ENDPOINT_URL_SECRETS_MANAGER: stub.endpoint,
+    LOG_LEVEL: 'error',
+  });
+
+  globalThis.integrationTeardown = async () => {
+    await stub.close();
+    await cleanUp();
+  };
+}
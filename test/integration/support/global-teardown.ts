@@ -0,0 +1,6 @@
+/**
+ * Stops the Secrets Manager stub and drops the database of the global setup, or stops its local server.
+ */
+export default async function globalTeardown(): Promise<void> {
+  await globalThis.integrationTeardown?.();
+}
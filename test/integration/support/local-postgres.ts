@@ -0,0 +1,87 @@
+import { execFileSync } from 'child_process';
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { createServer } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+export interface LocalPostgres {
+  // Superuser connection string of the server's `postgres` database
+  adminUrl: string;
+  stop(): void;
+}
+
+/**
+ * Finds `initdb` and `pg_ctl`: in `PG_BIN`, in the directory reported by `pg_config` or on the PATH.
+ */
+const findBinaries = (): string => {
+  const candidates = [process.env.PG_BIN];
+  try {
+    candidates.push(execFileSync('pg_config', ['--bindir'], { encoding: 'utf8' }).trim());
+  } catch {
+    // No pg_config either; fall back to the PATH
+  }
+
+  return candidates.find((dir) => dir && existsSync(join(dir, 'initdb'))) ?? '';
+};
+
+const freePort = (): Promise<number> =>
+  new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as { port: number };
+      server.close(() => resolve(port));
+    });
+  });
+
+/**
+ * Creates a cluster in a temporary directory and starts it on a free port, without fsync and trusting local
+ * connections. `stop` shuts it down and deletes the directory.
+ */
+export const startLocalPostgres = async (): Promise<LocalPostgres> => {
+  if (process.getuid?.() === 0) {
+    throw new Error('PostgreSQL refuses to run as root: run the tests as another user or set TEST_DATABASE_URL');
+  }
+
+  const bin = findBinaries();
+  const command = (name: string) => (bin ? join(bin, name) : name);
+  const dataDir = mkdtempSync(join(tmpdir(), 'pg-integration-'));
+  const port = await freePort();
+
+  try {
+    execFileSync(command('initdb'), ['-D', dataDir, '-U', 'postgres', '--auth=trust', '-E', 'UTF8', '--no-locale'], {
+      stdio: 'ignore',
+    });
+    execFileSync(
+      command('pg_ctl'),
+      [
+        '-D',
+        dataDir,
+        '-l',
+        join(dataDir, 'server.log'),
+        '-o',
+        `-p ${port} -k ${dataDir} -c listen_addresses=127.0.0.1 -c fsync=off -c full_page_writes=off`,
+        '-w',
+        'start',
+      ],
+      { stdio: 'ignore' },
+    );
+  } catch (error) {
+    rmSync(dataDir, { recursive: true, force: true });
+    throw new Error(
+      `Could not start PostgreSQL (${(error as Error).message}); install it, set PG_BIN to its bin directory ` +
+        'or set TEST_DATABASE_URL to an existing server',
+    );
+  }
+
+  return {
+    adminUrl: `postgres://postgres@127.0.0.1:${port}/postgres`,
+    stop: () => {
+      try {
+        execFileSync(command('pg_ctl'), ['-D', dataDir, '-m', 'immediate', '-w', 'stop'], { stdio: 'ignore' });
+      } finally {
+        rmSync(dataDir, { recursive: true, force: true });
+      }
+    },
+  };
+};
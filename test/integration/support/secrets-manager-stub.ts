@@ -0,0 +1,51 @@
+import { createServer } from 'http';
+import type { Server, ServerResponse } from 'http';
+
+export interface SecretsManagerStub {
+  // Endpoint for AWS_ENDPOINT_URL_SECRETS_MANAGER
+  endpoint: string;
+  close(): Promise<void>;
+}
+
+const respond = (res: ServerResponse, statusCode: number, body: object) => {
+  res.writeHead(statusCode, { 'Content-Type': 'application/x-amz-json-1.1' });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Answers the Secrets Manager `GetSecretValue` calls of the SDK with `secrets`, keyed by ARN, so
+ * `src/db/connection.ts` runs unchanged without an AWS account. Any other call fails.
+ */
+export const startSecretsManagerStub = (secrets: Record<string, object>): Promise<SecretsManagerStub> => {
+  const server: Server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      if (req.headers['x-amz-target'] !== 'secretsmanager.GetSecretValue') {
+        return respond(res, 400, { __type: 'InvalidRequestException', message: `${req.headers['x-amz-target']}` });
+      }
+
+      const { SecretId } = JSON.parse(body) as { SecretId: string };
+      if (!secrets[SecretId]) {
+        return respond(res, 400, { __type: 'ResourceNotFoundException', message: `Secret ${SecretId} not found` });
+      }
+
+      respond(res, 200, {
+        ARN: SecretId,
+        Name: SecretId.split(':').pop(),
+        SecretString: JSON.stringify(secrets[SecretId]),
+        VersionId: 'integration',
+      });
+    });
+  });
+
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as { port: number };
+      resolve({
+        endpoint: `http://127.0.0.1:${port}`,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    }),
+  );
+};
@@ -0,0 +1,113 @@
+import type { MetadataDocument } from '../src/services/transfer';
+import { mergeDomainValues, parseDomainValuesCsv, planImport, toDomainValuesCsv } from '../src/services/transfer';
+
+const document = (): MetadataDocument => ({
+  format: 'metadata/v1',
+  fields: [
+    {
+      key: 'color',
+      datatype: 'domain',
+      metadata: { label: 'Color' },
+      validation: null,
+      search: null,
+      domainValues: [
+        { key: 'red', name: 'Red' },
+        { key: 'blue', name: 'Blue, "dark"' },
+      ],
+    },
+  ],
+  tabularGroups: [],
+  conditions: [{ key: 'is-red', domainValues: [{ field: 'color', domainValue: 'red', conditionGroupId: null }] }],
+  categories: [
+    {
+      key: 'shirts',
+      metadata: { name: 'Shirts' },
+      fields: [{ field: 'color', isRequired: true }],
+      conditions: ['is-red'],
+      tabularGroups: [],
+    },
+  ],
+});
+
+const empty: MetadataDocument = {
+  format: 'metadata/v1',
+  fields: [],
+  tabularGroups: [],
+  conditions: [],
+  categories: [],
+};
+
+describe('planImport', () => {
+  test('creates every record of a new document, referenced records first', () => {
+    expect(planImport(empty, document())).toEqual({
+      changes: [
+        { recordType: 'field', key: 'color', action: 'create' },
+        { recordType: 'domain_value', key: 'color/blue', action: 'create' },
+        { recordType: 'domain_value', key: 'color/red', action: 'create' },
+        { recordType: 'condition', key: 'is-red', action: 'create' },
+        { recordType: 'category', key: 'shirts', action: 'create' },
+      ],
+      unchanged: 0,
+    });
+  });
+
+  test('changes nothing when the document matches, in any order', () => {
+    const reordered = document();
+    reordered.fields[0].domainValues.reverse();
+    reordered.fields[0].metadata = { label: 'Color' };
+
+    expect(planImport(document(), reordered)).toEqual({ changes: [], unchanged: 5 });
+  });
+
+  test('lists the properties an update changes and keeps records missing from the document', () => {
+    const next = document();
+    next.fields[0].domainValues = [{ key: 'red', name: 'Crimson' }];
+    next.categories[0].fields[0].isRequired = false;
+    next.conditions = [];
+
+    expect(planImport(document(), next)).toEqual({
+      changes: [
+        { recordType: 'domain_value', key: 'color/red', action: 'update', changed: ['name'] },
+        { recordType: 'category', key: 'shirts', action: 'update', changed: ['fields'] },
+      ],
+      unchanged: 1,
+    });
+  });
+
+  test('rejects duplicate keys and unknown references', () => {
+    const invalid = document();
+    invalid.categories.push({ ...invalid.categories[0], conditions: ['missing'] });
+
+    expect(() => planImport(empty, invalid)).toThrow(
+      expect.objectContaining({
+        statusCode: 422,
+        details: ['Duplicate category key shirts', 'Category shirts references unknown condition missing'],
+      }),
+    );
+  });
+});
+
+describe('domain values CSV', () => {
+  test('round-trips values with commas and quotes', () => {
+    const csv = toDomainValuesCsv(document());
+
+    expect(csv).toBe('field,key,name\r\ncolor,red,Red\r\ncolor,blue,"Blue, ""dark"""\r\n');
+    expect(parseDomainValuesCsv(csv)).toEqual([
+      { field: 'color', key: 'red', name: 'Red' },
+      { field: 'color', key: 'blue', name: 'Blue, "dark"' },
+    ]);
+  });
+
+  test('merges rows into the fields of a document', () => {
+    const rows = parseDomainValuesCsv('key,name,field\nred,Crimson,color\ngreen,Green,color\n');
+
+    expect(mergeDomainValues(document(), rows).fields[0].domainValues).toEqual([
+      { key: 'red', name: 'Crimson' },
+      { key: 'blue', name: 'Blue, "dark"' },
+      { key: 'green', name: 'Green' },
+    ]);
+    expect(() => mergeDomainValues(document(), [{ field: 'size', key: 's', name: 'S' }])).toThrow(
+      'The CSV references unknown fields',
+    );
+  });
+});
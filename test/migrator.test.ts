@@ -0,0 +1,156 @@
+import { checksum, Migrator } from '../src/db/migrator';
+import type { Migration } from '../src/db/migrator';
+import { migrations } from '../src/db/migrations';
+import { fakeDatabase } from './support/fake-database';
+
+const migration = (version: number, up = `-- up ${version}`): Migration => ({
+  version,
+  name: `step_${version}`,
+  up,
+  down: `-- down ${version}`,
+});
+
+const [first, second, third] = [migration(1), migration(2), migration(3)];
+
+/**
+ * Keeps `schema_migrations` in memory, starting with `applied`, and records the other statements.
+ */
+const fakeMigrationsDatabase = (applied: Migration[] = []) => {
+  const rows = new Map(
+    applied.map((m) => [
+      m.version,
+      { version: m.version, name: m.name, checksum: checksum(m), applied_at: new Date(0) },
+    ]),
+  );
+  const statements: string[] = [];
+  const { db } = fakeDatabase((sql, values) => {
+    if (sql.startsWith('CREATE TABLE IF NOT EXISTS schema_migrations')) {
+      return undefined;
+    }
+    if (sql.startsWith('SELECT version, name, checksum, applied_at')) {
+      return [...rows.values()].sort((a, b) => a.version - b.version);
+    }
+    if (sql.startsWith('SELECT 1 FROM schema_migrations')) {
+      return rows.has(values[0] as number) ? [{}] : [];
+    }
+
+    statements.push(sql);
+    if (sql.startsWith('INSERT INTO schema_migrations')) {
+      const [version, name, sum] = values as [number, string, string];
+      rows.set(version, { version, name, checksum: sum, applied_at: new Date(0) });
+    } else if (sql.startsWith('DELETE FROM schema_migrations')) {
+      rows.delete(values[0] as number);
+    } else if (sql.startsWith('-- fail')) {
+      throw new Error('syntax error at or near "fail"');
+    }
+    return undefined;
+  });
+
+  return { db, rows, statements };
+};
+
+describe('migrations', () => {
+  test('are numbered from 1 without gaps and can all be reverted', () => {
+    expect(migrations.map((m) => m.version)).toEqual(migrations.map((_, index) => index + 1));
+    expect(migrations.filter((m) => !m.down.trim())).toEqual([]);
+  });
+});
+
+describe('checksum', () => {
+  test('changes with the up and the down script', () => {
+    expect(checksum(first)).toBe(checksum({ ...first, name: 'renamed' }));
+    expect(checksum(first)).not.toBe(checksum({ ...first, up: '-- up 1;' }));
+    expect(checksum(first)).not.toBe(checksum({ ...first, down: '-- down 1;' }));
+  });
+});
+
+describe('Migrator', () => {
+  test('rejects duplicate versions', () => {
+    expect(() => new Migrator(fakeMigrationsDatabase().db, [first, migration(1)])).toThrow(
+      'Duplicate migration version 1',
+    );
+  });
+
+  test('applies pending migrations in version order, each in a transaction holding its lock', async () => {
+    const { db, rows, statements } = fakeMigrationsDatabase([first]);
+
+    const applied = await new Migrator(db, [third, first, second]).up();
+
+    expect(applied).toEqual([second, third]);
+    expect(statements).toEqual([
+      'BEGIN',
+      'SELECT pg_advisory_xact_lock($1, $2)',
+      '-- up 2',
+      expect.stringContaining('INSERT INTO schema_migrations'),
+      'COMMIT',
+      'BEGIN',
+      'SELECT pg_advisory_xact_lock($1, $2)',
+      '-- up 3',
+      expect.stringContaining('INSERT INTO schema_migrations'),
+      'COMMIT',
+    ]);
+    expect(rows.get(3)).toMatchObject({ name: 'step_3', checksum: checksum(third) });
+  });
+
+  test('applies up to the target version', async () => {
+    const { db } = fakeMigrationsDatabase();
+
+    expect(await new Migrator(db, [first, second, third]).up(2)).toEqual([first, second]);
+  });
+
+  test('reports applied, pending, changed and missing migrations', async () => {
+    const { db } = fakeMigrationsDatabase([first, migration(2, '-- up 2, since edited'), migration(4)]);
+
+    const statuses = await new Migrator(db, [first, second, third]).status();
+
+    expect(statuses.map(({ version, state }) => [version, state])).toEqual([
+      [1, 'applied'],
+      [2, 'changed'],
+      [3, 'pending'],
+      [4, 'missing'],
+    ]);
+  });
+
+  test('refuses to apply anything while an applied migration has changed', async () => {
+    const { db, statements } = fakeMigrationsDatabase([migration(1, '-- up 1, since edited')]);
+
+    await expect(new Migrator(db, [first, second]).up()).rejects.toThrow(
+      'Applied migrations have been modified: 1_step_1',
+    );
+    expect(statements).toEqual([]);
+  });
+
+  test('rolls back a failing migration and names it', async () => {
+    const { db, rows, statements } = fakeMigrationsDatabase();
+
+    await expect(new Migrator(db, [first, migration(2, '-- fail')]).up()).rejects.toThrow(
+      'Migration 2_step_2 failed: syntax error at or near "fail"',
+    );
+    expect(statements.slice(-3)).toEqual(['SELECT pg_advisory_xact_lock($1, $2)', '-- fail', 'ROLLBACK']);
+    expect([...rows.keys()]).toEqual([1]);
+  });
+
+  test('reverts the newest migrations first', async () => {
+    const { db, rows, statements } = fakeMigrationsDatabase([first, second, third]);
+
+    expect(await new Migrator(db, [first, second, third]).down(2)).toEqual([third, second]);
+    expect(statements.filter((sql) => sql.startsWith('-- down'))).toEqual(['-- down 3', '-- down 2']);
+    expect([...rows.keys()]).toEqual([1]);
+  });
+
+  test('refuses to revert a migration whose source is gone', async () => {
+    const { db } = fakeMigrationsDatabase([first, second]);
+
+    await expect(new Migrator(db, [first]).down()).rejects.toThrow(
+      'Cannot revert migration 2_step_2: source not found',
+    );
+  });
+
+  test('records a baseline without running the migrations', async () => {
+    const { db, rows, statements } = fakeMigrationsDatabase([first]);
+
+    expect(await new Migrator(db, [first, second, third]).baseline(2)).toEqual([second]);
+    expect(statements.some((sql) => sql.startsWith('-- up'))).toBe(false);
+    expect([...rows.keys()]).toEqual([1, 2]);
+  });
+});
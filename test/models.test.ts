@@ -0,0 +1,223 @@
+import { ModelRepository } from '../src/db/repositories';
+import type { ModelFieldValueRow, ModelTabularValueRow } from '../src/db/repositories';
+import { assertValidRecord, createModel, saveModelCategory, validateModelRecord } from '../src/services/models';
+import type { CategorySchema } from '../src/services/validation';
+import { resolveCategorySchema } from '../src/services/versions';
+import { fakeDatabase } from './support/fake-database';
+
+jest.mock('../src/services/versions', () => ({ resolveCategorySchema: jest.fn() }));
+
+const MODEL_ID = '00000000-0000-4000-8000-0000000000e1';
+const CATEGORY_ID = '00000000-0000-4000-8000-0000000000c1';
+const OTHER_CATEGORY_ID = '00000000-0000-4000-8000-0000000000c2';
+const NAME = '00000000-0000-4000-8000-0000000000f1';
+const COLOR = '00000000-0000-4000-8000-0000000000f2';
+const SIZE = '00000000-0000-4000-8000-0000000000f3';
+const VARIANTS = '00000000-0000-4000-8000-0000000000a1';
+const [RED, BLUE] = ['00000000-0000-4000-8000-0000000000d1', '00000000-0000-4000-8000-0000000000d2'];
+
+const field = (fieldId: string, datatype: string, isRequired = false) => ({
+  fieldId,
+  datatype,
+  metadata: null,
+  validation: null,
+  search: null,
+  isRequired,
+});
+
+const schema: CategorySchema = {
+  category: {
+    categoryId: CATEGORY_ID,
+    categoryMetadata: { name: 'Shirts' },
+    fields: [field(NAME, 'text', true), field(COLOR, 'domain')],
+    conditions: [],
+    tabularGroups: [],
+  },
+  fields: [],
+  domainValues: [
+    { domainValueId: RED, fieldId: COLOR, name: 'Red' },
+    { domainValueId: BLUE, fieldId: COLOR, name: 'Blue' },
+  ],
+};
+
+const modelRow = { id: MODEL_ID, metadata: { name: 'Oxford' }, created_at: new Date(0), updated_at: new Date(0) };
+
+interface StoredModel {
+  links?: { category_id: string; category_version: number | null }[];
+  values?: ModelFieldValueRow[];
+  cells?: ModelTabularValueRow[];
+  deprecated?: string[];
+}
+
+/**
+ * Answers the queries of the model repository from `stored`, or as if the model did not exist.
+ */
+const fakeModelDatabase = (stored?: StoredModel) =>
+  fakeDatabase((sql, values) => {
+    if (sql.startsWith('SELECT * FROM model WHERE') || sql.startsWith('INSERT INTO model (')) {
+      return stored ? [modelRow] : [];
+    }
+    if (sql.startsWith('SELECT category_id, category_version')) {
+      return stored?.links;
+    }
+    if (sql.startsWith('SELECT category_id, field_id, value')) {
+      return stored?.values;
+    }
+    if (sql.startsWith('SELECT r.category_id')) {
+      return stored?.cells;
+    }
+    if (sql.startsWith('SELECT * FROM domain_value')) {
+      return (values[0] as string[]).map((id) => ({
+        id,
+        field_id: COLOR,
+        deprecated_at: stored?.deprecated?.includes(id) ? new Date(0) : null,
+      }));
+    }
+    if (sql.startsWith('INSERT INTO model_tabular_row')) {
+      return [{ id: `row-${values[3]}` }];
+    }
+    return undefined;
+  });
+
+beforeEach(() => {
+  jest.mocked(resolveCategorySchema).mockResolvedValue({ schema, categoryVersion: 3 });
+});
+
+afterEach(() => {
+  jest.mocked(resolveCategorySchema).mockReset();
+});
+
+describe('ModelRepository', () => {
+  test('returns undefined for a missing model', async () => {
+    expect(await new ModelRepository(fakeModelDatabase().db).get(MODEL_ID)).toBeUndefined();
+  });
+
+  test('groups the values and tabular group rows of a model by category', async () => {
+    const { db } = fakeModelDatabase({
+      links: [
+        { category_id: CATEGORY_ID, category_version: 3 },
+        { category_id: OTHER_CATEGORY_ID, category_version: null },
+      ],
+      values: [{ category_id: CATEGORY_ID, field_id: NAME, value: 'Oxford' }],
+      cells: [
+        { category_id: CATEGORY_ID, tabular_group_id: VARIANTS, row_order: 0, field_id: SIZE, value: 'M' },
+        { category_id: CATEGORY_ID, tabular_group_id: VARIANTS, row_order: 0, field_id: COLOR, value: RED },
+        { category_id: CATEGORY_ID, tabular_group_id: VARIANTS, row_order: 1, field_id: null, value: null },
+      ],
+    });
+
+    expect(await new ModelRepository(db).get(MODEL_ID)).toEqual({
+      modelId: MODEL_ID,
+      metadata: { name: 'Oxford' },
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+      categories: [
+        {
+          categoryId: CATEGORY_ID,
+          categoryVersion: 3,
+          values: { [NAME]: 'Oxford' },
+          tabularGroups: { [VARIANTS]: [{ [SIZE]: 'M', [COLOR]: RED }, {}] },
+        },
+        { categoryId: OTHER_CATEGORY_ID, categoryVersion: null, values: {}, tabularGroups: {} },
+      ],
+    });
+  });
+
+  test('replaces the values of a category, storing rows in input order and skipping nulls', async () => {
+    const { db, calls, writes } = fakeModelDatabase({});
+
+    await new ModelRepository(db).setCategoryValues(MODEL_ID, CATEGORY_ID, {
+      categoryVersion: 3,
+      values: { [NAME]: 'Oxford', [COLOR]: null },
+      tabularGroups: { [VARIANTS]: [{ [SIZE]: 'M' }, { [SIZE]: null }] },
+    });
+
+    expect(writes().map((sql) => (sql.match(/^(INSERT INTO|DELETE FROM|UPDATE) \w+/) as string[])[0])).toEqual([
+      'INSERT INTO model_category',
+      'DELETE FROM model_field_value',
+      'DELETE FROM model_tabular_row',
+      'INSERT INTO model_field_value',
+      'INSERT INTO model_tabular_row',
+      'INSERT INTO model_tabular_value',
+      'INSERT INTO model_tabular_row',
+      'UPDATE model',
+    ]);
+    const valuesOf = (table: string) =>
+      calls()
+        .filter(({ sql }) => sql.startsWith(`INSERT INTO ${table} `))
+        .map(({ values }) => values);
+    expect(valuesOf('model_field_value')).toEqual([[MODEL_ID, CATEGORY_ID, [NAME], ['"Oxford"']]]);
+    expect(valuesOf('model_tabular_value')).toEqual([['row-0', [SIZE], ['"M"']]]);
+  });
+});
+
+describe('validateModelRecord', () => {
+  test('rejects newly chosen deprecated domain values but keeps those the model already holds', async () => {
+    const { db } = fakeModelDatabase({ deprecated: [RED, BLUE] });
+    const record = { values: { [NAME]: 'Oxford', [COLOR]: RED } };
+
+    expect(await validateModelRecord(db, schema, record)).toEqual({
+      valid: false,
+      errors: [expect.objectContaining({ code: 'deprecated', message: `Domain value ${RED} is deprecated` })],
+    });
+    expect(await validateModelRecord(db, schema, record, record)).toEqual({ valid: true, errors: [] });
+  });
+
+  test('reports rule violations without looking up domain values', async () => {
+    const { query, db } = fakeModelDatabase({});
+
+    const result = await validateModelRecord(db, schema, { values: { [COLOR]: RED } });
+
+    expect(result).toEqual({ valid: false, errors: [expect.objectContaining({ code: 'required', fieldId: NAME })] });
+    expect(query).not.toHaveBeenCalled();
+  });
+});
+
+describe('model service', () => {
+  test('stores the values of a new model pinned to the version they were validated against', async () => {
+    const { query, db } = fakeModelDatabase({});
+
+    await createModel(db, {
+      metadata: { name: 'Oxford' },
+      categories: [{ categoryId: CATEGORY_ID, values: { [NAME]: 'Oxford' } }],
+    });
+
+    expect(resolveCategorySchema).toHaveBeenCalledWith(db, CATEGORY_ID, undefined);
+    expect(query).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO model_category'), [
+      MODEL_ID,
+      CATEGORY_ID,
+      3,
+    ]);
+  });
+
+  test('rejects invalid values with a 422 listing the issues, and stores nothing', async () => {
+    const { db, statements, writes } = fakeModelDatabase({});
+
+    await expect(
+      saveModelCategory(db, MODEL_ID, CATEGORY_ID, { values: { [NAME]: 42, [COLOR]: 'purple' } }),
+    ).rejects.toMatchObject({
+      statusCode: 422,
+      message: `Model values are invalid for category ${CATEGORY_ID}`,
+      details: [
+        expect.objectContaining({ fieldId: NAME, code: 'type' }),
+        expect.objectContaining({ fieldId: COLOR, code: 'domain' }),
+      ],
+    });
+    expect(writes()).toEqual([]);
+    expect(statements().slice(-1)).toEqual(['ROLLBACK']);
+  });
+
+  test('answers values for a missing model or category with 404', async () => {
+    const { db } = fakeModelDatabase();
+    await expect(saveModelCategory(db, MODEL_ID, CATEGORY_ID, { values: {} })).rejects.toMatchObject({
+      statusCode: 404,
+      message: `Model ${MODEL_ID} not found`,
+    });
+
+    jest.mocked(resolveCategorySchema).mockResolvedValue(undefined);
+    await expect(assertValidRecord(fakeModelDatabase({}).db, CATEGORY_ID, { values: {} })).rejects.toMatchObject({
+      statusCode: 404,
+      message: `Category ${CATEGORY_ID} not found`,
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { withTransaction } from '../src/db/database';
+import {
+  CategoryRepository,
+  ConditionRepository,
+  FieldRepository,
+  TabularGroupRepository,
+} from '../src/db/repositories';
+import type { FieldRow } from '../src/db/repositories';
+import { fakeDatabase } from './support/fake-database';
+
+const FIELD = '00000000-0000-4000-8000-0000000000f1';
+const CATEGORY = '00000000-0000-4000-8000-0000000000c1';
+const CONDITION = '00000000-0000-4000-8000-0000000000b1';
+const TABULAR_GROUP = '00000000-0000-4000-8000-0000000000a1';
+const [RED, BLUE] = ['00000000-0000-4000-8000-0000000000d1', '00000000-0000-4000-8000-0000000000d2'];
+
+const fieldRow: FieldRow = {
+  id: FIELD,
+  key: 'color',
+  tenant_id: '00000000-0000-4000-8000-000000000001',
+  datatype: 'domain',
+  metadata: { name: 'Color' },
+  validation: null,
+  search: { facet: true },
+};
+
+describe('withTransaction', () => {
+  test('commits the result of a successful function', async () => {
+    const { db, statements } = fakeDatabase();
+
+    expect(await withTransaction(db, async (tx) => (await tx.query('SELECT 1')).rowCount)).toBe(0);
+    expect(statements()).toEqual(['BEGIN', 'SELECT 1', 'COMMIT']);
+  });
+
+  test('rolls back and rethrows when the function fails', async () => {
+    const { db, statements } = fakeDatabase();
+
+    await expect(
+      withTransaction(db, async () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+    expect(statements()).toEqual(['BEGIN', 'ROLLBACK']);
+  });
+
+  test('joins the outer transaction when nested on the same client', async () => {
+    const { db, statements } = fakeDatabase();
+
+    await withTransaction(db, (tx) => withTransaction(tx, (inner) => inner.query('SELECT 1')));
+
+    expect(statements()).toEqual(['BEGIN', 'SELECT 1', 'COMMIT']);
+  });
+});
+
+describe('FieldRepository', () => {
+  test('maps rows to fields and returns undefined for a missing field', async () => {
+    const { db } = fakeDatabase((sql, [id]) =>
+      sql.startsWith('SELECT * FROM field') && id === FIELD ? [fieldRow] : [],
+    );
+    const fields = new FieldRepository(db);
+
+    expect(await fields.get(FIELD)).toEqual({
+      fieldId: FIELD,
+      datatype: 'domain',
+      metadata: { name: 'Color' },
+      validation: null,
+      search: { facet: true },
+    });
+    expect(await fields.get(CATEGORY)).toBeUndefined();
+  });
+
+  test('creates a field and its domain values in one transaction', async () => {
+    const { query, db, statements } = fakeDatabase((sql, values) => {
+      if (sql.startsWith('INSERT INTO field')) {
+        return [fieldRow];
+      }
+      if (sql.startsWith('INSERT INTO domain_value')) {
+        return [{ id: values[3], field_id: values[1], name: values[3] }];
+      }
+      return undefined;
+    });
+
+    const field = await new FieldRepository(db).create({ datatype: 'domain', domainValues: ['Red', 'Blue'] });
+
+    expect(field.fieldId).toBe(FIELD);
+    expect(statements().map((sql) => sql.split(' (')[0])).toEqual([
+      'BEGIN',
+      'INSERT INTO field',
+      'INSERT INTO domain_value',
+      'INSERT INTO domain_value',
+      'COMMIT',
+    ]);
+    expect(query.mock.calls[1][1]).toEqual([null, 'domain', null, null, null]);
+    expect(query.mock.calls[2][1]).toEqual([null, FIELD, null, 'Red', null, null]);
+  });
+
+  test('updates only the properties present in the input', async () => {
+    const { query, db } = fakeDatabase(() => [fieldRow]);
+
+    await new FieldRepository(db).update(FIELD, { metadata: null, search: { facet: false } });
+
+    const [, values] = query.mock.calls[0];
+    expect(values).toEqual([FIELD, false, null, true, null, false, null, true, { facet: false }]);
+  });
+
+  test('unlinks a field before deleting it and reports whether it existed', async () => {
+    const { db, statements } = fakeDatabase();
+
+    expect(await new FieldRepository(db).delete(FIELD)).toBe(false);
+    expect(statements().map((sql) => sql.split(' WHERE')[0])).toEqual([
+      'BEGIN',
+      'DELETE FROM condition_domain_value',
+      'DELETE FROM domain_value',
+      'DELETE FROM category_field',
+      'DELETE FROM tabular_group_field',
+      'DELETE FROM field',
+      'COMMIT',
+    ]);
+  });
+});
+
+describe('ConditionRepository', () => {
+  test('keeps the domain values a condition still has and upserts the others', async () => {
+    const domainValues = [{ domainValueId: RED, conditionGroupId: 'a', fieldId: FIELD }];
+    const { query, db, statements } = fakeDatabase((sql) => {
+      if (sql.startsWith('SELECT 1 FROM condition')) {
+        return [{}];
+      }
+      if (sql.includes('FROM condition cond')) {
+        return [{ id: CONDITION, domain_values: domainValues }];
+      }
+      return undefined;
+    });
+
+    const condition = await new ConditionRepository(db).update(CONDITION, [
+      { domainValueId: RED, conditionGroupId: 'a' },
+    ]);
+
+    expect(condition).toEqual({ conditionId: CONDITION, domainValues });
+    expect(statements()[2]).toBe(
+      'DELETE FROM condition_domain_value WHERE condition_id = $1 AND domain_value_id <> ALL ($2::uuid[])',
+    );
+    expect(query.mock.calls[2][1]).toEqual([CONDITION, [RED]]);
+    expect(statements()[3]).toContain('ON CONFLICT (condition_id, domain_value_id) DO UPDATE');
+    expect(query.mock.calls[3][1]).toEqual([CONDITION, 'a', RED]);
+  });
+
+  test('changes nothing when the condition does not exist', async () => {
+    const { db, statements } = fakeDatabase();
+
+    expect(await new ConditionRepository(db).update(CONDITION, [{ domainValueId: BLUE }])).toBeUndefined();
+    expect(statements()).toEqual(['BEGIN', 'SELECT 1 FROM condition WHERE id = $1 FOR UPDATE', 'COMMIT']);
+  });
+});
+
+describe('TabularGroupRepository', () => {
+  test('orders fields without a fieldOrder by their position in the input', async () => {
+    const { query, db } = fakeDatabase((sql) => {
+      if (sql.startsWith('INSERT INTO tabular_group (id)')) {
+        return [{ id: TABULAR_GROUP }];
+      }
+      if (sql.includes('FROM tabular_group tg')) {
+        return [{ id: TABULAR_GROUP, fields: [] }];
+      }
+      return undefined;
+    });
+
+    await new TabularGroupRepository(db).create({
+      fields: [{ fieldId: FIELD }, { fieldId: RED, fieldOrder: 5 }, { fieldId: BLUE }],
+    });
+
+    const inserted = query.mock.calls
+      .filter(([sql]) => sql.startsWith('INSERT INTO tabular_group_field'))
+      .map(([, values]) => values);
+    expect(inserted).toEqual([
+      [TABULAR_GROUP, FIELD, 1],
+      [TABULAR_GROUP, RED, 5],
+      [TABULAR_GROUP, BLUE, 3],
+    ]);
+  });
+});
+
+describe('CategoryRepository', () => {
+  test('defaults the arrays missing from a definition document', async () => {
+    const { db } = fakeDatabase(() => [
+      {
+        definition: {
+          category_id: CATEGORY,
+          category_metadata: { name: 'Shirts' },
+          fields: null,
+          conditions: [{ conditionId: CONDITION, domainValues: null }],
+          tabulargroups: [{ tabularGroupId: TABULAR_GROUP, validation: null, fields: null }],
+        },
+      },
+    ]);
+
+    expect(await new CategoryRepository(db).get(CATEGORY)).toEqual({
+      categoryId: CATEGORY,
+      categoryMetadata: { name: 'Shirts' },
+      fields: [],
+      conditions: [{ conditionId: CONDITION, domainValues: [] }],
+      tabularGroups: [{ tabularGroupId: TABULAR_GROUP, validation: null, fields: [] }],
+    });
+  });
+
+  test('reads no definition when the caller already has its version', async () => {
+    const { query, db } = fakeDatabase((_, [, knownVersion]) => [
+      { version: '7', definition: knownVersion === '7' ? null : { category_id: CATEGORY } },
+    ]);
+
+    expect(await new CategoryRepository(db).getVersioned(CATEGORY, '7')).toEqual({ version: '7' });
+    expect(query.mock.calls[0][1]).toEqual([CATEGORY, '7']);
+  });
+
+  test('rolls back a create whose field has neither a fieldId nor a datatype', async () => {
+    const { db, statements } = fakeDatabase((sql) =>
+      sql.startsWith('INSERT INTO category ') ? [{ id: CATEGORY, metadata: null }] : undefined,
+    );
+
+    await expect(new CategoryRepository(db).create({ metadata: {}, fields: [{ isRequired: true }] })).rejects.toThrow(
+      'Category fields need either a fieldId or a datatype',
+    );
+    expect(statements().slice(-1)).toEqual(['ROLLBACK']);
+  });
+});
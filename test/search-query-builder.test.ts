@@ -0,0 +1,61 @@
+import { SearchQueryBuilder } from '../src/services/search';
+import type { CategoryDefinition } from '../src/db/repositories';
+
+const CATEGORY = '00000000-0000-4000-8000-0000000000ff';
+const COLOR = '00000000-0000-4000-8000-000000000001';
+const PRICE = '00000000-0000-4000-8000-000000000002';
+const NAME = '00000000-0000-4000-8000-000000000003';
+
+const category: CategoryDefinition = {
+  categoryId: CATEGORY,
+  categoryMetadata: null,
+  fields: [
+    { fieldId: COLOR, datatype: 'domain', search: { filterable: true, facet: true } },
+    { fieldId: PRICE, datatype: 'number', search: { filterable: true, sortable: true } },
+    { fieldId: NAME, datatype: 'text', search: { searchable: true } },
+  ].map((field) => ({ ...field, metadata: null, validation: null, isRequired: false })),
+  conditions: [],
+  tabularGroups: [],
+};
+
+describe('SearchQueryBuilder', () => {
+  test('parameterizes the query, filters, sort and pagination', () => {
+    const { text, values } = new SearchQueryBuilder(category, {
+      categoryId: CATEGORY,
+      query: 'red shirt',
+      filters: [
+        { fieldId: COLOR, op: 'in', value: ['a', 'b'] },
+        { fieldId: PRICE, op: 'between', value: [5, 10] },
+      ],
+      sort: [{ fieldId: PRICE, direction: 'desc' }],
+      limit: 10,
+      offset: 20,
+    }).page();
+
+    expect(values).toEqual([CATEGORY, [NAME], 'red shirt', COLOR, ['"a"', '"b"'], PRICE, 5, 10, PRICE, 10, 20]);
+    expect(text).toContain(`plainto_tsquery('simple', $3)`);
+    expect(text).toContain('v.value @> ANY($5::jsonb[])');
+    expect(text).toContain('BETWEEN $7::numeric AND $8::numeric');
+    expect(text).toContain('DESC NULLS LAST');
+    expect(text).toContain('LIMIT $10 OFFSET $11');
+    expect(text).not.toContain('red shirt');
+  });
+
+  test('facets every facet field by default', () => {
+    expect(new SearchQueryBuilder(category, { categoryId: CATEGORY }).facets()?.values).toEqual([CATEGORY, [COLOR]]);
+    expect(new SearchQueryBuilder(category, { categoryId: CATEGORY, facets: [] }).facets()).toBeUndefined();
+  });
+
+  test('rejects fields that are not configured for the requested feature', () => {
+    const build = (request: object) => () =>
+      new SearchQueryBuilder(category, { categoryId: CATEGORY, ...request }).page();
+
+    expect(build({ filters: [{ fieldId: NAME, op: 'eq', value: 'x' }] })).toThrow(`Field ${NAME} is not filterable`);
+    expect(build({ sort: [{ fieldId: COLOR }] })).toThrow(`Field ${COLOR} is not sortable`);
+    expect(build({ filters: [{ fieldId: PRICE, op: 'gt', value: '5' }] })).toThrow('expects a number');
+    expect(build({ filters: [{ fieldId: CATEGORY, op: 'exists' }] })).toThrow('is not part of category');
+    expect(() => new SearchQueryBuilder(category, { categoryId: CATEGORY, facets: [PRICE] }).facets()).toThrow(
+      `Field ${PRICE} is not facet`,
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import type { Field } from '../src/db/repositories';
+import { fixtureSets, generateSeedSet, resolveModelFixture } from '../src/services/seed';
+import type { SeedSet } from '../src/services/seed';
+import { planImport } from '../src/services/transfer';
+import type { FieldDocument, MetadataDocument } from '../src/services/transfer';
+import { CategoryValidator } from '../src/services/validation';
+import type { CategorySchema } from '../src/services/validation';
+
+const empty: MetadataDocument = {
+  format: 'metadata/v1',
+  fields: [],
+  tabularGroups: [],
+  conditions: [],
+  categories: [],
+};
+
+const find = <T extends { key: string }>(items: T[], key: string): T => items.find((item) => item.key === key) as T;
+
+const toField = ({ key, datatype, metadata, validation, search }: FieldDocument): Field => ({
+  fieldId: key,
+  datatype,
+  metadata,
+  validation,
+  search,
+});
+
+/**
+ * Builds a category schema from a document, using keys as ids.
+ */
+const schemaOf = (document: MetadataDocument, categoryKey: string): CategorySchema => {
+  const category = find(document.categories, categoryKey);
+
+  return {
+    category: {
+      categoryId: category.key,
+      categoryMetadata: category.metadata,
+      fields: category.fields.map(({ field, isRequired }) => ({
+        ...toField(find(document.fields, field)),
+        isRequired,
+      })),
+      conditions: category.conditions.map((key) => ({
+        conditionId: key,
+        domainValues: find(document.conditions, key).domainValues.map((value) => ({
+          domainValueId: `${value.field}/${value.domainValue}`,
+          conditionGroupId: value.conditionGroupId,
+          fieldId: value.field,
+        })),
+      })),
+      tabularGroups: category.tabularGroups.map(({ tabularGroup, validation }) => ({
+        tabularGroupId: tabularGroup,
+        validation,
+        fields: find(document.tabularGroups, tabularGroup).fields.map(({ field, fieldOrder }) => ({
+          fieldId: field,
+          fieldOrder,
+        })),
+      })),
+    },
+    fields: document.fields.map(toField),
+    domainValues: document.fields.flatMap((field) =>
+      field.domainValues.map((value) => ({
+        domainValueId: `${field.key}/${value.key}`,
+        fieldId: field.key,
+        name: value.name,
+      })),
+    ),
+  };
+};
+
+const invalidModels = ({ document, models }: SeedSet) =>
+  models.flatMap((model) =>
+    resolveModelFixture(model, document, (_, key) => key)
+      .categories!.map(({ categoryId, values, tabularGroups }) => ({
+        modelId: model.modelId,
+        ...new CategoryValidator(schemaOf(document, categoryId)).validate({ values, tabularGroups }),
+      }))
+      .filter((result) => !result.valid),
+  );
+
+describe('generateSeedSet', () => {
+  test('generates the same set for the same options', () => {
+    expect(generateSeedSet({ seed: 7, categories: 2 })).toEqual(generateSeedSet({ seed: 7, categories: 2 }));
+    expect(generateSeedSet({ seed: 8, categories: 2 }).models).not.toEqual(
+      generateSeedSet({ seed: 7, categories: 2 }).models,
+    );
+  });
+
+  test('keeps the categories and models of a smaller scale', () => {
+    const small = generateSeedSet({ categories: 2, modelsPerCategory: 3 });
+    const large = generateSeedSet({ categories: 4, modelsPerCategory: 5 });
+
+    expect(large.document.categories.slice(0, 2)).toEqual(small.document.categories);
+    small.models.forEach((model) => expect(large.models).toContainEqual(model));
+  });
+
+  test('generates a valid document with every datatype, condition groups and tabular groups', () => {
+    const { document } = generateSeedSet({ categories: 3, fieldsPerCategory: 10 });
+
+    expect(new Set(document.fields.map((field) => field.datatype))).toEqual(
+      new Set(['text', 'number', 'integer', 'boolean', 'date', 'datetime', 'domain', 'json']),
+    );
+    expect(document.conditions).toHaveLength(3);
+    document.conditions.forEach((condition) =>
+      condition.domainValues.forEach((value) => expect(value.conditionGroupId).toMatch(/^[0-9a-f-]{36}$/)),
+    );
+    expect(document.tabularGroups).toHaveLength(3);
+    expect(planImport(empty, document).changes).toHaveLength(
+      document.fields.length +
+        document.fields.reduce((count, field) => count + field.domainValues.length, 0) +
+        document.tabularGroups.length +
+        document.conditions.length +
+        document.categories.length,
+    );
+  });
+});
+
+describe('fixture sets', () => {
+  test.each(fixtureSets.map((set): [string, SeedSet] => [set.name, set]))('%s is a valid document', (_, set) => {
+    expect(() => planImport(empty, set.document)).not.toThrow();
+    expect(invalidModels(set)).toEqual([]);
+  });
+
+  test('generated models are valid at any scale', () => {
+    expect(
+      invalidModels(generateSeedSet({ seed: 3, categories: 3, fieldsPerCategory: 20, modelsPerCategory: 25 })),
+    ).toEqual([]);
+  });
+
+  test('models referencing unknown records are refused', () => {
+    const [set] = fixtureSets.filter((fixture) => fixture.models.length > 0);
+
+    expect(() =>
+      resolveModelFixture(set.models[0], set.document, (recordType, key) => (recordType === 'field' ? undefined : key)),
+    ).toThrow(expect.objectContaining({ statusCode: 422 }));
+  });
+});
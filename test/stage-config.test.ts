@@ -0,0 +1,115 @@
+import * as cdk from 'aws-cdk-lib';
+import { getStageConfig, stages, StageName, validateStageConfig } from '../lib/config';
+import type { StageConfig } from '../lib/config';
+
+const { dev, staging, prod } = stages;
+
+describe('validateStageConfig', () => {
+  test.each(Object.keys(stages) as StageName[])('accepts the %s stage', (stage) => {
+    expect(validateStageConfig(stages[stage])).toBe(stages[stage]);
+  });
+
+  test.each<[string, StageConfig, string]>([
+    [
+      'functions outside the VPC of a private cluster without the Data API',
+      { ...staging, database: { ...staging.database, dataApi: false } },
+      'functions outside the VPC need the Data API or a publicly accessible cluster',
+    ],
+    [
+      'a private cluster in the default VPC',
+      { ...dev, publicAccess: false, database: { ...dev.database, dataApi: true } },
+      'a private cluster needs the isolated subnets of a dedicated VPC',
+    ],
+    [
+      'functions in the default VPC',
+      { ...dev, lambdaInVpc: true },
+      'functions in the VPC need the private isolated subnets of a dedicated VPC',
+    ],
+    [
+      'an RDS Proxy for functions outside the VPC',
+      { ...staging, database: { ...staging.database, proxy: true } },
+      'the RDS Proxy is only reachable from functions in the VPC',
+    ],
+    [
+      'password rotation in the default VPC',
+      { ...dev, database: { ...dev.database, rotationDays: 30 } },
+      'password rotation runs in the isolated subnets of a dedicated VPC',
+    ],
+    [
+      'a negative minimum capacity',
+      { ...prod, database: { ...prod.database, minCapacity: -1 } },
+      'ACU range must satisfy 0 <= minCapacity <= maxCapacity',
+    ],
+    [
+      'a maximum capacity below the minimum',
+      { ...prod, database: { ...prod.database, minCapacity: 4, maxCapacity: 2 } },
+      'ACU range must satisfy 0 <= minCapacity <= maxCapacity',
+    ],
+    [
+      'a fractional number of readers',
+      { ...prod, database: { ...prod.database, readers: 1.5 } },
+      'readers must be a non-negative integer',
+    ],
+    [
+      'a negative number of readers',
+      { ...prod, database: { ...prod.database, readers: -1 } },
+      'readers must be a non-negative integer',
+    ],
+    [
+      'no backup retention',
+      { ...prod, database: { ...prod.database, backupRetentionDays: 0 } },
+      'backupRetentionDays must be between 1 and 35',
+    ],
+    [
+      'a backup retention beyond 35 days',
+      { ...prod, database: { ...prod.database, backupRetentionDays: 36 } },
+      'backupRetentionDays must be between 1 and 35',
+    ],
+    [
+      'a zero health check interval',
+      { ...prod, monitoring: { healthCheckMinutes: 0 } },
+      'monitoring.healthCheckMinutes must be a positive integer',
+    ],
+    [
+      'a fractional relay interval',
+      { ...prod, changeEvents: { relayIntervalMinutes: 0.5 } },
+      'changeEvents.relayIntervalMinutes must be a positive integer',
+    ],
+  ])('rejects %s', (_, config, reason) => {
+    expect(() => validateStageConfig(config)).toThrow(`Invalid configuration for stage ${config.stage}: ${reason}`);
+  });
+});
+
+describe('getStageConfig', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  test('selects the stage named in the context', () => {
+    expect(getStageConfig(new cdk.App({ context: { stage: 'staging' } }))).toMatchObject({
+      stage: 'staging',
+      stackName: 'VitkuzServerlessAuroraTestStack-staging',
+    });
+  });
+
+  test('falls back to the CLI account and region for stages that do not pin them', () => {
+    process.env = { ...env, CDK_DEFAULT_ACCOUNT: '111111111111', CDK_DEFAULT_REGION: 'eu-west-1' };
+
+    expect(getStageConfig(new cdk.App({ context: { stage: 'prod' } })).env).toEqual({
+      account: '111111111111',
+      region: 'eu-west-1',
+    });
+    expect(getStageConfig(new cdk.App({ context: { stage: 'prod', region: 'eu-central-1' } })).env).toEqual({
+      account: '111111111111',
+      region: 'eu-central-1',
+    });
+  });
+
+  test('lists the known stages when the stage is unknown', () => {
+    expect(() => getStageConfig(new cdk.App({ context: { stage: 'qa' } }))).toThrow(
+      'Unknown stage "qa", expected one of: dev, staging, prod',
+    );
+  });
+});
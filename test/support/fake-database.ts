@@ -0,0 +1,29 @@
+import type { QueryResult, QueryResultRow } from 'pg';
+import type { Database } from '../../src/db/database';
+
+/**
+ * Picks the rows of a statement, given with its whitespace collapsed. Throwing fails the query.
+ */
+export type QueryAnswer = (sql: string, values: unknown[]) => QueryResultRow[] | undefined;
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * A database answering each query with the rows `answer` returns for it, and no rows by default.
+ */
+export const fakeDatabase = (answer: QueryAnswer = () => undefined) => {
+  const db: Database = {
+    query: async <TRow extends QueryResultRow>(text: string, values: unknown[] = []): Promise<QueryResult<TRow>> => {
+      const rows = (answer(collapse(text), values) ?? []) as TRow[];
+      return { command: '', oid: 0, fields: [], rowCount: rows.length, rows };
+    },
+  };
+  const query = jest.spyOn(db, 'query');
+
+  // The statements run, with their whitespace collapsed, and their values
+  const calls = () => query.mock.calls.map(([text, values]) => ({ sql: collapse(text), values }));
+  const statements = () => calls().map(({ sql }) => sql);
+  const writes = () => statements().filter((sql) => /^(INSERT|UPDATE|DELETE)/.test(sql));
+
+  return { db, query, calls, statements, writes };
+};
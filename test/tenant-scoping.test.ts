@@ -0,0 +1,91 @@
+import type { APIGatewayProxyEvent, Context } from 'aws-lambda';
+import { withTenantConnection } from '../src/db/connection';
+import { withTenant } from '../src/db/database';
+import { handler } from '../src/functions/categories';
+import { fakeDatabase } from './support/fake-database';
+
+jest.mock('../src/db/connection', () => ({ withTenantConnection: jest.fn() }));
+
+const TENANT_ID = '5a7b8c9d-6e0f-4a1b-9c2d-3e4f5a6b7c8d';
+
+const lambdaContext = { awsRequestId: 'request-1', functionName: 'Categories' } as Context;
+
+/**
+ * Scopes every connection with the real `withTenant` on a database answering each query with no rows.
+ */
+const mockDatabase = () => {
+  const database = fakeDatabase();
+  jest.mocked(withTenantConnection).mockImplementation(async (session, fn) => withTenant(database.db, session, fn));
+
+  return database;
+};
+
+const listCategoriesEvent = (claims: Record<string, string>) =>
+  ({
+    httpMethod: 'GET',
+    resource: '/categories',
+    path: '/categories',
+    headers: {},
+    queryStringParameters: null,
+    pathParameters: null,
+    body: null,
+    requestContext: { authorizer: { claims } },
+  }) as unknown as APIGatewayProxyEvent;
+
+beforeAll(() => {
+  // The handlers' structured logs
+  (['log', 'warn', 'error'] as const).forEach((level) =>
+    jest.spyOn(console, level).mockImplementation(() => undefined),
+  );
+});
+
+afterEach(() => {
+  jest.mocked(withTenantConnection).mockReset();
+});
+
+describe('tenant scoping', () => {
+  test('sets the tenant, user and request before the queries of the request, in one transaction', async () => {
+    const { calls, statements } = mockDatabase();
+
+    const response = await handler(
+      listCategoriesEvent({ sub: 'user', 'custom:roles': 'viewer', 'custom:tenant_id': TENANT_ID }),
+      lambdaContext,
+    );
+
+    expect(response.statusCode).toBe(200);
+    expect(withTenantConnection).toHaveBeenCalledWith(
+      { tenantId: TENANT_ID, userId: 'user', requestId: 'request-1' },
+      expect.any(Function),
+    );
+    const [begin, scope, ...rest] = calls();
+    expect(begin.sql).toBe('BEGIN');
+    expect(scope).toEqual({
+      sql: expect.stringContaining("set_config('app.tenant_id', $1::text, true)"),
+      values: [TENANT_ID, 'user', 'request-1'],
+    });
+    expect(rest[0].sql).toContain('FROM category_definition');
+    expect(statements().slice(-1)).toEqual(['COMMIT']);
+  });
+
+  test('refuses callers without a tenant claim', async () => {
+    const response = await handler(listCategoriesEvent({ sub: 'user', 'custom:roles': 'viewer' }), lambdaContext);
+
+    expect(response.statusCode).toBe(403);
+    expect(withTenantConnection).not.toHaveBeenCalled();
+  });
+
+  test('reports writes rejected by row level security as forbidden', async () => {
+    jest
+      .mocked(withTenantConnection)
+      .mockRejectedValue(
+        Object.assign(new Error('new row violates row-level security policy for table "category"'), { code: '42501' }),
+      );
+
+    const response = await handler(
+      listCategoriesEvent({ sub: 'user', 'custom:roles': 'viewer', 'custom:tenant_id': TENANT_ID }),
+      lambdaContext,
+    );
+
+    expect(response.statusCode).toBe(403);
+  });
+});
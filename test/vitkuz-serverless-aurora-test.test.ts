@@ -1,17 +1,394 @@
-// import * as cdk from 'aws-cdk-lib';
-// import { Template } from 'aws-cdk-lib/assertions';
-// import * as VitkuzServerlessAuroraTest from '../lib/vitkuz-serverless-aurora-test-stack';
-
-// example test. To run these tests, uncomment this file along with the
-// example resource in lib/vitkuz-serverless-aurora-test-stack.ts
-test('SQS Queue Created', () => {
-//   const app = new cdk.App();
-//     // WHEN
-//   const stack = new VitkuzServerlessAuroraTest.VitkuzServerlessAuroraTestStack(app, 'MyTestStack');
-//     // THEN
-//   const template = Template.fromStack(stack);
-
-//   template.hasResourceProperties('AWS::SQS::Queue', {
-//     VisibilityTimeout: 300
-//   });
+import * as cdk from 'aws-cdk-lib';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import * as VitkuzServerlessAuroraTest from '../lib/vitkuz-serverless-aurora-test-stack';
+
+import { getStageConfig, stages, StageName, validateStageConfig } from '../lib/config';
+
+const ACCOUNT = '123456789012';
+const REGION = 'us-east-1';
+
+/**
+ * Context answering the stack's lookups (default VPC, availability zones), so synthesis never calls AWS.
+ */
+const lookupContext = (account: string, region: string) => ({
+  [`vpc-provider:account=${account}:filter.isDefault=true:region=${region}:returnAsymmetricSubnets=true`]: {
+    vpcId: 'vpc-12345678',
+    vpcCidrBlock: '172.31.0.0/16',
+    ownerAccountId: account,
+    availabilityZones: [],
+    subnetGroups: [
+      {
+        name: 'Public',
+        type: 'Public',
+        subnets: ['a', 'b'].map((zone, index) => ({
+          subnetId: `subnet-${index + 1}`,
+          cidr: `172.31.${index * 16}.0/20`,
+          availabilityZone: `${region}${zone}`,
+          routeTableId: 'rtb-12345678',
+        })),
+      },
+    ],
+  },
+  [`availability-zones:account=${account}:region=${region}`]: ['a', 'b', 'c'].map((zone) => `${region}${zone}`),
+});
+
+const createApp = (stage: StageName) => {
+  // dev pins its account; the other stages deploy to whatever account the CLI targets
+  const { account = ACCOUNT, region = REGION } = stages[stage].env;
+
+  return new cdk.App({
+    context: {
+      ...lookupContext(account, region),
+      stage,
+      account,
+      region,
+      // Skip esbuild; function code is not part of the assertions
+      'aws:cdk:bundling-stacks': [],
+    },
+  });
+};
+
+const synth = (stage: StageName): Template => {
+  const app = createApp(stage);
+  const config = getStageConfig(app);
+  const stack = new VitkuzServerlessAuroraTest.VitkuzServerlessAuroraTestStack(app, 'MyTestStack', {
+    env: config.env,
+    config,
+  });
+
+  return Template.fromStack(stack);
+};
+
+beforeAll(() => {
+  // DBLambdaFunction carries the synth time in DEPLOY_TIME
+  jest.spyOn(Date, 'now').mockReturnValue(0);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('VitkuzServerlessAuroraTestStack in dev', () => {
+  let template: Template;
+
+  beforeAll(() => {
+    template = synth('dev');
+  });
+
+  test('creates an Aurora Serverless v2 PostgreSQL 16 cluster using the generated secret', () => {
+    template.resourceCountIs('AWS::RDS::DBCluster', 1);
+    template.hasResourceProperties('AWS::RDS::DBCluster', {
+      Engine: 'aurora-postgresql',
+      EngineVersion: Match.stringLikeRegexp('^16\\.'),
+      DatabaseName: 'devdb',
+      MasterUsername: {
+        'Fn::Join': [
+          '',
+          [
+            '{{resolve:secretsmanager:',
+            { Ref: Match.stringLikeRegexp('^DatabaseSecret') },
+            ':SecretString:username::}}',
+          ],
+        ],
+      },
+    });
+    template.hasResourceProperties('AWS::RDS::DBInstance', {
+      DBInstanceClass: 'db.serverless',
+      Engine: 'aurora-postgresql',
+    });
+    template.hasResourceProperties('AWS::SecretsManager::Secret', {
+      GenerateSecretString: Match.objectLike({
+        GenerateStringKey: 'password',
+        SecretStringTemplate: JSON.stringify({ username: 'postgres' }),
+      }),
+    });
+  });
+
+  test('passes the secret and the cluster endpoint to DBLambdaFunction', () => {
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Runtime: 'nodejs20.x',
+      Timeout: 900,
+      Environment: {
+        Variables: Match.objectLike({
+          DB_BACKEND: 'pg',
+          DB_SECRET_ARN: { Ref: Match.stringLikeRegexp('^DatabaseSecretAttachment') },
+          DB_HOST: { 'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseCluster'), 'Endpoint.Address'] },
+          DB_SSL_MODE: 'verify-full',
+        }),
+      },
+    });
+  });
+
+  test('grants DBLambdaFunction read access to the secret', () => {
+    const roles = template.findResources('AWS::IAM::Role');
+    const dbLambdaRole = Object.keys(roles).find((id) => id.startsWith('DBLambdaFunctionServiceRole'));
+
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: ['secretsmanager:GetSecretValue', 'secretsmanager:DescribeSecret'],
+            Effect: 'Allow',
+            Resource: { Ref: Match.stringLikeRegexp('^DatabaseSecretAttachment') },
+          }),
+        ]),
+      },
+      Roles: [{ Ref: dbLambdaRole }],
+    });
+  });
+
+  test('opens PostgreSQL on the cluster security group', () => {
+    template.hasResourceProperties('AWS::EC2::SecurityGroup', {
+      GroupDescription: 'Allow public access to PostgreSQL',
+      VpcId: 'vpc-12345678',
+      SecurityGroupIngress: [
+        Match.objectLike({ CidrIp: '0.0.0.0/0', FromPort: 5432, ToPort: 5432, IpProtocol: 'tcp' }),
+      ],
+      SecurityGroupEgress: [Match.objectLike({ CidrIp: '0.0.0.0/0' })],
+    });
+    template.hasResourceProperties('AWS::EC2::SecurityGroup', {
+      GroupDescription: 'Functions connecting to the Aurora PostgreSQL cluster',
+    });
+  });
+
+  test('exposes the endpoint, secret, function name, event bus and API URL as outputs', () => {
+    template.hasOutput('DBEndpoint', {
+      Value: { 'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseCluster'), 'Endpoint.Address'] },
+    });
+    template.hasOutput('DBSecretArn', { Value: { Ref: Match.stringLikeRegexp('^DatabaseSecretAttachment') } });
+    template.hasOutput('FunctionName', { Value: { Ref: Match.stringLikeRegexp('^DBLambdaFunction') } });
+    template.hasOutput('AlarmTopicArn', { Value: { Ref: Match.stringLikeRegexp('^DatabaseMonitoringAlarmTopic') } });
+    template.hasOutput('EventBusName', { Value: { Ref: Match.stringLikeRegexp('^ChangeEventsEventBus') } });
+    template.hasOutput('ApiUrl', {});
+    template.hasOutput('UserPoolId', { Value: { Ref: Match.stringLikeRegexp('^UserPool') } });
+    template.hasOutput('UserPoolClientId', { Value: { Ref: Match.stringLikeRegexp('^UserPoolApiClient') } });
+  });
+
+  test('runs the diagnostics on a schedule and alarms on their metrics', () => {
+    const diagnostics = { 'Fn::GetAtt': [Match.stringLikeRegexp('^DBLambdaFunction'), 'Arn'] };
+    template.hasResourceProperties('AWS::Events::Rule', {
+      ScheduleExpression: 'rate(15 minutes)',
+      Targets: [Match.objectLike({ Arn: diagnostics })],
+    });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Timeout: 900,
+      Environment: { Variables: Match.objectLike({ METRICS_NAMESPACE: 'MyTestStack/Database' }) },
+    });
+    // Seven database alarms and the two change event alarms
+    template.resourceCountIs('AWS::CloudWatch::Alarm', 9);
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Metrics: [
+        Match.objectLike({
+          MetricStat: Match.objectLike({
+            Metric: { Namespace: 'MyTestStack/Database', MetricName: 'HealthCheckFailed' },
+            Period: 900,
+          }),
+        }),
+      ],
+      TreatMissingData: 'breaching',
+      AlarmActions: [{ Ref: Match.stringLikeRegexp('^DatabaseMonitoringAlarmTopic') }],
+    });
+    template.resourceCountIs('AWS::CloudWatch::Dashboard', 1);
+  });
+
+  test('relays change events to an event bus on a schedule', () => {
+    const relay = { 'Fn::GetAtt': [Match.stringLikeRegexp('^OutboxRelayFunction'), 'Arn'] };
+    template.hasResourceProperties('AWS::Events::EventBus', { Name: 'MyTestStack-changes' });
+    template.hasResourceProperties('AWS::Events::Rule', {
+      ScheduleExpression: 'rate(5 minutes)',
+      Targets: [Match.objectLike({ Arn: relay })],
+    });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Environment: {
+        Variables: Match.objectLike({
+          EVENT_BUS_NAME: { Ref: Match.stringLikeRegexp('^ChangeEventsEventBus') },
+          EVENT_SOURCE: 'MyTestStack.metadata',
+          METRICS_NAMESPACE: 'MyTestStack/ChangeEvents',
+          DB_BACKEND: 'pg',
+        }),
+      },
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([
+          Match.objectLike({
+            Action: 'events:PutEvents',
+            Resource: { 'Fn::GetAtt': [Match.stringLikeRegexp('^ChangeEventsEventBus'), 'Arn'] },
+          }),
+        ]),
+      },
+    });
+    template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+      Metrics: [
+        Match.objectLike({
+          MetricStat: Match.objectLike({
+            Metric: { Namespace: 'MyTestStack/ChangeEvents', MetricName: 'OldestPendingSeconds' },
+          }),
+        }),
+      ],
+      Threshold: 900,
+      AlarmActions: [{ Ref: Match.stringLikeRegexp('^DatabaseMonitoringAlarmTopic') }],
+    });
+  });
+
+  test('attaches the auth triggers to the user pool', () => {
+    const trigger = { 'Fn::GetAtt': [Match.stringLikeRegexp('^AuthTriggersFunction'), 'Arn'] };
+    template.hasResourceProperties('AWS::Cognito::UserPool', {
+      LambdaConfig: { PreSignUp: trigger, PostConfirmation: trigger, PreTokenGeneration: trigger },
+      UsernameAttributes: ['email'],
+      Schema: [Match.objectLike({ Name: 'organization', Mutable: false })],
+    });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Timeout: 5,
+      Environment: {
+        Variables: Match.objectLike({ DB_BACKEND: 'pg', DB_CONNECT_TIMEOUT_MS: '1500', DB_CONNECT_RETRIES: '1' }),
+      },
+    });
+  });
+
+  test('requires a Cognito token on every API method', () => {
+    template.hasResourceProperties('AWS::ApiGateway::Authorizer', {
+      Type: 'COGNITO_USER_POOLS',
+      ProviderARNs: [{ 'Fn::GetAtt': [Match.stringLikeRegexp('^UserPool'), 'Arn'] }],
+    });
+    template.allResourcesProperties('AWS::ApiGateway::Method', {
+      AuthorizationType: 'COGNITO_USER_POOLS',
+      AuthorizerId: { Ref: Match.stringLikeRegexp('^ApiAuthorizer') },
+    });
+  });
+});
+
+describe('VitkuzServerlessAuroraTestStack in prod', () => {
+  let template: Template;
+
+  beforeAll(() => {
+    template = synth('prod');
+  });
+
+  test('sizes, protects and retains the cluster', () => {
+    template.hasResource('AWS::RDS::DBCluster', {
+      DeletionPolicy: 'Retain',
+      Properties: Match.objectLike({
+        DeletionProtection: true,
+        BackupRetentionPeriod: 30,
+        ServerlessV2ScalingConfiguration: { MinCapacity: 0.5, MaxCapacity: 16 },
+      }),
+    });
+    template.resourceCountIs('AWS::RDS::DBInstance', 2);
+    template.allResourcesProperties('AWS::RDS::DBInstance', { PubliclyAccessible: false });
+  });
+
+  test('keeps the cluster in isolated subnets, reachable only through the proxy', () => {
+    template.resourceCountIs('AWS::EC2::NatGateway', 0);
+    template.resourceCountIs('AWS::EC2::InternetGateway', 0);
+    template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+      GroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseSecurityGroup'), 'GroupId'] },
+      SourceSecurityGroupId: {
+        'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseClusterProxyProxySecurityGroup'), 'GroupId'],
+      },
+    });
+    template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+      GroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseClusterProxyProxySecurityGroup'), 'GroupId'] },
+      FromPort: 5432,
+      SourceSecurityGroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseClientSecurityGroup'), 'GroupId'] },
+    });
+    template.hasResourceProperties('AWS::EC2::SecurityGroup', {
+      GroupDescription: 'Aurora PostgreSQL cluster',
+      SecurityGroupIngress: Match.absent(),
+    });
+    template.hasResourceProperties('AWS::RDS::DBProxy', { RequireTLS: true });
+  });
+
+  test('runs every function in the VPC with Secrets Manager and EventBridge endpoints', () => {
+    template.allResourcesProperties('AWS::Lambda::Function', {
+      VpcConfig: {
+        SecurityGroupIds: [{ 'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseClientSecurityGroup'), 'GroupId'] }],
+        SubnetIds: Match.arrayWith([{ Ref: Match.stringLikeRegexp('^VpcIsolatedSubnet') }]),
+      },
+    });
+    template.hasResourceProperties('AWS::EC2::VPCEndpoint', {
+      ServiceName: `com.amazonaws.${REGION}.secretsmanager`,
+      PrivateDnsEnabled: true,
+    });
+    template.hasResourceProperties('AWS::EC2::VPCEndpoint', {
+      ServiceName: `com.amazonaws.${REGION}.events`,
+      PrivateDnsEnabled: true,
+    });
+  });
+});
+
+describe('VitkuzServerlessAuroraTestStack in staging', () => {
+  let template: Template;
+
+  beforeAll(() => {
+    template = synth('staging');
+  });
+
+  test('runs the functions outside the VPC against the Data API', () => {
+    template.hasResourceProperties('AWS::RDS::DBCluster', { EnableHttpEndpoint: true });
+    template.allResourcesProperties('AWS::Lambda::Function', { VpcConfig: Match.absent() });
+    template.hasResourceProperties('AWS::Lambda::Function', {
+      Handler: 'index.handler',
+      Environment: {
+        Variables: {
+          DB_BACKEND: 'data-api',
+          DB_SECRET_ARN: { Ref: Match.stringLikeRegexp('^DatabaseSecretAttachment') },
+          DB_NAME: 'devdb',
+          DB_CLUSTER_ARN: Match.anyValue(),
+          DEPLOY_TIME: '0',
+        },
+      },
+    });
+    template.hasResourceProperties('AWS::IAM::Policy', {
+      PolicyDocument: {
+        Statement: Match.arrayWith([Match.objectLike({ Action: Match.arrayWith(['rds-data:ExecuteStatement']) })]),
+      },
+    });
+  });
+
+  test('opens PostgreSQL to the rotation function only', () => {
+    template.resourceCountIs('AWS::EC2::SecurityGroupIngress', 1);
+    template.hasResourceProperties('AWS::EC2::SecurityGroupIngress', {
+      GroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseSecurityGroup'), 'GroupId'] },
+      SourceSecurityGroupId: { 'Fn::GetAtt': [Match.stringLikeRegexp('^DatabaseClientSecurityGroup'), 'GroupId'] },
+    });
+    template.resourceCountIs('AWS::Serverless::Application', 1);
+    template.hasResourceProperties('AWS::EC2::SecurityGroup', {
+      GroupDescription: 'Aurora PostgreSQL cluster',
+      SecurityGroupIngress: Match.absent(),
+    });
+  });
+});
+
+describe('getStageConfig', () => {
+  test('defaults to dev and applies account and region overrides', () => {
+    const app = new cdk.App({ context: { account: ACCOUNT } });
+
+    expect(getStageConfig(app)).toMatchObject({ stage: 'dev', env: { account: ACCOUNT, region: 'us-east-1' } });
+  });
+
+  test('rejects unknown stages and unworkable combinations', () => {
+    expect(() => getStageConfig(new cdk.App({ context: { stage: 'qa' } }))).toThrow('Unknown stage "qa"');
+    expect(() => validateStageConfig({ ...stages.prod, lambdaInVpc: false })).toThrow(
+      'functions outside the VPC need the Data API or a publicly accessible cluster',
+    );
+    expect(() =>
+      validateStageConfig({ ...stages.dev, publicAccess: false, database: stages.staging.database }),
+    ).toThrow('a private cluster needs the isolated subnets of a dedicated VPC');
+    expect(() => validateStageConfig({ ...stages.dev, lambdaInVpc: true })).toThrow(
+      'need the private isolated subnets',
+    );
+    expect(() => validateStageConfig({ ...stages.dev, monitoring: { healthCheckMinutes: 0 } })).toThrow(
+      'healthCheckMinutes',
+    );
+    expect(() => validateStageConfig({ ...stages.dev, changeEvents: { relayIntervalMinutes: 0.5 } })).toThrow(
+      'relayIntervalMinutes',
+    );
+  });
+});
+
+describe.each(Object.keys(stages) as StageName[])('VitkuzServerlessAuroraTestStack snapshot', (stage) => {
+  test(`matches the ${stage} template`, () => {
+    expect(synth(stage).toJSON()).toMatchSnapshot();
+  });
 });